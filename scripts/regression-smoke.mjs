@@ -1,5 +1,7 @@
+import assert from "node:assert/strict";
 import fs from "node:fs";
 import path from "node:path";
+import { build } from "esbuild";
 
 const checks = [
   {
@@ -22,9 +24,189 @@ const checks = [
   },
   {
     file: "src/components/AddSessionDialog.tsx",
-    snippets: ["initialBedType?: AttendanceBedType", "setBedType(initialBedType ?? \"reformer\")"],
+    snippets: ["initialBedType?: AttendanceBedType", "setBedType(initialBedType ?? defaultBedType)"],
     label: "Bed preselection in dialog",
   },
+  {
+    file: "src/pages/Calendar.tsx",
+    snippets: ["createSessionSeries(", "week-session-chip-series", "<SeriesScopeDialog"],
+    label: "Recurring session series",
+  },
+  {
+    file: "src/pages/Calendar.tsx",
+    snippets: ["buildScheduleConfig(", "buildSlotStarts(", "week-slot-closed"],
+    label: "Configurable opening hours and slots",
+  },
+  {
+    file: "src/pages/Calendar.tsx",
+    snippets: [".filter(matchesInstructorFilter)", "filter-chip-active", "instructor_id:"],
+    label: "Instructor assignment and filter",
+  },
+  {
+    file: "src/pages/Payroll.tsx",
+    snippets: ["buildPayrollRows(", "downloadCsv(", "PAY_RATE_TYPE_LABELS"],
+    label: "Instructor payroll",
+  },
+  {
+    file: "src/pages/ClientProfile.tsx",
+    snippets: ["allocateSessionsToPackages(", "summarizeClientBalance(", "handleAddPackage"],
+    label: "Lesson packages balance",
+  },
+  {
+    file: "src/pages/ClientProfile.tsx",
+    snippets: ["buildClientLedger(", "<AddPaymentDialog", "deleteTransactionMutation"],
+    label: "Payment ledger",
+  },
+  {
+    file: "src/pages/CloseDay.tsx",
+    snippets: ["summarizeTransactionsByMethod(", "upsertCashReconciliation(", "cash_difference"],
+    label: "Daily cash reconciliation",
+  },
+  {
+    file: "src/pages/ClientProfile.tsx",
+    snippets: ["issueReceipt(", "printReceipt(", "formatReceiptNumber("],
+    label: "Payment receipts",
+  },
+  {
+    file: "src/pages/Clients.tsx",
+    snippets: ["<DeactivateClientDialog", "<EditClientDialog", "is_active: true"],
+    label: "Client editing and deactivation",
+  },
+  {
+    file: "src/components/AddSessionDialog.tsx",
+    snippets: ["getClientHealthWarnings(", "health-badge"],
+    label: "Client health warnings",
+  },
+  {
+    file: "src/pages/ClientProfile.tsx",
+    snippets: ["<SignConsentDialog", "getConsentStatus(", "fetchConsentsForClient("],
+    label: "Client consents",
+  },
+  {
+    file: "src/components/AddSessionDialog.tsx",
+    snippets: ["hasValidWaiver(", "isMissingWaiver"],
+    label: "Missing waiver warning",
+  },
+  {
+    file: "src/pages/Import.tsx",
+    snippets: ["parseCsv(", "buildClientImportRows(", "buildPaymentImportRows(", "runInBatches("],
+    label: "CSV import",
+  },
+  {
+    file: "src/pages/Payments.tsx",
+    snippets: ["<ExportButtons", "exportTable(format"],
+    label: "Payments export",
+  },
+  {
+    file: "src/pages/Summary.tsx",
+    snippets: ["<ExportButtons", "rows: filteredClientControlRows"],
+    label: "Summary export",
+  },
+  {
+    file: "src/pages/Payments.tsx",
+    snippets: ["<TagFilter", "<SegmentPicker", "matchesClientSegment("],
+    label: "Client tags and segments",
+  },
+  {
+    file: "src/components/AddSessionDialog.tsx",
+    snippets: ["<TagFilter", "hasAllTags("],
+    label: "Tag filter in session dialog",
+  },
+  {
+    file: "src/pages/ClientDuplicates.tsx",
+    snippets: ["findDuplicateClientGroups(", "mergeClients(", "fetchClientMergeLog("],
+    label: "Duplicate client merge",
+  },
+  {
+    file: "src/pages/Calendar.tsx",
+    snippets: ["fetchWaitlistForRange(", "groupWaitlistBySlot(", "acceptWaitlistOffer(", "onAddToWaitlist="],
+    label: "Slot waitlist",
+  },
+  {
+    file: "src/pages/Calendar.tsx",
+    snippets: ["onDragStart=", "onDrop=", "handleMoveSession(", "findClientTimeConflict(", "isUniqueViolation(", "Αναίρεση"],
+    label: "Drag-and-drop reschedule",
+  },
+  {
+    file: "src/pages/ClientProfile.tsx",
+    snippets: ["fetchLateCancelsForClient(", "waiveLateCancel(", "sumLateCancelFees("],
+    label: "Late cancels on client profile",
+  },
+  {
+    file: "src/lib/packages.ts",
+    snippets: [".filter(consumesLesson)"],
+    label: "Late cancels consume package lessons",
+  },
+  {
+    file: "src/components/AddSessionDialog.tsx",
+    snippets: ["fetchMakeupCreditsForClient(", "isMakeupCreditUsableOn(", "makeupCreditId"],
+    label: "Make-up credit redemption on booking",
+  },
+  {
+    file: "src/pages/Summary.tsx",
+    snippets: ["countUsableCreditsByClient(", "row.makeupCredits"],
+    label: "Make-up credits in month control",
+  },
+  {
+    file: "src/lib/holidays.ts",
+    snippets: ["getOrthodoxEaster(", "getGreekPublicHolidays("],
+    label: "Greek public holidays",
+  },
+  {
+    file: "src/pages/Calendar.tsx",
+    snippets: ["fetchClosuresForRange(", "findClosureForSlot(", "closures={closuresByDate.get(dateKey)}"],
+    label: "Closures greyed out in calendar",
+  },
+  {
+    file: "src/components/AddSessionDialog.tsx",
+    snippets: ["findClosureAt(", "isBookingIntoClosure"],
+    label: "Booking on closures blocked",
+  },
+  {
+    file: "src/pages/ClassTypes.tsx",
+    snippets: ["addClassType(", "updateClassType("],
+    label: "Class type management",
+  },
+  {
+    file: "src/components/ClassSessionsPanel.tsx",
+    snippets: ["addClassRosterEntry(", "countRosterPlaces(", "formatRosterError("],
+    label: "Class rosters in day view",
+  },
+  {
+    file: "src/pages/Calendar.tsx",
+    snippets: ["setAttendanceStatuses", "<RollCallPanel", "Παρουσίες ημέρας"],
+    label: "Slot and day roll call",
+  },
+  {
+    file: "src/components/AddSessionDialog.tsx",
+    snippets: ["getDefaultSessionStatus(", "isStatusAllowed("],
+    label: "Booked default for future sessions",
+  },
+  {
+    file: "src/components/DayCell.tsx",
+    snippets: ["status-booked"],
+    label: "Booked pill in month view",
+  },
+  {
+    file: "src/routes/ProtectedRoute.tsx",
+    snippets: ['role === "kiosk"', '"/kiosk"'],
+    label: "Kiosk mode confined to check-in route",
+  },
+  {
+    file: "src/pages/Kiosk.tsx",
+    snippets: ["fetchKioskBookings", "kioskCheckIn", "exitKioskMode("],
+    label: "Kiosk check-in page",
+  },
+  {
+    file: "src/auth/AuthProvider.tsx",
+    snippets: ["signInAnonymously(", "claimKioskPairing(", "revokeKioskDevice("],
+    label: "Kiosk runs as a paired anonymous session",
+  },
+  {
+    file: "sql/schema.sql",
+    snippets: ["kiosk_pin_attempts", "kiosk_pin_locked", "kiosk_not_paired"],
+    label: "Kiosk functions gated by device pairing and PIN lockout",
+  },
   {
     file: "src/pages/Payments.tsx",
     snippets: ["handleCopyPreviousMonth", "copyCandidates.length"],
@@ -56,6 +238,295 @@ for (const check of checks) {
   }
 }
 
+// Behaviour checks run the pure helpers of src/lib. Dates are built in local time, like the app does.
+const helperModules = ["recurrence", "payroll", "lateCancel", "payments", "holidays", "closures", "rollCall", "sessionStatus"];
+
+function buildSession(overrides) {
+  return {
+    id: "session-1",
+    user_id: "user-1",
+    client_id: "client-1",
+    session_date: "2025-06-10",
+    time_start: "09:00:00",
+    duration_minutes: 60,
+    bed_type: "reformer",
+    status: "booked",
+    notes: null,
+    series_id: null,
+    instructor_id: null,
+    canceled_at: null,
+    late_cancel_outcome: null,
+    late_cancel_fee: null,
+    class_session_id: null,
+    checked_in_at: null,
+    created_at: "2025-06-01T08:00:00Z",
+    ...overrides,
+  };
+}
+
+const behaviourChecks = [
+  {
+    label: "Series scope edits start today for past occurrences",
+    run: ({ recurrence }) => {
+      assert.equal(recurrence.getSeriesChangeStart("all", "2025-07-01", "2025-06-10"), "2025-06-10");
+      assert.equal(recurrence.getSeriesChangeStart("following", "2025-07-01", "2025-06-10"), "2025-07-01");
+      assert.equal(recurrence.getSeriesChangeStart("following", "2025-05-01", "2025-06-10"), "2025-06-10");
+    },
+  },
+  {
+    label: "Series delete keeps started sessions and late cancels",
+    run: ({ recurrence }) => {
+      const now = new Date(2025, 5, 10, 9, 30);
+      const sessions = [
+        buildSession({ id: "started", session_date: "2025-06-10", time_start: "09:00:00", status: "attended" }),
+        buildSession({ id: "later-today", session_date: "2025-06-10", time_start: "18:00:00" }),
+        buildSession({
+          id: "late-cancel",
+          session_date: "2025-06-17",
+          status: "canceled",
+          late_cancel_outcome: "fee",
+          late_cancel_fee: 10,
+        }),
+        buildSession({ id: "canceled", session_date: "2025-06-24", status: "canceled" }),
+      ];
+      assert.deepEqual(
+        recurrence.getRemovableSeriesSessions(sessions, now).map((session) => session.id),
+        ["later-today", "canceled"],
+      );
+    },
+  },
+  {
+    label: "Series occurrences honour interval, end date and count",
+    run: ({ recurrence }) => {
+      assert.deepEqual(
+        recurrence.buildSeriesOccurrenceDates("2025-03-24", { intervalWeeks: 2, endDate: "2025-04-21", occurrenceCount: null }),
+        ["2025-03-24", "2025-04-07", "2025-04-21"],
+      );
+      assert.deepEqual(
+        recurrence.buildSeriesOccurrenceDates("2025-10-20", { intervalWeeks: 1, endDate: null, occurrenceCount: 3 }),
+        ["2025-10-20", "2025-10-27", "2025-11-03"],
+      );
+    },
+  },
+  {
+    label: "Payroll pays attended and no-show, counts booked apart from canceled",
+    run: ({ payroll }) => {
+      const instructor = (id, fullName, isActive) => ({
+        id,
+        user_id: "user-1",
+        full_name: fullName,
+        is_active: isActive,
+        created_at: "",
+        updated_at: "",
+      });
+      const rate = (id, bedType, rateType, amount) => ({
+        id,
+        user_id: "user-1",
+        instructor_id: "instructor-a",
+        bed_type: bedType,
+        rate_type: rateType,
+        amount,
+        created_at: "",
+        updated_at: "",
+      });
+      const taught = (id, overrides) => buildSession({ id, instructor_id: "instructor-a", ...overrides });
+      const sessions = [
+        taught("a1", { status: "attended" }),
+        taught("a2", { status: "no_show" }),
+        taught("a3", { status: "booked" }),
+        taught("a4", { status: "canceled" }),
+        taught("b1", { bed_type: "mat", time_start: "10:00:00", duration_minutes: 45, status: "attended" }),
+        taught("b2", { bed_type: "mat", time_start: "10:00:00", duration_minutes: 45, status: "attended" }),
+        taught("c1", { bed_type: "mat", session_date: "2025-06-11", status: "booked" }),
+        buildSession({ id: "d1", instructor_id: "instructor-b", status: "attended" }),
+      ];
+      const rows = payroll.buildPayrollRows(
+        sessions,
+        [instructor("instructor-a", "Άννα", true), instructor("instructor-b", "Βάσω", false), instructor("instructor-c", "Γιώτα", true)],
+        [rate("rate-1", "reformer", "per_session", 12), rate("rate-2", null, "per_hour", 30)],
+        50,
+      );
+
+      assert.deepEqual(
+        rows.map((row) => [row.fullName, row.attended, row.noShow, row.canceled, row.booked, row.paidHours, row.amount, row.missingRate]),
+        [
+          ["Άννα", 3, 1, 1, 2, 1.75, 46.5, false],
+          ["Βάσω", 1, 0, 0, 0, 1, 0, true],
+          ["Γιώτα", 0, 0, 0, 0, 0, 0, false],
+        ],
+      );
+      assert.deepEqual(
+        rows[0].classes.map((payrollClass) => [payrollClass.key, payrollClass.booked, payrollClass.amount]),
+        [
+          ["2025-06-10|09:00|reformer", 1, 24],
+          ["2025-06-10|10:00|mat", 0, 22.5],
+          ["2025-06-11|09:00|mat", 1, 0],
+        ],
+      );
+    },
+  },
+  {
+    label: "Late cancel cutoff follows the studio policy window",
+    run: ({ lateCancel }) => {
+      const session = buildSession({ session_date: "2025-06-10", time_start: "18:00:00" });
+      const policy = { late_cancel_policy: "fee", late_cancel_hours: 12 };
+      assert.equal(lateCancel.isPastLateCancelCutoff(session, policy, new Date(2025, 5, 10, 5, 59)), false);
+      assert.equal(lateCancel.isPastLateCancelCutoff(session, policy, new Date(2025, 5, 10, 6, 1)), true);
+      assert.equal(
+        lateCancel.isPastLateCancelCutoff(session, { ...policy, late_cancel_policy: "none" }, new Date(2025, 5, 10, 17)),
+        false,
+      );
+      assert.equal(
+        lateCancel.isPastLateCancelCutoff({ ...session, status: "canceled" }, policy, new Date(2025, 5, 10, 17)),
+        false,
+      );
+    },
+  },
+  {
+    label: "Late cancel charges use a lesson or add an unpaid fee",
+    run: ({ lateCancel, payments }) => {
+      const sessions = [
+        buildSession({ id: "attended", status: "attended" }),
+        buildSession({ id: "lesson", status: "canceled", late_cancel_outcome: "lesson" }),
+        buildSession({ id: "fee-1", status: "canceled", late_cancel_outcome: "fee", late_cancel_fee: 15 }),
+        buildSession({ id: "fee-2", status: "canceled", late_cancel_outcome: "fee", late_cancel_fee: 10 }),
+        buildSession({ id: "timely", status: "canceled" }),
+        buildSession({ id: "no-show", status: "no_show" }),
+      ];
+      assert.deepEqual(
+        sessions.filter(lateCancel.consumesLesson).map((session) => session.id),
+        ["attended", "lesson"],
+      );
+      assert.equal(lateCancel.sumLateCancelFees(sessions), 25);
+
+      const payment = (id, amount, packageId) => ({
+        id,
+        user_id: "user-1",
+        client_id: "client-1",
+        package_id: packageId,
+        amount,
+        paid_on: "2025-06-11",
+        method: "cash",
+        notes: null,
+        created_at: "",
+      });
+      assert.equal(payments.getUnpaidLateCancelFees(sessions, [payment("p1", 50, "package-1"), payment("p2", 15, null)]), 10);
+      assert.equal(payments.getUnpaidLateCancelFees(sessions, [payment("p3", 40, null)]), 0);
+    },
+  },
+  {
+    label: "Greek holidays follow Orthodox Easter",
+    run: ({ holidays }) => {
+      const easterIso = (year) => {
+        const easter = holidays.getOrthodoxEaster(year);
+        return [easter.getFullYear(), easter.getMonth() + 1, easter.getDate()]
+          .map((part) => String(part).padStart(2, "0"))
+          .join("-");
+      };
+      assert.deepEqual([2023, 2024, 2025, 2026].map(easterIso), ["2023-04-16", "2024-05-05", "2025-04-20", "2026-04-12"]);
+
+      const dates2025 = holidays.getGreekPublicHolidays(2025).map((holiday) => holiday.date);
+      assert.equal(dates2025.length, 13);
+      assert.deepEqual(dates2025, [...dates2025].sort());
+      for (const date of ["2025-03-03", "2025-04-18", "2025-04-21", "2025-06-09", "2025-12-26"]) {
+        assert.ok(dates2025.includes(date), `missing ${date}`);
+      }
+    },
+  },
+  {
+    label: "Closures cover full days and time ranges",
+    run: ({ closures }) => {
+      const closure = (id, startsOn, endsOn, startTime, endTime) => ({
+        id,
+        user_id: "user-1",
+        starts_on: startsOn,
+        ends_on: endsOn,
+        start_time: startTime,
+        end_time: endTime,
+        reason: id,
+        source: "manual",
+        created_at: "",
+      });
+      const holiday = closure("holiday", "2025-08-14", "2025-08-16", null, null);
+      const afternoon = closure("afternoon", "2025-08-18", "2025-08-18", "14:00:00", "17:00:00");
+
+      const byDate = closures.groupClosuresByDate([holiday, afternoon], "2025-08-15", "2025-08-19");
+      assert.deepEqual([...byDate.keys()], ["2025-08-15", "2025-08-16", "2025-08-18"]);
+
+      assert.equal(closures.findClosureAt([holiday, afternoon], "2025-08-14", "09:00:00")?.id, "holiday");
+      assert.equal(closures.findClosureAt([holiday, afternoon], "2025-08-17", "09:00:00"), null);
+      assert.equal(closures.findClosureAt([holiday, afternoon], "2025-08-18", "13:00:00"), null);
+      assert.equal(closures.findClosureAt([holiday, afternoon], "2025-08-18", "14:00:00")?.id, "afternoon");
+      assert.equal(closures.findClosureAt([holiday, afternoon], "2025-08-18", "17:00:00"), null);
+      assert.equal(closures.findClosureForSlot(byDate.get("2025-08-18"), 13 * 60 + 30, 60)?.id, "afternoon");
+    },
+  },
+  {
+    label: "Roll call lists started sessions and sends only changes",
+    run: ({ rollCall }) => {
+      const now = new Date(2025, 5, 10, 10, 0);
+      const sessions = [
+        buildSession({ id: "booked", time_start: "09:00:00", status: "booked" }),
+        buildSession({ id: "attended", time_start: "09:00:00", status: "attended" }),
+        buildSession({ id: "canceled", time_start: "09:00:00", status: "canceled" }),
+        buildSession({ id: "upcoming", time_start: "11:00:00", status: "booked" }),
+      ];
+      const rollCallSessions = rollCall.getRollCallSessions(sessions, now);
+      assert.deepEqual(
+        rollCallSessions.map((session) => session.id),
+        ["booked", "attended"],
+      );
+
+      const draft = rollCall.buildRollCallDraft(rollCallSessions);
+      assert.deepEqual(rollCall.getRollCallChanges(rollCallSessions, draft), []);
+      assert.deepEqual(rollCall.getRollCallChanges(rollCallSessions, { ...draft, booked: "no_show" }), [
+        { id: "booked", status: "no_show" },
+      ]);
+    },
+  },
+  {
+    label: "Session status lifecycle waits for the start time",
+    run: ({ sessionStatus }) => {
+      const session = { session_date: "2025-06-10", time_start: "09:00:00" };
+      const before = new Date(2025, 5, 10, 8, 59);
+      const after = new Date(2025, 5, 10, 9, 0);
+
+      assert.equal(sessionStatus.getDefaultSessionStatus("2025-06-10", "09:00:00", before), "booked");
+      assert.equal(sessionStatus.getDefaultSessionStatus("2025-06-10", "09:00:00", after), "attended");
+      assert.equal(sessionStatus.isStatusAllowed("attended", session, before), false);
+      assert.equal(sessionStatus.isStatusAllowed("no_show", session, before), false);
+      assert.equal(sessionStatus.isStatusAllowed("canceled", session, before), true);
+      assert.equal(sessionStatus.isStatusAllowed("attended", session, after), true);
+      assert.deepEqual(sessionStatus.getStatusOptions(session, before), ["booked", "canceled"]);
+      assert.deepEqual(sessionStatus.getStatusOptions(session, after), ["attended", "canceled", "no_show"]);
+    },
+  },
+];
+
+const bundle = await build({
+  stdin: {
+    contents: helperModules.map((name) => `export * as ${name} from "./src/lib/${name}";`).join("\n"),
+    resolveDir: process.cwd(),
+    loader: "ts",
+  },
+  bundle: true,
+  format: "esm",
+  platform: "node",
+  write: false,
+  logLevel: "silent",
+});
+const helpers = await import(`data:text/javascript;base64,${Buffer.from(bundle.outputFiles[0].text).toString("base64")}`);
+
+for (const check of behaviourChecks) {
+  try {
+    check.run(helpers);
+    console.log(`[OK] ${check.label}`);
+  } catch (error) {
+    console.error(`[FAIL] ${check.label}: ${error instanceof Error ? error.message : String(error)}`);
+    failed = true;
+  }
+}
+
 if (failed) {
   process.exit(1);
 }
@@ -49,7 +49,6 @@ create table if not exists public.attendance (
     foreign key (client_id, user_id)
     references public.clients(id, user_id)
     on delete cascade,
-  constraint attendance_bed_type_valid check (bed_type in ('reformer', 'cadillac')),
   constraint attendance_status_valid check (status in ('attended', 'canceled', 'no_show')),
   constraint attendance_time_required check (time_start is not null),
   constraint attendance_duration_non_negative check (duration_minutes is null or duration_minutes >= 0),
@@ -124,20 +123,8 @@ begin
 end
 $$;
 
-do $$
-begin
-  if not exists (
-    select 1
-    from pg_constraint
-    where conname = 'attendance_bed_type_valid'
-  ) then
-    alter table public.attendance
-      add constraint attendance_bed_type_valid
-      check (bed_type in ('reformer', 'cadillac'))
-      not valid;
-  end if;
-end
-$$;
+-- Bed types are user-defined studio resources (see public.resources).
+alter table public.attendance drop constraint if exists attendance_bed_type_valid;
 
 do $$
 begin
@@ -566,11 +553,11 @@ declare
   current_user_id uuid := auth.uid();
   settings_row public.automation_settings%rowtype;
   today_date date := current_date;
-  month_start date := date_trunc('month', now())::date;
-  next_month_start date := (date_trunc('month', now()) + interval '1 month')::date;
   task_count integer := 0;
   notification_count integer := 0;
   affected_rows integer := 0;
+  recent_window_start date;
+  previous_window_start date;
   rec record;
 begin
   if current_user_id is null then
@@ -592,6 +579,29 @@ begin
     return;
   end if;
 
+  -- Sessions of past days nobody marked count as attended, before the rules below read them.
+  if settings_row.auto_mark_attended_enabled then
+    update public.attendance a
+    set status = 'attended'
+    where a.user_id = current_user_id
+      and a.status = 'booked'
+      and a.session_date < today_date;
+  end if;
+
+  -- The two 28-day windows count open days only: closure days are skipped and push a window further back,
+  -- so a holiday or a closed August does not read as an attendance drop.
+  select
+    min(open_days.day) filter (where open_days.day_rank <= 28),
+    min(open_days.day)
+  into recent_window_start, previous_window_start
+  from (
+    select d::date as day, row_number() over (order by d desc) as day_rank
+    from generate_series((today_date - 365)::timestamp, today_date::timestamp, interval '1 day') d
+    where not public.is_studio_closed_day(current_user_id, d::date)
+    order by d desc
+    limit 56
+  ) open_days;
+
   if settings_row.no_show_risk_enabled then
     for rec in
       select
@@ -604,8 +614,9 @@ begin
        and c.user_id = a.user_id
       where a.user_id = current_user_id
         and a.status = 'no_show'
-        and a.session_date >= (today_date - interval '28 days')::date
+        and a.session_date >= recent_window_start
         and a.session_date <= today_date
+        and not public.is_studio_closed_day(current_user_id, a.session_date)
       group by a.client_id, c.full_name
       having count(*) >= settings_row.no_show_threshold
     loop
@@ -664,8 +675,9 @@ begin
         from public.attendance a
         where a.user_id = current_user_id
           and a.status = 'attended'
-          and a.session_date >= (today_date - interval '28 days')::date
+          and a.session_date >= recent_window_start
           and a.session_date <= today_date
+          and not public.is_studio_closed_day(current_user_id, a.session_date)
         group by a.client_id
       ),
       attended_previous as (
@@ -675,8 +687,9 @@ begin
         from public.attendance a
         where a.user_id = current_user_id
           and a.status = 'attended'
-          and a.session_date >= (today_date - interval '56 days')::date
-          and a.session_date < (today_date - interval '28 days')::date
+          and a.session_date >= previous_window_start
+          and a.session_date < recent_window_start
+          and not public.is_studio_closed_day(current_user_id, a.session_date)
         group by a.client_id
       )
       select
@@ -741,32 +754,101 @@ begin
   end if;
 
   if settings_row.pending_unpaid_risk_enabled then
+    -- Pending lessons are approximated per client over the packages still valid today:
+    -- their lessons minus used sessions (attended, or late cancels counted as a lesson)
+    -- since the oldest of them was bought. Late cancel fees are owed until payments
+    -- not linked to a package cover them.
     for rec in
-      with attended_current_month as (
+      with open_packages as (
+        select
+          k.client_id,
+          sum(k.lessons)::integer as lessons,
+          min(k.purchase_date) as first_purchase_date,
+          bool_and(k.paid) as all_paid
+        from public.packages k
+        where k.user_id = current_user_id
+          and k.purchase_date <= today_date
+          and (k.expires_on is null or k.expires_on >= today_date)
+        group by k.client_id
+      ),
+      attended_since_purchase as (
         select
           a.client_id,
           count(*)::integer as attended_count
         from public.attendance a
+        join open_packages op
+          on op.client_id = a.client_id
         where a.user_id = current_user_id
-          and a.status = 'attended'
-          and a.session_date >= month_start
-          and a.session_date < next_month_start
+          and (a.status = 'attended' or (a.status = 'canceled' and a.late_cancel_outcome = 'lesson'))
+          and a.session_date >= op.first_purchase_date
+          and a.session_date <= today_date
+        group by a.client_id
+      ),
+      late_cancel_fees as (
+        select a.client_id, sum(a.late_cancel_fee) as fees
+        from public.attendance a
+        where a.user_id = current_user_id
+          and a.status = 'canceled'
+          and a.late_cancel_outcome = 'fee'
         group by a.client_id
+      ),
+      unlinked_payments as (
+        select t.client_id, sum(t.amount) as paid
+        from public.payment_transactions t
+        where t.user_id = current_user_id
+          and t.package_id is null
+        group by t.client_id
+      ),
+      client_risk as (
+        select
+          c.id as client_id,
+          c.full_name,
+          coalesce(greatest(0, op.lessons - coalesce(asp.attended_count, 0)), 0)::integer as pending_lessons,
+          coalesce(
+            not op.all_paid
+              and greatest(0, op.lessons - coalesce(asp.attended_count, 0)) >= settings_row.pending_lessons_threshold,
+            false
+          ) as has_pending_risk,
+          greatest(0, coalesce(lcf.fees, 0) - coalesce(up.paid, 0))::numeric(10, 2) as unpaid_fees
+        from public.clients c
+        left join open_packages op
+          on op.client_id = c.id
+        left join attended_since_purchase asp
+          on asp.client_id = c.id
+        left join late_cancel_fees lcf
+          on lcf.client_id = c.id
+        left join unlinked_payments up
+          on up.client_id = c.id
+        where c.user_id = current_user_id
       )
       select
-        p.client_id,
-        c.full_name,
-        greatest(0, coalesce(p.lessons, 0) - coalesce(acm.attended_count, 0))::integer as pending_lessons
-      from public.payments p
-      join public.clients c
-        on c.id = p.client_id
-       and c.user_id = p.user_id
-      left join attended_current_month acm
-        on acm.client_id = p.client_id
-      where p.user_id = current_user_id
-        and p.month_start = month_start
-        and p.paid = false
-        and greatest(0, coalesce(p.lessons, 0) - coalesce(acm.attended_count, 0)) >= settings_row.pending_lessons_threshold
+        cr.client_id,
+        cr.full_name,
+        cr.pending_lessons,
+        cr.unpaid_fees,
+        case
+          when cr.has_pending_risk and cr.unpaid_fees > 0 then
+            format(
+              'Ο πελάτης %s έχει %s εκκρεμή μαθήματα, είναι απλήρωτος και οφείλει %s € χρεώσεις ακυρώσεων.',
+              cr.full_name, cr.pending_lessons, to_char(cr.unpaid_fees, 'FM999990.00')
+            )
+          when cr.has_pending_risk then
+            format('Ο πελάτης %s έχει %s εκκρεμή μαθήματα και είναι απλήρωτος.', cr.full_name, cr.pending_lessons)
+          else
+            format(
+              'Ο πελάτης %s οφείλει %s € χρεώσεις καθυστερημένων ακυρώσεων.',
+              cr.full_name, to_char(cr.unpaid_fees, 'FM999990.00')
+            )
+        end as details,
+        case
+          when cr.has_pending_risk then
+            format('%s: %s εκκρεμή μαθήματα χωρίς εξόφληση.', cr.full_name, cr.pending_lessons)
+          else
+            format('%s: %s € απλήρωτες χρεώσεις ακυρώσεων.', cr.full_name, to_char(cr.unpaid_fees, 'FM999990.00'))
+        end as notification_body
+      from client_risk cr
+      where cr.has_pending_risk
+        or cr.unpaid_fees > 0
     loop
       insert into public.follow_up_tasks (
         user_id, client_id, rule_key, title, details, priority, status, due_date, updated_at
@@ -775,7 +857,7 @@ begin
         rec.client_id,
         'pending_unpaid_risk',
         'Απλήρωτα με υψηλή εκκρεμότητα',
-        format('Ο πελάτης %s έχει %s εκκρεμή μαθήματα και είναι απλήρωτος.', rec.full_name, rec.pending_lessons),
+        rec.details,
         'medium',
         'open',
         today_date,
@@ -798,7 +880,101 @@ begin
         rec.client_id,
         'pending_unpaid_risk',
         'Follow-up πληρωμής',
-        format('%s: %s εκκρεμή μαθήματα χωρίς εξόφληση.', rec.full_name, rec.pending_lessons),
+        rec.notification_body,
+        today_date,
+        false,
+        now()
+      )
+      on conflict (user_id, client_id, type, created_for_date)
+      do update
+      set title = excluded.title,
+          body = excluded.body,
+          is_read = false;
+
+      get diagnostics affected_rows = row_count;
+      notification_count := notification_count + affected_rows;
+    end loop;
+  end if;
+
+  if settings_row.consent_missing_enabled then
+    -- Per active client and consent type, the consent that stays valid the longest.
+    for rec in
+      with latest_consents as (
+        select distinct on (cc.client_id, cc.consent_type)
+          cc.client_id,
+          cc.consent_type,
+          cc.expires_on
+        from public.client_consents cc
+        where cc.user_id = current_user_id
+          and cc.signed_on <= today_date
+        order by cc.client_id, cc.consent_type, coalesce(cc.expires_on, 'infinity'::date) desc
+      ),
+      consent_issues as (
+        select
+          c.id as client_id,
+          c.full_name,
+          ct.consent_type,
+          case
+            when lc.client_id is null then 'λείπει'
+            when lc.expires_on < today_date then 'έληξε'
+            else format('λήγει %s', to_char(lc.expires_on, 'DD/MM/YYYY'))
+          end as issue,
+          (lc.client_id is null or lc.expires_on < today_date) as is_invalid
+        from public.clients c
+        cross join (values ('waiver', 'Δήλωση απαλλαγής'), ('gdpr', 'Συναίνεση GDPR')) as ct(consent_type, label)
+        left join latest_consents lc
+          on lc.client_id = c.id
+         and lc.consent_type = ct.consent_type
+        where c.user_id = current_user_id
+          and c.is_active = true
+          and (
+            lc.client_id is null
+            or lc.expires_on < today_date + settings_row.consent_expiry_warning_days
+          )
+      )
+      select
+        ci.client_id,
+        ci.full_name,
+        string_agg(
+          format('%s: %s', case ci.consent_type when 'waiver' then 'Δήλωση απαλλαγής' else 'Συναίνεση GDPR' end, ci.issue),
+          ', '
+          order by ci.consent_type desc
+        ) as summary,
+        bool_or(ci.is_invalid) as has_invalid
+      from consent_issues ci
+      group by ci.client_id, ci.full_name
+    loop
+      insert into public.follow_up_tasks (
+        user_id, client_id, rule_key, title, details, priority, status, due_date, updated_at
+      ) values (
+        current_user_id,
+        rec.client_id,
+        'consent_missing',
+        'Εκκρεμής υπογραφή συναίνεσης',
+        format('Ο πελάτης %s: %s.', rec.full_name, rec.summary),
+        case when rec.has_invalid then 'high' else 'medium' end,
+        'open',
+        today_date,
+        now()
+      )
+      on conflict (user_id, client_id, rule_key, due_date)
+      do update
+      set title = excluded.title,
+          details = excluded.details,
+          priority = excluded.priority,
+          updated_at = now();
+
+      get diagnostics affected_rows = row_count;
+      task_count := task_count + affected_rows;
+
+      insert into public.notifications (
+        user_id, client_id, type, title, body, created_for_date, is_read, created_at
+      ) values (
+        current_user_id,
+        rec.client_id,
+        'consent_missing',
+        'Συναίνεση σε εκκρεμότητα',
+        format('%s: %s.', rec.full_name, rec.summary),
         today_date,
         false,
         now()
@@ -826,3 +1002,2741 @@ $$;
 revoke all on function public.refresh_management_signals() from public;
 grant execute on function public.refresh_management_signals() to authenticated;
 
+
+create table if not exists public.session_series (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  start_date date not null,
+  end_date date,
+  occurrence_count integer,
+  interval_weeks integer not null default 1,
+  time_start time not null,
+  duration_minutes integer,
+  bed_type text not null default 'reformer',
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint session_series_client_owner_fkey
+    foreign key (client_id, user_id)
+    references public.clients(id, user_id)
+    on delete cascade,
+  constraint session_series_interval_valid check (interval_weeks in (1, 2)),
+  constraint session_series_end_required check (end_date is not null or occurrence_count is not null),
+  constraint session_series_count_positive check (occurrence_count is null or occurrence_count >= 1),
+  constraint session_series_end_after_start check (end_date is null or end_date >= start_date - 1),
+  constraint session_series_duration_non_negative check (duration_minutes is null or duration_minutes >= 0)
+);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'attendance'
+      and column_name = 'series_id'
+  ) then
+    alter table public.attendance
+      add column series_id uuid references public.session_series(id) on delete set null;
+  end if;
+end
+$$;
+
+create index if not exists idx_session_series_user_client on public.session_series (user_id, client_id);
+create index if not exists idx_attendance_series_date on public.attendance (series_id, session_date);
+
+alter table public.session_series enable row level security;
+
+drop policy if exists session_series_select_own on public.session_series;
+create policy session_series_select_own
+  on public.session_series
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists session_series_insert_own on public.session_series;
+create policy session_series_insert_own
+  on public.session_series
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists session_series_update_own on public.session_series;
+create policy session_series_update_own
+  on public.session_series
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists session_series_delete_own on public.session_series;
+create policy session_series_delete_own
+  on public.session_series
+  for delete
+  using (auth.uid() = user_id);
+
+
+create table if not exists public.resources (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  key text not null,
+  label text not null,
+  capacity integer not null default 4,
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint resources_key_not_blank check (length(trim(key)) > 0),
+  constraint resources_label_not_blank check (length(trim(label)) > 0),
+  constraint resources_capacity_positive check (capacity >= 1),
+  unique (user_id, key)
+);
+
+create index if not exists idx_resources_user_order on public.resources (user_id, sort_order);
+
+alter table public.resources enable row level security;
+
+drop policy if exists resources_select_own on public.resources;
+create policy resources_select_own
+  on public.resources
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists resources_insert_own on public.resources;
+create policy resources_insert_own
+  on public.resources
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists resources_update_own on public.resources;
+create policy resources_update_own
+  on public.resources
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists resources_delete_own on public.resources;
+create policy resources_delete_own
+  on public.resources
+  for delete
+  using (auth.uid() = user_id);
+
+
+create table if not exists public.studio_settings (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  slot_minutes integer not null default 60,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint studio_settings_slot_minutes_valid check (slot_minutes in (15, 30, 60))
+);
+
+-- weekday follows ISO numbering (1 = Monday ... 7 = Sunday, same as extract(isodow ...)).
+create table if not exists public.studio_opening_hours (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  weekday smallint not null,
+  is_closed boolean not null default false,
+  open_time time not null default '08:00',
+  close_time time not null default '23:00',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint studio_opening_hours_weekday_valid check (weekday between 1 and 7),
+  constraint studio_opening_hours_range_valid check (close_time > open_time),
+  unique (user_id, weekday)
+);
+
+alter table public.studio_settings enable row level security;
+alter table public.studio_opening_hours enable row level security;
+
+drop policy if exists studio_settings_select_own on public.studio_settings;
+create policy studio_settings_select_own
+  on public.studio_settings
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists studio_settings_insert_own on public.studio_settings;
+create policy studio_settings_insert_own
+  on public.studio_settings
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists studio_settings_update_own on public.studio_settings;
+create policy studio_settings_update_own
+  on public.studio_settings
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists studio_settings_delete_own on public.studio_settings;
+create policy studio_settings_delete_own
+  on public.studio_settings
+  for delete
+  using (auth.uid() = user_id);
+
+drop policy if exists studio_opening_hours_select_own on public.studio_opening_hours;
+create policy studio_opening_hours_select_own
+  on public.studio_opening_hours
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists studio_opening_hours_insert_own on public.studio_opening_hours;
+create policy studio_opening_hours_insert_own
+  on public.studio_opening_hours
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists studio_opening_hours_update_own on public.studio_opening_hours;
+create policy studio_opening_hours_update_own
+  on public.studio_opening_hours
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists studio_opening_hours_delete_own on public.studio_opening_hours;
+create policy studio_opening_hours_delete_own
+  on public.studio_opening_hours
+  for delete
+  using (auth.uid() = user_id);
+
+
+create table if not exists public.instructors (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  full_name text not null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint instructors_name_not_blank check (length(trim(full_name)) > 0),
+  unique (id, user_id)
+);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'attendance'
+      and column_name = 'instructor_id'
+  ) then
+    alter table public.attendance
+      add column instructor_id uuid;
+  end if;
+
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'attendance_instructor_owner_fkey'
+  ) then
+    alter table public.attendance
+      add constraint attendance_instructor_owner_fkey
+      foreign key (instructor_id, user_id)
+      references public.instructors(id, user_id)
+      on delete set null (instructor_id);
+  end if;
+end
+$$;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'session_series'
+      and column_name = 'instructor_id'
+  ) then
+    alter table public.session_series
+      add column instructor_id uuid;
+  end if;
+
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'session_series_instructor_owner_fkey'
+  ) then
+    alter table public.session_series
+      add constraint session_series_instructor_owner_fkey
+      foreign key (instructor_id, user_id)
+      references public.instructors(id, user_id)
+      on delete set null (instructor_id);
+  end if;
+end
+$$;
+
+-- Saves a series and its sessions together, so a failed booking (slot_full, a policy error)
+-- leaves no empty series behind. Dates where the client already has a session are skipped and
+-- left out of the result; a series that would book nothing is rejected.
+create or replace function public.create_session_series(series_input jsonb, occurrences jsonb)
+returns setof public.attendance
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  new_series public.session_series;
+begin
+  if current_user_id is null then
+    raise exception 'not authenticated';
+  end if;
+
+  insert into public.session_series (
+    user_id,
+    client_id,
+    start_date,
+    end_date,
+    occurrence_count,
+    interval_weeks,
+    time_start,
+    duration_minutes,
+    bed_type,
+    instructor_id,
+    notes
+  )
+  select
+    current_user_id,
+    s.client_id,
+    s.start_date,
+    s.end_date,
+    s.occurrence_count,
+    coalesce(s.interval_weeks, 1),
+    s.time_start,
+    s.duration_minutes,
+    coalesce(s.bed_type, 'reformer'),
+    s.instructor_id,
+    s.notes
+  from jsonb_populate_record(null::public.session_series, series_input) s
+  returning * into new_series;
+
+  return query
+  insert into public.attendance (
+    user_id,
+    client_id,
+    session_date,
+    time_start,
+    duration_minutes,
+    bed_type,
+    instructor_id,
+    status,
+    notes,
+    series_id
+  )
+  select
+    current_user_id,
+    new_series.client_id,
+    o.session_date,
+    new_series.time_start,
+    new_series.duration_minutes,
+    new_series.bed_type,
+    new_series.instructor_id,
+    o.status,
+    new_series.notes,
+    new_series.id
+  from jsonb_to_recordset(occurrences) as o(session_date date, status text)
+  on conflict (user_id, client_id, session_date, time_start) do nothing
+  returning *;
+
+  if not found then
+    raise exception 'series_no_sessions: every occurrence clashes with an existing session';
+  end if;
+end;
+$$;
+
+revoke all on function public.create_session_series(jsonb, jsonb) from public;
+grant execute on function public.create_session_series(jsonb, jsonb) to authenticated;
+
+-- Applies a series edit in one transaction. "following" splits the series at the edited
+-- occurrence; rows before `from_date_input` keep what was recorded, except the edited one, and
+-- only the edited occurrence takes the new status.
+create or replace function public.update_session_series(
+  session_id_input uuid,
+  scope_input text,
+  from_date_input date,
+  changes jsonb
+)
+returns setof public.attendance
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  edited public.attendance;
+  series_row public.session_series;
+  change record;
+  target_series_id uuid;
+begin
+  if current_user_id is null then
+    raise exception 'not authenticated';
+  end if;
+
+  select * into edited
+  from public.attendance a
+  where a.id = session_id_input
+    and a.user_id = current_user_id;
+
+  if edited.series_id is null then
+    raise exception 'series_not_found: the session is not part of a series';
+  end if;
+
+  select * into series_row
+  from public.session_series s
+  where s.id = edited.series_id
+  for update;
+
+  select * into change
+  from jsonb_to_record(changes) as c(
+    client_id uuid,
+    time_start time,
+    duration_minutes integer,
+    bed_type text,
+    instructor_id uuid,
+    notes text,
+    status text
+  );
+
+  if scope_input = 'all' or edited.session_date <= series_row.start_date then
+    target_series_id := series_row.id;
+
+    update public.session_series
+    set client_id = change.client_id,
+        time_start = change.time_start,
+        duration_minutes = change.duration_minutes,
+        bed_type = change.bed_type,
+        instructor_id = change.instructor_id,
+        notes = change.notes,
+        updated_at = now()
+    where id = series_row.id;
+  else
+    insert into public.session_series (
+      user_id,
+      client_id,
+      start_date,
+      end_date,
+      occurrence_count,
+      interval_weeks,
+      time_start,
+      duration_minutes,
+      bed_type,
+      instructor_id,
+      notes
+    )
+    values (
+      current_user_id,
+      change.client_id,
+      edited.session_date,
+      series_row.end_date,
+      case
+        when series_row.occurrence_count is not null then greatest(
+          series_row.occurrence_count
+            - (edited.session_date - series_row.start_date) / (7 * series_row.interval_weeks),
+          1
+        )
+      end,
+      series_row.interval_weeks,
+      change.time_start,
+      change.duration_minutes,
+      change.bed_type,
+      change.instructor_id,
+      change.notes
+    )
+    returning id into target_series_id;
+
+    update public.session_series
+    set end_date = edited.session_date - 1,
+        occurrence_count = null,
+        updated_at = now()
+    where id = series_row.id;
+
+    update public.attendance
+    set series_id = target_series_id
+    where series_id = series_row.id
+      and session_date >= edited.session_date;
+  end if;
+
+  return query
+  update public.attendance a
+  set client_id = change.client_id,
+      time_start = change.time_start,
+      duration_minutes = change.duration_minutes,
+      bed_type = change.bed_type,
+      instructor_id = change.instructor_id,
+      notes = change.notes,
+      status = case when a.id = edited.id then change.status else a.status end
+  where a.series_id = target_series_id
+    and (a.session_date >= from_date_input or a.id = edited.id)
+  returning a.*;
+end;
+$$;
+
+revoke all on function public.update_session_series(uuid, text, date, jsonb) from public;
+grant execute on function public.update_session_series(uuid, text, date, jsonb) to authenticated;
+
+create index if not exists idx_instructors_user_name on public.instructors (user_id, full_name);
+create index if not exists idx_attendance_user_instructor_date on public.attendance (user_id, instructor_id, session_date);
+
+alter table public.instructors enable row level security;
+
+drop policy if exists instructors_select_own on public.instructors;
+create policy instructors_select_own
+  on public.instructors
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists instructors_insert_own on public.instructors;
+create policy instructors_insert_own
+  on public.instructors
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists instructors_update_own on public.instructors;
+create policy instructors_update_own
+  on public.instructors
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists instructors_delete_own on public.instructors;
+create policy instructors_delete_own
+  on public.instructors
+  for delete
+  using (auth.uid() = user_id);
+
+
+create table if not exists public.instructor_pay_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  instructor_id uuid not null,
+  bed_type text,
+  rate_type text not null default 'per_session',
+  amount numeric(10,2) not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint instructor_pay_rates_rate_type_valid check (rate_type in ('per_session', 'per_hour')),
+  constraint instructor_pay_rates_amount_non_negative check (amount >= 0),
+  constraint instructor_pay_rates_instructor_owner_fkey
+    foreign key (instructor_id, user_id)
+    references public.instructors(id, user_id)
+    on delete cascade
+);
+
+-- A null bed_type is the instructor's default rate for equipment without its own row.
+create unique index if not exists idx_instructor_pay_rates_unique
+  on public.instructor_pay_rates (user_id, instructor_id, coalesce(bed_type, ''));
+
+alter table public.instructor_pay_rates enable row level security;
+
+drop policy if exists instructor_pay_rates_select_own on public.instructor_pay_rates;
+create policy instructor_pay_rates_select_own
+  on public.instructor_pay_rates
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists instructor_pay_rates_insert_own on public.instructor_pay_rates;
+create policy instructor_pay_rates_insert_own
+  on public.instructor_pay_rates
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists instructor_pay_rates_update_own on public.instructor_pay_rates;
+create policy instructor_pay_rates_update_own
+  on public.instructor_pay_rates
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists instructor_pay_rates_delete_own on public.instructor_pay_rates;
+create policy instructor_pay_rates_delete_own
+  on public.instructor_pay_rates
+  for delete
+  using (auth.uid() = user_id);
+
+
+-- Lesson packages replace the one-row-per-month payments model; payments is kept for history only.
+create table if not exists public.packages (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  client_id uuid not null,
+  purchase_date date not null default current_date,
+  lessons integer not null default 0,
+  expires_on date,
+  price numeric(10, 2),
+  paid boolean not null default false,
+  notes text,
+  legacy_payment_id uuid unique references public.payments(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint packages_client_owner_fkey
+    foreign key (client_id, user_id)
+    references public.clients(id, user_id)
+    on delete cascade,
+  constraint packages_lessons_non_negative check (lessons >= 0),
+  constraint packages_price_non_negative check (price is null or price >= 0),
+  constraint packages_expiry_after_purchase check (expires_on is null or expires_on >= purchase_date),
+  unique (id, user_id)
+);
+
+create index if not exists idx_packages_user_purchase on public.packages (user_id, purchase_date);
+create index if not exists idx_packages_user_client on public.packages (user_id, client_id, purchase_date);
+
+-- Each monthly payment row becomes a package valid for that calendar month.
+insert into public.packages (
+  user_id, client_id, purchase_date, lessons, expires_on, price, paid, notes, legacy_payment_id, created_at
+)
+select
+  p.user_id,
+  p.client_id,
+  p.month_start,
+  coalesce(p.lessons, 0),
+  (p.month_start + interval '1 month' - interval '1 day')::date,
+  p.price,
+  p.paid,
+  p.notes,
+  p.id,
+  p.created_at
+from public.payments p
+on conflict (legacy_payment_id) do nothing;
+
+alter table public.packages enable row level security;
+
+drop policy if exists packages_select_own on public.packages;
+create policy packages_select_own
+  on public.packages
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists packages_insert_own on public.packages;
+create policy packages_insert_own
+  on public.packages
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists packages_update_own on public.packages;
+create policy packages_update_own
+  on public.packages
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists packages_delete_own on public.packages;
+create policy packages_delete_own
+  on public.packages
+  for delete
+  using (auth.uid() = user_id);
+
+
+-- Partial payments: each payment is a transaction; packages.paid is derived from the amount paid.
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'packages'
+      and column_name = 'paid_amount'
+  ) then
+    alter table public.packages add column paid_amount numeric(10, 2) not null default 0;
+  end if;
+end
+$$;
+
+create table if not exists public.payment_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  client_id uuid not null,
+  package_id uuid,
+  amount numeric(10, 2) not null,
+  paid_on date not null default current_date,
+  method text not null default 'cash',
+  notes text,
+  created_at timestamptz not null default now(),
+  constraint payment_transactions_client_owner_fkey
+    foreign key (client_id, user_id)
+    references public.clients(id, user_id)
+    on delete cascade,
+  constraint payment_transactions_package_owner_fkey
+    foreign key (package_id, user_id)
+    references public.packages(id, user_id)
+    on delete no action,
+  constraint payment_transactions_amount_positive check (amount > 0),
+  constraint payment_transactions_method_check check (method in ('cash', 'card', 'bank_transfer', 'other'))
+);
+
+create index if not exists idx_payment_transactions_user_client on public.payment_transactions (user_id, client_id, paid_on);
+create index if not exists idx_payment_transactions_package on public.payment_transactions (package_id);
+
+-- A package with recorded payments cannot be deleted, so past daily-close totals stay intact.
+-- `no action` instead of `restrict` is checked at the end of the statement, so deleting the whole account still cascades.
+do $$
+begin
+  if exists (
+    select 1
+    from pg_constraint
+    where conname = 'payment_transactions_package_owner_fkey'
+      and pg_get_constraintdef(oid) like '%ON DELETE CASCADE%'
+  ) then
+    alter table public.payment_transactions drop constraint payment_transactions_package_owner_fkey;
+    alter table public.payment_transactions
+      add constraint payment_transactions_package_owner_fkey
+      foreign key (package_id, user_id)
+      references public.packages(id, user_id)
+      on delete no action;
+  end if;
+end
+$$;
+
+create or replace function public.set_package_paid()
+returns trigger
+language plpgsql
+set search_path = public, pg_temp
+as $$
+begin
+  new.paid := new.paid_amount >= coalesce(new.price, 0);
+  return new;
+end;
+$$;
+
+drop trigger if exists packages_set_paid on public.packages;
+create trigger packages_set_paid
+  before insert or update of price, paid_amount on public.packages
+  for each row
+  execute function public.set_package_paid();
+
+create or replace function public.sync_package_paid_amount()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  affected_package_ids uuid[] := '{}';
+begin
+  if tg_op in ('INSERT', 'UPDATE') and new.package_id is not null then
+    affected_package_ids := array_append(affected_package_ids, new.package_id);
+  end if;
+  if tg_op in ('UPDATE', 'DELETE') and old.package_id is not null then
+    affected_package_ids := array_append(affected_package_ids, old.package_id);
+  end if;
+
+  update public.packages pk
+  set paid_amount = coalesce((
+        select sum(t.amount)
+        from public.payment_transactions t
+        where t.package_id = pk.id
+      ), 0),
+      updated_at = now()
+  where pk.id = any(affected_package_ids);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists payment_transactions_sync_package on public.payment_transactions;
+create trigger payment_transactions_sync_package
+  after insert or update or delete on public.payment_transactions
+  for each row
+  execute function public.sync_package_paid_amount();
+
+-- Packages already marked paid get one transaction for their full price, so the ledger balances.
+insert into public.payment_transactions (user_id, client_id, package_id, amount, paid_on, method, notes)
+select pk.user_id, pk.client_id, pk.id, pk.price, pk.purchase_date, 'other', 'Μεταφορά υπάρχουσας εξόφλησης'
+from public.packages pk
+where pk.paid
+  and coalesce(pk.price, 0) > 0
+  and not exists (
+    select 1
+    from public.payment_transactions t
+    where t.package_id = pk.id
+  );
+
+update public.packages
+set paid = paid_amount >= coalesce(price, 0);
+
+alter table public.payment_transactions enable row level security;
+
+drop policy if exists payment_transactions_select_own on public.payment_transactions;
+create policy payment_transactions_select_own
+  on public.payment_transactions
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists payment_transactions_insert_own on public.payment_transactions;
+create policy payment_transactions_insert_own
+  on public.payment_transactions
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists payment_transactions_update_own on public.payment_transactions;
+create policy payment_transactions_update_own
+  on public.payment_transactions
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists payment_transactions_delete_own on public.payment_transactions;
+create policy payment_transactions_delete_own
+  on public.payment_transactions
+  for delete
+  using (auth.uid() = user_id);
+
+
+-- Daily close: counted cash and card batch against the day's transactions.
+create table if not exists public.cash_reconciliations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  business_date date not null,
+  expected_cash numeric(10, 2) not null default 0,
+  counted_cash numeric(10, 2) not null default 0,
+  cash_difference numeric(10, 2) generated always as (counted_cash - expected_cash) stored,
+  expected_card numeric(10, 2) not null default 0,
+  counted_card numeric(10, 2) not null default 0,
+  card_difference numeric(10, 2) generated always as (counted_card - expected_card) stored,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint cash_reconciliations_counted_non_negative check (counted_cash >= 0 and counted_card >= 0),
+  unique (user_id, business_date)
+);
+
+create index if not exists idx_payment_transactions_user_paid_on on public.payment_transactions (user_id, paid_on);
+
+alter table public.cash_reconciliations enable row level security;
+
+drop policy if exists cash_reconciliations_select_own on public.cash_reconciliations;
+create policy cash_reconciliations_select_own
+  on public.cash_reconciliations
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists cash_reconciliations_insert_own on public.cash_reconciliations;
+create policy cash_reconciliations_insert_own
+  on public.cash_reconciliations
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists cash_reconciliations_update_own on public.cash_reconciliations;
+create policy cash_reconciliations_update_own
+  on public.cash_reconciliations
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists cash_reconciliations_delete_own on public.cash_reconciliations;
+create policy cash_reconciliations_delete_own
+  on public.cash_reconciliations
+  for delete
+  using (auth.uid() = user_id);
+
+
+-- Receipts: numbered per user by issue_receipt(); numbers come from a counter and are never reused.
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'studio_settings'
+      and column_name = 'business_name'
+  ) then
+    alter table public.studio_settings
+      add column business_name text,
+      add column business_address text,
+      add column business_phone text,
+      add column business_vat_number text;
+  end if;
+end
+$$;
+
+create table if not exists public.receipt_counters (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  last_number integer not null default 0
+);
+
+create table if not exists public.receipts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  receipt_number integer not null,
+  transaction_id uuid unique references public.payment_transactions(id) on delete set null,
+  client_id uuid not null,
+  client_name text not null,
+  amount numeric(10, 2) not null,
+  method text not null,
+  paid_on date not null,
+  period_start date,
+  period_end date,
+  lessons integer,
+  issued_at timestamptz not null default now(),
+  constraint receipts_client_owner_fkey
+    foreign key (client_id, user_id)
+    references public.clients(id, user_id)
+    on delete no action,
+  unique (user_id, receipt_number)
+);
+
+create index if not exists idx_receipts_user_client on public.receipts (user_id, client_id, receipt_number);
+
+-- Issued receipts are never removed: a client with receipts can be deactivated but not deleted.
+-- `no action` instead of `restrict` is checked at the end of the statement, so deleting the whole account still cascades.
+do $$
+begin
+  if exists (
+    select 1
+    from pg_constraint
+    where conname = 'receipts_client_owner_fkey'
+      and pg_get_constraintdef(oid) like '%ON DELETE CASCADE%'
+  ) then
+    alter table public.receipts drop constraint receipts_client_owner_fkey;
+    alter table public.receipts
+      add constraint receipts_client_owner_fkey
+      foreign key (client_id, user_id)
+      references public.clients(id, user_id)
+      on delete no action;
+  end if;
+end
+$$;
+
+alter table public.receipt_counters enable row level security;
+alter table public.receipts enable row level security;
+
+revoke all on table public.receipt_counters from anon;
+revoke all on table public.receipt_counters from authenticated;
+
+-- Receipts are only created by issue_receipt(), so clients get read access only.
+drop policy if exists receipts_select_own on public.receipts;
+create policy receipts_select_own
+  on public.receipts
+  for select
+  using (auth.uid() = user_id);
+
+create or replace function public.issue_receipt(transaction_id_input uuid)
+returns public.receipts
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  transaction_row public.payment_transactions%rowtype;
+  package_row public.packages%rowtype;
+  receipt_row public.receipts%rowtype;
+  next_number integer;
+begin
+  if current_user_id is null then
+    raise exception 'not authenticated';
+  end if;
+
+  -- Locking the transaction keeps two concurrent calls from issuing two receipts for it.
+  select *
+  into transaction_row
+  from public.payment_transactions
+  where id = transaction_id_input
+    and user_id = current_user_id
+  for update;
+
+  if not found then
+    raise exception 'payment transaction not found';
+  end if;
+
+  select *
+  into receipt_row
+  from public.receipts
+  where transaction_id = transaction_id_input;
+
+  if found then
+    return receipt_row;
+  end if;
+
+  if transaction_row.package_id is not null then
+    select *
+    into package_row
+    from public.packages
+    where id = transaction_row.package_id;
+  end if;
+
+  insert into public.receipt_counters (user_id, last_number)
+  values (current_user_id, 1)
+  on conflict (user_id) do update
+    set last_number = public.receipt_counters.last_number + 1
+  returning last_number into next_number;
+
+  insert into public.receipts (
+    user_id, receipt_number, transaction_id, client_id, client_name, amount, method, paid_on,
+    period_start, period_end, lessons
+  )
+  select
+    current_user_id,
+    next_number,
+    transaction_row.id,
+    transaction_row.client_id,
+    c.full_name,
+    transaction_row.amount,
+    transaction_row.method,
+    transaction_row.paid_on,
+    package_row.purchase_date,
+    package_row.expires_on,
+    package_row.lessons
+  from public.clients c
+  where c.id = transaction_row.client_id
+  returning * into receipt_row;
+
+  return receipt_row;
+end;
+$$;
+
+revoke all on function public.issue_receipt(uuid) from public;
+grant execute on function public.issue_receipt(uuid) to authenticated;
+
+
+-- Contact, emergency and health details on the client record.
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'clients'
+      and column_name = 'email'
+  ) then
+    alter table public.clients
+      add column email text,
+      add column date_of_birth date,
+      add column emergency_contact_name text,
+      add column emergency_contact_phone text,
+      add column injuries text,
+      add column contraindications text,
+      add column is_pregnant boolean not null default false,
+      add column physio_cleared boolean not null default false,
+      add column physio_cleared_on date;
+  end if;
+end
+$$;
+
+
+-- Signed consents (liability waiver, GDPR); a new signature adds a row, history is kept.
+create table if not exists public.client_consents (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  client_id uuid not null,
+  consent_type text not null,
+  version text not null,
+  signed_on date not null default current_date,
+  expires_on date,
+  signer_name text not null,
+  signature_data text,
+  created_at timestamptz not null default now(),
+  constraint client_consents_client_owner_fkey
+    foreign key (client_id, user_id)
+    references public.clients(id, user_id)
+    on delete cascade,
+  constraint client_consents_type_check check (consent_type in ('waiver', 'gdpr')),
+  constraint client_consents_expiry_after_signature check (expires_on is null or expires_on >= signed_on)
+);
+
+create index if not exists idx_client_consents_user_client on public.client_consents (user_id, client_id, consent_type, signed_on);
+
+alter table public.client_consents enable row level security;
+
+drop policy if exists client_consents_select_own on public.client_consents;
+create policy client_consents_select_own
+  on public.client_consents
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists client_consents_insert_own on public.client_consents;
+create policy client_consents_insert_own
+  on public.client_consents
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists client_consents_update_own on public.client_consents;
+create policy client_consents_update_own
+  on public.client_consents
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists client_consents_delete_own on public.client_consents;
+create policy client_consents_delete_own
+  on public.client_consents
+  for delete
+  using (auth.uid() = user_id);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'automation_settings'
+      and column_name = 'consent_missing_enabled'
+  ) then
+    alter table public.automation_settings
+      add column consent_missing_enabled boolean not null default true,
+      add column consent_expiry_warning_days integer not null default 30,
+      add constraint automation_settings_consent_warning_valid check (consent_expiry_warning_days >= 0);
+  end if;
+end
+$$;
+
+
+-- Merging duplicate clients: the source client's rows move to the target, then the source is deleted.
+create table if not exists public.client_merge_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- No foreign keys: the source no longer exists and the log should outlive the target.
+  source_client_id uuid not null,
+  source_client_name text not null,
+  source_snapshot jsonb not null,
+  target_client_id uuid not null,
+  target_client_name text not null,
+  moved_counts jsonb not null default '{}'::jsonb,
+  resolved_conflicts jsonb not null default '{}'::jsonb,
+  merged_at timestamptz not null default now()
+);
+
+create index if not exists idx_client_merge_log_user_merged on public.client_merge_log (user_id, merged_at desc);
+
+alter table public.client_merge_log enable row level security;
+
+-- Log rows are only written by merge_clients(), so clients get read access only.
+drop policy if exists client_merge_log_select_own on public.client_merge_log;
+create policy client_merge_log_select_own
+  on public.client_merge_log
+  for select
+  using (auth.uid() = user_id);
+
+create or replace function public.merge_clients(source_client_id_input uuid, target_client_id_input uuid)
+returns public.client_merge_log
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  source_row public.clients%rowtype;
+  target_row public.clients%rowtype;
+  log_row public.client_merge_log%rowtype;
+  moved jsonb := '{}'::jsonb;
+  conflicts jsonb := '{}'::jsonb;
+  affected_rows integer;
+begin
+  if current_user_id is null then
+    raise exception 'not authenticated';
+  end if;
+
+  if source_client_id_input = target_client_id_input then
+    raise exception 'cannot merge a client into itself';
+  end if;
+
+  -- Lock both clients in a fixed order so two concurrent merges cannot deadlock.
+  perform 1
+  from public.clients
+  where id in (source_client_id_input, target_client_id_input)
+    and user_id = current_user_id
+  order by id
+  for update;
+
+  select * into source_row from public.clients where id = source_client_id_input and user_id = current_user_id;
+  if not found then
+    raise exception 'source client not found';
+  end if;
+
+  select * into target_row from public.clients where id = target_client_id_input and user_id = current_user_id;
+  if not found then
+    raise exception 'target client not found';
+  end if;
+
+  -- Legacy monthly payments: one row per client and month, so same-month rows are combined.
+  update public.payments tp
+  set lessons = case
+        when tp.lessons is null and sp.lessons is null then null
+        else coalesce(tp.lessons, 0) + coalesce(sp.lessons, 0)
+      end,
+      price = case
+        when tp.price is null and sp.price is null then null
+        else coalesce(tp.price, 0) + coalesce(sp.price, 0)
+      end,
+      paid = tp.paid and sp.paid,
+      notes = nullif(concat_ws(' · ', tp.notes, sp.notes), '')
+  from public.payments sp
+  where tp.user_id = current_user_id
+    and tp.client_id = target_client_id_input
+    and sp.user_id = current_user_id
+    and sp.client_id = source_client_id_input
+    and sp.month_start = tp.month_start;
+  get diagnostics affected_rows = row_count;
+  conflicts := conflicts || jsonb_build_object('payments_combined', affected_rows);
+
+  delete from public.payments sp
+  where sp.user_id = current_user_id
+    and sp.client_id = source_client_id_input
+    and exists (
+      select 1 from public.payments tp
+      where tp.user_id = current_user_id
+        and tp.client_id = target_client_id_input
+        and tp.month_start = sp.month_start
+    );
+
+  update public.payments set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('payments', affected_rows);
+
+  -- Two bookings in the same slot: keep the target's row with the more conclusive status.
+  update public.attendance ta
+  set status = sa.status,
+      notes = nullif(concat_ws(' · ', ta.notes, sa.notes), '')
+  from public.attendance sa
+  where ta.user_id = current_user_id
+    and ta.client_id = target_client_id_input
+    and sa.user_id = current_user_id
+    and sa.client_id = source_client_id_input
+    and sa.session_date = ta.session_date
+    and sa.time_start = ta.time_start
+    and array_position(array['canceled', 'booked', 'no_show', 'attended'], sa.status)
+      > array_position(array['canceled', 'booked', 'no_show', 'attended'], ta.status);
+
+  delete from public.attendance sa
+  where sa.user_id = current_user_id
+    and sa.client_id = source_client_id_input
+    and exists (
+      select 1 from public.attendance ta
+      where ta.user_id = current_user_id
+        and ta.client_id = target_client_id_input
+        and ta.session_date = sa.session_date
+        and ta.time_start = sa.time_start
+    );
+  get diagnostics affected_rows = row_count;
+  conflicts := conflicts || jsonb_build_object('attendance_deduplicated', affected_rows);
+
+  update public.attendance set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('attendance', affected_rows);
+
+  -- Generated tasks and notifications are regenerated daily, so the target's copy wins.
+  delete from public.follow_up_tasks st
+  where st.user_id = current_user_id
+    and st.client_id = source_client_id_input
+    and exists (
+      select 1 from public.follow_up_tasks tt
+      where tt.user_id = current_user_id
+        and tt.client_id = target_client_id_input
+        and tt.rule_key = st.rule_key
+        and tt.due_date = st.due_date
+    );
+  get diagnostics affected_rows = row_count;
+  conflicts := conflicts || jsonb_build_object('follow_up_tasks_dropped', affected_rows);
+
+  update public.follow_up_tasks set client_id = target_client_id_input, updated_at = now()
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('follow_up_tasks', affected_rows);
+
+  delete from public.notifications sn
+  where sn.user_id = current_user_id
+    and sn.client_id = source_client_id_input
+    and exists (
+      select 1 from public.notifications tn
+      where tn.user_id = current_user_id
+        and tn.client_id = target_client_id_input
+        and tn.type = sn.type
+        and tn.created_for_date = sn.created_for_date
+    );
+  get diagnostics affected_rows = row_count;
+  conflicts := conflicts || jsonb_build_object('notifications_dropped', affected_rows);
+
+  update public.notifications set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('notifications', affected_rows);
+
+  update public.client_notes set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('client_notes', affected_rows);
+
+  update public.session_series set client_id = target_client_id_input, updated_at = now()
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('session_series', affected_rows);
+
+  update public.packages set client_id = target_client_id_input, updated_at = now()
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('packages', affected_rows);
+
+  update public.payment_transactions set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('payment_transactions', affected_rows);
+
+  -- Receipts keep the client name printed at issue time.
+  update public.receipts set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('receipts', affected_rows);
+
+  update public.client_consents set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('client_consents', affected_rows);
+
+  -- Tags both clients carry stay once on the target.
+  delete from public.client_tag_assignments sa
+  where sa.user_id = current_user_id
+    and sa.client_id = source_client_id_input
+    and exists (
+      select 1 from public.client_tag_assignments ta
+      where ta.client_id = target_client_id_input
+        and ta.tag_id = sa.tag_id
+    );
+
+  update public.client_tag_assignments set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('client_tags', affected_rows);
+
+  -- Only one open waitlist place per slot and client.
+  update public.waitlist_entries sw
+  set status = 'removed', resolved_at = now()
+  where sw.user_id = current_user_id
+    and sw.client_id = source_client_id_input
+    and sw.status in ('waiting', 'offered')
+    and exists (
+      select 1 from public.waitlist_entries tw
+      where tw.user_id = current_user_id
+        and tw.client_id = target_client_id_input
+        and tw.status in ('waiting', 'offered')
+        and tw.session_date = sw.session_date
+        and tw.time_start = sw.time_start
+        and tw.bed_type = sw.bed_type
+    );
+
+  update public.waitlist_entries set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('waitlist_entries', affected_rows);
+
+  update public.makeup_credits set client_id = target_client_id_input
+  where user_id = current_user_id and client_id = source_client_id_input;
+  get diagnostics affected_rows = row_count;
+  moved := moved || jsonb_build_object('makeup_credits', affected_rows);
+
+  -- Details missing on the target are taken from the source.
+  update public.clients
+  set phone = coalesce(phone, source_row.phone),
+      email = coalesce(email, source_row.email),
+      date_of_birth = coalesce(date_of_birth, source_row.date_of_birth),
+      emergency_contact_name = coalesce(emergency_contact_name, source_row.emergency_contact_name),
+      emergency_contact_phone = coalesce(emergency_contact_phone, source_row.emergency_contact_phone),
+      injuries = coalesce(injuries, source_row.injuries),
+      contraindications = coalesce(contraindications, source_row.contraindications),
+      is_pregnant = is_pregnant or source_row.is_pregnant,
+      physio_cleared = case when physio_cleared_on is null and source_row.physio_cleared_on is not null
+        then source_row.physio_cleared else physio_cleared end,
+      physio_cleared_on = coalesce(physio_cleared_on, source_row.physio_cleared_on),
+      is_active = is_active or source_row.is_active
+  where id = target_client_id_input
+  returning * into target_row;
+
+  delete from public.clients where id = source_client_id_input;
+
+  insert into public.client_merge_log (
+    user_id, source_client_id, source_client_name, source_snapshot,
+    target_client_id, target_client_name, moved_counts, resolved_conflicts
+  ) values (
+    current_user_id, source_row.id, source_row.full_name, to_jsonb(source_row),
+    target_row.id, target_row.full_name, moved, conflicts
+  )
+  returning * into log_row;
+
+  return log_row;
+end;
+$$;
+
+revoke all on function public.merge_clients(uuid, uuid) from public;
+grant execute on function public.merge_clients(uuid, uuid) to authenticated;
+
+create table if not exists public.client_tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  color text not null default '#64748b',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint client_tags_id_user_key unique (id, user_id),
+  constraint client_tags_name_not_blank check (length(btrim(name)) > 0),
+  constraint client_tags_color_hex check (color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+create unique index if not exists client_tags_user_name_key on public.client_tags (user_id, lower(name));
+
+alter table public.client_tags enable row level security;
+
+drop policy if exists client_tags_select_own on public.client_tags;
+create policy client_tags_select_own
+  on public.client_tags
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists client_tags_insert_own on public.client_tags;
+create policy client_tags_insert_own
+  on public.client_tags
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists client_tags_update_own on public.client_tags;
+create policy client_tags_update_own
+  on public.client_tags
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists client_tags_delete_own on public.client_tags;
+create policy client_tags_delete_own
+  on public.client_tags
+  for delete
+  using (auth.uid() = user_id);
+
+create table if not exists public.client_tag_assignments (
+  client_id uuid not null,
+  tag_id uuid not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (client_id, tag_id),
+  constraint client_tag_assignments_client_owner_fkey
+    foreign key (client_id, user_id)
+    references public.clients(id, user_id)
+    on delete cascade,
+  constraint client_tag_assignments_tag_owner_fkey
+    foreign key (tag_id, user_id)
+    references public.client_tags(id, user_id)
+    on delete cascade
+);
+
+create index if not exists idx_client_tag_assignments_user_tag on public.client_tag_assignments (user_id, tag_id);
+
+alter table public.client_tag_assignments enable row level security;
+
+drop policy if exists client_tag_assignments_select_own on public.client_tag_assignments;
+create policy client_tag_assignments_select_own
+  on public.client_tag_assignments
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists client_tag_assignments_insert_own on public.client_tag_assignments;
+create policy client_tag_assignments_insert_own
+  on public.client_tag_assignments
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists client_tag_assignments_update_own on public.client_tag_assignments;
+create policy client_tag_assignments_update_own
+  on public.client_tag_assignments
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists client_tag_assignments_delete_own on public.client_tag_assignments;
+create policy client_tag_assignments_delete_own
+  on public.client_tag_assignments
+  for delete
+  using (auth.uid() = user_id);
+
+-- Saved filter combinations; `filters` holds client status, monthly payment status and required tag ids.
+create table if not exists public.client_segments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  filters jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint client_segments_name_not_blank check (length(btrim(name)) > 0),
+  constraint client_segments_filters_object check (jsonb_typeof(filters) = 'object')
+);
+
+create unique index if not exists client_segments_user_name_key on public.client_segments (user_id, lower(name));
+
+alter table public.client_segments enable row level security;
+
+drop policy if exists client_segments_select_own on public.client_segments;
+create policy client_segments_select_own
+  on public.client_segments
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists client_segments_insert_own on public.client_segments;
+create policy client_segments_insert_own
+  on public.client_segments
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists client_segments_update_own on public.client_segments;
+create policy client_segments_update_own
+  on public.client_segments
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists client_segments_delete_own on public.client_segments;
+create policy client_segments_delete_own
+  on public.client_segments
+  for delete
+  using (auth.uid() = user_id);
+
+-- Waitlist: optional hard cap per resource and a queue per slot (date, time, resource).
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'resources'
+      and column_name = 'hard_cap'
+  ) then
+    alter table public.resources
+      add column hard_cap boolean not null default false;
+  end if;
+
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'studio_settings'
+      and column_name = 'waitlist_auto_promote'
+  ) then
+    alter table public.studio_settings
+      add column waitlist_auto_promote boolean not null default true;
+  end if;
+end
+$$;
+
+create table if not exists public.waitlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  client_id uuid not null,
+  session_date date not null,
+  time_start time not null,
+  bed_type text not null,
+  status text not null default 'waiting',
+  notes text,
+  attendance_id uuid references public.attendance(id) on delete set null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  constraint waitlist_entries_client_owner_fkey
+    foreign key (client_id, user_id)
+    references public.clients(id, user_id)
+    on delete cascade,
+  constraint waitlist_entries_status_valid check (status in ('waiting', 'offered', 'promoted', 'removed'))
+);
+
+create unique index if not exists waitlist_entries_open_client_slot_key
+  on public.waitlist_entries (user_id, client_id, session_date, time_start, bed_type)
+  where status in ('waiting', 'offered');
+
+create index if not exists idx_waitlist_entries_user_slot
+  on public.waitlist_entries (user_id, session_date, time_start, bed_type, created_at);
+
+alter table public.waitlist_entries enable row level security;
+
+drop policy if exists waitlist_entries_select_own on public.waitlist_entries;
+create policy waitlist_entries_select_own
+  on public.waitlist_entries
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists waitlist_entries_insert_own on public.waitlist_entries;
+create policy waitlist_entries_insert_own
+  on public.waitlist_entries
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists waitlist_entries_update_own on public.waitlist_entries;
+create policy waitlist_entries_update_own
+  on public.waitlist_entries
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists waitlist_entries_delete_own on public.waitlist_entries;
+create policy waitlist_entries_delete_own
+  on public.waitlist_entries
+  for delete
+  using (auth.uid() = user_id);
+
+-- Places taken in a slot by other clients; canceled sessions free their place.
+create or replace function public.count_slot_bookings(
+  user_id_input uuid,
+  session_date_input date,
+  time_start_input time,
+  bed_type_input text,
+  exclude_client_id uuid default null
+)
+returns integer
+language sql
+stable
+set search_path = public, pg_temp
+as $$
+  select count(*)::integer
+  from public.attendance a
+  where a.user_id = user_id_input
+    and a.session_date = session_date_input
+    and a.time_start = time_start_input
+    and a.bed_type = bed_type_input
+    and a.status <> 'canceled'
+    and (exclude_client_id is null or a.client_id <> exclude_client_id);
+$$;
+
+create or replace function public.enforce_resource_hard_cap()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  resource_row public.resources%rowtype;
+begin
+  if new.status = 'canceled' then
+    return new;
+  end if;
+
+  -- Only a booking that starts counting toward the slot is checked, so marking attendance
+  -- in a slot overbooked before the cap was turned on still works.
+  if tg_op = 'UPDATE'
+    and old.status <> 'canceled'
+    and (new.session_date, new.time_start, new.bed_type) is not distinct from (old.session_date, old.time_start, old.bed_type) then
+    return new;
+  end if;
+
+  select * into resource_row
+  from public.resources r
+  where r.user_id = new.user_id
+    and r.key = new.bed_type;
+
+  if not found or not resource_row.hard_cap then
+    return new;
+  end if;
+
+  if public.count_slot_bookings(new.user_id, new.session_date, new.time_start, new.bed_type, new.client_id)
+    >= resource_row.capacity then
+    raise exception 'slot_full: % is full on % at %', resource_row.label, new.session_date, to_char(new.time_start, 'HH24:MI')
+      using hint = 'Add the client to the waitlist instead.';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists attendance_enforce_hard_cap on public.attendance;
+create trigger attendance_enforce_hard_cap
+  before insert or update of session_date, time_start, bed_type, status on public.attendance
+  for each row
+  execute function public.enforce_resource_hard_cap();
+
+-- Gives a free place to the first waiting client: booked directly, or offered when auto-promotion is off.
+create or replace function public.promote_from_waitlist(
+  user_id_input uuid,
+  session_date_input date,
+  time_start_input time,
+  bed_type_input text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  resource_row public.resources%rowtype;
+  entry_row public.waitlist_entries%rowtype;
+  client_name text;
+  auto_promote boolean;
+  promoted_attendance_id uuid;
+  slot_label text;
+begin
+  if session_date_input < current_date then
+    return;
+  end if;
+
+  select * into resource_row
+  from public.resources r
+  where r.user_id = user_id_input
+    and r.key = bed_type_input;
+
+  if public.count_slot_bookings(user_id_input, session_date_input, time_start_input, bed_type_input)
+    >= coalesce(resource_row.capacity, 4) then
+    return;
+  end if;
+
+  -- An open offer already holds the freed place.
+  if exists (
+    select 1
+    from public.waitlist_entries w
+    where w.user_id = user_id_input
+      and w.session_date = session_date_input
+      and w.time_start = time_start_input
+      and w.bed_type = bed_type_input
+      and w.status = 'offered'
+  ) then
+    return;
+  end if;
+
+  select * into entry_row
+  from public.waitlist_entries w
+  where w.user_id = user_id_input
+    and w.session_date = session_date_input
+    and w.time_start = time_start_input
+    and w.bed_type = bed_type_input
+    and w.status = 'waiting'
+  order by w.created_at, w.id
+  limit 1
+  for update;
+
+  if not found then
+    return;
+  end if;
+
+  select c.full_name into client_name from public.clients c where c.id = entry_row.client_id;
+  select ss.waitlist_auto_promote into auto_promote from public.studio_settings ss where ss.user_id = user_id_input;
+  slot_label := format(
+    '%s %s · %s',
+    to_char(session_date_input, 'DD/MM'),
+    to_char(time_start_input, 'HH24:MI'),
+    coalesce(resource_row.label, bed_type_input)
+  );
+
+  if coalesce(auto_promote, true) then
+    insert into public.attendance (user_id, client_id, session_date, time_start, bed_type, status, notes)
+    values (
+      user_id_input, entry_row.client_id, session_date_input, time_start_input, bed_type_input, 'booked', entry_row.notes
+    )
+    on conflict (user_id, client_id, session_date, time_start) do nothing
+    returning id into promoted_attendance_id;
+
+    if promoted_attendance_id is null then
+      -- The client already has a session at that time; skip them and try the next in line.
+      update public.waitlist_entries set status = 'removed', resolved_at = now() where id = entry_row.id;
+      perform public.promote_from_waitlist(user_id_input, session_date_input, time_start_input, bed_type_input);
+      return;
+    end if;
+
+    update public.waitlist_entries
+    set status = 'promoted', attendance_id = promoted_attendance_id, resolved_at = now()
+    where id = entry_row.id;
+
+    insert into public.notifications (
+      user_id, client_id, type, title, body, created_for_date, is_read, created_at
+    ) values (
+      user_id_input,
+      entry_row.client_id,
+      'waitlist_promoted',
+      'Κράτηση από λίστα αναμονής',
+      format('%s πήρε τη θέση που ελευθερώθηκε: %s.', client_name, slot_label),
+      current_date,
+      false,
+      now()
+    )
+    on conflict (user_id, client_id, type, created_for_date)
+    do update
+    set title = excluded.title,
+        body = excluded.body,
+        is_read = false;
+  else
+    update public.waitlist_entries set status = 'offered' where id = entry_row.id;
+
+    insert into public.notifications (
+      user_id, client_id, type, title, body, created_for_date, is_read, created_at
+    ) values (
+      user_id_input,
+      entry_row.client_id,
+      'waitlist_offered',
+      'Ελεύθερη θέση για λίστα αναμονής',
+      format('Ελευθερώθηκε θέση %s. Πρώτος στη σειρά: %s.', slot_label, client_name),
+      current_date,
+      false,
+      now()
+    )
+    on conflict (user_id, client_id, type, created_for_date)
+    do update
+    set title = excluded.title,
+        body = excluded.body,
+        is_read = false;
+  end if;
+end;
+$$;
+
+revoke all on function public.promote_from_waitlist(uuid, date, time, text) from public;
+
+create or replace function public.attendance_release_waitlist()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+begin
+  if old.status = 'canceled' then
+    return null;
+  end if;
+
+  if tg_op = 'DELETE'
+    or new.status = 'canceled'
+    or new.session_date <> old.session_date
+    or new.time_start <> old.time_start
+    or new.bed_type <> old.bed_type then
+    perform public.promote_from_waitlist(old.user_id, old.session_date, old.time_start, old.bed_type);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists attendance_release_waitlist on public.attendance;
+create trigger attendance_release_waitlist
+  after update or delete on public.attendance
+  for each row
+  execute function public.attendance_release_waitlist();
+
+-- A declined offer passes the place on to the next waiting client.
+create or replace function public.waitlist_pass_on_offer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+begin
+  if old.status = 'offered' and new.status = 'removed' then
+    perform public.promote_from_waitlist(new.user_id, new.session_date, new.time_start, new.bed_type);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists waitlist_entries_pass_on_offer on public.waitlist_entries;
+create trigger waitlist_entries_pass_on_offer
+  after update of status on public.waitlist_entries
+  for each row
+  execute function public.waitlist_pass_on_offer();
+
+-- Late cancellations: when a booked session is canceled and the studio policy at that moment.
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'attendance'
+      and column_name = 'canceled_at'
+  ) then
+    alter table public.attendance
+      add column canceled_at timestamptz,
+      add column late_cancel_outcome text,
+      add column late_cancel_fee numeric(10, 2),
+      add constraint attendance_late_cancel_outcome_valid check (late_cancel_outcome in ('lesson', 'fee')),
+      add constraint attendance_late_cancel_fee_non_negative check (late_cancel_fee is null or late_cancel_fee >= 0);
+  end if;
+
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'studio_settings'
+      and column_name = 'late_cancel_policy'
+  ) then
+    alter table public.studio_settings
+      add column late_cancel_policy text not null default 'none',
+      add column late_cancel_hours integer not null default 12,
+      add column late_cancel_fee numeric(10, 2) not null default 0,
+      add constraint studio_settings_late_cancel_policy_valid check (late_cancel_policy in ('none', 'count_lesson', 'fee')),
+      add constraint studio_settings_late_cancel_hours_valid check (late_cancel_hours between 0 and 168),
+      add constraint studio_settings_late_cancel_fee_non_negative check (late_cancel_fee >= 0);
+  end if;
+end
+$$;
+
+create index if not exists idx_attendance_user_client_late_cancel
+  on public.attendance (user_id, client_id, session_date)
+  where late_cancel_outcome is not null;
+
+-- Only a booked session that is later canceled is judged against the policy; sessions entered as
+-- canceled (back-filled history, imports) carry no cancel time to judge. The outcome is kept when
+-- the policy changes later and can be waived by clearing it.
+create or replace function public.set_attendance_cancellation()
+returns trigger
+language plpgsql
+set search_path = public, pg_temp
+as $$
+declare
+  settings_row public.studio_settings%rowtype;
+  session_start timestamptz;
+begin
+  if new.status <> 'canceled' then
+    new.canceled_at := null;
+    new.late_cancel_outcome := null;
+    new.late_cancel_fee := null;
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and old.status = 'canceled' then
+    return new;
+  end if;
+
+  new.canceled_at := coalesce(new.canceled_at, now());
+  new.late_cancel_outcome := null;
+  new.late_cancel_fee := null;
+
+  if tg_op = 'INSERT' then
+    return new;
+  end if;
+
+  select * into settings_row
+  from public.studio_settings ss
+  where ss.user_id = new.user_id;
+
+  if not found or settings_row.late_cancel_policy = 'none' then
+    return new;
+  end if;
+
+  session_start := (new.session_date + new.time_start) at time zone 'Europe/Athens';
+  if new.canceled_at > session_start - make_interval(hours => settings_row.late_cancel_hours) then
+    if settings_row.late_cancel_policy = 'count_lesson' then
+      new.late_cancel_outcome := 'lesson';
+    else
+      new.late_cancel_outcome := 'fee';
+      new.late_cancel_fee := settings_row.late_cancel_fee;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists attendance_set_cancellation on public.attendance;
+create trigger attendance_set_cancellation
+  before insert or update of status on public.attendance
+  for each row
+  execute function public.set_attendance_cancellation();
+
+-- Make-up credits: a lesson owed to a client (studio cancel, timely client cancel), redeemed by booking a session.
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'studio_settings'
+      and column_name = 'makeup_credit_valid_days'
+  ) then
+    alter table public.studio_settings
+      add column makeup_credit_valid_days integer not null default 30,
+      add constraint studio_settings_makeup_credit_valid_days_valid check (makeup_credit_valid_days between 1 and 365);
+  end if;
+end
+$$;
+
+create table if not exists public.makeup_credits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  client_id uuid not null,
+  reason text not null default 'studio_cancel',
+  origin_attendance_id uuid references public.attendance(id) on delete set null,
+  expires_on date,
+  -- Cleared when the redeeming session is deleted or canceled, which makes the credit usable again.
+  redeemed_attendance_id uuid references public.attendance(id) on delete set null,
+  notes text,
+  created_at timestamptz not null default now(),
+  constraint makeup_credits_client_owner_fkey
+    foreign key (client_id, user_id)
+    references public.clients(id, user_id)
+    on delete cascade,
+  constraint makeup_credits_reason_valid check (reason in ('studio_cancel', 'client_cancel', 'other'))
+);
+
+create unique index if not exists makeup_credits_origin_attendance_key
+  on public.makeup_credits (origin_attendance_id)
+  where origin_attendance_id is not null;
+
+create unique index if not exists makeup_credits_redeemed_attendance_key
+  on public.makeup_credits (redeemed_attendance_id)
+  where redeemed_attendance_id is not null;
+
+create index if not exists idx_makeup_credits_user_client
+  on public.makeup_credits (user_id, client_id, expires_on);
+
+alter table public.makeup_credits enable row level security;
+
+drop policy if exists makeup_credits_select_own on public.makeup_credits;
+create policy makeup_credits_select_own
+  on public.makeup_credits
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists makeup_credits_insert_own on public.makeup_credits;
+create policy makeup_credits_insert_own
+  on public.makeup_credits
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists makeup_credits_update_own on public.makeup_credits;
+create policy makeup_credits_update_own
+  on public.makeup_credits
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists makeup_credits_delete_own on public.makeup_credits;
+create policy makeup_credits_delete_own
+  on public.makeup_credits
+  for delete
+  using (auth.uid() = user_id);
+
+create or replace function public.release_makeup_credit_on_cancel()
+returns trigger
+language plpgsql
+set search_path = public, pg_temp
+as $$
+begin
+  if new.status = 'canceled' and old.status <> 'canceled' then
+    update public.makeup_credits
+    set redeemed_attendance_id = null
+    where redeemed_attendance_id = new.id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists attendance_release_makeup_credit on public.attendance;
+create trigger attendance_release_makeup_credit
+  after update of status on public.attendance
+  for each row
+  execute function public.release_makeup_credit_on_cancel();
+
+-- Books a session and redeems a make-up credit for it in one transaction. A credit that is
+-- already used, expired by the session date or owned by another client refuses the booking.
+create or replace function public.book_makeup_session(attendance_input jsonb, credit_id_input uuid)
+returns public.attendance
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  booking public.attendance;
+  credit public.makeup_credits;
+  saved public.attendance;
+begin
+  if current_user_id is null then
+    raise exception 'not authenticated';
+  end if;
+
+  booking := jsonb_populate_record(null::public.attendance, attendance_input);
+
+  select * into credit
+  from public.makeup_credits mc
+  where mc.id = credit_id_input
+    and mc.user_id = current_user_id
+  for update;
+
+  if not found
+    or credit.client_id <> booking.client_id
+    or credit.redeemed_attendance_id is not null
+    or credit.expires_on < booking.session_date then
+    raise exception 'makeup_credit_unavailable: the credit is already used or has expired';
+  end if;
+
+  insert into public.attendance (
+    user_id,
+    client_id,
+    session_date,
+    time_start,
+    duration_minutes,
+    bed_type,
+    instructor_id,
+    status,
+    notes
+  )
+  values (
+    current_user_id,
+    booking.client_id,
+    booking.session_date,
+    booking.time_start,
+    booking.duration_minutes,
+    coalesce(booking.bed_type, 'reformer'),
+    booking.instructor_id,
+    coalesce(booking.status, 'booked'),
+    booking.notes
+  )
+  returning * into saved;
+
+  update public.makeup_credits
+  set redeemed_attendance_id = saved.id
+  where id = credit.id;
+
+  return saved;
+end;
+$$;
+
+revoke all on function public.book_makeup_session(jsonb, uuid) from public;
+grant execute on function public.book_makeup_session(jsonb, uuid) to authenticated;
+
+-- Studio closures: holidays and blackout dates. Without start/end time the whole day range is closed,
+-- otherwise only that part of each day.
+create table if not exists public.studio_closures (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  starts_on date not null,
+  ends_on date not null,
+  start_time time,
+  end_time time,
+  reason text not null,
+  source text not null default 'manual',
+  created_at timestamptz not null default now(),
+  constraint studio_closures_range_valid check (ends_on >= starts_on),
+  constraint studio_closures_time_pair check ((start_time is null) = (end_time is null)),
+  constraint studio_closures_time_range_valid check (end_time is null or end_time > start_time),
+  constraint studio_closures_reason_not_blank check (length(trim(reason)) > 0),
+  constraint studio_closures_source_valid check (source in ('manual', 'holiday'))
+);
+
+create index if not exists idx_studio_closures_user_range
+  on public.studio_closures (user_id, starts_on, ends_on);
+
+alter table public.studio_closures enable row level security;
+
+drop policy if exists studio_closures_select_own on public.studio_closures;
+create policy studio_closures_select_own
+  on public.studio_closures
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists studio_closures_insert_own on public.studio_closures;
+create policy studio_closures_insert_own
+  on public.studio_closures
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists studio_closures_update_own on public.studio_closures;
+create policy studio_closures_update_own
+  on public.studio_closures
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists studio_closures_delete_own on public.studio_closures;
+create policy studio_closures_delete_own
+  on public.studio_closures
+  for delete
+  using (auth.uid() = user_id);
+
+-- Partial closures leave the day open, so only full-day closures count here.
+create or replace function public.is_studio_closed_day(user_id_input uuid, day_input date)
+returns boolean
+language sql
+stable
+set search_path = public, pg_temp
+as $$
+  select exists (
+    select 1
+    from public.studio_closures sc
+    where sc.user_id = user_id_input
+      and sc.start_time is null
+      and day_input between sc.starts_on and sc.ends_on
+  );
+$$;
+
+-- Group classes (mat, duets): a class type is the template, a class session one scheduled instance.
+-- Its roster is the attendance rows pointing at it, so every client keeps a per-session status.
+create table if not exists public.class_types (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  bed_type text not null,
+  capacity integer not null default 6,
+  default_duration_minutes integer not null default 60,
+  instructor_id uuid,
+  price numeric(10, 2),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint class_types_name_not_blank check (length(trim(name)) > 0),
+  constraint class_types_capacity_valid check (capacity between 1 and 100),
+  constraint class_types_duration_valid check (default_duration_minutes > 0),
+  constraint class_types_price_valid check (price is null or price >= 0),
+  constraint class_types_instructor_owner_fkey
+    foreign key (instructor_id, user_id)
+    references public.instructors(id, user_id)
+    on delete set null (instructor_id),
+  unique (id, user_id)
+);
+
+create table if not exists public.class_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  class_type_id uuid not null,
+  session_date date not null,
+  time_start time not null,
+  duration_minutes integer,
+  capacity integer not null,
+  instructor_id uuid,
+  notes text,
+  created_at timestamptz not null default now(),
+  constraint class_sessions_capacity_valid check (capacity between 1 and 100),
+  constraint class_sessions_class_type_owner_fkey
+    foreign key (class_type_id, user_id)
+    references public.class_types(id, user_id)
+    on delete cascade,
+  constraint class_sessions_instructor_owner_fkey
+    foreign key (instructor_id, user_id)
+    references public.instructors(id, user_id)
+    on delete set null (instructor_id),
+  unique (id, user_id)
+);
+
+create index if not exists idx_class_sessions_user_date
+  on public.class_sessions (user_id, session_date, time_start);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'attendance'
+      and column_name = 'class_session_id'
+  ) then
+    alter table public.attendance
+      add column class_session_id uuid;
+  end if;
+
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'attendance_class_session_owner_fkey'
+  ) then
+    alter table public.attendance
+      add constraint attendance_class_session_owner_fkey
+      foreign key (class_session_id, user_id)
+      references public.class_sessions(id, user_id)
+      on delete cascade;
+  end if;
+end
+$$;
+
+create index if not exists idx_attendance_class_session on public.attendance (class_session_id);
+
+alter table public.class_types enable row level security;
+alter table public.class_sessions enable row level security;
+
+drop policy if exists class_types_select_own on public.class_types;
+create policy class_types_select_own
+  on public.class_types
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists class_types_insert_own on public.class_types;
+create policy class_types_insert_own
+  on public.class_types
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists class_types_update_own on public.class_types;
+create policy class_types_update_own
+  on public.class_types
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists class_types_delete_own on public.class_types;
+create policy class_types_delete_own
+  on public.class_types
+  for delete
+  using (auth.uid() = user_id);
+
+drop policy if exists class_sessions_select_own on public.class_sessions;
+create policy class_sessions_select_own
+  on public.class_sessions
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists class_sessions_insert_own on public.class_sessions;
+create policy class_sessions_insert_own
+  on public.class_sessions
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists class_sessions_update_own on public.class_sessions;
+create policy class_sessions_update_own
+  on public.class_sessions
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists class_sessions_delete_own on public.class_sessions;
+create policy class_sessions_delete_own
+  on public.class_sessions
+  for delete
+  using (auth.uid() = user_id);
+
+-- Canceled roster entries free their place, like canceled bed bookings.
+create or replace function public.enforce_class_capacity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  class_row public.class_sessions%rowtype;
+  roster_count integer;
+begin
+  if new.class_session_id is null or new.status = 'canceled' then
+    return new;
+  end if;
+
+  -- A roster entry already holding its place can change status even if the capacity was lowered since.
+  if tg_op = 'UPDATE' and old.status <> 'canceled' and old.class_session_id is not distinct from new.class_session_id then
+    return new;
+  end if;
+
+  select * into class_row
+  from public.class_sessions cs
+  where cs.id = new.class_session_id
+  for update;
+
+  select count(*)::integer into roster_count
+  from public.attendance a
+  where a.class_session_id = new.class_session_id
+    and a.status <> 'canceled'
+    and a.id <> new.id;
+
+  if roster_count >= class_row.capacity then
+    raise exception 'class_full: the class on % at % is full', class_row.session_date, to_char(class_row.time_start, 'HH24:MI');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists attendance_enforce_class_capacity on public.attendance;
+create trigger attendance_enforce_class_capacity
+  before insert or update of class_session_id, status on public.attendance
+  for each row
+  execute function public.enforce_class_capacity();
+
+-- Rescheduling a class moves its whole roster.
+create or replace function public.sync_class_roster()
+returns trigger
+language plpgsql
+set search_path = public, pg_temp
+as $$
+begin
+  update public.attendance
+  set session_date = new.session_date,
+      time_start = new.time_start,
+      duration_minutes = new.duration_minutes,
+      instructor_id = new.instructor_id
+  where class_session_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists class_sessions_sync_roster on public.class_sessions;
+create trigger class_sessions_sync_roster
+  after update of session_date, time_start, duration_minutes, instructor_id on public.class_sessions
+  for each row
+  execute function public.sync_class_roster();
+
+-- Roll call: several status changes in one request and one transaction.
+-- Row triggers (late cancellation, waitlist release, class capacity) still run for each row.
+create or replace function public.set_attendance_statuses(changes jsonb)
+returns setof public.attendance
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  current_user_id uuid := auth.uid();
+begin
+  if current_user_id is null then
+    raise exception 'not authenticated';
+  end if;
+
+  return query
+  update public.attendance a
+  set status = c.status
+  from jsonb_to_recordset(changes) as c(id uuid, status text)
+  where a.id = c.id
+    and a.user_id = current_user_id
+    and a.status is distinct from c.status
+  returning a.*;
+end;
+$$;
+
+revoke all on function public.set_attendance_statuses(jsonb) from public;
+grant execute on function public.set_attendance_statuses(jsonb) to authenticated;
+
+-- Session lifecycle: new future sessions are booked; attended and no-show record the outcome
+-- and are set only once the session has started.
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'attendance_status_valid'
+      and pg_get_constraintdef(oid) like '%booked%'
+  ) then
+    alter table public.attendance drop constraint if exists attendance_status_valid;
+    alter table public.attendance
+      add constraint attendance_status_valid check (status in ('booked', 'attended', 'canceled', 'no_show'));
+  end if;
+
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'automation_settings'
+      and column_name = 'auto_mark_attended_enabled'
+  ) then
+    alter table public.automation_settings
+      add column auto_mark_attended_enabled boolean not null default false;
+  end if;
+end
+$$;
+
+alter table public.attendance alter column status set default 'booked';
+
+-- Future rows were saved as attended because that was the only default.
+update public.attendance
+set status = 'booked'
+where status = 'attended'
+  and (session_date + time_start) at time zone 'Europe/Athens' > now();
+
+-- Rescheduling a marked session into the future turns it back into a booking.
+create or replace function public.enforce_attendance_status_lifecycle()
+returns trigger
+language plpgsql
+set search_path = public, pg_temp
+as $$
+begin
+  if new.status <> 'attended'
+    or (tg_op = 'UPDATE'
+      and (new.session_date, new.time_start) is distinct from (old.session_date, old.time_start)) then
+    new.checked_in_at := null;
+  end if;
+
+  -- A kiosk check-in records arrival, so it may come shortly before the start time.
+  if new.status not in ('attended', 'no_show')
+    or new.checked_in_at is not null
+    or (new.session_date + new.time_start) at time zone 'Europe/Athens' <= now() then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and old.status = new.status then
+    new.status := 'booked';
+    return new;
+  end if;
+
+  raise exception 'status_before_start: the session on % at % has not started yet',
+    new.session_date, to_char(new.time_start, 'HH24:MI');
+end;
+$$;
+
+drop trigger if exists attendance_enforce_status_lifecycle on public.attendance;
+create trigger attendance_enforce_status_lifecycle
+  before insert or update of status, session_date, time_start on public.attendance
+  for each row
+  execute function public.enforce_attendance_status_lifecycle();
+
+-- Reception kiosk: clients check themselves in from a tablet with their name or a 4-digit PIN.
+-- The tablet runs as a Supabase anonymous user paired with the owner, so RLS gives it no
+-- access to the owner's rows; it reaches only the kiosk functions below, which expose first
+-- names and the bookings around the current hour.
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'clients'
+      and column_name = 'kiosk_pin'
+  ) then
+    alter table public.clients
+      add column kiosk_pin text,
+      add constraint clients_kiosk_pin_format check (kiosk_pin ~ '^[0-9]{4}$');
+  end if;
+
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'attendance'
+      and column_name = 'checked_in_at'
+  ) then
+    alter table public.attendance add column checked_in_at timestamptz;
+  end if;
+end
+$$;
+
+create unique index if not exists clients_user_kiosk_pin_idx
+  on public.clients (user_id, kiosk_pin)
+  where kiosk_pin is not null;
+
+-- One-time codes the owner creates to turn a tablet's anonymous session into a kiosk.
+create table if not exists public.kiosk_pairings (
+  code text primary key,
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  expires_at timestamptz not null default now() + interval '2 minutes'
+);
+
+create table if not exists public.kiosk_devices (
+  device_user_id uuid primary key references auth.users(id) on delete cascade,
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  paired_at timestamptz not null default now()
+);
+
+create index if not exists idx_kiosk_devices_owner on public.kiosk_devices (owner_id);
+
+create table if not exists public.kiosk_pin_attempts (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists idx_kiosk_pin_attempts_owner on public.kiosk_pin_attempts (owner_id, attempted_at);
+
+-- Only the functions below touch the kiosk tables.
+alter table public.kiosk_pairings enable row level security;
+alter table public.kiosk_devices enable row level security;
+alter table public.kiosk_pin_attempts enable row level security;
+
+revoke all on table public.kiosk_pairings from anon, authenticated;
+revoke all on table public.kiosk_devices from anon, authenticated;
+revoke all on table public.kiosk_pin_attempts from anon, authenticated;
+
+create or replace function public.create_kiosk_pairing()
+returns text
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  pairing_code text := replace(gen_random_uuid()::text, '-', '');
+begin
+  if current_user_id is null or coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) then
+    raise exception 'not authenticated';
+  end if;
+
+  delete from public.kiosk_pairings where expires_at < now();
+
+  insert into public.kiosk_pairings (code, owner_id)
+  values (pairing_code, current_user_id);
+
+  return pairing_code;
+end;
+$$;
+
+revoke all on function public.create_kiosk_pairing() from public;
+grant execute on function public.create_kiosk_pairing() to authenticated;
+
+-- Called from the tablet's anonymous session; an owner session can never become a kiosk.
+create or replace function public.claim_kiosk_pairing(code_input text)
+returns void
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  pairing_owner_id uuid;
+begin
+  if current_user_id is null or not coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) then
+    raise exception 'kiosk_not_anonymous: only an anonymous session can become a kiosk';
+  end if;
+
+  delete from public.kiosk_pairings
+  where code = code_input
+    and expires_at >= now()
+  returning owner_id into pairing_owner_id;
+
+  if pairing_owner_id is null then
+    raise exception 'kiosk_pairing_invalid: the pairing code is invalid or expired';
+  end if;
+
+  insert into public.kiosk_devices (device_user_id, owner_id)
+  values (current_user_id, pairing_owner_id)
+  on conflict (device_user_id) do update set owner_id = excluded.owner_id, paired_at = now();
+end;
+$$;
+
+revoke all on function public.claim_kiosk_pairing(text) from public;
+grant execute on function public.claim_kiosk_pairing(text) to authenticated;
+
+-- Owner of the calling kiosk device, or null for any other session.
+create or replace function public.kiosk_owner_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public, pg_temp
+as $$
+  select d.owner_id
+  from public.kiosk_devices d
+  where d.device_user_id = auth.uid();
+$$;
+
+revoke all on function public.kiosk_owner_id() from public;
+
+-- The kiosk needs the owner's email to check the exit password against Supabase Auth.
+create or replace function public.kiosk_device()
+returns table (owner_email text, paired_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public, pg_temp
+as $$
+begin
+  return query
+  select u.email::text, d.paired_at
+  from public.kiosk_devices d
+  join auth.users u on u.id = d.owner_id
+  where d.device_user_id = auth.uid();
+end;
+$$;
+
+revoke all on function public.kiosk_device() from public;
+grant execute on function public.kiosk_device() to authenticated;
+
+-- Run by the owner right after the exit password is accepted on the tablet.
+create or replace function public.revoke_kiosk_device(device_user_id_input uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  delete from public.kiosk_devices
+  where device_user_id = device_user_id_input
+    and owner_id = auth.uid();
+end;
+$$;
+
+revoke all on function public.revoke_kiosk_device(uuid) from public;
+grant execute on function public.revoke_kiosk_device(uuid) to authenticated;
+
+create or replace function public.kiosk_bookings()
+returns table (
+  attendance_id uuid,
+  display_name text,
+  time_start time,
+  resource_label text,
+  status text,
+  checked_in_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  owner_user_id uuid := public.kiosk_owner_id();
+  local_now timestamp := now() at time zone 'Europe/Athens';
+begin
+  if owner_user_id is null then
+    raise exception 'kiosk_not_paired: this session is not a kiosk';
+  end if;
+
+  return query
+  select
+    a.id,
+    split_part(trim(c.full_name), ' ', 1)
+      || case
+        when trim(c.full_name) ~ '\s'
+          then ' ' || left(regexp_replace(trim(c.full_name), '^.*\s', ''), 1) || '.'
+        else ''
+      end,
+    a.time_start,
+    coalesce(r.label, a.bed_type),
+    a.status,
+    a.checked_in_at
+  from public.attendance a
+  join public.clients c on c.id = a.client_id
+  left join public.resources r on r.user_id = a.user_id and r.key = a.bed_type
+  where a.user_id = owner_user_id
+    and a.status in ('booked', 'attended')
+    and a.session_date + a.time_start between local_now - interval '15 minutes' and local_now + interval '60 minutes'
+  order by a.time_start, c.full_name;
+end;
+$$;
+
+revoke all on function public.kiosk_bookings() from public;
+grant execute on function public.kiosk_bookings() to authenticated;
+
+-- Checks in one booking from kiosk_bookings(), picked by tap or by the client's PIN.
+-- Returns no row when nothing matches; a failed PIN is recorded instead of raised so the
+-- attempt is kept, and five failures within ten minutes lock PIN entry.
+create or replace function public.kiosk_check_in(attendance_id_input uuid default null, pin_input text default null)
+returns table (display_name text, time_start time)
+language plpgsql
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  owner_user_id uuid := public.kiosk_owner_id();
+  target_id uuid;
+begin
+  if owner_user_id is null then
+    raise exception 'kiosk_not_paired: this session is not a kiosk';
+  end if;
+
+  if pin_input is not null then
+    if (
+      select count(*)
+      from public.kiosk_pin_attempts p
+      where p.owner_id = owner_user_id
+        and p.attempted_at > now() - interval '10 minutes'
+    ) >= 5 then
+      raise exception 'kiosk_pin_locked: too many wrong PINs, try again later';
+    end if;
+
+    select b.attendance_id
+    into target_id
+    from public.kiosk_bookings() b
+    join public.attendance a on a.id = b.attendance_id
+    join public.clients c on c.id = a.client_id
+    where c.kiosk_pin = pin_input
+      and b.status = 'booked'
+    order by b.time_start
+    limit 1;
+
+    if target_id is null then
+      insert into public.kiosk_pin_attempts (owner_id) values (owner_user_id);
+      return;
+    end if;
+  else
+    select b.attendance_id
+    into target_id
+    from public.kiosk_bookings() b
+    where b.attendance_id = attendance_id_input
+      and b.status = 'booked';
+
+    if target_id is null then
+      return;
+    end if;
+  end if;
+
+  update public.attendance
+  set status = 'attended',
+      checked_in_at = now()
+  where id = target_id;
+
+  return query
+  select b.display_name, b.time_start
+  from public.kiosk_bookings() b
+  where b.attendance_id = target_id;
+end;
+$$;
+
+revoke all on function public.kiosk_check_in(uuid, text) from public;
+grant execute on function public.kiosk_check_in(uuid, text) to authenticated;
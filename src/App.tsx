@@ -10,11 +10,27 @@ const SignupPage = lazy(() => import("./pages/Signup").then((module) => ({ defau
 const DashboardPage = lazy(() => import("./pages/Dashboard").then((module) => ({ default: module.DashboardPage })));
 const PaymentsPage = lazy(() => import("./pages/Payments").then((module) => ({ default: module.PaymentsPage })));
 const CalendarPage = lazy(() => import("./pages/Calendar").then((module) => ({ default: module.CalendarPage })));
+const CloseDayPage = lazy(() => import("./pages/CloseDay").then((module) => ({ default: module.CloseDayPage })));
 const SummaryPage = lazy(() => import("./pages/Summary").then((module) => ({ default: module.SummaryPage })));
+const PayrollPage = lazy(() => import("./pages/Payroll").then((module) => ({ default: module.PayrollPage })));
 const OperationsPage = lazy(() => import("./pages/Operations").then((module) => ({ default: module.OperationsPage })));
+const ClientsPage = lazy(() => import("./pages/Clients").then((module) => ({ default: module.ClientsPage })));
+const ImportPage = lazy(() => import("./pages/Import").then((module) => ({ default: module.ImportPage })));
+const ClientTagsPage = lazy(() => import("./pages/ClientTags").then((module) => ({ default: module.ClientTagsPage })));
+const ClientDuplicatesPage = lazy(() =>
+  import("./pages/ClientDuplicates").then((module) => ({ default: module.ClientDuplicatesPage })),
+);
 const ClientProfilePage = lazy(() =>
   import("./pages/ClientProfile").then((module) => ({ default: module.ClientProfilePage })),
 );
+const StudioSettingsPage = lazy(() =>
+  import("./pages/StudioSettings").then((module) => ({ default: module.StudioSettingsPage })),
+);
+const StudioClosuresPage = lazy(() =>
+  import("./pages/StudioClosures").then((module) => ({ default: module.StudioClosuresPage })),
+);
+const ClassTypesPage = lazy(() => import("./pages/ClassTypes").then((module) => ({ default: module.ClassTypesPage })));
+const KioskPage = lazy(() => import("./pages/Kiosk").then((module) => ({ default: module.KioskPage })));
 const AccountPage = lazy(() => import("./pages/Account").then((module) => ({ default: module.AccountPage })));
 
 function RouteFallback() {
@@ -37,13 +53,17 @@ function AppShell() {
 }
 
 function RootRedirect() {
-  const { user, isLoading } = useAuth();
+  const { user, role, isLoading } = useAuth();
 
   if (isLoading) {
     return <RouteFallback />;
   }
 
-  return <Navigate to={user ? "/calendar" : "/login"} replace />;
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  return <Navigate to={role === "kiosk" ? "/kiosk" : "/calendar"} replace />;
 }
 
 export default function App() {
@@ -72,6 +92,14 @@ export default function App() {
         </Route>
 
         <Route element={<ProtectedRoute />}>
+          <Route
+            path="/kiosk"
+            element={
+              <LazyRoute>
+                <KioskPage />
+              </LazyRoute>
+            }
+          />
           <Route element={<AppShell />}>
             <Route
               path="/dashboard"
@@ -89,6 +117,14 @@ export default function App() {
                 </LazyRoute>
               }
             />
+            <Route
+              path="/close-day"
+              element={
+                <LazyRoute>
+                  <CloseDayPage />
+                </LazyRoute>
+              }
+            />
             <Route
               path="/calendar"
               element={
@@ -105,6 +141,14 @@ export default function App() {
                 </LazyRoute>
               }
             />
+            <Route
+              path="/payroll"
+              element={
+                <LazyRoute>
+                  <PayrollPage />
+                </LazyRoute>
+              }
+            />
             <Route
               path="/operations"
               element={
@@ -113,6 +157,38 @@ export default function App() {
                 </LazyRoute>
               }
             />
+            <Route
+              path="/clients"
+              element={
+                <LazyRoute>
+                  <ClientsPage />
+                </LazyRoute>
+              }
+            />
+            <Route
+              path="/import"
+              element={
+                <LazyRoute>
+                  <ImportPage />
+                </LazyRoute>
+              }
+            />
+            <Route
+              path="/clients/tags"
+              element={
+                <LazyRoute>
+                  <ClientTagsPage />
+                </LazyRoute>
+              }
+            />
+            <Route
+              path="/clients/duplicates"
+              element={
+                <LazyRoute>
+                  <ClientDuplicatesPage />
+                </LazyRoute>
+              }
+            />
             <Route
               path="/clients/:clientId"
               element={
@@ -121,6 +197,30 @@ export default function App() {
                 </LazyRoute>
               }
             />
+            <Route
+              path="/settings"
+              element={
+                <LazyRoute>
+                  <StudioSettingsPage />
+                </LazyRoute>
+              }
+            />
+            <Route
+              path="/settings/closures"
+              element={
+                <LazyRoute>
+                  <StudioClosuresPage />
+                </LazyRoute>
+              }
+            />
+            <Route
+              path="/settings/classes"
+              element={
+                <LazyRoute>
+                  <ClassTypesPage />
+                </LazyRoute>
+              }
+            />
             <Route
               path="/account"
               element={
@@ -1,12 +1,32 @@
 import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import type { Session, User } from "@supabase/supabase-js";
+import {
+  checkLoginLock,
+  claimKioskPairing,
+  createKioskPairing,
+  fetchKioskDevice,
+  recordLoginAttempt,
+  revokeKioskDevice,
+} from "../lib/data";
 import { supabase } from "../lib/supabaseClient";
 
+/**
+ * `kiosk` is an anonymous session paired with the owner: RLS hides every owner row from it
+ * and only the kiosk check-in functions answer it.
+ */
+export type AuthRole = "owner" | "kiosk";
+
 type AuthContextValue = {
   session: Session | null;
   user: User | null;
+  role: AuthRole;
   isLoading: boolean;
   signOut: () => Promise<void>;
+  /** Swaps the owner's session for an anonymous kiosk session paired with the owner. */
+  enterKioskMode: () => Promise<void>;
+  /** Signs the owner back in with their password and unpairs the tablet. */
+  exitKioskMode: (password: string) => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
@@ -19,6 +39,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     let isMounted = true;
@@ -62,15 +84,74 @@ export function AuthProvider({ children }: AuthProviderProps) {
     () => ({
       session,
       user,
-      isLoading,
+      role: user?.is_anonymous ? "kiosk" : "owner",
+      // Keeps routes from bouncing to the login page while the sessions are swapped.
+      isLoading: isLoading || isSwitching,
       signOut: async () => {
         const { error } = await supabase.auth.signOut();
         if (error) {
           throw error;
         }
       },
+      enterKioskMode: async () => {
+        const pairingCode = await createKioskPairing();
+
+        setIsSwitching(true);
+        try {
+          queryClient.clear();
+          const { error: signOutError } = await supabase.auth.signOut({ scope: "local" });
+          if (signOutError) {
+            throw signOutError;
+          }
+
+          const { error: anonymousError } = await supabase.auth.signInAnonymously();
+          if (anonymousError) {
+            throw new Error("Το kiosk χρειάζεται ενεργές ανώνυμες συνδέσεις (Anonymous sign-ins) στο Supabase Auth.");
+          }
+
+          try {
+            await claimKioskPairing(pairingCode);
+          } catch (error) {
+            await supabase.auth.signOut({ scope: "local" });
+            throw error;
+          }
+        } finally {
+          setIsSwitching(false);
+        }
+      },
+      exitKioskMode: async (password: string) => {
+        const deviceUserId = user?.id;
+        const device = await fetchKioskDevice();
+        const email = device?.owner_email.trim().toLowerCase();
+        if (!deviceUserId || !email) {
+          throw new Error("Το kiosk δεν είναι συνδεδεμένο με λογαριασμό.");
+        }
+
+        const lockState = await checkLoginLock(email);
+        if (lockState.isLocked) {
+          throw new Error("Ο λογαριασμός είναι προσωρινά κλειδωμένος. Δοκίμασε ξανά αργότερα.");
+        }
+
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) {
+          await recordLoginAttempt(email, false);
+          throw new Error("Λάθος κωδικός.");
+        }
+
+        try {
+          await recordLoginAttempt(email, true);
+        } catch {
+          // Do not keep the kiosk locked if the reset call fails.
+        }
+
+        try {
+          await revokeKioskDevice(deviceUserId);
+        } catch {
+          // The owner is back in; a stale pairing only matters to the discarded anonymous session.
+        }
+      },
     }),
-    [isLoading, session, user],
+    [isLoading, isSwitching, queryClient, session, user],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
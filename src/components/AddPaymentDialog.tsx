@@ -0,0 +1,215 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { toIsoDate } from "../lib/date";
+import { formatCurrencyEUR } from "../lib/format";
+import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, getPackageOutstanding } from "../lib/payments";
+import type { ClientPackage, PaymentMethod, PaymentTransactionInsert } from "../types/database";
+
+export type PaymentInput = Pick<PaymentTransactionInsert, "package_id" | "amount" | "paid_on" | "method" | "notes">;
+
+type AddPaymentDialogProps = {
+  isOpen: boolean;
+  clientName: string;
+  packages: ClientPackage[];
+  /** `null` opens the dialog without a package, e.g. to settle late cancel fees. */
+  initialPackageId?: string | null;
+  initialAmount?: number;
+  onClose: () => void;
+  onSave: (input: PaymentInput, options: { issueReceipt: boolean }) => Promise<void>;
+};
+
+function formatPackageOption(lessonPackage: ClientPackage): string {
+  const purchaseDate = new Date(lessonPackage.purchase_date).toLocaleDateString("el-GR");
+  return `${purchaseDate} · ${lessonPackage.lessons} μαθήματα · υπόλοιπο ${formatCurrencyEUR(getPackageOutstanding(lessonPackage))}`;
+}
+
+export function AddPaymentDialog({
+  isOpen,
+  clientName,
+  packages,
+  initialPackageId,
+  initialAmount,
+  onClose,
+  onSave,
+}: AddPaymentDialogProps) {
+  const [packageId, setPackageId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [paidOn, setPaidOn] = useState(() => toIsoDate(new Date()));
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [notes, setNotes] = useState("");
+  const [shouldIssueReceipt, setShouldIssueReceipt] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Package the form was last reset for, so a refetch of the packages does not clear what was typed.
+  const resetForRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      resetForRef.current = null;
+      return;
+    }
+    const resetKey = String(initialPackageId);
+    if (resetForRef.current === resetKey) {
+      return;
+    }
+    resetForRef.current = resetKey;
+    const initialPackage =
+      initialPackageId === null
+        ? undefined
+        : (packages.find((lessonPackage) => lessonPackage.id === initialPackageId) ??
+          packages.find((lessonPackage) => getPackageOutstanding(lessonPackage) > 0) ??
+          packages[0]);
+    setPackageId(initialPackage?.id ?? "");
+    if (initialAmount != null) {
+      setAmount(String(initialAmount || ""));
+    } else {
+      setAmount(initialPackage ? String(getPackageOutstanding(initialPackage) || "") : "");
+    }
+    setPaidOn(toIsoDate(new Date()));
+    setMethod("cash");
+    setNotes("");
+    setShouldIssueReceipt(false);
+    setErrorMessage(null);
+  }, [isOpen, initialPackageId, initialAmount, packages]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    lockBodyScroll();
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      window.removeEventListener("keydown", handleEscape);
+      unlockBodyScroll();
+    };
+  }, [isOpen, isSubmitting, onClose]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handlePackageChange = (nextPackageId: string) => {
+    setPackageId(nextPackageId);
+    const lessonPackage = packages.find((candidate) => candidate.id === nextPackageId);
+    if (lessonPackage) {
+      setAmount(String(getPackageOutstanding(lessonPackage) || ""));
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsedAmount = Number.parseFloat(amount.replace(",", "."));
+
+    if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+      setErrorMessage("Το ποσό πρέπει να είναι θετικό.");
+      return;
+    }
+    if (!paidOn) {
+      setErrorMessage("Συμπλήρωσε ημερομηνία πληρωμής.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await onSave(
+        {
+          package_id: packageId || null,
+          amount: Math.round(parsedAmount * 100) / 100,
+          paid_on: paidOn,
+          method,
+          notes: notes.trim() ? notes.trim() : null,
+        },
+        { issueReceipt: shouldIssueReceipt },
+      );
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η καταχώρηση πληρωμής.";
+      setErrorMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !isSubmitting && onClose()}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Καταχώρηση πληρωμής"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3>Καταχώρηση πληρωμής · {clientName}</h3>
+        <form className="stack-sm" onSubmit={handleSubmit}>
+          <label className="field-label">
+            <span>Πακέτο</span>
+            <select className="input" value={packageId} onChange={(event) => handlePackageChange(event.target.value)}>
+              <option value="">Χωρίς σύνδεση με πακέτο (π.χ. χρεώσεις ακυρώσεων)</option>
+              {packages.map((lessonPackage) => (
+                <option key={lessonPackage.id} value={lessonPackage.id}>
+                  {formatPackageOption(lessonPackage)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            <span>Ποσό (€)</span>
+            <input
+              className="input"
+              type="number"
+              min={0.01}
+              step="0.01"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              required
+            />
+          </label>
+          <label className="field-label">
+            <span>Ημερομηνία</span>
+            <input className="input" type="date" value={paidOn} onChange={(event) => setPaidOn(event.target.value)} required />
+          </label>
+          <label className="field-label">
+            <span>Τρόπος πληρωμής</span>
+            <select className="input" value={method} onChange={(event) => setMethod(event.target.value as PaymentMethod)}>
+              {PAYMENT_METHODS.map((option) => (
+                <option key={option} value={option}>
+                  {PAYMENT_METHOD_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            <span>Σημείωση (προαιρετική)</span>
+            <input className="input" type="text" value={notes} onChange={(event) => setNotes(event.target.value)} />
+          </label>
+          <label className="row gap-sm align-center">
+            <input
+              type="checkbox"
+              checked={shouldIssueReceipt}
+              onChange={(event) => setShouldIssueReceipt(event.target.checked)}
+            />
+            <span>Έκδοση και εκτύπωση απόδειξης</span>
+          </label>
+          {errorMessage ? <p className="text-error">{errorMessage}</p> : null}
+          <div className="row gap-sm align-end">
+            <button type="button" className="button" onClick={onClose} disabled={isSubmitting}>
+              Ακύρωση
+            </button>
+            <button type="submit" className="button button-primary" disabled={isSubmitting}>
+              {isSubmitting ? "Αποθήκευση..." : "Καταχώρηση"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
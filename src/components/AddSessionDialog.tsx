@@ -1,69 +1,123 @@
 import { FormEvent, useEffect, useMemo, useState } from "react";
-import { toIsoDate } from "../lib/date";
+import { useQuery } from "@tanstack/react-query";
+import { getClientHealthWarnings } from "../lib/clientHealth";
+import { buildTagIdsByClientId, hasAllTags } from "../lib/clientTags";
+import { hasValidWaiver } from "../lib/consents";
+import {
+  fetchAttendedSessionsForClient,
+  fetchClientTagAssignments,
+  fetchClientTags,
+  fetchClosuresForRange,
+  fetchConsentsForClient,
+  fetchMakeupCreditsForClient,
+  fetchPackagesForClient,
+} from "../lib/data";
+import { findClosureAt, formatClosureLabel } from "../lib/closures";
+import { addDays, parseIsoDate, toIsoDate } from "../lib/date";
+import { formatMakeupCreditOption, isMakeupCreditUsableOn } from "../lib/makeupCredits";
 import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import {
+  MAX_SERIES_OCCURRENCES,
+  SERIES_SCOPE_LABEL,
+  buildSeriesOccurrenceDates,
+  getIntervalWeeks,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type SeriesScope,
+} from "../lib/recurrence";
+import { getEarliestPurchaseDate, summarizeClientBalance } from "../lib/packages";
+import { buildResourceLookup, formatResourceLabel, getResourceCapacity } from "../lib/resources";
+import {
+  buildDayTimeOptions,
+  getDayWindow,
+  getSlotStart,
+  minutesToTime,
+  type ScheduleConfig,
+} from "../lib/schedule";
+import { ATTENDANCE_STATUS_LABELS, getDefaultSessionStatus, isStatusAllowed } from "../lib/sessionStatus";
+import { formatBookingError } from "../lib/waitlist";
+import { TagFilter } from "./TagFilter";
 import type {
   Attendance,
   AttendanceBedType,
   AttendanceInsert,
   AttendanceStatus,
   Client,
+  Instructor,
+  StudioResource,
+  WaitlistEntryInsert,
 } from "../types/database";
 
-const HOUR_OPTIONS = Array.from({ length: 15 }, (_, index) => `${String(8 + index).padStart(2, "0")}:00`);
-const BED_CAPACITY = 4;
 
-type BedLoadByHour = Record<string, Record<AttendanceBedType, number>>;
+type BedLoadBySlot = Record<string, Record<AttendanceBedType, number>>;
+type RecurrenceEndMode = "count" | "date";
+
+export type SessionSaveOptions = {
+  recurrence?: RecurrenceRule | null;
+  scope?: SeriesScope;
+  /** Make-up credit the new session redeems. */
+  makeupCreditId?: string | null;
+};
 
 type AddSessionDialogProps = {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (input: AttendanceInsert, existingId?: string) => Promise<void>;
+  onSave: (input: AttendanceInsert, existingId?: string, options?: SessionSaveOptions) => Promise<void>;
   userId: string;
   clients: Client[];
+  resources: StudioResource[];
+  instructors: Instructor[];
   initialDate: Date;
   initialTime?: string;
   initialBedType?: AttendanceBedType;
   initialSession?: Attendance | null;
-  bedLoadByHour: BedLoadByHour;
+  bedLoadBySlot: BedLoadBySlot;
+  scheduleConfig: ScheduleConfig;
+  /** Offered instead of booking when the selected bed is full. */
+  onAddToWaitlist?: (input: WaitlistEntryInsert) => Promise<void>;
 };
 
-function getHourBucket(timeValue: string): string | null {
-  if (!/^\d{2}:\d{2}$/.test(timeValue)) {
-    return null;
-  }
-  return `${timeValue.slice(0, 2)}:00`;
-}
-
-function getDefaultBedLoad(): Record<AttendanceBedType, number> {
-  return {
-    reformer: 0,
-    cadillac: 0,
-  };
-}
-
 export function AddSessionDialog({
   isOpen,
   onClose,
   onSave,
   userId,
   clients,
+  resources,
+  instructors,
   initialDate,
   initialTime,
   initialBedType,
   initialSession,
-  bedLoadByHour,
+  bedLoadBySlot,
+  scheduleConfig,
+  onAddToWaitlist,
 }: AddSessionDialogProps) {
   const [clientId, setClientId] = useState("");
   const [sessionDate, setSessionDate] = useState(toIsoDate(initialDate));
   const [timeStart, setTimeStart] = useState("");
   const [durationMinutes, setDurationMinutes] = useState("");
-  const [bedType, setBedType] = useState<AttendanceBedType>("reformer");
-  const [status, setStatus] = useState<AttendanceStatus>("attended");
+  const [bedType, setBedType] = useState<AttendanceBedType>("");
+  const [instructorId, setInstructorId] = useState("");
+  const [status, setStatus] = useState<AttendanceStatus>("booked");
   const [notes, setNotes] = useState("");
+  const [recurrenceFrequency, setRecurrenceFrequency] = useState<RecurrenceFrequency>("none");
+  const [recurrenceEndMode, setRecurrenceEndMode] = useState<RecurrenceEndMode>("count");
+  const [recurrenceCount, setRecurrenceCount] = useState("8");
+  const [recurrenceEndDate, setRecurrenceEndDate] = useState("");
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>("single");
   const [clientFilter, setClientFilter] = useState("");
+  const [clientTagFilter, setClientTagFilter] = useState<string[]>([]);
+  const [makeupCreditId, setMakeupCreditId] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
+  const resourceLookup = useMemo(() => buildResourceLookup(resources), [resources]);
+  const defaultBedType = useMemo(
+    () => resources.find((resource) => resource.is_active)?.key ?? resources[0]?.key ?? "",
+    [resources],
+  );
+
   useEffect(() => {
     if (!isOpen) {
       return;
@@ -75,21 +129,38 @@ export function AddSessionDialog({
       setDurationMinutes(
         initialSession.duration_minutes != null ? String(initialSession.duration_minutes) : "",
       );
-      setBedType(initialSession.bed_type ?? "reformer");
+      setBedType(initialSession.bed_type ?? defaultBedType);
+      setInstructorId(initialSession.instructor_id ?? "");
       setStatus(initialSession.status);
       setNotes(initialSession.notes ?? "");
     } else {
       setClientId("");
+      const initialTimeValue = initialTime ?? buildDayTimeOptions(scheduleConfig, initialDate)[0] ?? "";
       setSessionDate(toIsoDate(initialDate));
-      setTimeStart(initialTime ?? "08:00");
+      setTimeStart(initialTimeValue);
       setDurationMinutes("");
-      setBedType(initialBedType ?? "reformer");
-      setStatus("attended");
+      setBedType(initialBedType ?? defaultBedType);
+      setInstructorId("");
+      setStatus(getDefaultSessionStatus(toIsoDate(initialDate), initialTimeValue || null));
       setNotes("");
     }
+    setRecurrenceFrequency("none");
+    setRecurrenceEndMode("count");
+    setRecurrenceCount("8");
+    setRecurrenceEndDate("");
+    setSeriesScope("single");
     setClientFilter("");
+    setClientTagFilter([]);
+    setMakeupCreditId("");
     setErrorMessage(null);
-  }, [initialBedType, initialDate, initialSession, initialTime, isOpen]);
+  }, [defaultBedType, initialBedType, initialDate, initialSession, initialTime, isOpen, scheduleConfig]);
+
+  // Moving a session into the future turns a recorded outcome back into a booking.
+  useEffect(() => {
+    if (isOpen && !isStatusAllowed(status, { session_date: sessionDate, time_start: timeStart || null })) {
+      setStatus("booked");
+    }
+  }, [isOpen, sessionDate, status, timeStart]);
 
   useEffect(() => {
     if (!isOpen) {
@@ -111,40 +182,162 @@ export function AddSessionDialog({
     };
   }, [isOpen, isSubmitting, onClose]);
 
+  const tagsQuery = useQuery({
+    queryKey: ["client-tags", userId],
+    enabled: isOpen,
+    queryFn: () => fetchClientTags(userId),
+  });
+
+  const tagAssignmentsQuery = useQuery({
+    queryKey: ["client-tag-assignments", userId],
+    enabled: isOpen,
+    queryFn: () => fetchClientTagAssignments(userId),
+  });
+
   const filteredClients = useMemo(() => {
     const normalized = clientFilter.trim().toLowerCase();
-    const base = normalized
-      ? clients.filter((client) => client.full_name.toLowerCase().includes(normalized))
-      : clients;
+    const tagIdsByClientId = buildTagIdsByClientId(tagAssignmentsQuery.data ?? []);
+    const base = clients
+      .filter((client) => !normalized || client.full_name.toLowerCase().includes(normalized))
+      .filter((client) => hasAllTags(tagIdsByClientId.get(client.id), clientTagFilter));
     if (clientId && !base.some((client) => client.id === clientId)) {
       const selected = clients.find((client) => client.id === clientId);
       return selected ? [selected, ...base] : base;
     }
     return base;
-  }, [clientFilter, clients, clientId]);
+  }, [clientFilter, clientTagFilter, clients, clientId, tagAssignmentsQuery.data]);
+
+  const selectedDate = useMemo(
+    () => (/^\d{4}-\d{2}-\d{2}$/.test(sessionDate) ? parseIsoDate(sessionDate) : initialDate),
+    [initialDate, sessionDate],
+  );
+  const selectedDayWindow = getDayWindow(scheduleConfig, selectedDate);
+  const selectedDateIso = toIsoDate(selectedDate);
+
+  const closuresQuery = useQuery({
+    queryKey: ["studio-closures", userId, selectedDateIso],
+    enabled: isOpen,
+    queryFn: () => fetchClosuresForRange(userId, selectedDateIso, toIsoDate(addDays(selectedDate, 1))),
+  });
+
+  const selectedClosure = findClosureAt(closuresQuery.data ?? [], selectedDateIso, timeStart || null);
+  // Keeping an existing session where it is stays allowed, e.g. to cancel it once a closure is added.
+  const isBookingIntoClosure =
+    Boolean(selectedClosure) &&
+    (!initialSession ||
+      initialSession.session_date !== selectedDateIso ||
+      initialSession.time_start?.slice(0, 5) !== timeStart.slice(0, 5));
 
   const timeOptions = useMemo(() => {
-    const options = HOUR_OPTIONS.map((value) => ({ value, isLegacy: false }));
-    if (timeStart && !HOUR_OPTIONS.includes(timeStart)) {
+    const slotTimes = buildDayTimeOptions(scheduleConfig, selectedDate);
+    const options = slotTimes.map((value) => ({ value, isLegacy: false }));
+    if (timeStart && !slotTimes.includes(timeStart)) {
       options.unshift({ value: timeStart, isLegacy: true });
     }
     return options;
-  }, [timeStart]);
+  }, [scheduleConfig, selectedDate, timeStart]);
 
   const bedLoadByType = useMemo(() => {
-    if (timeStart in bedLoadByHour) {
-      return bedLoadByHour[timeStart];
+    if (timeStart in bedLoadBySlot) {
+      return bedLoadBySlot[timeStart];
     }
 
-    const bucket = getHourBucket(timeStart);
-    if (bucket && bucket in bedLoadByHour) {
-      return bedLoadByHour[bucket];
+    const slotStart = getSlotStart(timeStart, scheduleConfig.slotMinutes);
+    if (slotStart != null && minutesToTime(slotStart) in bedLoadBySlot) {
+      return bedLoadBySlot[minutesToTime(slotStart)];
     }
 
-    return getDefaultBedLoad();
-  }, [bedLoadByHour, timeStart]);
+    return {};
+  }, [bedLoadBySlot, scheduleConfig.slotMinutes, timeStart]);
+
+  const bedOptions = useMemo(() => {
+    const options = resources.filter((resource) => resource.is_active).map((resource) => resource.key);
+    if (bedType && !options.includes(bedType)) {
+      options.unshift(bedType);
+    }
+    return options;
+  }, [bedType, resources]);
+
+  const instructorOptions = useMemo(
+    () => instructors.filter((instructor) => instructor.is_active || instructor.id === instructorId),
+    [instructorId, instructors],
+  );
 
   const selectedBedLoad = bedLoadByType[bedType] ?? 0;
+  const selectedBedCapacity = getResourceCapacity(bedType, resourceLookup);
+  const isSelectedBedHardCapped = Boolean(resourceLookup[bedType]?.hard_cap);
+  // The load of an edited session already includes the session itself.
+  const isSelectedBedFull = !initialSession && selectedBedLoad >= selectedBedCapacity;
+  const isSeriesSession = Boolean(initialSession?.series_id);
+
+  const clientPackagesQuery = useQuery({
+    queryKey: ["packages", userId, "client", clientId],
+    enabled: isOpen && Boolean(clientId),
+    queryFn: () => fetchPackagesForClient(userId, clientId),
+  });
+
+  const earliestPurchaseDate = getEarliestPurchaseDate(clientPackagesQuery.data ?? []);
+
+  const clientPackageUsageQuery = useQuery({
+    queryKey: ["attendance", userId, "client", clientId, "package-usage", earliestPurchaseDate],
+    enabled: isOpen && Boolean(clientId && earliestPurchaseDate),
+    queryFn: () => fetchAttendedSessionsForClient(userId, clientId, earliestPurchaseDate!),
+  });
+
+  const healthWarnings = useMemo(
+    () => getClientHealthWarnings(clients.find((client) => client.id === clientId)),
+    [clientId, clients],
+  );
+
+  const clientConsentsQuery = useQuery({
+    queryKey: ["client-consents", userId, clientId],
+    enabled: isOpen && Boolean(clientId),
+    queryFn: () => fetchConsentsForClient(userId, clientId),
+  });
+
+  // Checked against the session date, so a waiver that expires before the booking still warns.
+  const isMissingWaiver = Boolean(
+    clientConsentsQuery.data && !hasValidWaiver(clientConsentsQuery.data, sessionDate || toIsoDate(new Date())),
+  );
+
+  const makeupCreditsQuery = useQuery({
+    queryKey: ["makeup-credits", userId, "client", clientId],
+    enabled: isOpen && Boolean(clientId) && !initialSession,
+    queryFn: () => fetchMakeupCreditsForClient(userId, clientId),
+  });
+
+  const usableMakeupCredits = useMemo(
+    () => (makeupCreditsQuery.data ?? []).filter((credit) => isMakeupCreditUsableOn(credit, sessionDate)),
+    [makeupCreditsQuery.data, sessionDate],
+  );
+  // A credit picked for another client or an earlier date falls back to a regular booking.
+  const selectedMakeupCreditId = usableMakeupCredits.some((credit) => credit.id === makeupCreditId) ? makeupCreditId : "";
+
+  const clientBalance = useMemo(() => {
+    if (!clientId || !clientPackagesQuery.data || (earliestPurchaseDate && !clientPackageUsageQuery.data)) {
+      return null;
+    }
+    return summarizeClientBalance(clientPackagesQuery.data, clientPackageUsageQuery.data ?? [], toIsoDate(new Date()));
+  }, [clientId, clientPackageUsageQuery.data, clientPackagesQuery.data, earliestPurchaseDate]);
+
+  const recurrenceRule = useMemo<RecurrenceRule | null>(() => {
+    if (initialSession || recurrenceFrequency === "none") {
+      return null;
+    }
+    const parsedCount = Number.parseInt(recurrenceCount, 10);
+    return {
+      intervalWeeks: getIntervalWeeks(recurrenceFrequency),
+      endDate: recurrenceEndMode === "date" && recurrenceEndDate ? recurrenceEndDate : null,
+      occurrenceCount: recurrenceEndMode === "count" && Number.isFinite(parsedCount) ? parsedCount : null,
+    };
+  }, [initialSession, recurrenceCount, recurrenceEndDate, recurrenceEndMode, recurrenceFrequency]);
+
+  const recurrenceOccurrenceCount = useMemo(() => {
+    if (!recurrenceRule || !sessionDate || (!recurrenceRule.endDate && !recurrenceRule.occurrenceCount)) {
+      return 0;
+    }
+    return buildSeriesOccurrenceDates(sessionDate, recurrenceRule).length;
+  }, [recurrenceRule, sessionDate]);
 
   const handleClose = () => {
     if (isSubmitting) {
@@ -153,6 +346,39 @@ export function AddSessionDialog({
     onClose();
   };
 
+  const handleAddToWaitlist = async () => {
+    if (!onAddToWaitlist) {
+      return;
+    }
+    if (!clientId) {
+      setErrorMessage("Επίλεξε πελάτη.");
+      return;
+    }
+    if (!sessionDate.trim() || !timeStart.trim() || !bedType) {
+      setErrorMessage("Επίλεξε ημερομηνία, ώρα και κρεβάτι για τη λίστα αναμονής.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await onAddToWaitlist({
+        user_id: userId,
+        client_id: clientId,
+        session_date: sessionDate.trim(),
+        time_start: timeStart.trim(),
+        bed_type: bedType,
+        notes: notes.trim() ? notes.trim() : null,
+      });
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η προσθήκη στη λίστα αναμονής.";
+      setErrorMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
@@ -174,7 +400,12 @@ export function AddSessionDialog({
     }
 
     if (!timeOptions.some((option) => option.value === trimmedTime)) {
-      setErrorMessage("Η ώρα πρέπει να είναι ακριβής ώρα μεταξύ 08:00 και 22:00.");
+      setErrorMessage(`Η ώρα πρέπει να ξεκινά σε slot των ${scheduleConfig.slotMinutes} λεπτών μέσα στο ωράριο του studio.`);
+      return;
+    }
+
+    if (!bedType) {
+      setErrorMessage("Πρόσθεσε εξοπλισμό από τις ρυθμίσεις για να καταχωρήσεις συνεδρία.");
       return;
     }
 
@@ -186,6 +417,29 @@ export function AddSessionDialog({
       return;
     }
 
+    if (recurrenceRule) {
+      if (recurrenceEndMode === "count") {
+        const count = recurrenceRule.occurrenceCount ?? 0;
+        if (count < 1 || count > MAX_SERIES_OCCURRENCES) {
+          setErrorMessage(`Ο αριθμός επαναλήψεων πρέπει να είναι από 1 έως ${MAX_SERIES_OCCURRENCES}.`);
+          return;
+        }
+      } else if (!recurrenceRule.endDate || recurrenceRule.endDate < trimmedDate) {
+        setErrorMessage("Η ημερομηνία λήξης της σειράς πρέπει να είναι μετά την πρώτη συνεδρία.");
+        return;
+      }
+    }
+
+    if (isBookingIntoClosure && !recurrenceRule) {
+      setErrorMessage(`Το studio είναι κλειστό: ${formatClosureLabel(selectedClosure!)}. Επίλεξε άλλη ημέρα ή ώρα.`);
+      return;
+    }
+
+    if (isSeriesSession && seriesScope !== "single" && initialSession && trimmedDate !== initialSession.session_date) {
+      setErrorMessage("Η αλλαγή ημερομηνίας εφαρμόζεται μόνο σε μία συνεδρία της σειράς.");
+      return;
+    }
+
     setIsSubmitting(true);
     setErrorMessage(null);
     try {
@@ -196,15 +450,19 @@ export function AddSessionDialog({
         time_start: trimmedTime,
         duration_minutes: parsedDuration,
         bed_type: bedType,
+        instructor_id: instructorId || null,
         status,
         notes: notes.trim() ? notes.trim() : null,
       };
 
-      await onSave(payload, initialSession?.id);
+      await onSave(payload, initialSession?.id, {
+        recurrence: recurrenceRule,
+        scope: isSeriesSession ? seriesScope : "single",
+        makeupCreditId: recurrenceRule ? null : selectedMakeupCreditId || null,
+      });
       onClose();
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η αποθήκευση συνεδρίας.";
-      setErrorMessage(message);
+      setErrorMessage(formatBookingError(error, "Δεν ήταν δυνατή η αποθήκευση συνεδρίας."));
     } finally {
       setIsSubmitting(false);
     }
@@ -235,6 +493,13 @@ export function AddSessionDialog({
               placeholder="Πληκτρολόγησε για φιλτράρισμα..."
             />
           </label>
+          <TagFilter
+            tags={tagsQuery.data ?? []}
+            label="Φίλτρο ετικέτας πελάτη"
+            selectedTagIds={clientTagFilter}
+            onChange={setClientTagFilter}
+            allLabel="Όλες οι ετικέτες"
+          />
           <label className="field-label">
             <span>Πελάτης</span>
             <select className="input" value={clientId} onChange={(event) => setClientId(event.target.value)}>
@@ -245,6 +510,29 @@ export function AddSessionDialog({
                 </option>
               ))}
             </select>
+            {clientBalance ? (
+              <span className={clientBalance.remaining > 0 ? "muted-text" : "text-error"}>
+                {clientBalance.remaining > 0
+                  ? `Υπόλοιπο πακέτων: ${clientBalance.remaining} μαθήματα${
+                      clientBalance.nextExpiry
+                        ? ` · λήξη ${parseIsoDate(clientBalance.nextExpiry).toLocaleDateString("el-GR")}`
+                        : ""
+                    }`
+                  : "Χωρίς διαθέσιμο υπόλοιπο πακέτου."}
+              </span>
+            ) : null}
+            {healthWarnings.length ? (
+              <span className="row gap-sm wrap">
+                {healthWarnings.map((warning) => (
+                  <span key={warning.key} className="health-badge" title={warning.detail ?? undefined}>
+                    {warning.detail ? `${warning.label}: ${warning.detail}` : warning.label}
+                  </span>
+                ))}
+              </span>
+            ) : null}
+            {isMissingWaiver ? (
+              <span className="text-error">Ο πελάτης δεν έχει έγκυρη δήλωση απαλλαγής ευθύνης.</span>
+            ) : null}
           </label>
           <label className="field-label">
             <span>Ημερομηνία</span>
@@ -266,6 +554,15 @@ export function AddSessionDialog({
                 </option>
               ))}
             </select>
+            {selectedDayWindow.isClosed ? (
+              <span className="text-error">Το studio είναι κλειστό αυτή την ημέρα.</span>
+            ) : null}
+            {selectedClosure ? (
+              <span className={isBookingIntoClosure && !recurrenceRule ? "text-error" : "muted-text"}>
+                Κλειστό: {formatClosureLabel(selectedClosure)}
+                {recurrenceRule ? ". Οι ημερομηνίες της σειράς που πέφτουν σε κλείσιμο παραλείπονται." : ""}
+              </span>
+            ) : null}
           </label>
           <label className="field-label">
             <span>Κρεβάτι</span>
@@ -274,13 +571,34 @@ export function AddSessionDialog({
               value={bedType}
               onChange={(event) => setBedType(event.target.value as AttendanceBedType)}
             >
-              <option value="reformer">REFORMER ({bedLoadByType.reformer}/{BED_CAPACITY})</option>
-              <option value="cadillac">CADILLAC ({bedLoadByType.cadillac}/{BED_CAPACITY})</option>
+              {bedOptions.map((option) => (
+                <option key={option} value={option}>
+                  {`${formatResourceLabel(option, resourceLookup)} (${bedLoadByType[option] ?? 0}/${getResourceCapacity(option, resourceLookup)})`}
+                  {resourceLookup[option]?.is_active === false ? " · ανενεργό" : ""}
+                </option>
+              ))}
             </select>
-            <span className={selectedBedLoad > BED_CAPACITY ? "text-error" : "muted-text"}>
-              Πληρότητα επιλεγμένου κρεβατιού: {selectedBedLoad}/{BED_CAPACITY}
-              {selectedBedLoad > BED_CAPACITY ? " (υπερπλήρες)" : ""}
+            <span className={selectedBedLoad > selectedBedCapacity ? "text-error" : "muted-text"}>
+              Πληρότητα επιλεγμένου κρεβατιού: {selectedBedLoad}/{selectedBedCapacity}
+              {selectedBedLoad > selectedBedCapacity ? " (υπερπλήρες)" : ""}
             </span>
+            {isSelectedBedFull && isSelectedBedHardCapped ? (
+              <span className="text-error">
+                Το κρεβάτι έχει αυστηρό όριο θέσεων. Η κράτηση θα απορριφθεί· πρόσθεσε τον πελάτη στη λίστα αναμονής.
+              </span>
+            ) : null}
+          </label>
+          <label className="field-label">
+            <span>Εκπαιδευτής</span>
+            <select className="input" value={instructorId} onChange={(event) => setInstructorId(event.target.value)}>
+              <option value="">Χωρίς εκπαιδευτή</option>
+              {instructorOptions.map((instructor) => (
+                <option key={instructor.id} value={instructor.id}>
+                  {instructor.full_name}
+                  {instructor.is_active ? "" : " (ανενεργός)"}
+                </option>
+              ))}
+            </select>
           </label>
           <label className="field-label">
             <span>Διάρκεια (λεπτά, προαιρετικό)</span>
@@ -300,11 +618,108 @@ export function AddSessionDialog({
               value={status}
               onChange={(event) => setStatus(event.target.value as AttendanceStatus)}
             >
-              <option value="attended">Παρακολούθησε</option>
-              <option value="canceled">Ακυρώθηκε</option>
-              <option value="no_show">Δεν προσήλθε</option>
+              {(Object.keys(ATTENDANCE_STATUS_LABELS) as AttendanceStatus[]).map((statusOption) => (
+                <option
+                  key={statusOption}
+                  value={statusOption}
+                  disabled={!isStatusAllowed(statusOption, { session_date: sessionDate, time_start: timeStart || null })}
+                >
+                  {ATTENDANCE_STATUS_LABELS[statusOption]}
+                </option>
+              ))}
             </select>
           </label>
+          {!initialSession ? (
+            <div className="session-recurrence stack-sm">
+              <label className="field-label">
+                <span>Επανάληψη</span>
+                <select
+                  className="input"
+                  value={recurrenceFrequency}
+                  onChange={(event) => setRecurrenceFrequency(event.target.value as RecurrenceFrequency)}
+                >
+                  <option value="none">Χωρίς επανάληψη</option>
+                  <option value="weekly">Κάθε εβδομάδα</option>
+                  <option value="biweekly">Κάθε δύο εβδομάδες</option>
+                </select>
+              </label>
+              {recurrenceFrequency !== "none" ? (
+                <>
+                  <div className="row gap-sm wrap">
+                    <label className="field-label">
+                      <span>Λήξη σειράς</span>
+                      <select
+                        className="input"
+                        value={recurrenceEndMode}
+                        onChange={(event) => setRecurrenceEndMode(event.target.value as RecurrenceEndMode)}
+                      >
+                        <option value="count">Μετά από αριθμό εμφανίσεων</option>
+                        <option value="date">Σε ημερομηνία</option>
+                      </select>
+                    </label>
+                    {recurrenceEndMode === "count" ? (
+                      <label className="field-label">
+                        <span>Εμφανίσεις</span>
+                        <input
+                          className="input"
+                          type="number"
+                          min={1}
+                          max={MAX_SERIES_OCCURRENCES}
+                          value={recurrenceCount}
+                          onChange={(event) => setRecurrenceCount(event.target.value)}
+                        />
+                      </label>
+                    ) : (
+                      <label className="field-label">
+                        <span>Έως</span>
+                        <input
+                          className="input"
+                          type="date"
+                          min={sessionDate}
+                          value={recurrenceEndDate}
+                          onChange={(event) => setRecurrenceEndDate(event.target.value)}
+                        />
+                      </label>
+                    )}
+                  </div>
+                  <span className="muted-text">Θα δημιουργηθούν {recurrenceOccurrenceCount} συνεδρίες.</span>
+                </>
+              ) : null}
+            </div>
+          ) : isSeriesSession ? (
+            <label className="field-label">
+              <span>Εφαρμογή αλλαγών σε</span>
+              <select
+                className="input"
+                value={seriesScope}
+                onChange={(event) => setSeriesScope(event.target.value as SeriesScope)}
+              >
+                {(Object.keys(SERIES_SCOPE_LABEL) as SeriesScope[]).map((scope) => (
+                  <option key={scope} value={scope}>
+                    {SERIES_SCOPE_LABEL[scope]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          {!initialSession && !recurrenceRule && usableMakeupCredits.length ? (
+            <label className="field-label">
+              <span>Αναπλήρωση</span>
+              <select
+                className="input"
+                value={selectedMakeupCreditId}
+                onChange={(event) => setMakeupCreditId(event.target.value)}
+              >
+                <option value="">Κανονική κράτηση</option>
+                {usableMakeupCredits.map((credit) => (
+                  <option key={credit.id} value={credit.id}>
+                    {formatMakeupCreditOption(credit)}
+                  </option>
+                ))}
+              </select>
+              <span className="muted-text">Ο πελάτης έχει {usableMakeupCredits.length} διαθέσιμες αναπληρώσεις.</span>
+            </label>
+          ) : null}
           <label className="field-label">
             <span>Σημειώσεις (προαιρετικό)</span>
             <textarea
@@ -319,6 +734,11 @@ export function AddSessionDialog({
             <button type="button" className="button" onClick={handleClose} disabled={isSubmitting}>
               Ακύρωση
             </button>
+            {onAddToWaitlist && isSelectedBedFull && !recurrenceRule ? (
+              <button type="button" className="button" onClick={() => void handleAddToWaitlist()} disabled={isSubmitting}>
+                Λίστα αναμονής
+              </button>
+            ) : null}
             <button type="submit" className="button button-primary" disabled={isSubmitting}>
               {isSubmitting ? "Αποθήκευση..." : "Αποθήκευση συνεδρίας"}
             </button>
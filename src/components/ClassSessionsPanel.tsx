@@ -0,0 +1,360 @@
+import { FormEvent, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { findClosureForSlot, formatClosureLabel } from "../lib/closures";
+import { countRosterPlaces, formatRosterError, groupRosterByClassSession } from "../lib/classes";
+import {
+  addClassRosterEntry,
+  addClassSession,
+  deleteClassSession,
+  fetchClassSessionsForRange,
+  fetchClassTypes,
+  updateClassSession,
+} from "../lib/data";
+import { addDays, toIsoDate } from "../lib/date";
+import { formatResourceLabel, type ResourceLookup } from "../lib/resources";
+import { buildDayTimeOptions, timeToMinutes, type ScheduleConfig } from "../lib/schedule";
+import { ATTENDANCE_STATUS_LABELS, getDefaultSessionStatus, getStatusOptions } from "../lib/sessionStatus";
+import type { Attendance, AttendanceStatus, ClassSession, Client, Instructor, StudioClosure } from "../types/database";
+
+type ClassSessionsPanelProps = {
+  userId: string;
+  date: Date;
+  /** All attendance of the day; roster entries are the rows with a `class_session_id`. */
+  sessions: Attendance[];
+  clients: Client[];
+  clientsById: Record<string, Client>;
+  instructorsById: Record<string, Instructor>;
+  resourceLookup: ResourceLookup;
+  scheduleConfig: ScheduleConfig;
+  dayClosures: StudioClosure[];
+  onStatusChange: (session: Attendance, status: AttendanceStatus) => void;
+  onRemoveEntry: (session: Attendance) => void;
+};
+
+function formatTime(timeStart: string): string {
+  return timeStart.slice(0, 5);
+}
+
+export function ClassSessionsPanel({
+  userId,
+  date,
+  sessions,
+  clients,
+  clientsById,
+  instructorsById,
+  resourceLookup,
+  scheduleConfig,
+  dayClosures,
+  onStatusChange,
+  onRemoveEntry,
+}: ClassSessionsPanelProps) {
+  const queryClient = useQueryClient();
+  const [classTypeId, setClassTypeId] = useState("");
+  const [timeStart, setTimeStart] = useState("");
+  const [rosterPicks, setRosterPicks] = useState<Record<string, string>>({});
+
+  const dateIso = toIsoDate(date);
+  const nextDateIso = toIsoDate(addDays(date, 1));
+
+  const classTypesQuery = useQuery({
+    queryKey: ["class-types", userId],
+    queryFn: () => fetchClassTypes(userId),
+  });
+
+  const classSessionsQuery = useQuery({
+    queryKey: ["class-sessions", userId, dateIso, nextDateIso],
+    queryFn: () => fetchClassSessionsForRange(userId, dateIso, nextDateIso),
+  });
+
+  const classTypes = classTypesQuery.data ?? [];
+  const classTypesById = useMemo(() => new Map(classTypes.map((classType) => [classType.id, classType])), [classTypes]);
+  const rosterByClassSession = useMemo(() => groupRosterByClassSession(sessions), [sessions]);
+  const timeOptions = useMemo(() => buildDayTimeOptions(scheduleConfig, date), [date, scheduleConfig]);
+  const activeClients = useMemo(() => clients.filter((client) => client.is_active), [clients]);
+
+  const invalidateClasses = () => {
+    queryClient.invalidateQueries({ queryKey: ["class-sessions", userId] });
+    queryClient.invalidateQueries({ queryKey: ["attendance", userId] });
+    queryClient.invalidateQueries({ queryKey: ["waitlist", userId] });
+  };
+
+  const addClassSessionMutation = useMutation({
+    mutationFn: addClassSession,
+    onSuccess: () => {
+      setClassTypeId("");
+      setTimeStart("");
+      invalidateClasses();
+      toast.success("Το μάθημα προγραμματίστηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία προγραμματισμού μαθήματος.";
+      toast.error(message);
+    },
+  });
+
+  const updateClassSessionMutation = useMutation({
+    mutationFn: ({ id, time }: { id: string; time: string }) => updateClassSession(id, { time_start: time }),
+    onSuccess: () => {
+      invalidateClasses();
+      toast.success("Η ώρα του μαθήματος άλλαξε.");
+    },
+    onError: (error) => {
+      toast.error(formatRosterError(error, "Αποτυχία αλλαγής ώρας μαθήματος."));
+    },
+  });
+
+  const deleteClassSessionMutation = useMutation({
+    mutationFn: deleteClassSession,
+    onSuccess: () => {
+      invalidateClasses();
+      queryClient.invalidateQueries({ queryKey: ["makeup-credits", userId] });
+      toast.success("Το μάθημα διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία διαγραφής μαθήματος.";
+      toast.error(message);
+    },
+  });
+
+  const addRosterEntryMutation = useMutation({
+    mutationFn: ({ classSession, clientId }: { classSession: ClassSession; clientId: string }) =>
+      addClassRosterEntry(
+        classSession,
+        classTypesById.get(classSession.class_type_id)!,
+        clientId,
+        getDefaultSessionStatus(classSession.session_date, classSession.time_start),
+      ),
+    onSuccess: (_saved, { classSession }) => {
+      setRosterPicks((previous) => ({ ...previous, [classSession.id]: "" }));
+      invalidateClasses();
+      toast.success("Ο πελάτης προστέθηκε στο μάθημα.");
+    },
+    onError: (error) => {
+      toast.error(formatRosterError(error, "Αποτυχία προσθήκης στο μάθημα."));
+    },
+  });
+
+  const handleSchedule = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const classType = classTypesById.get(classTypeId);
+    if (!classType || !timeStart) {
+      toast.error("Επίλεξε μάθημα και ώρα.");
+      return;
+    }
+    const closure = findClosureForSlot(dayClosures, timeToMinutes(timeStart) ?? 0, classType.default_duration_minutes);
+    if (closure) {
+      toast.error(`Το στούντιο είναι κλειστό: ${formatClosureLabel(closure)}.`);
+      return;
+    }
+    void addClassSessionMutation.mutateAsync({
+      user_id: userId,
+      class_type_id: classType.id,
+      session_date: dateIso,
+      time_start: timeStart,
+      duration_minutes: classType.default_duration_minutes,
+      capacity: classType.capacity,
+      instructor_id: classType.instructor_id,
+    });
+  };
+
+  const handleChangeTime = (classSession: ClassSession, time: string) => {
+    const closure = findClosureForSlot(dayClosures, timeToMinutes(time) ?? 0, classSession.duration_minutes ?? 1);
+    if (closure) {
+      toast.error(`Το στούντιο είναι κλειστό: ${formatClosureLabel(closure)}.`);
+      return;
+    }
+    void updateClassSessionMutation.mutateAsync({ id: classSession.id, time });
+  };
+
+  const handleDeleteClass = (classSession: ClassSession, rosterSize: number) => {
+    const prompt = rosterSize
+      ? `Να διαγραφεί το μάθημα μαζί με τις ${rosterSize} συμμετοχές του;`
+      : "Να διαγραφεί αυτό το μάθημα;";
+    if (!window.confirm(prompt)) {
+      return;
+    }
+    void deleteClassSessionMutation.mutateAsync(classSession.id);
+  };
+
+  if (classTypesQuery.isLoading || classSessionsQuery.isLoading) {
+    return <div className="status-box">Φόρτωση ομαδικών μαθημάτων...</div>;
+  }
+
+  if (classTypesQuery.isError || classSessionsQuery.isError) {
+    const message =
+      (classTypesQuery.error instanceof Error && classTypesQuery.error.message) ||
+      (classSessionsQuery.error instanceof Error && classSessionsQuery.error.message) ||
+      "Δεν ήταν δυνατή η φόρτωση ομαδικών μαθημάτων.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const classSessions = classSessionsQuery.data ?? [];
+  const activeClassTypes = classTypes.filter((classType) => classType.is_active);
+
+  if (!classSessions.length && !activeClassTypes.length) {
+    return null;
+  }
+
+  return (
+    <div className="stack-sm">
+      <h4>Ομαδικά μαθήματα</h4>
+
+      {classSessions.length ? (
+        <ul className="session-list">
+          {classSessions.map((classSession) => {
+            const classType = classTypesById.get(classSession.class_type_id);
+            const roster = rosterByClassSession.get(classSession.id) ?? [];
+            const places = countRosterPlaces(roster);
+            const isFull = places >= classSession.capacity;
+            const rosterClientIds = new Set(roster.map((session) => session.client_id));
+            const candidates = activeClients.filter((client) => !rosterClientIds.has(client.id));
+            const instructorName = classSession.instructor_id
+              ? instructorsById[classSession.instructor_id]?.full_name
+              : undefined;
+            const classTimeOptions = timeOptions.includes(formatTime(classSession.time_start))
+              ? timeOptions
+              : [formatTime(classSession.time_start), ...timeOptions];
+
+            return (
+              <li key={classSession.id} className="session-item stack-sm">
+                <div className="row space-between align-center wrap gap-sm">
+                  <div>
+                    <strong>{classType?.name ?? "Μάθημα"}</strong>
+                    <p className="session-meta">
+                      {classType ? formatResourceLabel(classType.bed_type, resourceLookup) : ""}
+                      {instructorName ? ` · ${instructorName}` : ""}
+                      {classSession.duration_minutes ? ` · ${classSession.duration_minutes}'` : ""} · {places}/
+                      {classSession.capacity} θέσεις
+                    </p>
+                  </div>
+                  <div className="row gap-sm align-center">
+                    <select
+                      className="input"
+                      aria-label="Ώρα μαθήματος"
+                      value={formatTime(classSession.time_start)}
+                      disabled={updateClassSessionMutation.isPending}
+                      onChange={(event) => handleChangeTime(classSession, event.target.value)}
+                    >
+                      {classTimeOptions.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="button"
+                      disabled={deleteClassSessionMutation.isPending}
+                      onClick={() => handleDeleteClass(classSession, roster.length)}
+                    >
+                      Διαγραφή
+                    </button>
+                  </div>
+                </div>
+
+                {roster.length ? (
+                  <div className="table-wrap">
+                    <table className="table">
+                      <tbody>
+                        {roster.map((session) => (
+                          <tr key={session.id}>
+                            <td>{clientsById[session.client_id]?.full_name ?? "Άγνωστος πελάτης"}</td>
+                            <td>
+                              <select
+                                className="input table-input"
+                                aria-label="Κατάσταση"
+                                value={session.status}
+                                onChange={(event) => onStatusChange(session, event.target.value as AttendanceStatus)}
+                              >
+                                {[...new Set([session.status, ...getStatusOptions(session)])].map((status) => (
+                                  <option key={status} value={status}>
+                                    {ATTENDANCE_STATUS_LABELS[status]}
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                            <td>
+                              <button type="button" className="button" onClick={() => onRemoveEntry(session)}>
+                                Αφαίρεση
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="muted-text">Κανένας συμμετέχων ακόμα.</p>
+                )}
+
+                {classType ? (
+                  <div className="row gap-sm wrap align-end">
+                    <select
+                      className="input"
+                      aria-label="Πελάτης για το μάθημα"
+                      value={rosterPicks[classSession.id] ?? ""}
+                      disabled={isFull}
+                      onChange={(event) =>
+                        setRosterPicks((previous) => ({ ...previous, [classSession.id]: event.target.value }))
+                      }
+                    >
+                      <option value="">{isFull ? "Το μάθημα είναι πλήρες" : "Επίλεξε πελάτη"}</option>
+                      {candidates.map((client) => (
+                        <option key={client.id} value={client.id}>
+                          {client.full_name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="button"
+                      disabled={isFull || !rosterPicks[classSession.id] || addRosterEntryMutation.isPending}
+                      onClick={() =>
+                        void addRosterEntryMutation.mutateAsync({ classSession, clientId: rosterPicks[classSession.id] })
+                      }
+                    >
+                      Προσθήκη στο μάθημα
+                    </button>
+                  </div>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="muted-text">Δεν υπάρχουν ομαδικά μαθήματα αυτή την ημέρα.</p>
+      )}
+
+      {activeClassTypes.length ? (
+        <form className="row gap-sm wrap align-end" onSubmit={handleSchedule}>
+          <label className="field-label">
+            <span>Μάθημα</span>
+            <select className="input" value={classTypeId} onChange={(event) => setClassTypeId(event.target.value)}>
+              <option value="">Επίλεξε</option>
+              {activeClassTypes.map((classType) => (
+                <option key={classType.id} value={classType.id}>
+                  {classType.name} ({classType.capacity} θέσεις)
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            <span>Ώρα</span>
+            <select className="input" value={timeStart} onChange={(event) => setTimeStart(event.target.value)}>
+              <option value="">Επίλεξε</option>
+              {timeOptions.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="submit" className="button button-primary" disabled={addClassSessionMutation.isPending}>
+            Προγραμματισμός μαθήματος
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
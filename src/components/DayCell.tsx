@@ -1,4 +1,5 @@
-import type { Attendance } from "../types/database";
+import { formatClosureLabel, isFullDayClosure } from "../lib/closures";
+import type { Attendance, StudioClosure } from "../types/database";
 
 type DayCellProps = {
   date: Date;
@@ -6,19 +7,23 @@ type DayCellProps = {
   isToday: boolean;
   isSelected: boolean;
   sessions: Attendance[];
+  closures?: StudioClosure[];
   onSelect: (date: Date) => void;
 };
 
-export function DayCell({ date, isCurrentMonth, isToday, isSelected, sessions, onSelect }: DayCellProps) {
+export function DayCell({ date, isCurrentMonth, isToday, isSelected, sessions, closures = [], onSelect }: DayCellProps) {
+  const bookedCount = sessions.filter((session) => session.status === "booked").length;
   const attendedCount = sessions.filter((session) => session.status === "attended").length;
   const canceledCount = sessions.filter((session) => session.status === "canceled").length;
   const noShowCount = sessions.filter((session) => session.status === "no_show").length;
+  const seriesCount = sessions.filter((session) => session.series_id).length;
 
   const className = [
     "calendar-day",
     isCurrentMonth ? "calendar-day-current" : "calendar-day-outside",
     isToday ? "calendar-day-today" : "",
     isSelected ? "calendar-day-selected" : "",
+    closures.some(isFullDayClosure) ? "calendar-day-closed" : "",
   ]
     .filter(Boolean)
     .join(" ");
@@ -29,13 +34,22 @@ export function DayCell({ date, isCurrentMonth, isToday, isSelected, sessions, o
         <span>{date.getDate()}</span>
         {sessions.length ? <span className="calendar-day-count">{sessions.length}</span> : null}
       </div>
+      {closures.length ? (
+        <span className="calendar-closure-label">{closures.map(formatClosureLabel).join(", ")}</span>
+      ) : null}
       {sessions.length ? (
         <div className="calendar-day-status">
+          {bookedCount ? <span className="status-pill status-booked">{bookedCount} Κρατ.</span> : null}
           {attendedCount ? <span className="status-pill status-attended">{attendedCount} Παρ.</span> : null}
           {canceledCount ? <span className="status-pill status-canceled">{canceledCount} Ακυρ.</span> : null}
           {noShowCount ? <span className="status-pill status-no-show">{noShowCount} Απουσ.</span> : null}
+          {seriesCount ? (
+            <span className="status-pill status-series" title="Συνεδρίες από επαναλαμβανόμενη σειρά">
+              ↻ {seriesCount}
+            </span>
+          ) : null}
         </div>
-      ) : (
+      ) : closures.length ? null : (
         <span className="calendar-day-empty">Χωρίς συνεδρίες</span>
       )}
     </button>
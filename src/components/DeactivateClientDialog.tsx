@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "../auth/AuthProvider";
+import { fetchResources, fetchUpcomingSessionsForClient } from "../lib/data";
+import { toIsoDate } from "../lib/date";
+import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import { buildResourceLookup, formatResourceLabel } from "../lib/resources";
+import type { Client } from "../types/database";
+
+type DeactivateClientDialogProps = {
+  client: Client | null;
+  onClose: () => void;
+  onConfirm: () => Promise<void>;
+};
+
+/** Confirms deactivation and lists the sessions that stay booked, so they can be cleared from the calendar. */
+export function DeactivateClientDialog({ client, onClose, onConfirm }: DeactivateClientDialogProps) {
+  const { user } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const isOpen = Boolean(client);
+  const todayIso = toIsoDate(new Date());
+
+  const upcomingSessionsQuery = useQuery({
+    queryKey: ["attendance", user?.id, "client", client?.id, "upcoming", todayIso],
+    enabled: Boolean(user?.id && client),
+    queryFn: () => fetchUpcomingSessionsForClient(user!.id, client!.id, todayIso),
+  });
+
+  const resourcesQuery = useQuery({
+    queryKey: ["resources", user?.id],
+    enabled: Boolean(user?.id && client),
+    queryFn: () => fetchResources(user!.id),
+  });
+
+  const resourceLookup = useMemo(() => buildResourceLookup(resourcesQuery.data ?? []), [resourcesQuery.data]);
+
+  useEffect(() => {
+    setErrorMessage(null);
+  }, [client]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    lockBodyScroll();
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      window.removeEventListener("keydown", handleEscape);
+      unlockBodyScroll();
+    };
+  }, [isOpen, isSubmitting, onClose]);
+
+  if (!client) {
+    return null;
+  }
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await onConfirm();
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η απενεργοποίηση πελάτη.";
+      setErrorMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const upcomingSessions = upcomingSessionsQuery.data ?? [];
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !isSubmitting && onClose()}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Απενεργοποίηση πελάτη"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3>Απενεργοποίηση: {client.full_name}</h3>
+        <div className="stack-sm">
+          <p className="muted-text">
+            Ο πελάτης δεν θα εμφανίζεται στις λίστες επιλογής. Το ιστορικό, τα πακέτα και οι πληρωμές διατηρούνται.
+          </p>
+          {upcomingSessionsQuery.isLoading ? (
+            <div className="status-box">Φόρτωση μελλοντικών συνεδριών...</div>
+          ) : upcomingSessionsQuery.isError ? (
+            <p className="text-error">
+              {(upcomingSessionsQuery.error instanceof Error && upcomingSessionsQuery.error.message) ||
+                "Δεν ήταν δυνατή η φόρτωση μελλοντικών συνεδριών."}
+            </p>
+          ) : upcomingSessions.length ? (
+            <>
+              <p>Οι παρακάτω {upcomingSessions.length} συνεδρίες παραμένουν στο ημερολόγιο:</p>
+              <ul className="client-profile-list">
+                {upcomingSessions.map((session) => (
+                  <li key={session.id}>
+                    {new Date(session.session_date).toLocaleDateString("el-GR")} · {session.time_start?.slice(0, 5) ?? "-"} ·{" "}
+                    {formatResourceLabel(session.bed_type, resourceLookup)}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p>Δεν υπάρχουν μελλοντικές συνεδρίες.</p>
+          )}
+          {errorMessage ? <p className="text-error">{errorMessage}</p> : null}
+          <div className="row gap-sm align-end">
+            <button type="button" className="button" onClick={onClose} disabled={isSubmitting}>
+              Ακύρωση
+            </button>
+            <button
+              type="button"
+              className="button button-primary"
+              onClick={() => void handleConfirm()}
+              disabled={isSubmitting || upcomingSessionsQuery.isLoading}
+            >
+              {isSubmitting ? "Αποθήκευση..." : "Απενεργοποίηση"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
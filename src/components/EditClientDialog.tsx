@@ -0,0 +1,111 @@
+import { FormEvent, useEffect, useState } from "react";
+import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import type { Client } from "../types/database";
+
+type EditClientDialogProps = {
+  client: Client | null;
+  onClose: () => void;
+  onSave: (input: { fullName: string; phone: string | null }) => Promise<void>;
+};
+
+export function EditClientDialog({ client, onClose, onSave }: EditClientDialogProps) {
+  const [fullName, setFullName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const isOpen = Boolean(client);
+
+  useEffect(() => {
+    setFullName(client?.full_name ?? "");
+    setPhone(client?.phone ?? "");
+    setErrorMessage(null);
+  }, [client]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    lockBodyScroll();
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      window.removeEventListener("keydown", handleEscape);
+      unlockBodyScroll();
+    };
+  }, [isOpen, isSubmitting, onClose]);
+
+  if (!client) {
+    return null;
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmedName = fullName.trim();
+
+    if (!trimmedName) {
+      setErrorMessage("Το ονοματεπώνυμο είναι υποχρεωτικό.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await onSave({
+        fullName: trimmedName,
+        phone: phone.trim() ? phone.trim() : null,
+      });
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η αποθήκευση πελάτη.";
+      setErrorMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !isSubmitting && onClose()}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Επεξεργασία πελάτη"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3>Επεξεργασία πελάτη</h3>
+        <form className="stack-sm" onSubmit={handleSubmit}>
+          <label className="field-label">
+            <span>Ονοματεπώνυμο</span>
+            <input
+              className="input"
+              type="text"
+              value={fullName}
+              onChange={(event) => setFullName(event.target.value)}
+              required
+            />
+          </label>
+          <label className="field-label">
+            <span>Τηλέφωνο (προαιρετικό)</span>
+            <input className="input" type="text" value={phone} onChange={(event) => setPhone(event.target.value)} />
+          </label>
+          {errorMessage ? <p className="text-error">{errorMessage}</p> : null}
+          <div className="row gap-sm align-end">
+            <button type="button" className="button" onClick={onClose} disabled={isSubmitting}>
+              Ακύρωση
+            </button>
+            <button type="submit" className="button button-primary" disabled={isSubmitting}>
+              {isSubmitting ? "Αποθήκευση..." : "Αποθήκευση"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import type { ExportFormat } from "../lib/export";
+
+type ExportButtonsProps = {
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => void;
+};
+
+export function ExportButtons({ disabled, onExport }: ExportButtonsProps) {
+  return (
+    <div className="row gap-sm">
+      <button type="button" className="button" disabled={disabled} onClick={() => onExport("csv")}>
+        Εξαγωγή CSV
+      </button>
+      <button type="button" className="button" disabled={disabled} onClick={() => onExport("xlsx")}>
+        Εξαγωγή XLSX
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import type { DuplicateGroup } from "../lib/clientMatching";
+
+type MergeClientsDialogProps = {
+  group: DuplicateGroup | null;
+  onClose: () => void;
+  onMerge: (targetClientId: string, sourceClientIds: string[]) => Promise<void>;
+};
+
+/** Picks the surviving client of a duplicate group; everyone else in the group is merged into it. */
+export function MergeClientsDialog({ group, onClose, onMerge }: MergeClientsDialogProps) {
+  const [targetClientId, setTargetClientId] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const isOpen = Boolean(group);
+
+  useEffect(() => {
+    setTargetClientId(group?.clients[0]?.id ?? "");
+    setErrorMessage(null);
+  }, [group]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    lockBodyScroll();
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      window.removeEventListener("keydown", handleEscape);
+      unlockBodyScroll();
+    };
+  }, [isOpen, isSubmitting, onClose]);
+
+  if (!group) {
+    return null;
+  }
+
+  const sourceClients = group.clients.filter((client) => client.id !== targetClientId);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await onMerge(
+        targetClientId,
+        sourceClients.map((client) => client.id),
+      );
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η συγχώνευση πελατών.";
+      setErrorMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !isSubmitting && onClose()}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Συγχώνευση πελατών"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3>Συγχώνευση πελατών</h3>
+        <div className="stack-sm">
+          <p className="muted-text">
+            Επίλεξε ποιος πελάτης παραμένει. Συνεδρίες, πακέτα, πληρωμές, σημειώσεις, εργασίες και ειδοποιήσεις των
+            υπολοίπων μεταφέρονται σε αυτόν και οι υπόλοιποι διαγράφονται.
+          </p>
+          <fieldset className="stack-sm">
+            <legend>Πελάτης που παραμένει</legend>
+            {group.clients.map((client) => (
+              <label key={client.id} className="row gap-sm align-center">
+                <input
+                  type="radio"
+                  name="merge-target"
+                  checked={client.id === targetClientId}
+                  disabled={isSubmitting}
+                  onChange={() => setTargetClientId(client.id)}
+                />
+                <span>
+                  {client.full_name} · {client.phone ?? "χωρίς τηλέφωνο"} ·{" "}
+                  {client.is_active ? "Ενεργός" : "Ανενεργός"} · από{" "}
+                  {new Date(client.created_at).toLocaleDateString("el-GR")}
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          <p>
+            Θα συγχωνευθούν και θα διαγραφούν: {sourceClients.map((client) => client.full_name).join(", ")}. Η ενέργεια
+            καταγράφεται στο ιστορικό συγχωνεύσεων.
+          </p>
+          {errorMessage ? <p className="text-error">{errorMessage}</p> : null}
+          <div className="row gap-sm align-end">
+            <button type="button" className="button" onClick={onClose} disabled={isSubmitting}>
+              Ακύρωση
+            </button>
+            <button
+              type="button"
+              className="button button-primary"
+              onClick={() => void handleConfirm()}
+              disabled={isSubmitting || !targetClientId || !sourceClients.length}
+            >
+              {isSubmitting ? "Συγχώνευση..." : "Συγχώνευση"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
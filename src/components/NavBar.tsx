@@ -12,7 +12,7 @@ import {
 } from "../lib/data";
 
 export function NavBar() {
-  const { signOut, user } = useAuth();
+  const { enterKioskMode, signOut, user } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const notificationPanelRef = useRef<HTMLDivElement | null>(null);
@@ -32,6 +32,19 @@ export function NavBar() {
     }
   };
 
+  const handleEnterKioskMode = async () => {
+    if (!window.confirm("Έναρξη λειτουργίας kiosk; Η έξοδος θα ζητά τον κωδικό του λογαριασμού.")) {
+      return;
+    }
+    try {
+      await enterKioskMode();
+      navigate("/kiosk", { replace: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η έναρξη του kiosk.";
+      toast.error(message);
+    }
+  };
+
   const unreadNotificationsQuery = useQuery({
     queryKey: ["notifications-unread-count", user?.id],
     enabled: Boolean(user?.id),
@@ -143,18 +156,43 @@ export function NavBar() {
             >
               Πληρωμές
             </NavLink>
+            <NavLink
+              to="/clients"
+              end
+              className={({ isActive }) => (isActive ? "nav-link nav-link-active" : "nav-link")}
+            >
+              Πελάτες
+            </NavLink>
+            <NavLink
+              to="/close-day"
+              className={({ isActive }) => (isActive ? "nav-link nav-link-active" : "nav-link")}
+            >
+              Ταμείο
+            </NavLink>
             <NavLink
               to="/summary"
               className={({ isActive }) => (isActive ? "nav-link nav-link-active" : "nav-link")}
             >
               Σύνοψη
             </NavLink>
+            <NavLink
+              to="/payroll"
+              className={({ isActive }) => (isActive ? "nav-link nav-link-active" : "nav-link")}
+            >
+              Μισθοδοσία
+            </NavLink>
             <NavLink
               to="/operations"
               className={({ isActive }) => (isActive ? "nav-link nav-link-active" : "nav-link")}
             >
               Αυτοματισμοί
             </NavLink>
+            <NavLink
+              to="/settings"
+              className={({ isActive }) => (isActive ? "nav-link nav-link-active" : "nav-link")}
+            >
+              Ρυθμίσεις
+            </NavLink>
             <NavLink
               to="/account"
               className={({ isActive }) => (isActive ? "nav-link nav-link-active" : "nav-link")}
@@ -249,6 +287,9 @@ export function NavBar() {
             ) : null}
           </div>
           <span className="muted-text">{user?.email}</span>
+          <button type="button" className="button" onClick={() => void handleEnterKioskMode()}>
+            Λειτουργία kiosk
+          </button>
           <button
             type="button"
             className="button"
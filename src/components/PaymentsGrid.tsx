@@ -1,16 +1,18 @@
 import { KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
-import type { Client, Payment } from "../types/database";
+import { Link } from "react-router-dom";
+import { formatCurrencyEUR } from "../lib/format";
+import type { MonthlyPackageSummary } from "../lib/packages";
+import type { Client } from "../types/database";
 
 export type PaymentDraft = {
   lessons: string;
   price: string;
-  paid: boolean;
   notes: string;
 };
 
 export type PaymentGridRow = {
   client: Client;
-  payment?: Payment;
+  summary?: MonthlyPackageSummary;
 };
 
 export type SaveStatus = "saving" | "saved" | "error";
@@ -19,20 +21,20 @@ type PaymentsGridProps = {
   rows: PaymentGridRow[];
   saveStatusByClientId: Record<string, SaveStatus>;
   onSave: (clientId: string, draft: PaymentDraft) => Promise<void>;
+  onRecordPayment: (row: PaymentGridRow) => void;
   emptyMessage?: string;
 };
 
-function paymentToDraft(payment?: Payment): PaymentDraft {
+function paymentToDraft(summary?: MonthlyPackageSummary): PaymentDraft {
   return {
-    lessons: payment?.lessons != null ? String(payment.lessons) : "",
-    price: payment?.price != null ? String(payment.price) : "",
-    paid: payment?.paid ?? false,
-    notes: payment?.notes ?? "",
+    lessons: summary ? String(summary.lessons) : "",
+    price: summary?.price != null ? String(summary.price) : "",
+    notes: summary?.notes ?? "",
   };
 }
 
 function draftsEqual(a: PaymentDraft, b: PaymentDraft): boolean {
-  return a.lessons === b.lessons && a.price === b.price && a.paid === b.paid && a.notes === b.notes;
+  return a.lessons === b.lessons && a.price === b.price && a.notes === b.notes;
 }
 
 function focusNextGridControl(current: HTMLElement) {
@@ -82,26 +84,32 @@ function getSaveStatusLabel(status: SaveStatus): string {
   return "Αποθηκεύτηκε";
 }
 
-type PaymentStatus = "unpaid" | "paid" | "no_record";
+export type PaymentStatus = "unpaid" | "partial" | "paid" | "no_record";
 
-function getPaymentStatus(payment?: Payment): PaymentStatus {
-  if (!payment) {
+export function getPaymentStatus(summary?: MonthlyPackageSummary): PaymentStatus {
+  if (!summary) {
     return "no_record";
   }
-  return payment.paid ? "paid" : "unpaid";
+  if (summary.paid) {
+    return "paid";
+  }
+  return summary.paidAmount > 0 ? "partial" : "unpaid";
 }
 
-function getPaymentStatusLabel(status: PaymentStatus): string {
+export function getPaymentStatusLabel(status: PaymentStatus): string {
   if (status === "paid") {
     return "Πληρωμένο";
   }
+  if (status === "partial") {
+    return "Μερικώς πληρωμένο";
+  }
   if (status === "unpaid") {
     return "Απλήρωτο";
   }
   return "Χωρίς εγγραφή";
 }
 
-export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage }: PaymentsGridProps) {
+export function PaymentsGrid({ rows, saveStatusByClientId, onSave, onRecordPayment, emptyMessage }: PaymentsGridProps) {
   const [drafts, setDrafts] = useState<Record<string, PaymentDraft>>({});
   const draftsRef = useRef<Record<string, PaymentDraft>>({});
 
@@ -114,7 +122,7 @@ export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage
 
   useEffect(() => {
     const nextDrafts = rows.reduce<Record<string, PaymentDraft>>((acc, row) => {
-      acc[row.client.id] = paymentToDraft(row.payment);
+      acc[row.client.id] = paymentToDraft(row.summary);
       return acc;
     }, {});
     setDrafts(nextDrafts);
@@ -127,7 +135,7 @@ export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage
 
   const updateDraft = (clientId: string, updater: (previous: PaymentDraft) => PaymentDraft) => {
     setDrafts((previous) => {
-      const current = previous[clientId] ?? paymentToDraft(sourceByClientId[clientId]?.payment);
+      const current = previous[clientId] ?? paymentToDraft(sourceByClientId[clientId]?.summary);
       const next = { ...previous, [clientId]: updater(current) };
       draftsRef.current = next;
       return next;
@@ -135,7 +143,7 @@ export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage
   };
 
   const saveIfChanged = async (clientId: string, draft: PaymentDraft) => {
-    const original = paymentToDraft(sourceByClientId[clientId]?.payment);
+    const original = paymentToDraft(sourceByClientId[clientId]?.summary);
     if (draftsEqual(original, draft)) {
       return;
     }
@@ -158,22 +166,34 @@ export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage
             <th>Πελάτης</th>
             <th>Μαθήματα</th>
             <th>Τιμή</th>
-            <th>Πληρωμένο</th>
+            <th>Πληρώθηκαν</th>
+            <th>Υπόλοιπο</th>
             <th>Σημειώσεις</th>
             <th>Κατάσταση πληρωμής</th>
             <th>Κατάσταση</th>
+            <th />
           </tr>
         </thead>
         <tbody>
           {rows.map((row) => {
             const clientId = row.client.id;
-            const draft = drafts[clientId] ?? paymentToDraft(row.payment);
+            const draft = drafts[clientId] ?? paymentToDraft(row.summary);
             const saveStatus = saveStatusByClientId[clientId] ?? "saved";
-            const paymentStatus = getPaymentStatus(row.payment);
+            const paymentStatus = getPaymentStatus(row.summary);
+            // Several packages in one month cannot be edited as a single row.
+            const packageCount = row.summary?.packages.length ?? 0;
+            const isLocked = packageCount > 1;
 
             return (
-              <tr key={clientId} className={paymentStatus === "unpaid" ? "payments-row-unpaid" : undefined}>
-                <td>{row.client.full_name}</td>
+              <tr key={clientId} className={paymentStatus === "unpaid" || paymentStatus === "partial" ? "payments-row-unpaid" : undefined}>
+                <td>
+                  {row.client.full_name}
+                  {isLocked ? (
+                    <div className="muted-text">
+                      {packageCount} πακέτα · <Link to={`/clients/${clientId}`}>επεξεργασία στο προφίλ</Link>
+                    </div>
+                  ) : null}
+                </td>
                 <td>
                   <input
                     className="input table-input"
@@ -181,6 +201,7 @@ export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage
                     min={0}
                     step={1}
                     value={draft.lessons}
+                    disabled={isLocked}
                     aria-label={`Μαθήματα για ${row.client.full_name}`}
                     onWheel={(event) => event.currentTarget.blur()}
                     onKeyDown={handleEnterAdvance}
@@ -198,6 +219,7 @@ export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage
                     min={0}
                     step="0.01"
                     value={draft.price}
+                    disabled={isLocked}
                     aria-label={`Τιμή για ${row.client.full_name}`}
                     onWheel={(event) => event.currentTarget.blur()}
                     onKeyDown={handleEnterAdvance}
@@ -208,31 +230,14 @@ export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage
                     onBlur={() => void saveIfChanged(clientId, draftsRef.current[clientId] ?? draft)}
                   />
                 </td>
-                <td>
-                  <select
-                    className="input table-input"
-                    value={draft.paid ? "paid" : "unpaid"}
-                    aria-label={`Πληρωμένο για ${row.client.full_name}`}
-                    onKeyDown={handleEnterAdvance}
-                    onChange={(event) => {
-                      const nextDraft = { ...draft, paid: event.target.value === "paid" };
-                      setDrafts((previous) => {
-                        const next = { ...previous, [clientId]: nextDraft };
-                        draftsRef.current = next;
-                        return next;
-                      });
-                      void saveIfChanged(clientId, nextDraft);
-                    }}
-                  >
-                    <option value="unpaid">Όχι</option>
-                    <option value="paid">Ναι</option>
-                  </select>
-                </td>
+                <td>{row.summary ? formatCurrencyEUR(row.summary.paidAmount) : "-"}</td>
+                <td>{row.summary ? formatCurrencyEUR(row.summary.outstanding) : "-"}</td>
                 <td>
                   <textarea
                     className="input table-input"
                     rows={2}
                     value={draft.notes}
+                    disabled={isLocked}
                     aria-label={`Σημειώσεις για ${row.client.full_name}`}
                     onKeyDown={handleEnterAdvance}
                     onChange={(event) => {
@@ -248,6 +253,16 @@ export function PaymentsGrid({ rows, saveStatusByClientId, onSave, emptyMessage
                   </span>
                 </td>
                 <td className={saveStatus === "error" ? "status-cell-error" : undefined}>{getSaveStatusLabel(saveStatus)}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="button"
+                    disabled={!row.summary || row.summary.outstanding <= 0}
+                    onClick={() => onRecordPayment(row)}
+                  >
+                    Πληρωμή
+                  </button>
+                </td>
               </tr>
             );
           })}
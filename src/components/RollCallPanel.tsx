@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import { formatResourceLabel, type ResourceLookup } from "../lib/resources";
+import {
+  buildRollCallDraft,
+  getRollCallChanges,
+  getRollCallSessions,
+  type AttendanceStatusChange,
+  type RollCallStatus,
+} from "../lib/rollCall";
+import type { Attendance, AttendanceStatus, Client } from "../types/database";
+
+type RollCallPanelProps = {
+  isOpen: boolean;
+  title: string;
+  sessions: Attendance[];
+  clientsById: Record<string, Client>;
+  resourceLookup: ResourceLookup;
+  isSubmitting?: boolean;
+  /** The `auto_mark_attended_enabled` automation setting; hidden while it is loading. */
+  autoMarkEnabled?: boolean;
+  isAutoMarkSaving?: boolean;
+  onAutoMarkChange: (enabled: boolean) => void;
+  onApply: (changes: AttendanceStatusChange[]) => void;
+  onClose: () => void;
+};
+
+const ROLL_CALL_OPTIONS: { status: RollCallStatus; label: string }[] = [
+  { status: "attended", label: "Παρών" },
+  { status: "no_show", label: "Απών" },
+];
+
+function formatTime(timeStart: string | null): string {
+  return timeStart ? timeStart.slice(0, 5) : "Χωρίς ώρα";
+}
+
+export function RollCallPanel({
+  isOpen,
+  title,
+  sessions,
+  clientsById,
+  resourceLookup,
+  isSubmitting = false,
+  autoMarkEnabled,
+  isAutoMarkSaving = false,
+  onAutoMarkChange,
+  onApply,
+  onClose,
+}: RollCallPanelProps) {
+  const rollCallSessions = getRollCallSessions(sessions);
+  const [draft, setDraft] = useState<Record<string, AttendanceStatus>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(buildRollCallDraft(sessions));
+    }
+  }, [isOpen, sessions]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    lockBodyScroll();
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      window.removeEventListener("keydown", handleEscape);
+      unlockBodyScroll();
+    };
+  }, [isOpen, isSubmitting, onClose]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const changes = getRollCallChanges(rollCallSessions, draft);
+  const skippedCount = sessions.length - rollCallSessions.length;
+
+  const markAllAttended = () => {
+    setDraft((previous) => ({
+      ...previous,
+      ...Object.fromEntries(rollCallSessions.map((session) => [session.id, "attended" as const])),
+    }));
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !isSubmitting && onClose()}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3>{title}</h3>
+        <div className="stack-sm">
+          {rollCallSessions.length ? (
+            <>
+              <div className="row space-between align-center wrap gap-sm">
+                <p className="muted-text">
+                  {rollCallSessions.length} κρατήσεις
+                  {skippedCount ? ` · ${skippedCount} ακυρωμένες ή μελλοντικές δεν εμφανίζονται` : ""}
+                </p>
+                <button type="button" className="button" onClick={markAllAttended} disabled={isSubmitting}>
+                  Όλοι παρόντες
+                </button>
+              </div>
+              <ul className="session-list">
+                {rollCallSessions.map((session) => {
+                  const clientName = clientsById[session.client_id]?.full_name ?? "Άγνωστος πελάτης";
+                  return (
+                    <li key={session.id} className="session-row">
+                      <div>
+                        <strong>{clientName}</strong>
+                        <p className="session-meta">
+                          {formatTime(session.time_start)} · {formatResourceLabel(session.bed_type, resourceLookup)}
+                        </p>
+                      </div>
+                      <div className="row gap-sm" role="group" aria-label={`Παρουσία ${clientName}`}>
+                        {ROLL_CALL_OPTIONS.map((option) => (
+                          <button
+                            key={option.status}
+                            type="button"
+                            className={[
+                              "week-session-status-action",
+                              `week-session-status-${option.status}`,
+                              draft[session.id] === option.status ? "week-session-status-action-active" : "",
+                            ]
+                              .filter(Boolean)
+                              .join(" ")}
+                            aria-pressed={draft[session.id] === option.status}
+                            disabled={isSubmitting}
+                            onClick={() => setDraft((previous) => ({ ...previous, [session.id]: option.status }))}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          ) : (
+            <div className="empty-state">Δεν υπάρχουν συνεδρίες που έχουν ξεκινήσει για παρουσίες.</div>
+          )}
+          {autoMarkEnabled != null ? (
+            <label className="row gap-sm align-center">
+              <input
+                type="checkbox"
+                checked={autoMarkEnabled}
+                disabled={isAutoMarkSaving}
+                onChange={(event) => onAutoMarkChange(event.target.checked)}
+              />
+              <span>Στο τέλος της ημέρας, όσες κρατήσεις μείνουν χωρίς παρουσία σημειώνονται ως παρόντες</span>
+            </label>
+          ) : null}
+          <div className="row gap-sm align-end">
+            <button
+              type="button"
+              className="button button-primary"
+              disabled={!changes.length || isSubmitting}
+              onClick={() => onApply(changes)}
+            >
+              {isSubmitting ? "Αποθήκευση..." : changes.length ? `Εφαρμογή (${changes.length})` : "Εφαρμογή"}
+            </button>
+            <button type="button" className="button" onClick={onClose} disabled={isSubmitting}>
+              Κλείσιμο
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
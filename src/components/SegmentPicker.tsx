@@ -0,0 +1,29 @@
+import { describeSegment } from "../lib/clientTags";
+import type { ClientSegment, ClientTag } from "../types/database";
+
+type SegmentPickerProps = {
+  segments: ClientSegment[];
+  tags: ClientTag[];
+  value: string;
+  onChange: (segmentId: string) => void;
+};
+
+export function SegmentPicker({ segments, tags, value, onChange }: SegmentPickerProps) {
+  if (!segments.length) {
+    return null;
+  }
+
+  return (
+    <label className="field-label">
+      <span>Αποθηκευμένο τμήμα</span>
+      <select className="input" value={value} onChange={(event) => onChange(event.target.value)}>
+        <option value="">Χωρίς τμήμα</option>
+        {segments.map((segment) => (
+          <option key={segment.id} value={segment.id}>
+            {segment.name} ({describeSegment(segment.filters, tags)})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
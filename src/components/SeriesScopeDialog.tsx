@@ -0,0 +1,80 @@
+import { useEffect } from "react";
+import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import { SERIES_SCOPE_LABEL, type SeriesScope } from "../lib/recurrence";
+
+type SeriesScopeDialogProps = {
+  isOpen: boolean;
+  title: string;
+  description?: string;
+  isSubmitting?: boolean;
+  onSelect: (scope: SeriesScope) => void;
+  onClose: () => void;
+};
+
+const SCOPES: SeriesScope[] = ["single", "following", "all"];
+
+export function SeriesScopeDialog({
+  isOpen,
+  title,
+  description,
+  isSubmitting = false,
+  onSelect,
+  onClose,
+}: SeriesScopeDialogProps) {
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    lockBodyScroll();
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      window.removeEventListener("keydown", handleEscape);
+      unlockBodyScroll();
+    };
+  }, [isOpen, isSubmitting, onClose]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !isSubmitting && onClose()}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3>{title}</h3>
+        <div className="stack-sm">
+          {description ? <p className="muted-text">{description}</p> : null}
+          {SCOPES.map((scope) => (
+            <button
+              key={scope}
+              type="button"
+              className="button"
+              disabled={isSubmitting}
+              onClick={() => onSelect(scope)}
+            >
+              {SERIES_SCOPE_LABEL[scope]}
+            </button>
+          ))}
+          <div className="row gap-sm align-end">
+            <button type="button" className="button" onClick={onClose} disabled={isSubmitting}>
+              Ακύρωση
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import { useEffect } from "react";
+import { formatHealthWarnings, getClientHealthWarnings } from "../lib/clientHealth";
 import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import { formatResourceLabel, type ResourceLookup } from "../lib/resources";
+import { ATTENDANCE_STATUS_LABELS } from "../lib/sessionStatus";
 import type { Attendance, Client } from "../types/database";
 
 type SessionsDrawerProps = {
@@ -7,6 +10,7 @@ type SessionsDrawerProps = {
   date: Date | null;
   sessions: Attendance[];
   clientsById: Record<string, Client>;
+  resourceLookup: ResourceLookup;
   onClose: () => void;
   onAdd: () => void;
   onEdit: (session: Attendance) => void;
@@ -20,15 +24,12 @@ function formatTime(value: string | null): string {
   return value.slice(0, 5);
 }
 
-function formatBedType(value: Attendance["bed_type"]): string {
-  return value === "cadillac" ? "CADILLAC" : "REFORMER";
-}
-
 export function SessionsDrawer({
   isOpen,
   date,
   sessions,
   clientsById,
+  resourceLookup,
   onClose,
   onAdd,
   onEdit,
@@ -92,21 +93,22 @@ export function SessionsDrawer({
           <div className="session-list">
             {sortedSessions.map((session) => {
               const clientName = clientsById[session.client_id]?.full_name ?? "Άγνωστος πελάτης";
+              const healthWarnings = getClientHealthWarnings(clientsById[session.client_id]);
               return (
                 <article key={session.id} className="session-item">
                   <div className="session-row">
                     <div>
                       <strong>{clientName}</strong>
                       <div className="session-meta">
-                        {formatTime(session.time_start)} · {formatBedType(session.bed_type)}
+                        {formatTime(session.time_start)} · {formatResourceLabel(session.bed_type, resourceLookup)}
+                        {session.series_id ? " · ↻ Σειρά" : ""}
                       </div>
+                      {healthWarnings.length ? (
+                        <span className="health-badge">⚠ {formatHealthWarnings(healthWarnings)}</span>
+                      ) : null}
                     </div>
                     <span className={`status-pill status-${session.status.replace("_", "-")}`}>
-                      {session.status === "attended"
-                        ? "παρακολούθησε"
-                        : session.status === "canceled"
-                          ? "ακυρώθηκε"
-                          : "δεν προσήλθε"}
+                      {ATTENDANCE_STATUS_LABELS[session.status].toLowerCase()}
                     </span>
                   </div>
                   {session.notes ? <p className="session-notes">{session.notes}</p> : null}
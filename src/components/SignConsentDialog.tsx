@@ -0,0 +1,182 @@
+import { FormEvent, useEffect, useState } from "react";
+import { CONSENT_TYPES, CONSENT_TYPE_LABELS } from "../lib/consents";
+import { parseIsoDate, toIsoDate } from "../lib/date";
+import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import { SignaturePad } from "./SignaturePad";
+import type { ClientConsentInsert, ConsentType } from "../types/database";
+
+export type ConsentInput = Pick<
+  ClientConsentInsert,
+  "consent_type" | "version" | "signed_on" | "expires_on" | "signer_name" | "signature_data"
+>;
+
+type SignConsentDialogProps = {
+  isOpen: boolean;
+  clientName: string;
+  initialType?: ConsentType;
+  onClose: () => void;
+  onSave: (input: ConsentInput) => Promise<void>;
+};
+
+function defaultExpiry(signedOn: string): string {
+  const date = parseIsoDate(signedOn);
+  return toIsoDate(new Date(date.getFullYear() + 1, date.getMonth(), date.getDate()));
+}
+
+export function SignConsentDialog({ isOpen, clientName, initialType, onClose, onSave }: SignConsentDialogProps) {
+  const [consentType, setConsentType] = useState<ConsentType>("waiver");
+  const [version, setVersion] = useState("1");
+  const [signedOn, setSignedOn] = useState(() => toIsoDate(new Date()));
+  const [expiresOn, setExpiresOn] = useState("");
+  const [signerName, setSignerName] = useState("");
+  const [signatureData, setSignatureData] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const today = toIsoDate(new Date());
+    setConsentType(initialType ?? "waiver");
+    setVersion("1");
+    setSignedOn(today);
+    setExpiresOn(defaultExpiry(today));
+    setSignerName(clientName);
+    setSignatureData(null);
+    setErrorMessage(null);
+  }, [clientName, isOpen, initialType]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    lockBodyScroll();
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      window.removeEventListener("keydown", handleEscape);
+      unlockBodyScroll();
+    };
+  }, [isOpen, isSubmitting, onClose]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmedVersion = version.trim();
+    const trimmedSigner = signerName.trim();
+
+    if (!trimmedVersion) {
+      setErrorMessage("Συμπλήρωσε την έκδοση του εγγράφου.");
+      return;
+    }
+    if (!signedOn) {
+      setErrorMessage("Συμπλήρωσε ημερομηνία υπογραφής.");
+      return;
+    }
+    if (!trimmedSigner) {
+      setErrorMessage("Συμπλήρωσε το ονοματεπώνυμο του υπογράφοντος.");
+      return;
+    }
+    if (expiresOn && expiresOn < signedOn) {
+      setErrorMessage("Η λήξη δεν μπορεί να είναι πριν από την υπογραφή.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await onSave({
+        consent_type: consentType,
+        version: trimmedVersion,
+        signed_on: signedOn,
+        expires_on: expiresOn || null,
+        signer_name: trimmedSigner,
+        signature_data: signatureData,
+      });
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η καταχώρηση υπογραφής.";
+      setErrorMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={() => !isSubmitting && onClose()}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Υπογραφή συναίνεσης"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3>Υπογραφή συναίνεσης · {clientName}</h3>
+        <form className="stack-sm" onSubmit={handleSubmit}>
+          <label className="field-label">
+            <span>Έγγραφο</span>
+            <select
+              className="input"
+              value={consentType}
+              onChange={(event) => setConsentType(event.target.value as ConsentType)}
+            >
+              {CONSENT_TYPES.map((option) => (
+                <option key={option} value={option}>
+                  {CONSENT_TYPE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            <span>Έκδοση εγγράφου</span>
+            <input className="input" type="text" value={version} onChange={(event) => setVersion(event.target.value)} />
+          </label>
+          <div className="row gap-sm wrap">
+            <label className="field-label">
+              <span>Ημερομηνία υπογραφής</span>
+              <input
+                className="input"
+                type="date"
+                value={signedOn}
+                onChange={(event) => setSignedOn(event.target.value)}
+                required
+              />
+            </label>
+            <label className="field-label">
+              <span>Λήξη (κενό = αορίστως)</span>
+              <input className="input" type="date" value={expiresOn} onChange={(event) => setExpiresOn(event.target.value)} />
+            </label>
+          </div>
+          <label className="field-label">
+            <span>Ονοματεπώνυμο υπογράφοντος</span>
+            <input className="input" type="text" value={signerName} onChange={(event) => setSignerName(event.target.value)} />
+          </label>
+          <div className="field-label">
+            <span>Υπογραφή (προαιρετική)</span>
+            <SignaturePad onChange={setSignatureData} />
+          </div>
+          {errorMessage ? <p className="text-error">{errorMessage}</p> : null}
+          <div className="row gap-sm align-end">
+            <button type="button" className="button" onClick={onClose} disabled={isSubmitting}>
+              Ακύρωση
+            </button>
+            <button type="submit" className="button button-primary" disabled={isSubmitting}>
+              {isSubmitting ? "Αποθήκευση..." : "Καταχώρηση υπογραφής"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
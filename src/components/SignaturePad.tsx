@@ -0,0 +1,106 @@
+import { PointerEvent, useEffect, useRef } from "react";
+
+type SignaturePadProps = {
+  /** Called with a PNG data URL after each stroke, or null once cleared. */
+  onChange: (dataUrl: string | null) => void;
+};
+
+export function SignaturePad({ onChange }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const isDrawingRef = useRef(false);
+  const hasStrokesRef = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    // Match the backing store to the rendered size so strokes follow the finger on tablets.
+    const ratio = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = Math.round(rect.width * ratio);
+    canvas.height = Math.round(rect.height * ratio);
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = "round";
+      context.lineJoin = "round";
+      context.strokeStyle = "#1f2937";
+    }
+  }, []);
+
+  const getPoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isDrawingRef.current = true;
+    const point = getPoint(event);
+    context.beginPath();
+    context.moveTo(point.x, point.y);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) {
+      return;
+    }
+    const context = event.currentTarget.getContext("2d");
+    if (!context) {
+      return;
+    }
+    const point = getPoint(event);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    hasStrokesRef.current = true;
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) {
+      return;
+    }
+    isDrawingRef.current = false;
+    if (hasStrokesRef.current) {
+      onChange(event.currentTarget.toDataURL("image/png"));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) {
+      return;
+    }
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.restore();
+    hasStrokesRef.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div className="stack-sm">
+      <canvas
+        ref={canvasRef}
+        className="signature-pad"
+        aria-label="Πεδίο υπογραφής"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <div className="row gap-sm">
+        <button type="button" className="button" onClick={handleClear}>
+          Καθαρισμός υπογραφής
+        </button>
+      </div>
+    </div>
+  );
+}
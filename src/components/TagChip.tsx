@@ -0,0 +1,10 @@
+import type { ClientTag } from "../types/database";
+
+export function TagChip({ tag }: { tag: ClientTag }) {
+  return (
+    <span className="tag-chip" style={{ borderColor: tag.color }}>
+      <span className="tag-chip-dot" style={{ backgroundColor: tag.color }} aria-hidden="true" />
+      {tag.name}
+    </span>
+  );
+}
@@ -0,0 +1,51 @@
+import type { ClientTag } from "../types/database";
+
+type TagFilterProps = {
+  tags: ClientTag[];
+  selectedTagIds: string[];
+  onChange: (tagIds: string[]) => void;
+  label?: string;
+  /** Label of a leading chip that clears the selection; omitted when empty selection has no meaning. */
+  allLabel?: string;
+  disabled?: boolean;
+};
+
+export function TagFilter({ tags, selectedTagIds, onChange, label = "Ετικέτες", allLabel, disabled }: TagFilterProps) {
+  if (!tags.length) {
+    return null;
+  }
+
+  return (
+    <div className="filter-chips" role="group" aria-label={label}>
+      {allLabel ? (
+        <button
+          type="button"
+          className={selectedTagIds.length === 0 ? "filter-chip filter-chip-active" : "filter-chip"}
+          aria-pressed={selectedTagIds.length === 0}
+          disabled={disabled}
+          onClick={() => onChange([])}
+        >
+          {allLabel}
+        </button>
+      ) : null}
+      {tags.map((tag) => {
+        const isSelected = selectedTagIds.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            className={isSelected ? "filter-chip filter-chip-active" : "filter-chip"}
+            aria-pressed={isSelected}
+            disabled={disabled}
+            onClick={() =>
+              onChange(isSelected ? selectedTagIds.filter((tagId) => tagId !== tag.id) : [...selectedTagIds, tag.id])
+            }
+          >
+            <span className="tag-chip-dot" style={{ backgroundColor: tag.color }} aria-hidden="true" />
+            {tag.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
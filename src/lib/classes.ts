@@ -0,0 +1,31 @@
+import { formatBookingError } from "./waitlist";
+import type { Attendance } from "../types/database";
+
+/** Raised by the `enforce_class_capacity` trigger when a class roster is full. */
+export function isClassFullError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("class_full");
+}
+
+export function formatRosterError(error: unknown, fallback: string): string {
+  if (isClassFullError(error)) {
+    return "Το μάθημα είναι πλήρες.";
+  }
+  return formatBookingError(error, fallback);
+}
+
+/** Roster attendance of each class session, keyed by class session id. */
+export function groupRosterByClassSession(sessions: Attendance[]): Map<string, Attendance[]> {
+  const map = new Map<string, Attendance[]>();
+  for (const session of sessions) {
+    if (!session.class_session_id) {
+      continue;
+    }
+    map.set(session.class_session_id, [...(map.get(session.class_session_id) ?? []), session]);
+  }
+  return map;
+}
+
+/** Canceled roster entries free their place, matching `enforce_class_capacity`. */
+export function countRosterPlaces(roster: Attendance[]): number {
+  return roster.filter((session) => session.status !== "canceled").length;
+}
@@ -0,0 +1,39 @@
+import type { Client } from "../types/database";
+
+export type HealthWarning = {
+  key: "injuries" | "contraindications" | "pregnancy";
+  label: string;
+  detail: string | null;
+};
+
+/** Warnings an instructor should see before a session; physio clearance is noted, not hidden. */
+export function getClientHealthWarnings(client: Client | null | undefined): HealthWarning[] {
+  if (!client) {
+    return [];
+  }
+
+  const warnings: HealthWarning[] = [];
+  const injuries = client.injuries?.trim();
+  const contraindications = client.contraindications?.trim();
+
+  if (injuries) {
+    const clearance = client.physio_cleared
+      ? ` (έγκριση φυσικοθεραπευτή${
+          client.physio_cleared_on ? ` ${new Date(client.physio_cleared_on).toLocaleDateString("el-GR")}` : ""
+        })`
+      : "";
+    warnings.push({ key: "injuries", label: `Τραυματισμός${clearance}`, detail: injuries });
+  }
+  if (contraindications) {
+    warnings.push({ key: "contraindications", label: "Αντενδείξεις", detail: contraindications });
+  }
+  if (client.is_pregnant) {
+    warnings.push({ key: "pregnancy", label: "Εγκυμοσύνη", detail: null });
+  }
+
+  return warnings;
+}
+
+export function formatHealthWarnings(warnings: HealthWarning[]): string {
+  return warnings.map((warning) => (warning.detail ? `${warning.label}: ${warning.detail}` : warning.label)).join(" · ");
+}
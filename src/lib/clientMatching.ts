@@ -0,0 +1,97 @@
+import type { Client } from "../types/database";
+
+export type DuplicateReason = "name" | "phone";
+
+export type DuplicateGroup = {
+  key: string;
+  reasons: DuplicateReason[];
+  clients: Client[];
+};
+
+/**
+ * Accent-, case- and word-order-insensitive name key, so "Μαρία Παπαδοπούλου",
+ * "Μαρια Παπαδοπουλου" and "ΠΑΠΑΔΟΠΟΥΛΟΥ Μαρία" all match.
+ */
+export function normalizeNameForMatching(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLocaleLowerCase("el-GR")
+    .replace(/ς/g, "σ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+/** Digits only, without the Greek country code; null when too short to identify anyone. */
+export function normalizePhoneForMatching(phone: string | null | undefined): string | null {
+  let digits = (phone ?? "").replace(/\D/g, "");
+  if (digits.startsWith("0030")) {
+    digits = digits.slice(4);
+  } else if (digits.startsWith("30") && digits.length === 12) {
+    digits = digits.slice(2);
+  }
+  return digits.length >= 8 ? digits : null;
+}
+
+/** Groups clients sharing a normalised name or phone; clients linked through either end up in one group. */
+export function findDuplicateClientGroups(clients: Client[]): DuplicateGroup[] {
+  const parent = new Map(clients.map((client) => [client.id, client.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(id, root);
+    return root;
+  };
+
+  const reasonsByRoot = new Map<string, Set<DuplicateReason>>();
+  const link = (ids: string[], reason: DuplicateReason) => {
+    const [first, ...rest] = ids;
+    for (const id of rest) {
+      const firstRoot = find(first);
+      const otherRoot = find(id);
+      if (firstRoot !== otherRoot) {
+        parent.set(otherRoot, firstRoot);
+        const merged = new Set([...(reasonsByRoot.get(firstRoot) ?? []), ...(reasonsByRoot.get(otherRoot) ?? [])]);
+        reasonsByRoot.set(firstRoot, merged);
+      }
+    }
+    const root = find(first);
+    reasonsByRoot.set(root, new Set([...(reasonsByRoot.get(root) ?? []), reason]));
+  };
+
+  const idsByName = new Map<string, string[]>();
+  const idsByPhone = new Map<string, string[]>();
+  for (const client of clients) {
+    const nameKey = normalizeNameForMatching(client.full_name);
+    if (nameKey) {
+      idsByName.set(nameKey, [...(idsByName.get(nameKey) ?? []), client.id]);
+    }
+    const phoneKey = normalizePhoneForMatching(client.phone);
+    if (phoneKey) {
+      idsByPhone.set(phoneKey, [...(idsByPhone.get(phoneKey) ?? []), client.id]);
+    }
+  }
+  idsByName.forEach((ids) => ids.length > 1 && link(ids, "name"));
+  idsByPhone.forEach((ids) => ids.length > 1 && link(ids, "phone"));
+
+  const clientsByRoot = new Map<string, Client[]>();
+  for (const client of clients) {
+    const root = find(client.id);
+    clientsByRoot.set(root, [...(clientsByRoot.get(root) ?? []), client]);
+  }
+
+  return [...clientsByRoot.entries()]
+    .filter(([, groupClients]) => groupClients.length > 1)
+    .map(([root, groupClients]) => ({
+      key: root,
+      reasons: [...(reasonsByRoot.get(root) ?? [])].sort(),
+      clients: [...groupClients].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }))
+    .sort((a, b) => a.clients[0].full_name.localeCompare(b.clients[0].full_name, "el"));
+}
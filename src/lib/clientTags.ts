@@ -0,0 +1,83 @@
+import type {
+  ClientSegmentFilters,
+  ClientTag,
+  ClientTagAssignment,
+  SegmentClientStatus,
+  SegmentPaymentStatus,
+} from "../types/database";
+
+export const CLIENT_TAG_COLORS = ["#2563eb", "#16a34a", "#d97706", "#dc2626", "#9333ea", "#0891b2", "#db2777", "#64748b"];
+
+export const SEGMENT_CLIENT_STATUS_LABELS: Record<SegmentClientStatus, string> = {
+  all: "Όλοι",
+  active: "Ενεργοί",
+  inactive: "Ανενεργοί",
+};
+
+export const SEGMENT_PAYMENT_STATUS_LABELS: Record<SegmentPaymentStatus, string> = {
+  all: "Οποιαδήποτε πληρωμή",
+  unpaid: "Απλήρωτοι",
+  paid: "Εξοφλημένοι",
+  no_record: "Χωρίς εγγραφή πληρωμής",
+};
+
+export const DEFAULT_SEGMENT_FILTERS: ClientSegmentFilters = {
+  client_status: "all",
+  payment_status: "all",
+  tag_ids: [],
+};
+
+export function buildTagIdsByClientId(assignments: ClientTagAssignment[]): Map<string, Set<string>> {
+  const tagIdsByClientId = new Map<string, Set<string>>();
+  for (const assignment of assignments) {
+    const tagIds = tagIdsByClientId.get(assignment.client_id) ?? new Set<string>();
+    tagIds.add(assignment.tag_id);
+    tagIdsByClientId.set(assignment.client_id, tagIds);
+  }
+  return tagIdsByClientId;
+}
+
+/** Tags of one client in the tag list order, skipping assignments of deleted tags. */
+export function getClientTags(clientTagIds: Set<string> | undefined, tags: ClientTag[]): ClientTag[] {
+  return clientTagIds ? tags.filter((tag) => clientTagIds.has(tag.id)) : [];
+}
+
+/** Selected tags narrow the list: a client must carry every one of them. */
+export function hasAllTags(clientTagIds: Set<string> | undefined, requiredTagIds: string[]): boolean {
+  return requiredTagIds.every((tagId) => clientTagIds?.has(tagId) ?? false);
+}
+
+export type SegmentCandidate = {
+  isActive: boolean;
+  /** Payment status of the month being viewed; partially paid counts as unpaid. */
+  paymentStatus: Exclude<SegmentPaymentStatus, "all">;
+  tagIds: Set<string> | undefined;
+};
+
+export function matchesClientSegment(candidate: SegmentCandidate, filters: ClientSegmentFilters): boolean {
+  if (filters.client_status === "active" && !candidate.isActive) {
+    return false;
+  }
+  if (filters.client_status === "inactive" && candidate.isActive) {
+    return false;
+  }
+  if (filters.payment_status !== "all" && filters.payment_status !== candidate.paymentStatus) {
+    return false;
+  }
+  return hasAllTags(candidate.tagIds, filters.tag_ids ?? []);
+}
+
+export function describeSegment(filters: ClientSegmentFilters, tags: ClientTag[]): string {
+  const parts: string[] = [];
+  if (filters.client_status !== "all") {
+    parts.push(SEGMENT_CLIENT_STATUS_LABELS[filters.client_status]);
+  }
+  if (filters.payment_status !== "all") {
+    parts.push(SEGMENT_PAYMENT_STATUS_LABELS[filters.payment_status]);
+  }
+  const tagNameById = new Map(tags.map((tag) => [tag.id, tag.name]));
+  for (const tagId of filters.tag_ids ?? []) {
+    parts.push(`#${tagNameById.get(tagId) ?? "διαγραμμένη ετικέτα"}`);
+  }
+  return parts.length ? parts.join(" + ") : "Όλοι οι πελάτες";
+}
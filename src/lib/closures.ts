@@ -0,0 +1,63 @@
+import { addDays, parseIsoDate, toIsoDate } from "./date";
+import { minutesToTime, timeToMinutes } from "./schedule";
+import type { StudioClosure } from "../types/database";
+
+export function isFullDayClosure(closure: StudioClosure): boolean {
+  return closure.start_time == null || closure.end_time == null;
+}
+
+/** Closures of each day in [fromIso, toIsoExclusive), keyed by ISO date. */
+export function groupClosuresByDate(
+  closures: StudioClosure[],
+  fromIso: string,
+  toIsoExclusive: string,
+): Map<string, StudioClosure[]> {
+  const map = new Map<string, StudioClosure[]>();
+  for (const closure of closures) {
+    const last = closure.ends_on < toIsoExclusive ? closure.ends_on : toIsoDate(addDays(parseIsoDate(toIsoExclusive), -1));
+    let dateIso = closure.starts_on > fromIso ? closure.starts_on : fromIso;
+    while (dateIso <= last) {
+      map.set(dateIso, [...(map.get(dateIso) ?? []), closure]);
+      dateIso = toIsoDate(addDays(parseIsoDate(dateIso), 1));
+    }
+  }
+  return map;
+}
+
+/** The closure that shuts the slot [slotStart, slotStart + slotMinutes) of a day, if any. */
+export function findClosureForSlot(
+  dayClosures: StudioClosure[] | undefined,
+  slotStart: number,
+  slotMinutes: number,
+): StudioClosure | null {
+  for (const closure of dayClosures ?? []) {
+    if (isFullDayClosure(closure)) {
+      return closure;
+    }
+    const closedFrom = timeToMinutes(closure.start_time) ?? 0;
+    const closedUntil = timeToMinutes(closure.end_time) ?? 24 * 60;
+    if (slotStart < closedUntil && slotStart + slotMinutes > closedFrom) {
+      return closure;
+    }
+  }
+  return null;
+}
+
+/** The closure covering a session starting at `timeStart` on `dateIso`, if any. */
+export function findClosureAt(closures: StudioClosure[], dateIso: string, timeStart: string | null): StudioClosure | null {
+  const dayClosures = closures.filter((closure) => closure.starts_on <= dateIso && closure.ends_on >= dateIso);
+  const minutes = timeToMinutes(timeStart);
+  if (minutes == null) {
+    return dayClosures.find(isFullDayClosure) ?? null;
+  }
+  return findClosureForSlot(dayClosures, minutes, 1);
+}
+
+export function formatClosureLabel(closure: StudioClosure): string {
+  if (isFullDayClosure(closure)) {
+    return closure.reason;
+  }
+  const from = minutesToTime(timeToMinutes(closure.start_time) ?? 0);
+  const until = minutesToTime(timeToMinutes(closure.end_time) ?? 0);
+  return `${closure.reason} (${from}-${until})`;
+}
@@ -0,0 +1,68 @@
+import { addDays, parseIsoDate, toIsoDate } from "./date";
+import type { ClientConsent, ConsentType } from "../types/database";
+
+export const CONSENT_TYPES: ConsentType[] = ["waiver", "gdpr"];
+
+export const CONSENT_TYPE_LABELS: Record<ConsentType, string> = {
+  waiver: "Δήλωση απαλλαγής ευθύνης",
+  gdpr: "Συναίνεση GDPR",
+};
+
+export const DEFAULT_CONSENT_EXPIRY_WARNING_DAYS = 30;
+
+export type ConsentState = "valid" | "expiring" | "expired" | "missing";
+
+export const CONSENT_STATE_LABELS: Record<ConsentState, string> = {
+  valid: "Σε ισχύ",
+  expiring: "Λήγει σύντομα",
+  expired: "Έληξε",
+  missing: "Λείπει",
+};
+
+export type ConsentStatus = {
+  type: ConsentType;
+  state: ConsentState;
+  consent: ClientConsent | null;
+};
+
+/** Status of the signed consent that stays valid the longest; matches the `consent_missing` automation rule. */
+export function getConsentStatus(
+  consents: ClientConsent[],
+  type: ConsentType,
+  todayIso: string,
+  warningDays = DEFAULT_CONSENT_EXPIRY_WARNING_DAYS,
+): ConsentStatus {
+  const signed = consents.filter((consent) => consent.consent_type === type && consent.signed_on <= todayIso);
+  if (!signed.length) {
+    return { type, state: "missing", consent: null };
+  }
+
+  const [latest] = [...signed].sort((left, right) => {
+    if (left.expires_on === right.expires_on) {
+      return right.signed_on.localeCompare(left.signed_on);
+    }
+    if (!left.expires_on) {
+      return -1;
+    }
+    if (!right.expires_on) {
+      return 1;
+    }
+    return right.expires_on.localeCompare(left.expires_on);
+  });
+
+  if (!latest.expires_on) {
+    return { type, state: "valid", consent: latest };
+  }
+  if (latest.expires_on < todayIso) {
+    return { type, state: "expired", consent: latest };
+  }
+  if (latest.expires_on < toIsoDate(addDays(parseIsoDate(todayIso), warningDays))) {
+    return { type, state: "expiring", consent: latest };
+  }
+  return { type, state: "valid", consent: latest };
+}
+
+export function hasValidWaiver(consents: ClientConsent[], todayIso: string): boolean {
+  const { state } = getConsentStatus(consents, "waiver", todayIso);
+  return state === "valid" || state === "expiring";
+}
@@ -0,0 +1,159 @@
+export type CsvTable = {
+  headers: string[];
+  records: string[][];
+  /** 1-based line in the file where each record starts, for error reports. */
+  recordLines: number[];
+};
+
+function detectDelimiter(firstLine: string): string {
+  const semicolons = firstLine.split(";").length;
+  const commas = firstLine.split(",").length;
+  return semicolons >= commas ? ";" : ",";
+}
+
+/**
+ * Parses RFC 4180 style CSV (quoted cells, doubled quotes, line breaks inside quotes).
+ * The delimiter is `;` or `,`, whichever splits the header line into more columns,
+ * so files written by `buildCsv` and by Excel/Sheets in either locale are accepted.
+ */
+export function parseCsv(text: string): CsvTable {
+  const source = text.replace(/^\ufeff/, "");
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? "");
+  const rows: { cells: string[]; line: number }[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") {
+          line += 1;
+        }
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      cell = "";
+      line += 1;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push({ cells: row, line: rowLine });
+  }
+
+  const [headerRow, ...dataRows] = rows.filter((candidate) => candidate.cells.some((value) => value.trim() !== ""));
+  return {
+    headers: (headerRow?.cells ?? []).map((header) => header.trim()),
+    records: dataRows.map((dataRow) => dataRow.cells),
+    recordLines: dataRows.map((dataRow) => dataRow.line),
+  };
+}
+
+function normalizeCsvToken(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0370-\u03ff]+/g, "");
+}
+
+/** Picks, per field, the first header matching one of its aliases; unmatched fields map to -1. */
+export function guessColumnMapping<Field extends string>(
+  headers: string[],
+  aliases: Record<Field, string[]>,
+): Record<Field, number> {
+  const normalizedHeaders = headers.map(normalizeCsvToken);
+  const mapping = {} as Record<Field, number>;
+  for (const field of Object.keys(aliases) as Field[]) {
+    const candidates = aliases[field].map(normalizeCsvToken);
+    mapping[field] = normalizedHeaders.findIndex((header) => candidates.includes(header));
+  }
+  return mapping;
+}
+
+export function readCsvCell(record: string[], columnIndex: number): string {
+  return columnIndex >= 0 ? (record[columnIndex] ?? "").trim() : "";
+}
+
+const TRUE_VALUES = ["1", "true", "yes", "y", "ναι", "ν", "x", "πληρωμενο", "ενεργος"];
+const FALSE_VALUES = ["0", "false", "no", "n", "οχι", "ο", "απληρωτο", "ανενεργος"];
+
+/** Returns null for an empty cell and undefined for a value that is not recognisably yes/no. */
+export function parseCsvBoolean(value: string): boolean | null | undefined {
+  if (!value.trim()) {
+    return null;
+  }
+  const normalized = normalizeCsvToken(value);
+  if (TRUE_VALUES.includes(normalized) || value.trim() === "✓") {
+    return true;
+  }
+  if (FALSE_VALUES.includes(normalized)) {
+    return false;
+  }
+  return undefined;
+}
+
+/** Accepts `12,50`, `12.50`, `1.234,50` and a trailing `€`; returns null for empty and NaN for invalid. */
+export function parseCsvNumber(value: string): number | null {
+  const compact = value.replace(/[€\s]/g, "");
+  if (!compact) {
+    return null;
+  }
+  const normalized =
+    compact.includes(",") && compact.includes(".")
+      ? compact.replace(/\./g, "").replace(",", ".")
+      : compact.replace(",", ".");
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : Number.NaN;
+}
+
+/** First day of the month for `2024-03`, `2024-03-15`, `03/2024` or `15/03/2024`; null when unreadable. */
+export function parseCsvMonth(value: string): string | null {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+
+  const isoMatch = /^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/.exec(trimmed);
+  const localMatch = /^(?:\d{1,2}[/.-])?(\d{1,2})[/.-](\d{4})$/.exec(trimmed);
+  if (isoMatch) {
+    year = Number(isoMatch[1]);
+    month = Number(isoMatch[2]);
+  } else if (localMatch) {
+    year = Number(localMatch[2]);
+    month = Number(localMatch[1]);
+  } else {
+    return null;
+  }
+
+  if (month < 1 || month > 12) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-01`;
+}
@@ -0,0 +1,220 @@
+import { guessColumnMapping, parseCsvBoolean, parseCsvMonth, parseCsvNumber, readCsvCell, type CsvTable } from "./csv";
+import { parseIsoDate, toIsoDate } from "./date";
+import type { Client, ClientPackage } from "../types/database";
+
+export type ImportKind = "clients" | "payments";
+export type ImportRowStatus = "ready" | "duplicate" | "invalid";
+
+export type ImportField<Field extends string> = {
+  key: Field;
+  label: string;
+  required: boolean;
+  aliases: string[];
+};
+
+export type ClientImportField = "full_name" | "phone" | "is_active";
+export type PaymentImportField = "client_name" | "month" | "lessons" | "price" | "paid";
+
+export const CLIENT_IMPORT_FIELDS: ImportField<ClientImportField>[] = [
+  {
+    key: "full_name",
+    label: "Ονοματεπώνυμο",
+    required: true,
+    aliases: ["full_name", "name", "client", "όνομα", "ονοματεπώνυμο", "πελάτης"],
+  },
+  { key: "phone", label: "Τηλέφωνο", required: false, aliases: ["phone", "mobile", "τηλέφωνο", "κινητό"] },
+  { key: "is_active", label: "Ενεργός", required: false, aliases: ["active", "is_active", "ενεργός", "κατάσταση"] },
+];
+
+export const PAYMENT_IMPORT_FIELDS: ImportField<PaymentImportField>[] = [
+  {
+    key: "client_name",
+    label: "Πελάτης",
+    required: true,
+    aliases: ["client", "client_name", "name", "πελάτης", "όνομα", "ονοματεπώνυμο"],
+  },
+  { key: "month", label: "Μήνας", required: true, aliases: ["month", "month_start", "date", "μήνας", "ημερομηνία"] },
+  { key: "lessons", label: "Μαθήματα", required: false, aliases: ["lessons", "μαθήματα"] },
+  { key: "price", label: "Τιμή", required: false, aliases: ["price", "amount", "τιμή", "ποσό"] },
+  { key: "paid", label: "Πληρωμένο", required: false, aliases: ["paid", "πληρωμένο", "πληρώθηκε", "εξόφληση"] },
+];
+
+export type ClientImportRow = {
+  line: number;
+  status: ImportRowStatus;
+  message: string | null;
+  fullName: string;
+  input: { full_name: string; phone: string | null; is_active: boolean } | null;
+};
+
+export type PaymentImportRow = {
+  line: number;
+  status: ImportRowStatus;
+  message: string | null;
+  clientName: string;
+  monthStart: string | null;
+  input: { client_id: string; month_start: string; lessons: number; price: number | null; paid: boolean } | null;
+};
+
+export function guessImportMapping<Field extends string>(
+  headers: string[],
+  fields: ImportField<Field>[],
+): Record<Field, number> {
+  return guessColumnMapping(
+    headers,
+    Object.fromEntries(fields.map((field) => [field.key, field.aliases])) as Record<Field, string[]>,
+  );
+}
+
+/** Key used for duplicate detection; stricter than the `unique (user_id, full_name)` constraint on purpose. */
+export function normalizeClientName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLocaleLowerCase("el-GR");
+}
+
+export function getMonthEnd(monthStart: string): string {
+  const start = parseIsoDate(monthStart);
+  return toIsoDate(new Date(start.getFullYear(), start.getMonth() + 1, 0));
+}
+
+export function buildClientImportRows(
+  table: CsvTable,
+  mapping: Record<ClientImportField, number>,
+  existingClients: Client[],
+): ClientImportRow[] {
+  const existingNames = new Set(existingClients.map((client) => normalizeClientName(client.full_name)));
+  const namesInFile = new Set<string>();
+
+  return table.records.map((record, index) => {
+    const fullName = readCsvCell(record, mapping.full_name).replace(/\s+/g, " ");
+    const phone = readCsvCell(record, mapping.phone);
+    const isActive = parseCsvBoolean(readCsvCell(record, mapping.is_active));
+    const line = table.recordLines[index];
+
+    if (!fullName) {
+      return { line, status: "invalid", message: "Λείπει το ονοματεπώνυμο.", fullName, input: null };
+    }
+    if (isActive === undefined) {
+      return { line, status: "invalid", message: "Μη αναγνωρίσιμη τιμή στη στήλη «Ενεργός».", fullName, input: null };
+    }
+
+    const key = normalizeClientName(fullName);
+    if (existingNames.has(key)) {
+      return { line, status: "duplicate", message: "Υπάρχει ήδη πελάτης με αυτό το όνομα.", fullName, input: null };
+    }
+    if (namesInFile.has(key)) {
+      return { line, status: "duplicate", message: "Το όνομα εμφανίζεται ξανά πιο πάνω στο αρχείο.", fullName, input: null };
+    }
+    namesInFile.add(key);
+
+    return {
+      line,
+      status: "ready",
+      message: null,
+      fullName,
+      input: { full_name: fullName, phone: phone || null, is_active: isActive ?? true },
+    };
+  });
+}
+
+export function buildPaymentImportRows(
+  table: CsvTable,
+  mapping: Record<PaymentImportField, number>,
+  clients: Client[],
+  existingPackages: ClientPackage[],
+): PaymentImportRow[] {
+  const clientIdByName = new Map(clients.map((client) => [normalizeClientName(client.full_name), client.id]));
+  const takenMonths = new Set(
+    existingPackages.map((lessonPackage) => `${lessonPackage.client_id}:${lessonPackage.purchase_date.slice(0, 7)}`),
+  );
+  const monthsInFile = new Set<string>();
+
+  return table.records.map((record, index) => {
+    const line = table.recordLines[index];
+    const clientName = readCsvCell(record, mapping.client_name);
+    const monthCell = readCsvCell(record, mapping.month);
+    const monthStart = parseCsvMonth(monthCell);
+    const lessons = parseCsvNumber(readCsvCell(record, mapping.lessons));
+    const price = parseCsvNumber(readCsvCell(record, mapping.price));
+    const paid = parseCsvBoolean(readCsvCell(record, mapping.paid));
+    const invalid = (message: string): PaymentImportRow => ({
+      line,
+      status: "invalid",
+      message,
+      clientName,
+      monthStart,
+      input: null,
+    });
+
+    if (!clientName) {
+      return invalid("Λείπει το όνομα πελάτη.");
+    }
+    const clientId = clientIdByName.get(normalizeClientName(clientName));
+    if (!clientId) {
+      return invalid("Ο πελάτης δεν βρέθηκε. Εισήγαγε πρώτα τους πελάτες.");
+    }
+    if (!monthStart) {
+      return invalid(monthCell ? `Μη έγκυρος μήνας «${monthCell}».` : "Λείπει ο μήνας.");
+    }
+    if (lessons !== null && (!Number.isInteger(lessons) || lessons < 0)) {
+      return invalid("Τα μαθήματα πρέπει να είναι μη αρνητικός ακέραιος.");
+    }
+    if (price !== null && (Number.isNaN(price) || price < 0)) {
+      return invalid("Η τιμή πρέπει να είναι μη αρνητικός αριθμός.");
+    }
+    if (paid === undefined) {
+      return invalid("Μη αναγνωρίσιμη τιμή στη στήλη «Πληρωμένο».");
+    }
+
+    const monthKey = `${clientId}:${monthStart.slice(0, 7)}`;
+    if (takenMonths.has(monthKey)) {
+      return {
+        line,
+        status: "duplicate",
+        message: "Υπάρχει ήδη πακέτο για αυτόν τον μήνα.",
+        clientName,
+        monthStart,
+        input: null,
+      };
+    }
+    if (monthsInFile.has(monthKey)) {
+      return {
+        line,
+        status: "duplicate",
+        message: "Ο ίδιος πελάτης και μήνας εμφανίζεται ξανά πιο πάνω στο αρχείο.",
+        clientName,
+        monthStart,
+        input: null,
+      };
+    }
+    monthsInFile.add(monthKey);
+
+    const isPaid = Boolean(paid);
+    return {
+      line,
+      status: "ready",
+      message: isPaid && !price ? "Πληρωμένο χωρίς τιμή: δεν θα καταχωρηθεί πληρωμή." : null,
+      clientName,
+      monthStart,
+      input: { client_id: clientId, month_start: monthStart, lessons: lessons ?? 0, price, paid: isPaid },
+    };
+  });
+}
+
+/**
+ * Runs `task` over `items` in sequential batches of parallel calls, so a large
+ * file neither floods the API nor stops at the first failing row.
+ */
+export async function runInBatches<Item, Result>(
+  items: Item[],
+  batchSize: number,
+  task: (item: Item) => Promise<Result>,
+  onProgress?: (completed: number) => void,
+): Promise<PromiseSettledResult<Result>[]> {
+  const results: PromiseSettledResult<Result>[] = [];
+  for (let start = 0; start < items.length; start += batchSize) {
+    const batch = items.slice(start, start + batchSize);
+    results.push(...(await Promise.allSettled(batch.map(task))));
+    onProgress?.(results.length);
+  }
+  return results;
+}
@@ -1,25 +1,89 @@
 import { supabase } from "./supabaseClient";
+import { addDays, parseIsoDate, toIsoDate } from "./date";
+import { findClosureAt } from "./closures";
+import {
+  buildSeriesOccurrenceDates,
+  getRemovableSeriesSessions,
+  getSeriesChangeStart,
+  type SeriesScope,
+} from "./recurrence";
+import type { AttendanceStatusChange } from "./rollCall";
+import { getDefaultSessionStatus, isStatusAllowed } from "./sessionStatus";
+import { DEFAULT_RESOURCES, sortResources } from "./resources";
+import { buildDefaultOpeningHours } from "./schedule";
 import type {
   Attendance,
+  AttendanceSeriesUpdate,
   AutomationSettings,
   AutomationSettingsUpdate,
+  CashReconciliation,
+  CashReconciliationUpsert,
+  ClientConsent,
+  ClientConsentInsert,
+  ClientMergeLog,
+  ClientSegment,
+  ClientSegmentInsert,
+  ClientTag,
+  ClientTagAssignment,
+  ClientTagInsert,
+  ClientTagUpdate,
   ClientNote,
   ClientNoteInsert,
   AttendanceInsert,
   AttendanceStatus,
   AttendanceUpdate,
+  ClassSession,
+  ClassSessionInsert,
+  ClassType,
+  ClassTypeInsert,
+  ClassTypeUpdate,
   Client,
   ClientInsert,
+  ClientUpdate,
+  ClientPackage,
+  ClientPackageInsert,
+  ClientPackageUpdate,
+  KioskBooking,
+  KioskCheckIn,
+  KioskDevice,
+  PaymentTransaction,
+  PaymentTransactionInsert,
+  Receipt,
+  Instructor,
+  InstructorInsert,
+  InstructorPayRate,
+  InstructorPayRateInsert,
+  InstructorPayRateUpdate,
+  InstructorUpdate,
+  MakeupCredit,
+  MakeupCreditInsert,
   FollowUpTask,
   FollowUpTaskInsert,
   FollowUpTaskStatus,
   FollowUpTaskUpdate,
   ManagementSignalsRefresh,
   Notification,
-  Payment,
-  PaymentUpsertInput,
+  SessionSeries,
+  SessionSeriesInsert,
+  StudioClosure,
+  StudioClosureInsert,
+  StudioOpeningHours,
+  StudioOpeningHoursUpsert,
+  StudioResource,
+  StudioResourceInsert,
+  StudioResourceUpdate,
+  StudioSettings,
+  StudioSettingsUpdate,
+  WaitlistEntry,
+  WaitlistEntryInsert,
 } from "../types/database";
 
+export type SessionSeriesCreateResult = {
+  sessions: Attendance[];
+  /** Occurrences left unbooked: a studio closure or a session the client already has. */
+  skippedDates: string[];
+};
+
 export type LoginLockState = {
   isLocked: boolean;
   lockUntil: string | null;
@@ -37,10 +101,32 @@ function normalizePrice(value: unknown): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
-function normalizePayment(payment: Payment): Payment {
+function normalizePackage(lessonPackage: ClientPackage): ClientPackage {
+  return {
+    ...lessonPackage,
+    price: normalizePrice(lessonPackage.price),
+    paid_amount: normalizePrice(lessonPackage.paid_amount) ?? 0,
+  };
+}
+
+function normalizeStudioSettings(settings: StudioSettings): StudioSettings {
+  return {
+    ...settings,
+    late_cancel_fee: normalizePrice(settings.late_cancel_fee) ?? 0,
+  };
+}
+
+function normalizeLateCancel(session: Attendance): Attendance {
+  return {
+    ...session,
+    late_cancel_fee: normalizePrice(session.late_cancel_fee),
+  };
+}
+
+function normalizeTransaction(transaction: PaymentTransaction): PaymentTransaction {
   return {
-    ...payment,
-    price: normalizePrice(payment.price),
+    ...transaction,
+    amount: normalizePrice(transaction.amount) ?? 0,
   };
 }
 
@@ -59,21 +145,25 @@ export async function fetchActiveClients(userId: string): Promise<Client[]> {
   return data ?? [];
 }
 
-export async function fetchPaymentsForMonth(
+export async function fetchPackagesForMonth(
   userId: string,
   monthStart: string,
-): Promise<Payment[]> {
+  nextMonthStart: string,
+): Promise<ClientPackage[]> {
   const { data, error } = await supabase
-    .from("payments")
+    .from("packages")
     .select("*")
     .eq("user_id", userId)
-    .eq("month_start", monthStart);
+    .gte("purchase_date", monthStart)
+    .lt("purchase_date", nextMonthStart)
+    .order("purchase_date", { ascending: true })
+    .order("created_at", { ascending: true });
 
   if (error) {
     throw error;
   }
 
-  return (data ?? []).map((payment) => normalizePayment(payment as Payment));
+  return (data ?? []).map((lessonPackage) => normalizePackage(lessonPackage as ClientPackage));
 }
 
 export async function addClient(input: ClientInsert): Promise<Client> {
@@ -86,10 +176,34 @@ export async function addClient(input: ClientInsert): Promise<Client> {
   return data;
 }
 
-export async function upsertPayment(input: PaymentUpsertInput): Promise<Payment> {
+export async function updateClient(id: string, input: ClientUpdate): Promise<Client> {
+  const { data, error } = await supabase.from("clients").update(input).eq("id", id).select("*").single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Client;
+}
+
+export async function addPackage(input: ClientPackageInsert): Promise<ClientPackage> {
+  const { data, error } = await supabase.from("packages").insert(input).select("*").single();
+
+  if (error) {
+    throw error;
+  }
+
+  return normalizePackage(data as ClientPackage);
+}
+
+export async function updatePackage(id: string, input: ClientPackageUpdate): Promise<ClientPackage> {
   const { data, error } = await supabase
-    .from("payments")
-    .upsert(input, { onConflict: "user_id,client_id,month_start" })
+    .from("packages")
+    .update({
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
     .select("*")
     .single();
 
@@ -97,7 +211,14 @@ export async function upsertPayment(input: PaymentUpsertInput): Promise<Payment>
     throw error;
   }
 
-  return normalizePayment(data as Payment);
+  return normalizePackage(data as ClientPackage);
+}
+
+export async function deletePackage(id: string): Promise<void> {
+  const { error } = await supabase.from("packages").delete().eq("id", id);
+  if (error) {
+    throw error;
+  }
 }
 
 export async function fetchAttendanceForMonth(
@@ -171,6 +292,85 @@ export async function updateAttendance(id: string, input: AttendanceUpdate): Pro
   return data as Attendance;
 }
 
+/** Applies a roll call in one request; returns only the rows whose status changed. */
+export async function setAttendanceStatuses(changes: AttendanceStatusChange[]): Promise<Attendance[]> {
+  const { data, error } = await supabase.rpc("set_attendance_statuses", { changes });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as Attendance[]).map(normalizeLateCancel);
+}
+
+/** One-time code the owner hands to the tablet's anonymous session to pair it as a kiosk. */
+export async function createKioskPairing(): Promise<string> {
+  const { data, error } = await supabase.rpc("create_kiosk_pairing");
+
+  if (error) {
+    throw error;
+  }
+
+  return data as string;
+}
+
+export async function claimKioskPairing(code: string): Promise<void> {
+  const { error } = await supabase.rpc("claim_kiosk_pairing", { code_input: code });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/** Null when the current session is not a paired kiosk. */
+export async function fetchKioskDevice(): Promise<KioskDevice | null> {
+  const { data, error } = await supabase.rpc("kiosk_device");
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as KioskDevice[])[0] ?? null;
+}
+
+export async function revokeKioskDevice(deviceUserId: string): Promise<void> {
+  const { error } = await supabase.rpc("revoke_kiosk_device", { device_user_id_input: deviceUserId });
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchKioskBookings(): Promise<KioskBooking[]> {
+  const { data, error } = await supabase.rpc("kiosk_bookings");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as KioskBooking[];
+}
+
+/** Checks in one of the kiosk bookings, by tap on the name or by the client's PIN. */
+export async function kioskCheckIn(input: { attendanceId: string } | { pin: string }): Promise<KioskCheckIn> {
+  const { data, error } = await supabase.rpc(
+    "kiosk_check_in",
+    "pin" in input ? { pin_input: input.pin } : { attendance_id_input: input.attendanceId },
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  // A miss returns no row instead of raising, so the server keeps the failed PIN attempt.
+  const checkIn = ((data ?? []) as KioskCheckIn[])[0];
+  if (!checkIn) {
+    throw new Error("kiosk_no_booking: no booking to check in");
+  }
+
+  return checkIn;
+}
+
 export async function deleteAttendance(id: string): Promise<void> {
   const { error } = await supabase.from("attendance").delete().eq("id", id);
 
@@ -179,6 +379,142 @@ export async function deleteAttendance(id: string): Promise<void> {
   }
 }
 
+function dayBefore(isoDate: string): string {
+  return toIsoDate(addDays(parseIsoDate(isoDate), -1));
+}
+
+async function fetchSessionSeries(seriesId: string): Promise<SessionSeries> {
+  const { data, error } = await supabase.from("session_series").select("*").eq("id", seriesId).single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as SessionSeries;
+}
+
+/** Books the open occurrences of a new series in one transaction and reports the dates it skipped. */
+export async function createSessionSeries(
+  input: SessionSeriesInsert,
+  status: AttendanceStatus,
+): Promise<SessionSeriesCreateResult> {
+  const occurrenceDates = buildSeriesOccurrenceDates(input.start_date, {
+    intervalWeeks: input.interval_weeks === 2 ? 2 : 1,
+    endDate: input.end_date,
+    occurrenceCount: input.occurrence_count,
+  });
+
+  if (occurrenceDates.length === 0) {
+    throw new Error("Ο κανόνας επανάληψης δεν παράγει καμία συνεδρία.");
+  }
+
+  // Occurrences falling on a studio closure are skipped rather than booked.
+  const closures = await fetchClosuresForRange(
+    input.user_id,
+    occurrenceDates[0],
+    toIsoDate(addDays(parseIsoDate(occurrenceDates[occurrenceDates.length - 1]), 1)),
+  );
+  const openDates = occurrenceDates.filter((sessionDate) => !findClosureAt(closures, sessionDate, input.time_start));
+  if (openDates.length === 0) {
+    throw new Error("Όλες οι συνεδρίες της σειράς πέφτουν σε ημέρες που το studio είναι κλειστό.");
+  }
+
+  const { data, error } = await supabase.rpc("create_session_series", {
+    series_input: input,
+    occurrences: openDates.map((sessionDate) => ({
+      session_date: sessionDate,
+      status: isStatusAllowed(status, { session_date: sessionDate, time_start: input.time_start }) ? status : "booked",
+    })),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const sessions = (data ?? []) as Attendance[];
+  const bookedDates = new Set(sessions.map((session) => session.session_date));
+  return { sessions, skippedDates: occurrenceDates.filter((sessionDate) => !bookedDates.has(sessionDate)) };
+}
+
+/**
+ * Applies a series edit in one transaction (`update_session_series`). Occurrences before today
+ * keep what was recorded, and only the edited occurrence takes the new status.
+ */
+export async function updateSeriesSessions(
+  session: Attendance,
+  scope: Exclude<SeriesScope, "single">,
+  input: AttendanceSeriesUpdate,
+): Promise<Attendance[]> {
+  if (!session.series_id) {
+    throw new Error("Η συνεδρία δεν ανήκει σε σειρά.");
+  }
+
+  const { data, error } = await supabase.rpc("update_session_series", {
+    session_id_input: session.id,
+    scope_input: scope,
+    from_date_input: getSeriesChangeStart(scope, session.session_date, toIsoDate(new Date())),
+    changes: input,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as Attendance[]).map(normalizeLateCancel);
+}
+
+/**
+ * Removes the occurrences of a series that have not started yet and ends the series there.
+ * Started sessions and charged late cancels stay as history. Returns the deleted session ids.
+ */
+export async function deleteSeriesSessions(
+  session: Attendance,
+  scope: Exclude<SeriesScope, "single">,
+): Promise<string[]> {
+  if (!session.series_id) {
+    throw new Error("Η συνεδρία δεν ανήκει σε σειρά.");
+  }
+
+  const series = await fetchSessionSeries(session.series_id);
+  const fromDate = getSeriesChangeStart(scope, session.session_date, toIsoDate(new Date()));
+
+  const { data: candidates, error: fetchError } = await supabase
+    .from("attendance")
+    .select("*")
+    .eq("series_id", series.id)
+    .gte("session_date", fromDate)
+    .order("session_date", { ascending: true });
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  const removable = getRemovableSeriesSessions(((candidates ?? []) as Attendance[]).map(normalizeLateCancel));
+  const removableIds = removable.map((candidate) => candidate.id);
+
+  if (removableIds.length) {
+    const { error: attendanceError } = await supabase.from("attendance").delete().in("id", removableIds);
+    if (attendanceError) {
+      throw attendanceError;
+    }
+  }
+
+  const endDate = dayBefore(removable[0]?.session_date ?? fromDate);
+  const { error } =
+    endDate < series.start_date
+      ? await supabase.from("session_series").delete().eq("id", series.id)
+      : await supabase
+          .from("session_series")
+          .update({ end_date: endDate, occurrence_count: null, updated_at: new Date().toISOString() })
+          .eq("id", series.id);
+
+  if (error) {
+    throw error;
+  }
+
+  return removableIds;
+}
+
 function normalizeLockStateRow(row: {
   is_locked: boolean;
   lock_until: string | null;
@@ -408,81 +744,956 @@ export async function refreshManagementSignals(): Promise<ManagementSignalsRefre
   );
 }
 
-export async function fetchClientById(userId: string, clientId: string): Promise<Client | null> {
+export async function fetchResources(userId: string): Promise<StudioResource[]> {
+  const { data, error } = await supabase.from("resources").select("*").eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+
+  if ((data ?? []).length > 0) {
+    return sortResources(data as StudioResource[]);
+  }
+
+  const { data: seeded, error: seedError } = await supabase
+    .from("resources")
+    .upsert(
+      DEFAULT_RESOURCES.map((resource) => ({ ...resource, user_id: userId })),
+      { onConflict: "user_id,key", ignoreDuplicates: true },
+    )
+    .select("*");
+
+  if (seedError) {
+    throw seedError;
+  }
+
+  return sortResources((seeded ?? []) as StudioResource[]);
+}
+
+export async function addResource(input: StudioResourceInsert): Promise<StudioResource> {
+  const { data, error } = await supabase.from("resources").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as StudioResource;
+}
+
+export async function updateResource(id: string, input: StudioResourceUpdate): Promise<StudioResource> {
   const { data, error } = await supabase
-    .from("clients")
+    .from("resources")
+    .update({
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
     .select("*")
-    .eq("user_id", userId)
-    .eq("id", clientId)
-    .maybeSingle();
-
+    .single();
   if (error) {
     throw error;
   }
-  return (data as Client | null) ?? null;
+  return data as StudioResource;
 }
 
-export async function fetchAttendanceForClientRange(
-  userId: string,
-  clientId: string,
-  fromDate: string,
-  toDateExclusive: string,
-): Promise<Attendance[]> {
+export async function fetchInstructors(userId: string): Promise<Instructor[]> {
   const { data, error } = await supabase
-    .from("attendance")
+    .from("instructors")
     .select("*")
     .eq("user_id", userId)
-    .eq("client_id", clientId)
-    .gte("session_date", fromDate)
-    .lt("session_date", toDateExclusive)
-    .order("session_date", { ascending: false })
-    .order("time_start", { ascending: true });
+    .order("full_name", { ascending: true });
 
   if (error) {
     throw error;
   }
-  return (data ?? []) as Attendance[];
+
+  return (data ?? []) as Instructor[];
+}
+
+export async function addInstructor(input: InstructorInsert): Promise<Instructor> {
+  const { data, error } = await supabase.from("instructors").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as Instructor;
+}
+
+export async function updateInstructor(id: string, input: InstructorUpdate): Promise<Instructor> {
+  const { data, error } = await supabase
+    .from("instructors")
+    .update({
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data as Instructor;
+}
+
+function normalizeClassType(classType: ClassType): ClassType {
+  return {
+    ...classType,
+    price: normalizePrice(classType.price),
+  };
 }
 
-export async function fetchPaymentsForClient(userId: string, clientId: string): Promise<Payment[]> {
+export async function fetchClassTypes(userId: string): Promise<ClassType[]> {
   const { data, error } = await supabase
-    .from("payments")
+    .from("class_types")
     .select("*")
     .eq("user_id", userId)
-    .eq("client_id", clientId)
-    .order("month_start", { ascending: false });
+    .order("name", { ascending: true });
 
   if (error) {
     throw error;
   }
 
-  return (data ?? []).map((payment) => normalizePayment(payment as Payment));
+  return ((data ?? []) as ClassType[]).map(normalizeClassType);
 }
 
-export async function fetchClientNotes(userId: string, clientId: string): Promise<ClientNote[]> {
+export async function addClassType(input: ClassTypeInsert): Promise<ClassType> {
+  const { data, error } = await supabase.from("class_types").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return normalizeClassType(data as ClassType);
+}
+
+export async function updateClassType(id: string, input: ClassTypeUpdate): Promise<ClassType> {
   const { data, error } = await supabase
-    .from("client_notes")
+    .from("class_types")
+    .update({
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) {
+    throw error;
+  }
+  return normalizeClassType(data as ClassType);
+}
+
+export async function fetchClassSessionsForRange(
+  userId: string,
+  fromDate: string,
+  toDateExclusive: string,
+): Promise<ClassSession[]> {
+  const { data, error } = await supabase
+    .from("class_sessions")
     .select("*")
     .eq("user_id", userId)
-    .eq("client_id", clientId)
-    .order("created_at", { ascending: false });
+    .gte("session_date", fromDate)
+    .lt("session_date", toDateExclusive)
+    .order("session_date", { ascending: true })
+    .order("time_start", { ascending: true });
 
   if (error) {
     throw error;
   }
-  return (data ?? []) as ClientNote[];
+
+  return (data ?? []) as ClassSession[];
 }
 
-export async function addClientNote(input: ClientNoteInsert): Promise<ClientNote> {
-  const { data, error } = await supabase.from("client_notes").insert(input).select("*").single();
+export async function addClassSession(input: ClassSessionInsert): Promise<ClassSession> {
+  const { data, error } = await supabase.from("class_sessions").insert(input).select("*").single();
   if (error) {
     throw error;
   }
-  return data as ClientNote;
+  return data as ClassSession;
 }
 
-export async function deleteClientNote(id: string): Promise<void> {
-  const { error } = await supabase.from("client_notes").delete().eq("id", id);
+/** Date, time and instructor changes are copied to the roster by the `class_sessions_sync_roster` trigger. */
+export async function updateClassSession(
+  id: string,
+  input: Partial<Pick<ClassSession, "session_date" | "time_start" | "duration_minutes" | "capacity" | "instructor_id" | "notes">>,
+): Promise<ClassSession> {
+  const { data, error } = await supabase.from("class_sessions").update(input).eq("id", id).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as ClassSession;
+}
+
+/** Deleting a class also deletes its roster attendance. */
+export async function deleteClassSession(id: string): Promise<void> {
+  const { error } = await supabase.from("class_sessions").delete().eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function addClassRosterEntry(
+  classSession: ClassSession,
+  classType: ClassType,
+  clientId: string,
+  status: AttendanceStatus,
+): Promise<Attendance> {
+  const { data, error } = await supabase
+    .from("attendance")
+    .insert({
+      user_id: classSession.user_id,
+      client_id: clientId,
+      session_date: classSession.session_date,
+      time_start: classSession.time_start,
+      duration_minutes: classSession.duration_minutes,
+      bed_type: classType.bed_type,
+      instructor_id: classSession.instructor_id,
+      status,
+      notes: null,
+      class_session_id: classSession.id,
+    } satisfies AttendanceInsert)
+    .select("*")
+    .single();
+  if (error) {
+    throw error;
+  }
+  return normalizeLateCancel(data as Attendance);
+}
+
+function normalizePayRate(rate: InstructorPayRate): InstructorPayRate {
+  return {
+    ...rate,
+    amount: normalizePrice(rate.amount) ?? 0,
+  };
+}
+
+export async function fetchInstructorPayRates(userId: string): Promise<InstructorPayRate[]> {
+  const { data, error } = await supabase
+    .from("instructor_pay_rates")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as InstructorPayRate[]).map(normalizePayRate);
+}
+
+export async function addInstructorPayRate(input: InstructorPayRateInsert): Promise<InstructorPayRate> {
+  const { data, error } = await supabase.from("instructor_pay_rates").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return normalizePayRate(data as InstructorPayRate);
+}
+
+export async function updateInstructorPayRate(
+  id: string,
+  input: InstructorPayRateUpdate,
+): Promise<InstructorPayRate> {
+  const { data, error } = await supabase
+    .from("instructor_pay_rates")
+    .update({
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) {
+    throw error;
+  }
+  return normalizePayRate(data as InstructorPayRate);
+}
+
+export async function deleteInstructorPayRate(id: string): Promise<void> {
+  const { error } = await supabase.from("instructor_pay_rates").delete().eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchStudioSettings(userId: string): Promise<StudioSettings> {
+  const { error: upsertError } = await supabase
+    .from("studio_settings")
+    .upsert({ user_id: userId }, { onConflict: "user_id", ignoreDuplicates: true });
+
+  if (upsertError) {
+    throw upsertError;
+  }
+
+  const { data, error } = await supabase.from("studio_settings").select("*").eq("user_id", userId).single();
+
+  if (error) {
+    throw error;
+  }
+
+  return normalizeStudioSettings(data as StudioSettings);
+}
+
+export async function updateStudioSettings(userId: string, input: StudioSettingsUpdate): Promise<StudioSettings> {
+  const { data, error } = await supabase
+    .from("studio_settings")
+    .update({
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("user_id", userId)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return normalizeStudioSettings(data as StudioSettings);
+}
+
+export async function fetchOpeningHours(userId: string): Promise<StudioOpeningHours[]> {
+  const { data, error } = await supabase
+    .from("studio_opening_hours")
+    .select("*")
+    .eq("user_id", userId)
+    .order("weekday", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  if ((data ?? []).length > 0) {
+    return data as StudioOpeningHours[];
+  }
+
+  return upsertOpeningHours(buildDefaultOpeningHours().map((row) => ({ ...row, user_id: userId })));
+}
+
+export async function upsertOpeningHours(rows: StudioOpeningHoursUpsert[]): Promise<StudioOpeningHours[]> {
+  const updatedAt = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("studio_opening_hours")
+    .upsert(
+      rows.map((row) => ({ ...row, updated_at: updatedAt })),
+      { onConflict: "user_id,weekday" },
+    )
+    .select("*")
+    .order("weekday", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as StudioOpeningHours[];
+}
+
+/** Closures overlapping [fromDate, toDateExclusive). */
+export async function fetchClosuresForRange(
+  userId: string,
+  fromDate: string,
+  toDateExclusive: string,
+): Promise<StudioClosure[]> {
+  const { data, error } = await supabase
+    .from("studio_closures")
+    .select("*")
+    .eq("user_id", userId)
+    .lt("starts_on", toDateExclusive)
+    .gte("ends_on", fromDate)
+    .order("starts_on", { ascending: true })
+    .order("start_time", { ascending: true, nullsFirst: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as StudioClosure[];
+}
+
+export async function addClosures(rows: StudioClosureInsert[]): Promise<StudioClosure[]> {
+  const { data, error } = await supabase.from("studio_closures").insert(rows).select("*");
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as StudioClosure[];
+}
+
+export async function deleteClosure(id: string): Promise<void> {
+  const { error } = await supabase.from("studio_closures").delete().eq("id", id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchClientById(userId: string, clientId: string): Promise<Client | null> {
+  const { data, error } = await supabase
+    .from("clients")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("id", clientId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return (data as Client | null) ?? null;
+}
+
+export async function fetchAttendanceForClientRange(
+  userId: string,
+  clientId: string,
+  fromDate: string,
+  toDateExclusive: string,
+): Promise<Attendance[]> {
+  const { data, error } = await supabase
+    .from("attendance")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .gte("session_date", fromDate)
+    .lt("session_date", toDateExclusive)
+    .order("session_date", { ascending: false })
+    .order("time_start", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Attendance[];
+}
+
+export async function fetchPackagesForClient(userId: string, clientId: string): Promise<ClientPackage[]> {
+  const { data, error } = await supabase
+    .from("packages")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .order("purchase_date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((lessonPackage) => normalizePackage(lessonPackage as ClientPackage));
+}
+
+export async function fetchPaymentTransactionsForClient(
+  userId: string,
+  clientId: string,
+): Promise<PaymentTransaction[]> {
+  const { data, error } = await supabase
+    .from("payment_transactions")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .order("paid_on", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((transaction) => normalizeTransaction(transaction as PaymentTransaction));
+}
+
+export async function addPaymentTransaction(input: PaymentTransactionInsert): Promise<PaymentTransaction> {
+  const { data, error } = await supabase.from("payment_transactions").insert(input).select("*").single();
+
+  if (error) {
+    throw error;
+  }
+
+  return normalizeTransaction(data as PaymentTransaction);
+}
+
+/** Creates a month's package and, when it was paid, one transaction for its price; used by the CSV import. */
+export async function addPackageWithPayment(
+  input: ClientPackageInsert,
+  payment: Pick<PaymentTransactionInsert, "paid_on" | "method" | "notes"> | null,
+): Promise<ClientPackage> {
+  const lessonPackage = await addPackage(input);
+  if (!payment || !lessonPackage.price) {
+    return lessonPackage;
+  }
+
+  try {
+    await addPaymentTransaction({
+      ...payment,
+      user_id: input.user_id,
+      client_id: input.client_id,
+      package_id: lessonPackage.id,
+      amount: lessonPackage.price,
+    });
+  } catch (error) {
+    // Do not leave an unpaid package behind for a row that was marked as paid.
+    await deletePackage(lessonPackage.id);
+    throw error;
+  }
+  return lessonPackage;
+}
+
+export async function deletePaymentTransaction(id: string): Promise<void> {
+  const { error } = await supabase.from("payment_transactions").delete().eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchPaymentTransactionsForDate(userId: string, paidOn: string): Promise<PaymentTransaction[]> {
+  const { data, error } = await supabase
+    .from("payment_transactions")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("paid_on", paidOn)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((transaction) => normalizeTransaction(transaction as PaymentTransaction));
+}
+
+function normalizeReceipt(receipt: Receipt): Receipt {
+  return {
+    ...receipt,
+    amount: normalizePrice(receipt.amount) ?? 0,
+  };
+}
+
+export async function fetchReceiptsForClient(userId: string, clientId: string): Promise<Receipt[]> {
+  const { data, error } = await supabase
+    .from("receipts")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .order("receipt_number", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((receipt) => normalizeReceipt(receipt as Receipt));
+}
+
+/** Returns the transaction's existing receipt, or issues one with the next number. */
+export async function issueReceipt(transactionId: string): Promise<Receipt> {
+  const { data, error } = await supabase.rpc("issue_receipt", { transaction_id_input: transactionId });
+  if (error) {
+    throw error;
+  }
+  return normalizeReceipt(data as Receipt);
+}
+
+function normalizeReconciliation(reconciliation: CashReconciliation): CashReconciliation {
+  return {
+    ...reconciliation,
+    expected_cash: normalizePrice(reconciliation.expected_cash) ?? 0,
+    counted_cash: normalizePrice(reconciliation.counted_cash) ?? 0,
+    cash_difference: normalizePrice(reconciliation.cash_difference) ?? 0,
+    expected_card: normalizePrice(reconciliation.expected_card) ?? 0,
+    counted_card: normalizePrice(reconciliation.counted_card) ?? 0,
+    card_difference: normalizePrice(reconciliation.card_difference) ?? 0,
+  };
+}
+
+export async function fetchRecentCashReconciliations(userId: string, limit = 30): Promise<CashReconciliation[]> {
+  const { data, error } = await supabase
+    .from("cash_reconciliations")
+    .select("*")
+    .eq("user_id", userId)
+    .order("business_date", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((reconciliation) => normalizeReconciliation(reconciliation as CashReconciliation));
+}
+
+export async function upsertCashReconciliation(input: CashReconciliationUpsert): Promise<CashReconciliation> {
+  const { data, error } = await supabase
+    .from("cash_reconciliations")
+    .upsert({ ...input, updated_at: new Date().toISOString() }, { onConflict: "user_id,business_date" })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return normalizeReconciliation(data as CashReconciliation);
+}
+
+/** Sessions from `fromDate` on that are still expected to happen, soonest first. */
+export async function fetchUpcomingSessionsForClient(
+  userId: string,
+  clientId: string,
+  fromDate: string,
+): Promise<Attendance[]> {
+  const { data, error } = await supabase
+    .from("attendance")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .gte("session_date", fromDate)
+    .neq("status", "canceled")
+    .order("session_date", { ascending: true })
+    .order("time_start", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Attendance[];
+}
+
+/** Sessions that used a lesson (attended or late canceled as a lesson) from `fromDate` on, oldest first. */
+export async function fetchAttendedSessionsForClient(
+  userId: string,
+  clientId: string,
+  fromDate: string,
+): Promise<Attendance[]> {
+  const { data, error } = await supabase
+    .from("attendance")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .or("status.eq.attended,late_cancel_outcome.eq.lesson")
+    .gte("session_date", fromDate)
+    .order("session_date", { ascending: true })
+    .order("time_start", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Attendance[];
+}
+
+export async function fetchClientNotes(userId: string, clientId: string): Promise<ClientNote[]> {
+  const { data, error } = await supabase
+    .from("client_notes")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ClientNote[];
+}
+
+export async function addClientNote(input: ClientNoteInsert): Promise<ClientNote> {
+  const { data, error } = await supabase.from("client_notes").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as ClientNote;
+}
+
+export async function deleteClientNote(id: string): Promise<void> {
+  const { error } = await supabase.from("client_notes").delete().eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchConsentsForClient(userId: string, clientId: string): Promise<ClientConsent[]> {
+  const { data, error } = await supabase
+    .from("client_consents")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .order("signed_on", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ClientConsent[];
+}
+
+export async function addClientConsent(input: ClientConsentInsert): Promise<ClientConsent> {
+  const { data, error } = await supabase.from("client_consents").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as ClientConsent;
+}
+
+export async function deleteClientConsent(id: string): Promise<void> {
+  const { error } = await supabase.from("client_consents").delete().eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+/** Moves everything linked to the source client onto the target and deletes the source. */
+export async function mergeClients(sourceClientId: string, targetClientId: string): Promise<ClientMergeLog> {
+  const { data, error } = await supabase.rpc("merge_clients", {
+    source_client_id_input: sourceClientId,
+    target_client_id_input: targetClientId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return data as ClientMergeLog;
+}
+
+export async function fetchClientMergeLog(userId: string, limit = 20): Promise<ClientMergeLog[]> {
+  const { data, error } = await supabase
+    .from("client_merge_log")
+    .select("*")
+    .eq("user_id", userId)
+    .order("merged_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ClientMergeLog[];
+}
+
+export async function fetchClientTags(userId: string): Promise<ClientTag[]> {
+  const { data, error } = await supabase
+    .from("client_tags")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ClientTag[];
+}
+
+export async function addClientTag(input: ClientTagInsert): Promise<ClientTag> {
+  const { data, error } = await supabase.from("client_tags").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as ClientTag;
+}
+
+export async function updateClientTag(id: string, input: ClientTagUpdate): Promise<ClientTag> {
+  const { data, error } = await supabase
+    .from("client_tags")
+    .update({
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data as ClientTag;
+}
+
+export async function deleteClientTag(id: string): Promise<void> {
+  const { error } = await supabase.from("client_tags").delete().eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchClientTagAssignments(userId: string): Promise<ClientTagAssignment[]> {
+  const { data, error } = await supabase.from("client_tag_assignments").select("*").eq("user_id", userId);
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ClientTagAssignment[];
+}
+
+export async function assignClientTag(userId: string, clientId: string, tagId: string): Promise<void> {
+  const { error } = await supabase
+    .from("client_tag_assignments")
+    .upsert({ user_id: userId, client_id: clientId, tag_id: tagId }, { onConflict: "client_id,tag_id", ignoreDuplicates: true });
+  if (error) {
+    throw error;
+  }
+}
+
+export async function unassignClientTag(clientId: string, tagId: string): Promise<void> {
+  const { error } = await supabase.from("client_tag_assignments").delete().eq("client_id", clientId).eq("tag_id", tagId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchClientSegments(userId: string): Promise<ClientSegment[]> {
+  const { data, error } = await supabase
+    .from("client_segments")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ClientSegment[];
+}
+
+export async function addClientSegment(input: ClientSegmentInsert): Promise<ClientSegment> {
+  const { data, error } = await supabase.from("client_segments").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as ClientSegment;
+}
+
+export async function deleteClientSegment(id: string): Promise<void> {
+  const { error } = await supabase.from("client_segments").delete().eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+/** Open (waiting or offered) entries in `[rangeStart, rangeEnd)`, first in line first. */
+export async function fetchWaitlistForRange(userId: string, rangeStart: string, rangeEnd: string): Promise<WaitlistEntry[]> {
+  const { data, error } = await supabase
+    .from("waitlist_entries")
+    .select("*")
+    .eq("user_id", userId)
+    .in("status", ["waiting", "offered"])
+    .gte("session_date", rangeStart)
+    .lt("session_date", rangeEnd)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as WaitlistEntry[];
+}
+
+export async function addWaitlistEntry(input: WaitlistEntryInsert): Promise<WaitlistEntry> {
+  const { data, error } = await supabase.from("waitlist_entries").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as WaitlistEntry;
+}
+
+/** Removing an offered entry passes the place on to the next client in line. */
+export async function removeWaitlistEntry(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("waitlist_entries")
+    .update({ status: "removed", resolved_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Books the offered slot with a plain insert, so a session the client already has at that time is
+ * reported as a unique violation instead of being overwritten. The offer resolves only after that.
+ */
+export async function acceptWaitlistOffer(entry: WaitlistEntry): Promise<Attendance> {
+  const { data: session, error: insertError } = await supabase
+    .from("attendance")
+    .insert({
+      user_id: entry.user_id,
+      client_id: entry.client_id,
+      session_date: entry.session_date,
+      time_start: entry.time_start,
+      duration_minutes: null,
+      bed_type: entry.bed_type,
+      status: getDefaultSessionStatus(entry.session_date, entry.time_start),
+      notes: entry.notes,
+    } satisfies AttendanceInsert)
+    .select("*")
+    .single();
+
+  if (insertError) {
+    throw insertError;
+  }
+
+  const { error } = await supabase
+    .from("waitlist_entries")
+    .update({ status: "promoted", attendance_id: session.id, resolved_at: new Date().toISOString() })
+    .eq("id", entry.id);
+  if (error) {
+    throw error;
+  }
+  return session as Attendance;
+}
+
+/** Late canceled sessions of a client, newest first. */
+export async function fetchLateCancelsForClient(userId: string, clientId: string): Promise<Attendance[]> {
+  const { data, error } = await supabase
+    .from("attendance")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .eq("status", "canceled")
+    .not("late_cancel_outcome", "is", null)
+    .order("session_date", { ascending: false })
+    .order("time_start", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map((session) => normalizeLateCancel(session as Attendance));
+}
+
+/** Waiving keeps the session canceled but drops the lesson or fee it was charged. */
+export async function waiveLateCancel(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("attendance")
+    .update({ late_cancel_outcome: null, late_cancel_fee: null })
+    .eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchMakeupCreditsForClient(userId: string, clientId: string): Promise<MakeupCredit[]> {
+  const { data, error } = await supabase
+    .from("makeup_credits")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("client_id", clientId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as MakeupCredit[];
+}
+
+/** Unredeemed credits of every client, soonest expiry first; expired ones are filtered by the caller's date. */
+export async function fetchUnredeemedMakeupCredits(userId: string): Promise<MakeupCredit[]> {
+  const { data, error } = await supabase
+    .from("makeup_credits")
+    .select("*")
+    .eq("user_id", userId)
+    .is("redeemed_attendance_id", null)
+    .order("expires_on", { ascending: true, nullsFirst: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as MakeupCredit[];
+}
+
+export async function addMakeupCredit(input: MakeupCreditInsert): Promise<MakeupCredit> {
+  const { data, error } = await supabase.from("makeup_credits").insert(input).select("*").single();
+  if (error) {
+    throw error;
+  }
+  return data as MakeupCredit;
+}
+
+/** Books a new session and redeems the make-up credit for it in one transaction. */
+export async function bookMakeupSession(input: AttendanceInsert, creditId: string): Promise<Attendance> {
+  const { data, error } = await supabase.rpc("book_makeup_session", {
+    attendance_input: input,
+    credit_id_input: creditId,
+  });
+  if (error) {
+    throw error;
+  }
+  return normalizeLateCancel(data as Attendance);
+}
+
+export async function deleteMakeupCredit(id: string): Promise<void> {
+  const { error } = await supabase.from("makeup_credits").delete().eq("id", id);
   if (error) {
     throw error;
   }
@@ -50,3 +50,8 @@ export function toIsoDate(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+
+export function parseIsoDate(value: string): Date {
+  const [yearString, monthString, dayString] = value.split("-");
+  return new Date(Number(yearString), Number(monthString) - 1, Number(dayString));
+}
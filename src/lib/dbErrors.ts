@@ -0,0 +1,9 @@
+/** Postgres `unique_violation`, surfaced by PostgREST as error code 23505. */
+export function isUniqueViolation(error: unknown): boolean {
+  return Boolean(error && typeof error === "object" && "code" in error && error.code === "23505");
+}
+
+/** Postgres `foreign_key_violation` (23503): the row is still referenced, e.g. by an `on delete restrict` key. */
+export function isForeignKeyViolation(error: unknown): boolean {
+  return Boolean(error && typeof error === "object" && "code" in error && error.code === "23503");
+}
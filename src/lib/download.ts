@@ -0,0 +1,34 @@
+export type CsvCell = string | number | null | undefined;
+
+function escapeCsvCell(value: CsvCell): string {
+  if (value == null) {
+    return "";
+  }
+  const text = String(value);
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Semicolon-separated so that Excel with Greek regional settings splits the columns. */
+export function buildCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(";")).join("\r\n");
+}
+
+export function downloadTextFile(filename: string, content: string, mimeType: string) {
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadCsv(filename: string, rows: CsvCell[][]) {
+  // The BOM makes Excel read the file as UTF-8 instead of mangling Greek text.
+  downloadTextFile(filename, `\ufeff${buildCsv(rows)}`, "text/csv;charset=utf-8");
+}
@@ -0,0 +1,60 @@
+import { downloadBlob, downloadCsv, type CsvCell } from "./download";
+import { buildXlsx, type XlsxCell } from "./xlsx";
+
+export type ExportFormat = "csv" | "xlsx";
+export type ExportCell = XlsxCell;
+
+export type ExportColumn<Row> = {
+  header: string;
+  value: (row: Row) => ExportCell;
+};
+
+export type ExportTable<Row> = {
+  /** File name without extension. */
+  filename: string;
+  sheetName: string;
+  columns: ExportColumn<Row>[];
+  rows: Row[];
+};
+
+export function exportDate(isoDate: string | null | undefined): ExportCell {
+  return isoDate ? { kind: "date", value: isoDate.slice(0, 10) } : null;
+}
+
+export function exportMoney(amount: number | null | undefined): ExportCell {
+  return amount == null ? null : { kind: "money", value: amount };
+}
+
+// Decimal comma to match the `;` separator that Greek-locale Excel expects.
+function toCsvCell(cell: ExportCell): CsvCell {
+  if (cell == null) {
+    return null;
+  }
+  if (typeof cell === "boolean") {
+    return cell ? "Ναι" : "Όχι";
+  }
+  if (typeof cell === "number") {
+    return String(cell).replace(".", ",");
+  }
+  if (typeof cell === "object") {
+    return cell.kind === "date" ? cell.value : cell.value.toFixed(2).replace(".", ",");
+  }
+  return cell;
+}
+
+/** Downloads the rows as CSV (UTF-8 with BOM) or XLSX with typed number and date cells. */
+export function exportTable<Row>(format: ExportFormat, table: ExportTable<Row>) {
+  const header = table.columns.map((column) => column.header);
+  const body = table.rows.map((row) => table.columns.map((column) => column.value(row)));
+
+  if (format === "csv") {
+    downloadCsv(`${table.filename}.csv`, [header, ...body.map((cells) => cells.map(toCsvCell))]);
+    return;
+  }
+
+  const workbook = buildXlsx([{ name: table.sheetName, rows: [header, ...body], boldRows: [0] }]);
+  downloadBlob(
+    `${table.filename}.xlsx`,
+    new Blob([workbook], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+  );
+}
@@ -0,0 +1,50 @@
+import { addDays, toIsoDate } from "./date";
+
+export type PublicHoliday = {
+  date: string;
+  name: string;
+};
+
+/**
+ * Orthodox Easter Sunday (Gregorian date) using the Meeus Julian algorithm.
+ * The Julian calendar runs 13 days behind between 1900 and 2099.
+ */
+export function getOrthodoxEaster(year: number): Date {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  return addDays(new Date(year, month - 1, day), 13);
+}
+
+/** Greek public holidays of a year, in date order; the movable ones follow Orthodox Easter. */
+export function getGreekPublicHolidays(year: number): PublicHoliday[] {
+  const easter = getOrthodoxEaster(year);
+  const fixed = (month: number, day: number, name: string): PublicHoliday => ({
+    date: toIsoDate(new Date(year, month - 1, day)),
+    name,
+  });
+  const movable = (offsetDays: number, name: string): PublicHoliday => ({
+    date: toIsoDate(addDays(easter, offsetDays)),
+    name,
+  });
+
+  return [
+    fixed(1, 1, "Πρωτοχρονιά"),
+    fixed(1, 6, "Θεοφάνεια"),
+    movable(-48, "Καθαρά Δευτέρα"),
+    fixed(3, 25, "25η Μαρτίου"),
+    movable(-2, "Μεγάλη Παρασκευή"),
+    movable(0, "Κυριακή του Πάσχα"),
+    movable(1, "Δευτέρα του Πάσχα"),
+    fixed(5, 1, "Πρωτομαγιά"),
+    movable(50, "Αγίου Πνεύματος"),
+    fixed(8, 15, "Κοίμηση της Θεοτόκου"),
+    fixed(10, 28, "28η Οκτωβρίου"),
+    fixed(12, 25, "Χριστούγεννα"),
+    fixed(12, 26, "Σύναξη της Θεοτόκου"),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
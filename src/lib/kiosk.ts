@@ -0,0 +1,38 @@
+import { isUniqueViolation } from "./dbErrors";
+
+export const KIOSK_PIN_LENGTH = 4;
+
+export function formatCheckInTime(checkedInAt: string): string {
+  return new Date(checkedInAt).toLocaleTimeString("el-GR", { hour: "2-digit", minute: "2-digit" });
+}
+
+export function isValidKioskPin(pin: string): boolean {
+  return new RegExp(`^[0-9]{${KIOSK_PIN_LENGTH}}$`).test(pin);
+}
+
+/** Thrown by `kioskCheckIn` when the tap or PIN matches no booking in the kiosk window. */
+export function isKioskNoBookingError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("kiosk_no_booking");
+}
+
+/** Raised by `kiosk_check_in` after five wrong PINs within ten minutes. */
+export function isKioskPinLockedError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("kiosk_pin_locked");
+}
+
+export function formatKioskError(error: unknown, fallback: string): string {
+  if (isKioskNoBookingError(error)) {
+    return "Δεν βρέθηκε κράτηση για check-in αυτή την ώρα.";
+  }
+  if (isKioskPinLockedError(error)) {
+    return "Πολλά λάθος PIN. Δοκίμασε ξανά σε λίγα λεπτά ή πάτησε το όνομά σου.";
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+export function formatKioskPinError(error: unknown, fallback: string): string {
+  if (isUniqueViolation(error)) {
+    return "Το PIN χρησιμοποιείται ήδη από άλλον πελάτη.";
+  }
+  return error instanceof Error ? error.message : fallback;
+}
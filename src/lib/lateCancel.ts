@@ -0,0 +1,43 @@
+import { getSessionStart } from "./sessionStatus";
+import type { Attendance, LateCancelOutcome, LateCancelPolicy, StudioSettings } from "../types/database";
+
+export const LATE_CANCEL_POLICY_LABELS: Record<LateCancelPolicy, string> = {
+  none: "Χωρίς χρέωση",
+  count_lesson: "Χρεώνεται ως μάθημα",
+  fee: "Χρέωση ποσού",
+};
+
+export const LATE_CANCEL_OUTCOME_LABELS: Record<LateCancelOutcome, string> = {
+  lesson: "Χρεώθηκε μάθημα",
+  fee: "Χρέωση",
+};
+
+export function isLateCancel(session: Attendance): boolean {
+  return session.status === "canceled" && session.late_cancel_outcome != null;
+}
+
+/** Attended sessions and late cancels charged as a lesson use up a lesson of the client's packages. */
+export function consumesLesson(session: Attendance): boolean {
+  return session.status === "attended" || (session.status === "canceled" && session.late_cancel_outcome === "lesson");
+}
+
+export function sumLateCancelFees(sessions: Attendance[]): number {
+  return sessions.reduce(
+    (sum, session) => sum + (isLateCancel(session) && session.late_cancel_outcome === "fee" ? session.late_cancel_fee ?? 0 : 0),
+    0,
+  );
+}
+
+/** Mirrors `set_attendance_cancellation`: canceling now would be charged under the studio policy. */
+export function isPastLateCancelCutoff(
+  session: Pick<Attendance, "session_date" | "time_start" | "status">,
+  settings: Pick<StudioSettings, "late_cancel_policy" | "late_cancel_hours"> | undefined,
+  now = new Date(),
+): boolean {
+  if (!settings || settings.late_cancel_policy === "none" || session.status === "canceled") {
+    return false;
+  }
+  const cutoff = getSessionStart(session.session_date, session.time_start);
+  cutoff.setHours(cutoff.getHours() - settings.late_cancel_hours);
+  return now > cutoff;
+}
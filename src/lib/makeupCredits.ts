@@ -0,0 +1,54 @@
+import { addDays, parseIsoDate, toIsoDate } from "./date";
+import type { MakeupCredit, MakeupCreditReason } from "../types/database";
+
+export const DEFAULT_MAKEUP_CREDIT_VALID_DAYS = 30;
+
+export const MAKEUP_CREDIT_REASON_LABELS: Record<MakeupCreditReason, string> = {
+  studio_cancel: "Ακύρωση από το studio",
+  client_cancel: "Έγκαιρη ακύρωση πελάτη",
+  other: "Άλλο",
+};
+
+export type MakeupCreditState = "available" | "redeemed" | "expired";
+
+export const MAKEUP_CREDIT_STATE_LABELS: Record<MakeupCreditState, string> = {
+  available: "Διαθέσιμη",
+  redeemed: "Εξαργυρώθηκε",
+  expired: "Έληξε",
+};
+
+/** A credit can be redeemed by a session on `dateIso` while it is unredeemed and not expired by then. */
+export function isMakeupCreditUsableOn(credit: MakeupCredit, dateIso: string): boolean {
+  return !credit.redeemed_attendance_id && (!credit.expires_on || credit.expires_on >= dateIso);
+}
+
+/** Raised by `book_makeup_session` when the credit was used elsewhere or has expired. */
+export function isMakeupCreditUnavailableError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("makeup_credit_unavailable");
+}
+
+export function getMakeupCreditState(credit: MakeupCredit, todayIso: string): MakeupCreditState {
+  if (credit.redeemed_attendance_id) {
+    return "redeemed";
+  }
+  return isMakeupCreditUsableOn(credit, todayIso) ? "available" : "expired";
+}
+
+export function getMakeupCreditExpiry(fromDateIso: string, validDays: number): string {
+  return toIsoDate(addDays(parseIsoDate(fromDateIso), validDays));
+}
+
+export function countUsableCreditsByClient(credits: MakeupCredit[], dateIso: string): Map<string, number> {
+  const countByClient = new Map<string, number>();
+  for (const credit of credits) {
+    if (isMakeupCreditUsableOn(credit, dateIso)) {
+      countByClient.set(credit.client_id, (countByClient.get(credit.client_id) ?? 0) + 1);
+    }
+  }
+  return countByClient;
+}
+
+export function formatMakeupCreditOption(credit: MakeupCredit): string {
+  const expiry = credit.expires_on ? `λήγει ${parseIsoDate(credit.expires_on).toLocaleDateString("el-GR")}` : "χωρίς λήξη";
+  return `${MAKEUP_CREDIT_REASON_LABELS[credit.reason]} · ${expiry}`;
+}
@@ -0,0 +1,148 @@
+import { consumesLesson } from "./lateCancel";
+import { getPackageOutstanding } from "./payments";
+import type { Attendance, ClientPackage } from "../types/database";
+
+export type PackageUsage = {
+  used: number;
+  remaining: number;
+};
+
+export type PackageAllocation = {
+  usageByPackageId: Map<string, PackageUsage>;
+  packageIdBySessionId: Map<string, string>;
+  uncoveredSessionIds: string[];
+};
+
+export type ClientPackageBalance = {
+  remaining: number;
+  activePackageCount: number;
+  nextExpiry: string | null;
+  uncoveredCount: number;
+};
+
+export type MonthlyPackageSummary = {
+  packages: ClientPackage[];
+  lessons: number;
+  price: number | null;
+  paidAmount: number;
+  outstanding: number;
+  paid: boolean;
+  notes: string | null;
+};
+
+export function isPackageValidOn(lessonPackage: ClientPackage, dateIso: string): boolean {
+  return lessonPackage.purchase_date <= dateIso && (!lessonPackage.expires_on || dateIso <= lessonPackage.expires_on);
+}
+
+export function sortPackagesByPurchase(packages: ClientPackage[]): ClientPackage[] {
+  return [...packages].sort((a, b) => {
+    const purchaseCompare = a.purchase_date.localeCompare(b.purchase_date);
+    if (purchaseCompare !== 0) {
+      return purchaseCompare;
+    }
+    return a.created_at.localeCompare(b.created_at);
+  });
+}
+
+/**
+ * Consumes attended sessions and late cancels charged as a lesson, in date order,
+ * from the oldest package that was valid on the session date and still has lessons left.
+ */
+export function allocateSessionsToPackages(packages: ClientPackage[], sessions: Attendance[]): PackageAllocation {
+  const sortedPackages = sortPackagesByPurchase(packages);
+  const usageByPackageId = new Map<string, PackageUsage>(
+    sortedPackages.map((lessonPackage) => [lessonPackage.id, { used: 0, remaining: lessonPackage.lessons }]),
+  );
+  const packageIdBySessionId = new Map<string, string>();
+  const uncoveredSessionIds: string[] = [];
+
+  const usedSessions = sessions
+    .filter(consumesLesson)
+    .sort((a, b) => {
+      const dateCompare = a.session_date.localeCompare(b.session_date);
+      if (dateCompare !== 0) {
+        return dateCompare;
+      }
+      return (a.time_start ?? "").localeCompare(b.time_start ?? "");
+    });
+
+  usedSessions.forEach((session) => {
+    const lessonPackage = sortedPackages.find(
+      (candidate) =>
+        isPackageValidOn(candidate, session.session_date) && (usageByPackageId.get(candidate.id)?.remaining ?? 0) > 0,
+    );
+    if (!lessonPackage) {
+      uncoveredSessionIds.push(session.id);
+      return;
+    }
+    const usage = usageByPackageId.get(lessonPackage.id)!;
+    usage.used += 1;
+    usage.remaining -= 1;
+    packageIdBySessionId.set(session.id, lessonPackage.id);
+  });
+
+  return { usageByPackageId, packageIdBySessionId, uncoveredSessionIds };
+}
+
+export function summarizeClientBalance(
+  packages: ClientPackage[],
+  sessions: Attendance[],
+  todayIso: string,
+): ClientPackageBalance {
+  const allocation = allocateSessionsToPackages(packages, sessions);
+  const activePackages = sortPackagesByPurchase(packages).filter(
+    (lessonPackage) =>
+      (!lessonPackage.expires_on || lessonPackage.expires_on >= todayIso) &&
+      (allocation.usageByPackageId.get(lessonPackage.id)?.remaining ?? 0) > 0,
+  );
+  const expiries = activePackages
+    .map((lessonPackage) => lessonPackage.expires_on)
+    .filter((expiresOn): expiresOn is string => Boolean(expiresOn))
+    .sort();
+
+  return {
+    remaining: activePackages.reduce(
+      (sum, lessonPackage) => sum + (allocation.usageByPackageId.get(lessonPackage.id)?.remaining ?? 0),
+      0,
+    ),
+    activePackageCount: activePackages.length,
+    nextExpiry: expiries[0] ?? null,
+    uncoveredCount: allocation.uncoveredSessionIds.length,
+  };
+}
+
+/** Earliest purchase date across the packages, i.e. the first date a session can be consumed from. */
+export function getEarliestPurchaseDate(packages: ClientPackage[]): string | null {
+  return sortPackagesByPurchase(packages)[0]?.purchase_date ?? null;
+}
+
+/** Per-client totals of the packages bought in one month, for the monthly payments view. */
+export function summarizePackagesByClient(packages: ClientPackage[]): Map<string, MonthlyPackageSummary> {
+  const byClient = new Map<string, MonthlyPackageSummary>();
+
+  sortPackagesByPurchase(packages).forEach((lessonPackage) => {
+    const current = byClient.get(lessonPackage.client_id);
+    if (!current) {
+      byClient.set(lessonPackage.client_id, {
+        packages: [lessonPackage],
+        lessons: lessonPackage.lessons,
+        price: lessonPackage.price,
+        paidAmount: lessonPackage.paid_amount,
+        outstanding: getPackageOutstanding(lessonPackage),
+        paid: lessonPackage.paid,
+        notes: lessonPackage.notes,
+      });
+      return;
+    }
+    current.packages.push(lessonPackage);
+    current.lessons += lessonPackage.lessons;
+    current.price =
+      current.price == null && lessonPackage.price == null ? null : (current.price ?? 0) + (lessonPackage.price ?? 0);
+    current.paidAmount += lessonPackage.paid_amount;
+    current.outstanding += getPackageOutstanding(lessonPackage);
+    current.paid = current.paid && lessonPackage.paid;
+    current.notes = [current.notes, lessonPackage.notes].filter(Boolean).join(" | ") || null;
+  });
+
+  return byClient;
+}
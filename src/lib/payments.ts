@@ -0,0 +1,114 @@
+import { isLateCancel, sumLateCancelFees } from "./lateCancel";
+import type { Attendance, ClientPackage, PaymentMethod, PaymentTransaction } from "../types/database";
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["cash", "card", "bank_transfer", "other"];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Μετρητά",
+  card: "Κάρτα",
+  bank_transfer: "Τραπεζική μεταφορά",
+  other: "Άλλο",
+};
+
+export type LedgerEntry = {
+  key: string;
+  date: string;
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+};
+
+export type MethodTotal = {
+  method: PaymentMethod;
+  count: number;
+  total: number;
+};
+
+export function getPackageOutstanding(lessonPackage: ClientPackage): number {
+  return Math.max(0, Math.round(((lessonPackage.price ?? 0) - lessonPackage.paid_amount) * 100) / 100);
+}
+
+/** Late cancel fees are settled by payments not linked to a package, as in the `pending_unpaid_risk` rule. */
+export function getUnpaidLateCancelFees(sessions: Attendance[], transactions: PaymentTransaction[]): number {
+  const unlinkedPaid = transactions
+    .filter((transaction) => !transaction.package_id)
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
+  return Math.max(0, Math.round((sumLateCancelFees(sessions) - unlinkedPaid) * 100) / 100);
+}
+
+/** Package balances plus unpaid late cancel fees. */
+export function getClientAmountDue(
+  packages: ClientPackage[],
+  transactions: PaymentTransaction[],
+  sessions: Attendance[],
+): number {
+  const packagesDue = packages.reduce((sum, lessonPackage) => sum + getPackageOutstanding(lessonPackage), 0);
+  return Math.round((packagesDue + getUnpaidLateCancelFees(sessions, transactions)) * 100) / 100;
+}
+
+/**
+ * Package prices and late cancel fees as charges and transactions as payments, in date order,
+ * with the running amount owed after each line. Charges sort before payments on the same day.
+ */
+export function buildClientLedger(
+  packages: ClientPackage[],
+  transactions: PaymentTransaction[],
+  sessions: Attendance[] = [],
+): LedgerEntry[] {
+  const lines = [
+    ...packages
+      .filter((lessonPackage) => (lessonPackage.price ?? 0) > 0)
+      .map((lessonPackage) => ({
+        key: `package-${lessonPackage.id}`,
+        date: lessonPackage.purchase_date,
+        order: 0,
+        description: `Πακέτο ${lessonPackage.lessons} μαθημάτων`,
+        charge: lessonPackage.price ?? 0,
+        payment: 0,
+      })),
+    ...sessions
+      .filter((session) => isLateCancel(session) && session.late_cancel_outcome === "fee" && (session.late_cancel_fee ?? 0) > 0)
+      .map((session) => ({
+        key: `late-cancel-${session.id}`,
+        date: session.session_date,
+        order: 0,
+        description: `Χρέωση καθυστερημένης ακύρωσης${session.time_start ? ` (${session.time_start.slice(0, 5)})` : ""}`,
+        charge: session.late_cancel_fee ?? 0,
+        payment: 0,
+      })),
+    ...transactions.map((transaction) => ({
+      key: `payment-${transaction.id}`,
+      date: transaction.paid_on,
+      order: 1,
+      description: `Πληρωμή (${PAYMENT_METHOD_LABELS[transaction.method]})${transaction.notes ? ` · ${transaction.notes}` : ""}`,
+      charge: 0,
+      payment: transaction.amount,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order);
+
+  let balance = 0;
+  return lines.map((line) => {
+    balance = Math.round((balance + line.charge - line.payment) * 100) / 100;
+    return {
+      key: line.key,
+      date: line.date,
+      description: line.description,
+      charge: line.charge,
+      payment: line.payment,
+      balance,
+    };
+  });
+}
+
+/** Totals per payment method, in `PAYMENT_METHODS` order, including methods with no transactions. */
+export function summarizeTransactionsByMethod(transactions: PaymentTransaction[]): MethodTotal[] {
+  return PAYMENT_METHODS.map((method) => {
+    const methodTransactions = transactions.filter((transaction) => transaction.method === method);
+    return {
+      method,
+      count: methodTransactions.length,
+      total: Math.round(methodTransactions.reduce((sum, transaction) => sum + transaction.amount, 0) * 100) / 100,
+    };
+  });
+}
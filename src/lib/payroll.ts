@@ -0,0 +1,161 @@
+import type {
+  Attendance,
+  AttendanceBedType,
+  AttendanceStatus,
+  Instructor,
+  InstructorPayRate,
+  PayRateType,
+} from "../types/database";
+
+export const PAY_RATE_TYPE_LABELS: Record<PayRateType, string> = {
+  per_session: "Ανά συνεδρία",
+  per_hour: "Ανά ώρα",
+};
+
+/** Statuses the instructor is paid for: the slot was either taught or held for the client. */
+export const PAYABLE_STATUSES: AttendanceStatus[] = ["attended", "no_show"];
+
+export type PayrollClass = {
+  key: string;
+  sessionDate: string;
+  timeStart: string | null;
+  bedType: AttendanceBedType;
+  durationMinutes: number;
+  attended: number;
+  noShow: number;
+  canceled: number;
+  /** Upcoming sessions still booked: neither paid nor counted as canceled. */
+  booked: number;
+  clientIds: string[];
+  rate: InstructorPayRate | null;
+  amount: number;
+};
+
+export type PayrollRow = {
+  instructorId: string;
+  fullName: string;
+  isActive: boolean;
+  attended: number;
+  noShow: number;
+  canceled: number;
+  booked: number;
+  paidHours: number;
+  amount: number;
+  missingRate: boolean;
+  classes: PayrollClass[];
+};
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Equipment-specific rate first, then the instructor's default rate (null bed type). */
+export function resolvePayRate(
+  rates: InstructorPayRate[],
+  instructorId: string,
+  bedType: AttendanceBedType,
+): InstructorPayRate | null {
+  const instructorRates = rates.filter((rate) => rate.instructor_id === instructorId);
+  return (
+    instructorRates.find((rate) => rate.bed_type === bedType) ??
+    instructorRates.find((rate) => rate.bed_type == null) ??
+    null
+  );
+}
+
+function priceClass(payrollClass: PayrollClass): number {
+  const { rate } = payrollClass;
+  const payableCount = payrollClass.attended + payrollClass.noShow;
+  if (!rate || payableCount === 0) {
+    return 0;
+  }
+  if (rate.rate_type === "per_hour") {
+    return roundCurrency((rate.amount * payrollClass.durationMinutes) / 60);
+  }
+  return roundCurrency(rate.amount * payableCount);
+}
+
+/**
+ * Groups each instructor's sessions into classes (same date, time and equipment).
+ * Per-session rates pay every payable booking, per-hour rates pay each class once
+ * for its duration, so a full reformer class is not paid four times by the hour.
+ */
+export function buildPayrollRows(
+  sessions: Attendance[],
+  instructors: Instructor[],
+  rates: InstructorPayRate[],
+  fallbackDurationMinutes: number,
+): PayrollRow[] {
+  const classesByInstructor = new Map<string, Map<string, PayrollClass>>();
+
+  sessions.forEach((session) => {
+    if (!session.instructor_id) {
+      return;
+    }
+    const classes = classesByInstructor.get(session.instructor_id) ?? new Map<string, PayrollClass>();
+    const key = `${session.session_date}|${session.time_start?.slice(0, 5) ?? ""}|${session.bed_type}`;
+    const current = classes.get(key) ?? {
+      key,
+      sessionDate: session.session_date,
+      timeStart: session.time_start?.slice(0, 5) ?? null,
+      bedType: session.bed_type,
+      durationMinutes: 0,
+      attended: 0,
+      noShow: 0,
+      canceled: 0,
+      booked: 0,
+      clientIds: [],
+      rate: null,
+      amount: 0,
+    };
+
+    if (session.status === "attended") {
+      current.attended += 1;
+    } else if (session.status === "no_show") {
+      current.noShow += 1;
+    } else if (session.status === "booked") {
+      current.booked += 1;
+    } else {
+      current.canceled += 1;
+    }
+    current.durationMinutes = Math.max(current.durationMinutes, session.duration_minutes ?? fallbackDurationMinutes);
+    current.clientIds.push(session.client_id);
+    classes.set(key, current);
+    classesByInstructor.set(session.instructor_id, classes);
+  });
+
+  const instructorsById = new Map(instructors.map((instructor) => [instructor.id, instructor]));
+  const instructorIds = new Set([
+    ...instructors.filter((instructor) => instructor.is_active).map((instructor) => instructor.id),
+    ...classesByInstructor.keys(),
+  ]);
+
+  return [...instructorIds]
+    .map((instructorId) => {
+      const instructor = instructorsById.get(instructorId);
+      const classes = [...(classesByInstructor.get(instructorId)?.values() ?? [])]
+        .map((payrollClass) => {
+          const rate = resolvePayRate(rates, instructorId, payrollClass.bedType);
+          const priced = { ...payrollClass, rate };
+          return { ...priced, amount: priceClass(priced) };
+        })
+        .sort((a, b) => a.key.localeCompare(b.key));
+
+      const payableClasses = classes.filter((payrollClass) => payrollClass.attended + payrollClass.noShow > 0);
+
+      return {
+        instructorId,
+        fullName: instructor?.full_name ?? "Άγνωστος εκπαιδευτής",
+        isActive: instructor?.is_active ?? false,
+        attended: classes.reduce((sum, payrollClass) => sum + payrollClass.attended, 0),
+        noShow: classes.reduce((sum, payrollClass) => sum + payrollClass.noShow, 0),
+        canceled: classes.reduce((sum, payrollClass) => sum + payrollClass.canceled, 0),
+        booked: classes.reduce((sum, payrollClass) => sum + payrollClass.booked, 0),
+        paidHours: payableClasses.reduce((sum, payrollClass) => sum + payrollClass.durationMinutes / 60, 0),
+        amount: roundCurrency(classes.reduce((sum, payrollClass) => sum + payrollClass.amount, 0)),
+        missingRate: payableClasses.some((payrollClass) => !payrollClass.rate),
+        classes,
+      };
+    })
+    .sort((a, b) => a.fullName.localeCompare(b.fullName));
+}
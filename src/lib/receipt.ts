@@ -0,0 +1,110 @@
+import { parseIsoDate } from "./date";
+import { formatCurrencyEUR } from "./format";
+import { PAYMENT_METHOD_LABELS } from "./payments";
+import type { Receipt, StudioSettings } from "../types/database";
+
+export function formatReceiptNumber(receiptNumber: number): string {
+  return String(receiptNumber).padStart(6, "0");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** `YYYY-MM-DD` columns are local dates; `new Date()` would read them as UTC midnight. */
+function formatDate(value: string): string {
+  return parseIsoDate(value).toLocaleDateString("el-GR");
+}
+
+function describeReceipt(receipt: Receipt): string {
+  if (receipt.lessons == null && !receipt.period_start) {
+    return "Είσπραξη έναντι υπηρεσιών pilates";
+  }
+  const lessons = receipt.lessons != null ? `Πακέτο ${receipt.lessons} μαθημάτων pilates` : "Μαθήματα pilates";
+  if (!receipt.period_start) {
+    return lessons;
+  }
+  const period = receipt.period_end
+    ? `${formatDate(receipt.period_start)} - ${formatDate(receipt.period_end)}`
+    : `από ${formatDate(receipt.period_start)}`;
+  return `${lessons}, περίοδος ${period}`;
+}
+
+export function buildReceiptHtml(receipt: Receipt, settings: StudioSettings | null): string {
+  const studioLines = [
+    settings?.business_address,
+    settings?.business_phone ? `Τηλ. ${settings.business_phone}` : null,
+    settings?.business_vat_number ? `ΑΦΜ ${settings.business_vat_number}` : null,
+  ].filter((line): line is string => Boolean(line));
+
+  return `<!doctype html>
+<html lang="el">
+<head>
+<meta charset="utf-8" />
+<title>Απόδειξη ${formatReceiptNumber(receipt.receipt_number)}</title>
+<style>
+  body { font-family: Arial, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  p { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th, td { border: 1px solid #999; padding: 8px; text-align: left; }
+  .amount { text-align: right; white-space: nowrap; }
+  .muted { color: #555; font-size: 12px; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(settings?.business_name || "Studio Pilates")}</h1>
+  ${studioLines.map((line) => `<p class="muted">${escapeHtml(line)}</p>`).join("\n  ")}
+  <h2>Απόδειξη είσπραξης αρ. ${formatReceiptNumber(receipt.receipt_number)}</h2>
+  <p>Ημερομηνία έκδοσης: ${new Date(receipt.issued_at).toLocaleDateString("el-GR")}</p>
+  <p>Ημερομηνία πληρωμής: ${formatDate(receipt.paid_on)}</p>
+  <p>Πελάτης: ${escapeHtml(receipt.client_name)}</p>
+  <table>
+    <thead>
+      <tr><th>Περιγραφή</th><th>Τρόπος πληρωμής</th><th class="amount">Ποσό</th></tr>
+    </thead>
+    <tbody>
+      <tr>
+        <td>${escapeHtml(describeReceipt(receipt))}</td>
+        <td>${PAYMENT_METHOD_LABELS[receipt.method]}</td>
+        <td class="amount">${formatCurrencyEUR(receipt.amount)}</td>
+      </tr>
+    </tbody>
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Prints through a hidden iframe so it also works after an await, where a new
+ * window would be blocked. "Save as PDF" in the print dialog gives the PDF.
+ */
+export function printReceipt(receipt: Receipt, settings: StudioSettings | null): void {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.setAttribute("aria-hidden", "true");
+  document.body.appendChild(frame);
+
+  const frameDocument = frame.contentDocument;
+  const frameWindow = frame.contentWindow;
+  if (!frameDocument || !frameWindow) {
+    frame.remove();
+    return;
+  }
+
+  frameDocument.open();
+  frameDocument.write(buildReceiptHtml(receipt, settings));
+  frameDocument.close();
+
+  frameWindow.addEventListener("afterprint", () => frame.remove());
+  frameWindow.focus();
+  frameWindow.print();
+}
@@ -0,0 +1,56 @@
+import { addDays, parseIsoDate, toIsoDate } from "./date";
+import { isLateCancel } from "./lateCancel";
+import { hasSessionStarted } from "./sessionStatus";
+import type { Attendance } from "../types/database";
+
+export type RecurrenceFrequency = "none" | "weekly" | "biweekly";
+export type SeriesScope = "single" | "following" | "all";
+
+export type RecurrenceRule = {
+  intervalWeeks: 1 | 2;
+  endDate: string | null;
+  occurrenceCount: number | null;
+};
+
+export const MAX_SERIES_OCCURRENCES = 104;
+
+export const SERIES_SCOPE_LABEL: Record<SeriesScope, string> = {
+  single: "Μόνο αυτή η συνεδρία",
+  following: "Αυτή και οι επόμενες",
+  all: "Όλη η σειρά",
+};
+
+export function getIntervalWeeks(frequency: Exclude<RecurrenceFrequency, "none">): 1 | 2 {
+  return frequency === "biweekly" ? 2 : 1;
+}
+
+export function buildSeriesOccurrenceDates(startDate: string, rule: RecurrenceRule): string[] {
+  const dates: string[] = [];
+  const start = parseIsoDate(startDate);
+  const limit = Math.min(rule.occurrenceCount ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  for (let index = 0; index < limit; index += 1) {
+    const occurrence = toIsoDate(addDays(start, index * rule.intervalWeeks * 7));
+    if (rule.endDate && occurrence > rule.endDate) {
+      break;
+    }
+    dates.push(occurrence);
+  }
+
+  return dates;
+}
+
+/** Raised by `create_session_series` when the client already has a session on every date. */
+export function isSeriesNoSessionsError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("series_no_sessions");
+}
+
+/** First date a series-wide change reaches: days before today keep what was recorded. */
+export function getSeriesChangeStart(scope: Exclude<SeriesScope, "single">, sessionDate: string, todayIso: string): string {
+  return scope === "all" || sessionDate < todayIso ? todayIso : sessionDate;
+}
+
+/** Occurrences a series delete may remove: not started yet and not a charged late cancel. */
+export function getRemovableSeriesSessions(sessions: Attendance[], now = new Date()): Attendance[] {
+  return sessions.filter((session) => !hasSessionStarted(session, now) && !isLateCancel(session));
+}
@@ -0,0 +1,79 @@
+import type { AttendanceBedType, StudioResource } from "../types/database";
+
+export const DEFAULT_RESOURCE_CAPACITY = 4;
+
+export const DEFAULT_RESOURCES: Array<Pick<StudioResource, "key" | "label" | "capacity" | "sort_order">> = [
+  { key: "reformer", label: "REFORMER", capacity: DEFAULT_RESOURCE_CAPACITY, sort_order: 0 },
+  { key: "cadillac", label: "CADILLAC", capacity: DEFAULT_RESOURCE_CAPACITY, sort_order: 1 },
+];
+
+export type ResourceLookup = Record<AttendanceBedType, StudioResource>;
+
+export function sortResources(resources: StudioResource[]): StudioResource[] {
+  return [...resources].sort((a, b) => {
+    if (a.sort_order !== b.sort_order) {
+      return a.sort_order - b.sort_order;
+    }
+    return a.label.localeCompare(b.label);
+  });
+}
+
+export function buildResourceLookup(resources: StudioResource[]): ResourceLookup {
+  return resources.reduce<ResourceLookup>((acc, resource) => {
+    acc[resource.key] = resource;
+    return acc;
+  }, {});
+}
+
+export function formatResourceLabel(key: AttendanceBedType, lookup: ResourceLookup): string {
+  return lookup[key]?.label ?? key.toUpperCase();
+}
+
+export function getResourceCapacity(key: AttendanceBedType, lookup: ResourceLookup): number {
+  return lookup[key]?.capacity ?? DEFAULT_RESOURCE_CAPACITY;
+}
+
+/**
+ * Active resources in display order, plus any inactive or unknown keys that
+ * still carry sessions so that historical bookings never disappear from a grid.
+ */
+export function getScheduleResourceKeys(
+  resources: StudioResource[],
+  usedKeys: Iterable<AttendanceBedType> = [],
+): AttendanceBedType[] {
+  const sorted = sortResources(resources);
+  const keys = sorted.filter((resource) => resource.is_active).map((resource) => resource.key);
+  const knownKeys = new Set(sorted.map((resource) => resource.key));
+  const used = new Set(usedKeys);
+
+  sorted.forEach((resource) => {
+    if (!resource.is_active && used.has(resource.key)) {
+      keys.push(resource.key);
+    }
+  });
+  used.forEach((key) => {
+    if (!knownKeys.has(key)) {
+      keys.push(key);
+    }
+  });
+
+  return keys;
+}
+
+export function buildResourceKey(label: string, existingKeys: Iterable<AttendanceBedType> = []): string {
+  const base =
+    label
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "resource";
+  const taken = new Set(existingKeys);
+  let candidate = base;
+  let suffix = 2;
+  while (taken.has(candidate)) {
+    candidate = `${base}_${suffix}`;
+    suffix += 1;
+  }
+  return candidate;
+}
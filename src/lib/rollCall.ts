@@ -0,0 +1,31 @@
+import { hasSessionStarted } from "./sessionStatus";
+import type { Attendance, AttendanceStatus } from "../types/database";
+
+export type RollCallStatus = Extract<AttendanceStatus, "attended" | "no_show">;
+
+export type AttendanceStatusChange = {
+  id: string;
+  status: AttendanceStatus;
+};
+
+/**
+ * Canceled sessions stay out of the roll call, their status comes from the cancellation flow.
+ * Sessions that have not started yet cannot be marked.
+ */
+export function getRollCallSessions(sessions: Attendance[], now = new Date()): Attendance[] {
+  return sessions.filter((session) => session.status !== "canceled" && hasSessionStarted(session, now));
+}
+
+export function buildRollCallDraft(sessions: Attendance[]): Record<string, AttendanceStatus> {
+  return Object.fromEntries(sessions.map((session) => [session.id, session.status]));
+}
+
+/** Only sessions whose status differs from the draft are sent. */
+export function getRollCallChanges(
+  sessions: Attendance[],
+  draft: Record<string, AttendanceStatus>,
+): AttendanceStatusChange[] {
+  return sessions
+    .filter((session) => draft[session.id] && draft[session.id] !== session.status)
+    .map((session) => ({ id: session.id, status: draft[session.id] }));
+}
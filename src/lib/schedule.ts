@@ -0,0 +1,149 @@
+import type { SlotMinutes, StudioOpeningHours, StudioSettings } from "../types/database";
+
+export const SLOT_MINUTE_OPTIONS: SlotMinutes[] = [15, 30, 60];
+export const DEFAULT_SLOT_MINUTES: SlotMinutes = 60;
+export const DEFAULT_OPEN_TIME = "08:00";
+export const DEFAULT_CLOSE_TIME = "23:00";
+
+/** ISO weekday numbers, 1 = Monday ... 7 = Sunday (same as Postgres `isodow`). */
+export const ISO_WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+export const ISO_WEEKDAY_LABELS: Record<number, string> = {
+  1: "Δευτέρα",
+  2: "Τρίτη",
+  3: "Τετάρτη",
+  4: "Πέμπτη",
+  5: "Παρασκευή",
+  6: "Σάββατο",
+  7: "Κυριακή",
+};
+
+export type DayWindow = {
+  isClosed: boolean;
+  openMinutes: number;
+  closeMinutes: number;
+};
+
+export type ScheduleConfig = {
+  slotMinutes: SlotMinutes;
+  days: Record<number, DayWindow>;
+};
+
+export type OpeningHoursDraft = Pick<StudioOpeningHours, "weekday" | "is_closed" | "open_time" | "close_time">;
+
+export function timeToMinutes(value: string | null | undefined): number | null {
+  if (!value || !/^\d{2}:\d{2}/.test(value)) {
+    return null;
+  }
+  const hour = Number.parseInt(value.slice(0, 2), 10);
+  const minute = Number.parseInt(value.slice(3, 5), 10);
+  if (!Number.isFinite(hour) || !Number.isFinite(minute)) {
+    return null;
+  }
+  return hour * 60 + minute;
+}
+
+export function minutesToTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+export function getIsoWeekday(date: Date): number {
+  return ((date.getDay() + 6) % 7) + 1;
+}
+
+export function buildDefaultOpeningHours(): OpeningHoursDraft[] {
+  return ISO_WEEKDAYS.map((weekday) => ({
+    weekday,
+    is_closed: false,
+    open_time: DEFAULT_OPEN_TIME,
+    close_time: DEFAULT_CLOSE_TIME,
+  }));
+}
+
+export function buildScheduleConfig(
+  settings: StudioSettings | null | undefined,
+  openingHours: OpeningHoursDraft[],
+): ScheduleConfig {
+  const byWeekday = new Map(openingHours.map((row) => [row.weekday, row]));
+  const days = ISO_WEEKDAYS.reduce<Record<number, DayWindow>>((acc, weekday) => {
+    const row = byWeekday.get(weekday);
+    acc[weekday] = {
+      isClosed: row?.is_closed ?? false,
+      openMinutes: timeToMinutes(row?.open_time ?? DEFAULT_OPEN_TIME) ?? 0,
+      closeMinutes: timeToMinutes(row?.close_time ?? DEFAULT_CLOSE_TIME) ?? 24 * 60,
+    };
+    return acc;
+  }, {});
+
+  return {
+    slotMinutes: settings?.slot_minutes ?? DEFAULT_SLOT_MINUTES,
+    days,
+  };
+}
+
+export function getDayWindow(config: ScheduleConfig, date: Date): DayWindow {
+  return config.days[getIsoWeekday(date)];
+}
+
+/** Start of the slot (minutes after midnight) that a session time falls into. */
+export function getSlotStart(value: string | null, slotMinutes: number): number | null {
+  const minutes = timeToMinutes(value);
+  if (minutes == null) {
+    return null;
+  }
+  return Math.floor(minutes / slotMinutes) * slotMinutes;
+}
+
+export function isSlotOpen(window: DayWindow, slotStart: number): boolean {
+  return !window.isClosed && slotStart >= window.openMinutes && slotStart < window.closeMinutes;
+}
+
+/**
+ * Slot starts covering the union of the given opening windows. The range is
+ * stretched to include any booked session times, so that sessions outside the
+ * opening hours still land on the grid (greyed out) instead of disappearing.
+ */
+export function buildSlotStarts(
+  windows: DayWindow[],
+  slotMinutes: number,
+  sessionTimes: Iterable<string | null> = [],
+): number[] {
+  const openWindows = windows.filter((window) => !window.isClosed);
+  let start = Number.POSITIVE_INFINITY;
+  let end = Number.NEGATIVE_INFINITY;
+
+  if (openWindows.length) {
+    openWindows.forEach((window) => {
+      start = Math.min(start, Math.floor(window.openMinutes / slotMinutes) * slotMinutes);
+      end = Math.max(end, window.closeMinutes);
+    });
+  } else {
+    start = timeToMinutes(DEFAULT_OPEN_TIME) ?? 0;
+    end = timeToMinutes(DEFAULT_CLOSE_TIME) ?? 24 * 60;
+  }
+
+  for (const time of sessionTimes) {
+    const slotStart = getSlotStart(time, slotMinutes);
+    if (slotStart == null) {
+      continue;
+    }
+    start = Math.min(start, slotStart);
+    end = Math.max(end, slotStart + slotMinutes);
+  }
+
+  const slots: number[] = [];
+  for (let slot = start; slot < end; slot += slotMinutes) {
+    slots.push(slot);
+  }
+  return slots;
+}
+
+/** Bookable start times for a day; closed days fall back to the default studio window. */
+export function buildDayTimeOptions(config: ScheduleConfig, date: Date): string[] {
+  const window = getDayWindow(config, date);
+  return buildSlotStarts([window], config.slotMinutes)
+    .filter((slotStart) => window.isClosed || isSlotOpen(window, slotStart))
+    .map(minutesToTime);
+}
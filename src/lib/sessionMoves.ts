@@ -0,0 +1,67 @@
+import { getSlotStart, minutesToTime, timeToMinutes } from "./schedule";
+import type { Attendance, AttendanceBedType, AttendanceUpdate } from "../types/database";
+
+export type SessionMoveTarget = {
+  sessionDate: string;
+  timeStart: string;
+  bedType: AttendanceBedType;
+};
+
+export function getSessionMoveOrigin(session: Attendance): SessionMoveTarget {
+  return {
+    sessionDate: session.session_date,
+    timeStart: (session.time_start ?? "").slice(0, 5),
+    bedType: session.bed_type,
+  };
+}
+
+/** Target for a drop on a slot lane; a session off the slot grid (e.g. 08:30 in hourly slots) keeps its offset. */
+export function buildMoveTarget(
+  session: Attendance,
+  sessionDate: string,
+  slot: number,
+  bedType: AttendanceBedType,
+  slotMinutes: number,
+): SessionMoveTarget {
+  const sessionMinutes = timeToMinutes(session.time_start);
+  const sessionSlot = getSlotStart(session.time_start, slotMinutes);
+  const offset = sessionMinutes != null && sessionSlot != null ? sessionMinutes - sessionSlot : 0;
+  return { sessionDate, timeStart: minutesToTime(slot + offset), bedType };
+}
+
+export function isSameMoveTarget(session: Attendance, target: SessionMoveTarget): boolean {
+  const origin = getSessionMoveOrigin(session);
+  return (
+    origin.sessionDate === target.sessionDate &&
+    origin.timeStart === target.timeStart &&
+    origin.bedType === target.bedType
+  );
+}
+
+/** Another session of the same client at the target date and time, which the attendance unique key forbids. */
+export function findClientTimeConflict(
+  sessions: Attendance[],
+  session: Attendance,
+  target: SessionMoveTarget,
+): Attendance | undefined {
+  return sessions.find(
+    (other) =>
+      other.id !== session.id &&
+      other.client_id === session.client_id &&
+      other.session_date === target.sessionDate &&
+      (other.time_start ?? "").slice(0, 5) === target.timeStart,
+  );
+}
+
+export function buildMovedSessionUpdate(session: Attendance, target: SessionMoveTarget): AttendanceUpdate {
+  return {
+    client_id: session.client_id,
+    session_date: target.sessionDate,
+    time_start: target.timeStart,
+    duration_minutes: session.duration_minutes,
+    bed_type: target.bedType,
+    instructor_id: session.instructor_id,
+    status: session.status,
+    notes: session.notes,
+  };
+}
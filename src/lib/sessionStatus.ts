@@ -0,0 +1,55 @@
+import { parseIsoDate } from "./date";
+import { timeToMinutes } from "./schedule";
+import type { Attendance, AttendanceStatus } from "../types/database";
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  booked: "Κράτηση",
+  attended: "Παρακολούθησε",
+  canceled: "Ακυρώθηκε",
+  no_show: "Δεν προσήλθε",
+};
+
+/** Statuses that record the outcome of a session, allowed only once it has started. */
+const OUTCOME_STATUSES: AttendanceStatus[] = ["attended", "no_show"];
+
+export function isOutcomeStatus(status: AttendanceStatus): boolean {
+  return OUTCOME_STATUSES.includes(status);
+}
+
+/** Local start of a session; sessions without a time start at midnight. */
+export function getSessionStart(sessionDate: string, timeStart: string | null): Date {
+  const start = parseIsoDate(sessionDate);
+  start.setMinutes(timeToMinutes(timeStart) ?? 0);
+  return start;
+}
+
+export function hasSessionStarted(session: Pick<Attendance, "session_date" | "time_start">, now = new Date()): boolean {
+  return getSessionStart(session.session_date, session.time_start) <= now;
+}
+
+/** Mirrors `enforce_attendance_status_lifecycle`: attended and no-show need a started session. */
+export function isStatusAllowed(
+  status: AttendanceStatus,
+  session: Pick<Attendance, "session_date" | "time_start">,
+  now = new Date(),
+): boolean {
+  return !isOutcomeStatus(status) || hasSessionStarted(session, now);
+}
+
+/** Quick status actions of a session: outcomes once it has started, otherwise booked or canceled. */
+export function getStatusOptions(
+  session: Pick<Attendance, "session_date" | "time_start">,
+  now = new Date(),
+): AttendanceStatus[] {
+  return hasSessionStarted(session, now) ? ["attended", "canceled", "no_show"] : ["booked", "canceled"];
+}
+
+/** New future sessions are booked; back-filled past ones default to attended. */
+export function getDefaultSessionStatus(sessionDate: string, timeStart: string | null, now = new Date()): AttendanceStatus {
+  return getSessionStart(sessionDate, timeStart) <= now ? "attended" : "booked";
+}
+
+/** Raised by the `enforce_attendance_status_lifecycle` trigger. */
+export function isStatusBeforeStartError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("status_before_start");
+}
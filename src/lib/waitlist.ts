@@ -0,0 +1,55 @@
+import { getSlotStart, minutesToTime } from "./schedule";
+import { isUniqueViolation } from "./dbErrors";
+import { isMakeupCreditUnavailableError } from "./makeupCredits";
+import { isSeriesNoSessionsError } from "./recurrence";
+import { isStatusBeforeStartError } from "./sessionStatus";
+import type { AttendanceBedType, WaitlistEntry, WaitlistStatus } from "../types/database";
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: "Σε αναμονή",
+  offered: "Προσφέρθηκε θέση",
+  promoted: "Κλείστηκε",
+  removed: "Αφαιρέθηκε",
+};
+
+/** Raised by the `enforce_resource_hard_cap` trigger when a hard-capped bed is full. */
+export function isSlotFullError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("slot_full");
+}
+
+export function formatBookingError(error: unknown, fallback: string): string {
+  if (isSlotFullError(error)) {
+    return "Το κρεβάτι είναι πλήρες και δεν δέχεται υπεράριθμες κρατήσεις. Πρόσθεσε τον πελάτη στη λίστα αναμονής.";
+  }
+  if (isStatusBeforeStartError(error)) {
+    return "Παρουσία ή απουσία καταγράφεται μόνο μετά την έναρξη της συνεδρίας.";
+  }
+  if (isUniqueViolation(error)) {
+    return "Ο πελάτης έχει ήδη συνεδρία αυτή την ώρα.";
+  }
+  if (isMakeupCreditUnavailableError(error)) {
+    return "Η αναπλήρωση έχει ήδη χρησιμοποιηθεί ή έχει λήξει. Η συνεδρία δεν κλείστηκε.";
+  }
+  if (isSeriesNoSessionsError(error)) {
+    return "Ο πελάτης έχει ήδη συνεδρία σε όλες τις ημερομηνίες της σειράς.";
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+export function getWaitlistSlotKey(dateIso: string, slotLabel: string, bedType: AttendanceBedType): string {
+  return `${dateIso}|${slotLabel}|${bedType}`;
+}
+
+/** Groups open entries by the calendar slot they fall in; entries keep their queue order. */
+export function groupWaitlistBySlot(entries: WaitlistEntry[], slotMinutes: number): Map<string, WaitlistEntry[]> {
+  const map = new Map<string, WaitlistEntry[]>();
+  for (const entry of entries) {
+    const slotStart = getSlotStart(entry.time_start, slotMinutes);
+    if (slotStart == null) {
+      continue;
+    }
+    const key = getWaitlistSlotKey(entry.session_date, minutesToTime(slotStart), entry.bed_type);
+    map.set(key, [...(map.get(key) ?? []), entry]);
+  }
+  return map;
+}
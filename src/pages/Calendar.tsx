@@ -1,19 +1,49 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { useAuth } from "../auth/AuthProvider";
 import {
+  acceptWaitlistOffer,
+  addWaitlistEntry,
+  bookMakeupSession,
+  createSessionSeries,
   deleteAttendance,
-  fetchActiveClients,
+  deleteSeriesSessions,
   fetchAttendanceForMonth,
+  fetchAutomationSettings,
+  fetchClients,
+  fetchClosuresForRange,
+  fetchInstructors,
+  fetchOpeningHours,
+  fetchResources,
+  fetchStudioSettings,
+  fetchWaitlistForRange,
+  removeWaitlistEntry,
+  setAttendanceStatuses,
   updateAttendance,
+  updateAutomationSettings,
+  updateSeriesSessions,
   upsertAttendance,
 } from "../lib/data";
+import { formatHealthWarnings, getClientHealthWarnings } from "../lib/clientHealth";
+import {
+  findClosureAt,
+  findClosureForSlot,
+  formatClosureLabel,
+  groupClosuresByDate,
+  isFullDayClosure,
+} from "../lib/closures";
+import { isUniqueViolation } from "../lib/dbErrors";
+import { formatCurrencyEUR } from "../lib/format";
+import { formatCheckInTime } from "../lib/kiosk";
+import { isLateCancel, isPastLateCancelCutoff } from "../lib/lateCancel";
+import { ATTENDANCE_STATUS_LABELS, getStatusOptions } from "../lib/sessionStatus";
 import {
   addDays,
   addMonths,
   isSameDay,
   isSameMonth,
+  parseIsoDate,
   startOfMonth,
   startOfWeek,
   toIsoDate,
@@ -21,49 +51,91 @@ import {
 import { MonthPicker } from "../components/MonthPicker";
 import { DayCell } from "../components/DayCell";
 import { SessionsDrawer } from "../components/SessionsDrawer";
-import { AddSessionDialog } from "../components/AddSessionDialog";
-import type { Attendance, AttendanceBedType, AttendanceInsert, AttendanceStatus, Client } from "../types/database";
+import { AddSessionDialog, type SessionSaveOptions } from "../components/AddSessionDialog";
+import { SeriesScopeDialog } from "../components/SeriesScopeDialog";
+import { ClassSessionsPanel } from "../components/ClassSessionsPanel";
+import { RollCallPanel } from "../components/RollCallPanel";
+import type { SeriesScope } from "../lib/recurrence";
+import {
+  buildResourceLookup,
+  formatResourceLabel,
+  getResourceCapacity,
+  getScheduleResourceKeys,
+  type ResourceLookup,
+} from "../lib/resources";
+import {
+  buildScheduleConfig,
+  buildSlotStarts,
+  getDayWindow,
+  getSlotStart,
+  isSlotOpen,
+  minutesToTime,
+} from "../lib/schedule";
+import {
+  buildMoveTarget,
+  buildMovedSessionUpdate,
+  findClientTimeConflict,
+  getSessionMoveOrigin,
+  isSameMoveTarget,
+  type SessionMoveTarget,
+} from "../lib/sessionMoves";
+import { formatBookingError, getWaitlistSlotKey, groupWaitlistBySlot } from "../lib/waitlist";
+import type {
+  Attendance,
+  AttendanceBedType,
+  AttendanceInsert,
+  AttendanceStatus,
+  Client,
+  Instructor,
+  StudioClosure,
+  WaitlistEntry,
+  WaitlistEntryInsert,
+} from "../types/database";
 
 type SaveSessionPayload = {
   input: AttendanceInsert;
   existingId?: string;
+  options?: SessionSaveOptions;
+};
+
+type SaveSessionResult = {
+  sessions: Attendance[];
+  /** Series dates that were not booked. */
+  skippedDates: string[];
+};
+
+type DeleteSessionPayload = {
+  session: Attendance;
+  scope: SeriesScope;
+};
+
+type MoveSessionPayload = {
+  session: Attendance;
+  target: SessionMoveTarget;
 };
 
 type CalendarViewMode = "month" | "week" | "day";
-type BedLoadByHour = Record<string, Record<AttendanceBedType, number>>;
+type BedLoadBySlot = Record<string, Record<AttendanceBedType, number>>;
 type SlotSessionsByBed = Record<AttendanceBedType, Attendance[]>;
 type UtilizationBand = "low" | "medium" | "high" | "full" | "over";
 
 const WEEKDAY_LABELS = ["Δευ", "Τρι", "Τετ", "Πεμ", "Παρ", "Σαβ", "Κυρ"];
-const WEEK_HOUR_START = 8;
-const WEEK_HOUR_END = 22;
-const BED_CAPACITY = 4;
-const BED_TYPES: AttendanceBedType[] = ["reformer", "cadillac"];
-const STATUS_OPTIONS: AttendanceStatus[] = ["attended", "canceled", "no_show"];
+const UNASSIGNED_INSTRUCTOR = "unassigned";
 const STATUS_SHORT_LABEL: Record<AttendanceStatus, string> = {
+  booked: "Κρατ.",
   attended: "Παρ.",
   canceled: "Ακυρ.",
   no_show: "Απουσ.",
 };
-const STATUS_LONG_LABEL: Record<AttendanceStatus, string> = {
-  attended: "Παρακολούθησε",
-  canceled: "Ακυρώθηκε",
-  no_show: "Δεν προσήλθε",
-};
-const WEEK_HOURS = Array.from(
-  { length: WEEK_HOUR_END - WEEK_HOUR_START + 1 },
-  (_, index) => WEEK_HOUR_START + index,
-);
-
-const EMPTY_SLOT_BEDS: SlotSessionsByBed = {
-  reformer: [],
-  cadillac: [],
-};
 
 function formatTime(timeStart: string | null): string {
   return timeStart ? timeStart.slice(0, 5) : "Χωρίς ώρα";
 }
 
+function formatMoveDate(dateIso: string): string {
+  return parseIsoDate(dateIso).toLocaleDateString("el-GR", { weekday: "short", day: "2-digit", month: "2-digit" });
+}
+
 function sortSessionsByTime(sessions: Attendance[]): Attendance[] {
   return [...sessions].sort((a, b) => {
     const timeCompare = (a.time_start ?? "").localeCompare(b.time_start ?? "");
@@ -80,27 +152,30 @@ function sortSessionsByTime(sessions: Attendance[]): Attendance[] {
   });
 }
 
-function formatHourLabel(hour: number): string {
-  return `${String(hour).padStart(2, "0")}:00`;
-}
-
-function getHourFromTime(value: string | null): number | null {
-  if (!value) {
-    return null;
-  }
-  const hour = Number.parseInt(value.slice(0, 2), 10);
-  return Number.isFinite(hour) ? hour : null;
-}
-
-function formatBedType(value: AttendanceBedType): string {
-  return value === "cadillac" ? "CADILLAC" : "REFORMER";
+function mergeSavedSessions(current: Attendance[], savedSessions: Attendance[], rangeStart: string, rangeEnd: string) {
+  const savedById = new Map(savedSessions.map((session) => [session.id, session]));
+  const next = current
+    .map((session) => savedById.get(session.id) ?? session)
+    .filter((session) => session.session_date >= rangeStart && session.session_date < rangeEnd);
+  const existingIds = new Set(current.map((session) => session.id));
+  savedSessions.forEach((session) => {
+    if (!existingIds.has(session.id) && session.session_date >= rangeStart && session.session_date < rangeEnd) {
+      next.push(session);
+    }
+  });
+  return next.sort((a, b) => {
+    if (a.session_date === b.session_date) {
+      return (a.time_start ?? "").localeCompare(b.time_start ?? "");
+    }
+    return a.session_date.localeCompare(b.session_date);
+  });
 }
 
-function getBedLoadState(count: number): "normal" | "full" | "overbooked" {
-  if (count > BED_CAPACITY) {
+function getBedLoadState(count: number, capacity: number): "normal" | "full" | "overbooked" {
+  if (count > capacity) {
     return "overbooked";
   }
-  if (count === BED_CAPACITY) {
+  if (count === capacity) {
     return "full";
   }
   return "normal";
@@ -122,21 +197,51 @@ function getUtilizationBand(ratio: number): UtilizationBand {
   return "low";
 }
 
-function buildEmptyBedLoadByHour(): BedLoadByHour {
-  return WEEK_HOURS.reduce<BedLoadByHour>((acc, hour) => {
-    acc[formatHourLabel(hour)] = {
-      reformer: 0,
-      cadillac: 0,
-    };
+function addToBedLoad(load: BedLoadBySlot, slotLabel: string, bedType: AttendanceBedType) {
+  const slotLoad = load[slotLabel] ?? {};
+  slotLoad[bedType] = (slotLoad[bedType] ?? 0) + 1;
+  load[slotLabel] = slotLoad;
+}
+
+function buildEmptySlotBeds(bedTypes: AttendanceBedType[]): SlotSessionsByBed {
+  return bedTypes.reduce<SlotSessionsByBed>((acc, bedType) => {
+    acc[bedType] = [];
     return acc;
   }, {});
 }
 
-function buildEmptySlotBeds(): SlotSessionsByBed {
-  return {
-    reformer: [],
-    cadillac: [],
-  };
+function addSessionToSlot(slot: SlotSessionsByBed, session: Attendance) {
+  slot[session.bed_type] = [...(slot[session.bed_type] ?? []), session];
+}
+
+function sortSlotSessions(slot: SlotSessionsByBed): SlotSessionsByBed {
+  return Object.fromEntries(
+    Object.entries(slot).map(([bedType, sessions]) => [bedType, sortSessionsByTime(sessions)]),
+  );
+}
+
+function countSlotSessions(slot: SlotSessionsByBed): number {
+  return Object.values(slot).reduce((sum, sessions) => sum + sessions.length, 0);
+}
+
+function sumBedLoad(load: Record<AttendanceBedType, number> | undefined): number {
+  return Object.values(load ?? {}).reduce((sum, count) => sum + count, 0);
+}
+
+function describeClosedSlot(isOpen: boolean, closure: StudioClosure | null): string {
+  if (closure) {
+    return ` (κλειστό: ${formatClosureLabel(closure)})`;
+  }
+  return isOpen ? "" : " (εκτός ωραρίου)";
+}
+
+function describeSlotLoad(slot: SlotSessionsByBed, bedTypes: AttendanceBedType[], lookup: ResourceLookup): string {
+  return bedTypes
+    .map(
+      (bedType) =>
+        `${formatResourceLabel(bedType, lookup)} ${(slot[bedType] ?? []).length}/${getResourceCapacity(bedType, lookup)}`,
+    )
+    .join(", ");
 }
 
 export function CalendarPage() {
@@ -151,6 +256,14 @@ export function CalendarPage() {
   const [dialogInitialTime, setDialogInitialTime] = useState<string | undefined>(undefined);
   const [dialogInitialBedType, setDialogInitialBedType] = useState<AttendanceBedType | undefined>(undefined);
   const [editingSession, setEditingSession] = useState<Attendance | null>(null);
+  const [pendingSeriesDelete, setPendingSeriesDelete] = useState<Attendance | null>(null);
+  // Sessions are snapshotted when the roll call opens, so its draft is not reset by refetches.
+  const [rollCall, setRollCall] = useState<{ title: string; sessions: Attendance[] } | null>(null);
+  const [instructorFilter, setInstructorFilter] = useState<string[]>([]);
+  // Session picked up by dragging a chip or by its move button; lanes then act as drop targets.
+  const [movingSession, setMovingSession] = useState<Attendance | null>(null);
+  const [isDraggingSession, setIsDraggingSession] = useState(false);
+  const [dropLaneKey, setDropLaneKey] = useState<string | null>(null);
 
   const monthStartDate = startOfMonth(selectedMonth);
   const monthGridStart = useMemo(() => startOfWeek(monthStartDate), [monthStartDate]);
@@ -166,10 +279,11 @@ export function CalendarPage() {
   const rangeStart = toIsoDate(rangeStartDate);
   const rangeEnd = toIsoDate(rangeEndExclusive);
 
+  // All clients, so sessions of deactivated clients keep their names; the picker only offers active ones.
   const clientsQuery = useQuery({
-    queryKey: ["clients", user?.id],
+    queryKey: ["clients-all", user?.id],
     enabled: Boolean(user?.id),
-    queryFn: () => fetchActiveClients(user!.id),
+    queryFn: () => fetchClients(user!.id),
   });
 
   const attendanceQuery = useQuery({
@@ -178,6 +292,84 @@ export function CalendarPage() {
     queryFn: () => fetchAttendanceForMonth(user!.id, rangeStart, rangeEnd),
   });
 
+  const waitlistQuery = useQuery({
+    queryKey: ["waitlist", user?.id, rangeStart, rangeEnd],
+    enabled: Boolean(user?.id) && viewMode !== "month",
+    queryFn: () => fetchWaitlistForRange(user!.id, rangeStart, rangeEnd),
+  });
+
+  const closuresQuery = useQuery({
+    queryKey: ["studio-closures", user?.id, rangeStart, rangeEnd],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClosuresForRange(user!.id, rangeStart, rangeEnd),
+  });
+
+  const closuresByDate = useMemo(
+    () => groupClosuresByDate(closuresQuery.data ?? [], rangeStart, rangeEnd),
+    [closuresQuery.data, rangeEnd, rangeStart],
+  );
+
+  const resourcesQuery = useQuery({
+    queryKey: ["resources", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchResources(user!.id),
+  });
+
+  const resourceLookup = useMemo(() => buildResourceLookup(resourcesQuery.data ?? []), [resourcesQuery.data]);
+  const scheduleBedTypes = useMemo(
+    () =>
+      getScheduleResourceKeys(
+        resourcesQuery.data ?? [],
+        (attendanceQuery.data ?? []).map((session) => session.bed_type),
+      ),
+    [attendanceQuery.data, resourcesQuery.data],
+  );
+  const slotCapacity = useMemo(
+    () => scheduleBedTypes.reduce((sum, bedType) => sum + getResourceCapacity(bedType, resourceLookup), 0),
+    [resourceLookup, scheduleBedTypes],
+  );
+
+  const instructorsQuery = useQuery({
+    queryKey: ["instructors", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchInstructors(user!.id),
+  });
+
+  const instructorsById = useMemo<Record<string, Instructor>>(() => {
+    return (instructorsQuery.data ?? []).reduce<Record<string, Instructor>>((acc, instructor) => {
+      acc[instructor.id] = instructor;
+      return acc;
+    }, {});
+  }, [instructorsQuery.data]);
+
+  const matchesInstructorFilter = useMemo(() => {
+    const selected = new Set(instructorFilter);
+    return (session: Attendance) =>
+      selected.size === 0 || selected.has(session.instructor_id ?? UNASSIGNED_INSTRUCTOR);
+  }, [instructorFilter]);
+
+  const studioSettingsQuery = useQuery({
+    queryKey: ["studio-settings", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchStudioSettings(user!.id),
+  });
+
+  const openingHoursQuery = useQuery({
+    queryKey: ["opening-hours", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchOpeningHours(user!.id),
+  });
+
+  const scheduleConfig = useMemo(
+    () => buildScheduleConfig(studioSettingsQuery.data, openingHoursQuery.data ?? []),
+    [openingHoursQuery.data, studioSettingsQuery.data],
+  );
+  const slotMinutes = scheduleConfig.slotMinutes;
+  const waitlistBySlot = useMemo(
+    () => groupWaitlistBySlot(waitlistQuery.data ?? [], slotMinutes),
+    [slotMinutes, waitlistQuery.data],
+  );
+
   const clientsById = useMemo<Record<string, Client>>(() => {
     return (clientsQuery.data ?? []).reduce<Record<string, Client>>((acc, client) => {
       acc[client.id] = client;
@@ -204,29 +396,37 @@ export function CalendarPage() {
   );
   const weekDays = useMemo(() => Array.from({ length: 7 }, (_, index) => addDays(weekStartDate, index)), [weekStartDate]);
 
+  const weekSlots = useMemo(() => {
+    if (viewMode !== "week") {
+      return [];
+    }
+    return buildSlotStarts(
+      weekDays.map((day) => getDayWindow(scheduleConfig, day)),
+      slotMinutes,
+      (attendanceQuery.data ?? []).map((session) => session.time_start),
+    );
+  }, [attendanceQuery.data, scheduleConfig, slotMinutes, viewMode, weekDays]);
+
   const weekSlotSessionsByBed = useMemo(() => {
     const map = new Map<string, SlotSessionsByBed>();
     if (viewMode !== "week") {
       return map;
     }
-    (attendanceQuery.data ?? []).forEach((session) => {
-      const hour = getHourFromTime(session.time_start);
-      if (hour == null || hour < WEEK_HOUR_START || hour > WEEK_HOUR_END) {
+    (attendanceQuery.data ?? []).filter(matchesInstructorFilter).forEach((session) => {
+      const slotStart = getSlotStart(session.time_start, slotMinutes);
+      if (slotStart == null) {
         return;
       }
-      const key = `${session.session_date}-${hour}`;
-      const existing = map.get(key) ?? buildEmptySlotBeds();
-      existing[session.bed_type].push(session);
+      const key = `${session.session_date}-${slotStart}`;
+      const existing = map.get(key) ?? buildEmptySlotBeds(scheduleBedTypes);
+      addSessionToSlot(existing, session);
       map.set(key, existing);
     });
     for (const [key, value] of map.entries()) {
-      map.set(key, {
-        reformer: sortSessionsByTime(value.reformer),
-        cadillac: sortSessionsByTime(value.cadillac),
-      });
+      map.set(key, sortSlotSessions(value));
     }
     return map;
-  }, [attendanceQuery.data, viewMode]);
+  }, [attendanceQuery.data, matchesInstructorFilter, scheduleBedTypes, slotMinutes, viewMode]);
 
   const weekUnscheduledSessions = useMemo(() => {
     if (viewMode !== "week") {
@@ -257,6 +457,9 @@ export function CalendarPage() {
     return (attendanceQuery.data ?? []).reduce(
       (acc, session) => {
         acc.total += 1;
+        if (session.status === "booked") {
+          acc.booked += 1;
+        }
         if (session.status === "attended") {
           acc.attended += 1;
         }
@@ -268,7 +471,7 @@ export function CalendarPage() {
         }
         return acc;
       },
-      { total: 0, attended: 0, canceled: 0, noShow: 0 },
+      { total: 0, booked: 0, attended: 0, canceled: 0, noShow: 0 },
     );
   }, [attendanceQuery.data]);
 
@@ -277,95 +480,107 @@ export function CalendarPage() {
 
   const sessionsForFocusDay = useMemo(() => {
     const focusDateKey = toIsoDate(dayStartDate);
-    return sortSessionsByTime(sessionsByDate.get(focusDateKey) ?? []);
-  }, [dayStartDate, sessionsByDate]);
+    return sortSessionsByTime((sessionsByDate.get(focusDateKey) ?? []).filter(matchesInstructorFilter));
+  }, [dayStartDate, matchesInstructorFilter, sessionsByDate]);
+
+  const dayWindow = useMemo(() => getDayWindow(scheduleConfig, dayStartDate), [dayStartDate, scheduleConfig]);
+  const dayClosures = closuresByDate.get(toIsoDate(dayStartDate)) ?? [];
+  const daySlots = useMemo(
+    () =>
+      buildSlotStarts(
+        [dayWindow],
+        slotMinutes,
+        sessionsForFocusDay.map((session) => session.time_start),
+      ),
+    [dayWindow, sessionsForFocusDay, slotMinutes],
+  );
 
   const daySlotSessionsByBed = useMemo(() => {
     const map = new Map<number, SlotSessionsByBed>();
     sessionsForFocusDay.forEach((session) => {
-      const hour = getHourFromTime(session.time_start);
-      if (hour == null || hour < WEEK_HOUR_START || hour > WEEK_HOUR_END) {
+      const slotStart = getSlotStart(session.time_start, slotMinutes);
+      if (slotStart == null) {
         return;
       }
-      const existing = map.get(hour) ?? buildEmptySlotBeds();
-      existing[session.bed_type].push(session);
-      map.set(hour, existing);
+      const existing = map.get(slotStart) ?? buildEmptySlotBeds(scheduleBedTypes);
+      addSessionToSlot(existing, session);
+      map.set(slotStart, existing);
     });
-    for (const [hour, value] of map.entries()) {
-      map.set(hour, {
-        reformer: sortSessionsByTime(value.reformer),
-        cadillac: sortSessionsByTime(value.cadillac),
-      });
+    for (const [slotStart, value] of map.entries()) {
+      map.set(slotStart, sortSlotSessions(value));
     }
     return map;
-  }, [sessionsForFocusDay]);
+  }, [scheduleBedTypes, sessionsForFocusDay, slotMinutes]);
 
   const dayUnscheduledSessions = useMemo(() => {
-    return sessionsForFocusDay.filter((session) => {
-      const hour = getHourFromTime(session.time_start);
-      return hour == null || hour < WEEK_HOUR_START || hour > WEEK_HOUR_END;
-    });
-  }, [sessionsForFocusDay]);
-  const bedLoadByDateHour = useMemo(() => {
-    const map = new Map<string, BedLoadByHour>();
+    return sessionsForFocusDay.filter((session) => getSlotStart(session.time_start, slotMinutes) == null);
+  }, [sessionsForFocusDay, slotMinutes]);
+  const bedLoadByDateSlot = useMemo(() => {
+    const map = new Map<string, BedLoadBySlot>();
     (attendanceQuery.data ?? []).forEach((session) => {
-      const hour = getHourFromTime(session.time_start);
-      if (hour == null || hour < WEEK_HOUR_START || hour > WEEK_HOUR_END) {
+      const slotStart = getSlotStart(session.time_start, slotMinutes);
+      // Canceled sessions free their place, matching the hard cap and waitlist promotion in the database.
+      if (slotStart == null || session.status === "canceled") {
         return;
       }
       const dateKey = session.session_date;
-      const hourLabel = formatHourLabel(hour);
-      const dateLoad = map.get(dateKey) ?? buildEmptyBedLoadByHour();
-      dateLoad[hourLabel][session.bed_type] += 1;
+      const dateLoad = map.get(dateKey) ?? {};
+      addToBedLoad(dateLoad, minutesToTime(slotStart), session.bed_type);
       map.set(dateKey, dateLoad);
     });
     return map;
-  }, [attendanceQuery.data]);
-
-  const weekUtilizationByHour = useMemo(() => {
-    const capacityPerHour = weekDays.length * BED_TYPES.length * BED_CAPACITY;
-    return WEEK_HOURS.map((hour) => {
-      const hourLabel = formatHourLabel(hour);
+  }, [attendanceQuery.data, slotMinutes]);
+
+  const weekUtilizationBySlot = useMemo(() => {
+    return weekSlots.map((slot) => {
+      const slotLabel = minutesToTime(slot);
+      const openDays = weekDays.filter(
+        (day) =>
+          isSlotOpen(getDayWindow(scheduleConfig, day), slot) &&
+          !findClosureForSlot(closuresByDate.get(toIsoDate(day)), slot, slotMinutes),
+      ).length;
+      const capacity = openDays * slotCapacity;
       const total = weekDays.reduce((sum, day) => {
-        const dateLoad = bedLoadByDateHour.get(toIsoDate(day));
+        const dateLoad = bedLoadByDateSlot.get(toIsoDate(day));
         if (!dateLoad) {
           return sum;
         }
-        return sum + dateLoad[hourLabel].reformer + dateLoad[hourLabel].cadillac;
+        return sum + sumBedLoad(dateLoad[slotLabel]);
       }, 0);
-      const ratio = capacityPerHour > 0 ? total / capacityPerHour : 0;
+      const ratio = capacity > 0 ? total / capacity : 0;
       return {
-        hour,
-        hourLabel,
+        slot,
+        slotLabel,
         total,
-        capacity: capacityPerHour,
+        capacity,
         ratio,
         band: getUtilizationBand(ratio),
       };
     });
-  }, [bedLoadByDateHour, weekDays]);
+  }, [bedLoadByDateSlot, closuresByDate, scheduleConfig, slotCapacity, slotMinutes, weekDays, weekSlots]);
 
-  const dayUtilizationByHour = useMemo(() => {
-    const capacityPerHour = BED_TYPES.length * BED_CAPACITY;
+  const dayUtilizationBySlot = useMemo(() => {
     const dateKey = toIsoDate(dayStartDate);
-    const dateLoad = bedLoadByDateHour.get(dateKey) ?? buildEmptyBedLoadByHour();
-    return WEEK_HOURS.map((hour) => {
-      const hourLabel = formatHourLabel(hour);
-      const total = dateLoad[hourLabel].reformer + dateLoad[hourLabel].cadillac;
-      const ratio = capacityPerHour > 0 ? total / capacityPerHour : 0;
+    const dateLoad = bedLoadByDateSlot.get(dateKey);
+    return daySlots.map((slot) => {
+      const slotLabel = minutesToTime(slot);
+      const isOpen = isSlotOpen(dayWindow, slot) && !findClosureForSlot(closuresByDate.get(dateKey), slot, slotMinutes);
+      const capacity = isOpen ? slotCapacity : 0;
+      const total = sumBedLoad(dateLoad?.[slotLabel]);
+      const ratio = capacity > 0 ? total / capacity : 0;
       return {
-        hour,
-        hourLabel,
+        slot,
+        slotLabel,
         total,
-        capacity: capacityPerHour,
+        capacity,
         ratio,
         band: getUtilizationBand(ratio),
       };
     });
-  }, [bedLoadByDateHour, dayStartDate]);
+  }, [bedLoadByDateSlot, closuresByDate, dayStartDate, dayWindow, daySlots, slotCapacity, slotMinutes]);
 
   const saveAttendanceMutation = useMutation({
-    mutationFn: async ({ input, existingId }: SaveSessionPayload) => {
+    mutationFn: async ({ input, existingId, options }: SaveSessionPayload): Promise<SaveSessionResult> => {
       if (!user) {
         throw new Error("Πρέπει να συνδεθείς για να αποθηκεύσεις συνεδρίες.");
       }
@@ -376,58 +591,109 @@ export function CalendarPage() {
       };
 
       if (existingId) {
-        return updateAttendance(existingId, {
+        const existingSession = (attendanceQuery.data ?? []).find((session) => session.id === existingId);
+        const scope = options?.scope ?? "single";
+        if (existingSession?.series_id && scope !== "single") {
+          // A series edit rewrites the template fields only; moving days is a per-session change.
+          if (payload.session_date !== existingSession.session_date) {
+            throw new Error("Η αλλαγή ημερομηνίας εφαρμόζεται μόνο σε μία συνεδρία της σειράς.");
+          }
+          const sessions = await updateSeriesSessions(existingSession, scope, {
+            client_id: payload.client_id,
+            time_start: payload.time_start,
+            duration_minutes: payload.duration_minutes,
+            bed_type: payload.bed_type,
+            instructor_id: payload.instructor_id ?? null,
+            status: payload.status,
+            notes: payload.notes,
+          });
+          return { sessions, skippedDates: [] };
+        }
+
+        const updatedSession = await updateAttendance(existingId, {
           client_id: payload.client_id,
           session_date: payload.session_date,
           time_start: payload.time_start,
           duration_minutes: payload.duration_minutes,
           bed_type: payload.bed_type,
+          instructor_id: payload.instructor_id ?? null,
           status: payload.status,
           notes: payload.notes,
         });
+        return { sessions: [updatedSession], skippedDates: [] };
+      }
+
+      if (options?.recurrence) {
+        return createSessionSeries(
+          {
+            user_id: user.id,
+            client_id: payload.client_id,
+            start_date: payload.session_date,
+            end_date: options.recurrence.endDate,
+            occurrence_count: options.recurrence.occurrenceCount,
+            interval_weeks: options.recurrence.intervalWeeks,
+            time_start: payload.time_start,
+            duration_minutes: payload.duration_minutes,
+            bed_type: payload.bed_type,
+            instructor_id: payload.instructor_id ?? null,
+            notes: payload.notes,
+          },
+          payload.status,
+        );
       }
 
-      return upsertAttendance(payload);
+      if (options?.makeupCreditId) {
+        return { sessions: [await bookMakeupSession(payload, options.makeupCreditId)], skippedDates: [] };
+      }
+
+      const savedSession = await upsertAttendance(payload);
+      return { sessions: [savedSession], skippedDates: [] };
     },
-    onSuccess: (savedSession) => {
-      queryClient.setQueryData<Attendance[]>(["attendance", user?.id, rangeStart, rangeEnd], (current = []) => {
-        if (savedSession.session_date < rangeStart || savedSession.session_date >= rangeEnd) {
-          return current;
-        }
-        const existingIndex = current.findIndex((session) => session.id === savedSession.id);
-        if (existingIndex >= 0) {
-          const next = [...current];
-          next[existingIndex] = savedSession;
-          return next;
-        }
-        return [...current, savedSession].sort((a, b) => {
-          if (a.session_date === b.session_date) {
-            return (a.time_start ?? "").localeCompare(b.time_start ?? "");
-          }
-          return a.session_date.localeCompare(b.session_date);
-        });
-      });
+    onSuccess: ({ sessions: savedSessions, skippedDates }) => {
+      queryClient.setQueryData<Attendance[]>(["attendance", user?.id, rangeStart, rangeEnd], (current = []) =>
+        mergeSavedSessions(current, savedSessions, rangeStart, rangeEnd),
+      );
       queryClient.invalidateQueries({ queryKey: ["attendance", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["makeup-credits", user?.id] });
       queryClient.invalidateQueries({ queryKey: ["follow-up-tasks", user?.id] });
       queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] });
-      toast.success("Η συνεδρία αποθηκεύτηκε.");
+      toast.success(
+        savedSessions.length > 1 ? `Αποθηκεύτηκαν ${savedSessions.length} συνεδρίες.` : "Η συνεδρία αποθηκεύτηκε.",
+      );
+      if (skippedDates.length) {
+        toast.warning(
+          `Δεν κλείστηκαν ${skippedDates.length} ημερομηνίες (κλειστό studio ή υπάρχουσα συνεδρία του πελάτη): ${skippedDates
+            .map(formatMoveDate)
+            .join(", ")}`,
+        );
+      }
     },
     onError: (error) => {
-      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η αποθήκευση συνεδρίας.";
-      toast.error(message);
+      toast.error(formatBookingError(error, "Δεν ήταν δυνατή η αποθήκευση συνεδρίας."));
     },
   });
 
   const deleteAttendanceMutation = useMutation({
-    mutationFn: (sessionId: string) => deleteAttendance(sessionId),
-    onSuccess: (_, sessionId) => {
+    mutationFn: async ({ session, scope }: DeleteSessionPayload) => {
+      if (session.series_id && scope !== "single") {
+        return deleteSeriesSessions(session, scope);
+      }
+      await deleteAttendance(session.id);
+      return [session.id];
+    },
+    onSuccess: (deletedIds) => {
+      const deletedIdSet = new Set(deletedIds);
       queryClient.setQueryData<Attendance[]>(["attendance", user?.id, rangeStart, rangeEnd], (current = []) =>
-        current.filter((session) => session.id !== sessionId),
+        current.filter((session) => !deletedIdSet.has(session.id)),
       );
+      setPendingSeriesDelete(null);
       queryClient.invalidateQueries({ queryKey: ["attendance", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["makeup-credits", user?.id] });
       queryClient.invalidateQueries({ queryKey: ["follow-up-tasks", user?.id] });
       queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] });
-      toast.success("Η συνεδρία διαγράφηκε.");
+      toast.success(deletedIds.length > 1 ? `Διαγράφηκαν ${deletedIds.length} συνεδρίες.` : "Η συνεδρία διαγράφηκε.");
     },
     onError: (error) => {
       const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η διαγραφή συνεδρίας.";
@@ -443,6 +709,7 @@ export function CalendarPage() {
         time_start: session.time_start ?? "08:00",
         duration_minutes: session.duration_minutes,
         bed_type: session.bed_type,
+        instructor_id: session.instructor_id,
         status,
         notes: session.notes,
       });
@@ -452,15 +719,121 @@ export function CalendarPage() {
         current.map((session) => (session.id === savedSession.id ? savedSession : session)),
       );
       queryClient.invalidateQueries({ queryKey: ["attendance", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["makeup-credits", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["follow-up-tasks", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] });
+    },
+    onError: (error) => {
+      toast.error(formatBookingError(error, "Δεν ήταν δυνατή η ενημέρωση κατάστασης."));
+    },
+  });
+
+  const rollCallMutation = useMutation({
+    mutationFn: setAttendanceStatuses,
+    onSuccess: (savedSessions) => {
+      const savedById = new Map(savedSessions.map((session) => [session.id, session]));
+      queryClient.setQueryData<Attendance[]>(["attendance", user?.id, rangeStart, rangeEnd], (current = []) =>
+        current.map((session) => savedById.get(session.id) ?? session),
+      );
+      queryClient.invalidateQueries({ queryKey: ["attendance", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["makeup-credits", user?.id] });
       queryClient.invalidateQueries({ queryKey: ["follow-up-tasks", user?.id] });
       queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] });
+      setRollCall(null);
+      toast.success(`Οι παρουσίες αποθηκεύτηκαν (${savedSessions.length}).`);
+    },
+    onError: (error) => {
+      toast.error(formatBookingError(error, "Δεν ήταν δυνατή η αποθήκευση παρουσιών."));
+    },
+  });
+
+  const automationSettingsQuery = useQuery({
+    queryKey: ["automation-settings", user?.id],
+    enabled: Boolean(user?.id && rollCall),
+    queryFn: () => fetchAutomationSettings(user!.id),
+  });
+
+  const autoMarkMutation = useMutation({
+    mutationFn: (enabled: boolean) => updateAutomationSettings(user!.id, { auto_mark_attended_enabled: enabled }),
+    onSuccess: (savedSettings) => {
+      queryClient.setQueryData(["automation-settings", user?.id], savedSettings);
+      toast.success(
+        savedSettings.auto_mark_attended_enabled
+          ? "Οι κρατήσεις χωρίς παρουσία θα σημειώνονται ως παρόντες στο τέλος της ημέρας."
+          : "Η αυτόματη σήμανση παρουσίας απενεργοποιήθηκε.",
+      );
     },
     onError: (error) => {
-      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η ενημέρωση κατάστασης.";
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η αποθήκευση της ρύθμισης.";
       toast.error(message);
     },
   });
 
+  const moveSessionMutation = useMutation({
+    mutationFn: ({ session, target }: MoveSessionPayload) =>
+      updateAttendance(session.id, buildMovedSessionUpdate(session, target)),
+    onSuccess: (savedSession) => {
+      queryClient.setQueryData<Attendance[]>(["attendance", user?.id, rangeStart, rangeEnd], (current = []) =>
+        mergeSavedSessions(current, [savedSession], rangeStart, rangeEnd),
+      );
+      queryClient.invalidateQueries({ queryKey: ["attendance", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["makeup-credits", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["follow-up-tasks", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] });
+    },
+    onError: (error, { session, target }) => {
+      if (isUniqueViolation(error)) {
+        const clientName = clientsById[session.client_id]?.full_name ?? "Ο πελάτης";
+        toast.error(
+          `${clientName} έχει ήδη συνεδρία ${formatMoveDate(target.sessionDate)} στις ${target.timeStart}. Η μετακίνηση ακυρώθηκε.`,
+        );
+        return;
+      }
+      toast.error(formatBookingError(error, "Δεν ήταν δυνατή η μετακίνηση συνεδρίας."));
+    },
+  });
+
+  const invalidateWaitlistQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["waitlist", user?.id] });
+    queryClient.invalidateQueries({ queryKey: ["attendance", user?.id] });
+    queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] });
+    queryClient.invalidateQueries({ queryKey: ["notifications-unread-count", user?.id] });
+  };
+
+  const addWaitlistMutation = useMutation({
+    mutationFn: (input: WaitlistEntryInsert) => addWaitlistEntry(input),
+    onSuccess: () => {
+      invalidateWaitlistQueries();
+      toast.success("Ο πελάτης μπήκε στη λίστα αναμονής.");
+    },
+  });
+
+  const removeWaitlistMutation = useMutation({
+    mutationFn: (entry: WaitlistEntry) => removeWaitlistEntry(entry.id),
+    onSuccess: () => {
+      invalidateWaitlistQueries();
+      toast.success("Αφαιρέθηκε από τη λίστα αναμονής.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η αφαίρεση από τη λίστα αναμονής.";
+      toast.error(message);
+    },
+  });
+
+  const acceptWaitlistOfferMutation = useMutation({
+    mutationFn: (entry: WaitlistEntry) => acceptWaitlistOffer(entry),
+    onSuccess: () => {
+      invalidateWaitlistQueries();
+      toast.success("Η θέση κλείστηκε από τη λίστα αναμονής.");
+    },
+    onError: (error) => {
+      toast.error(formatBookingError(error, "Δεν ήταν δυνατή η κράτηση της θέσης."));
+    },
+  });
+
   const handleSelectDay = (date: Date) => {
     setDrawerDate(date);
     setIsDrawerOpen(true);
@@ -497,23 +870,106 @@ export function CalendarPage() {
   };
 
   const handleDeleteSession = (session: Attendance) => {
+    if (session.series_id) {
+      setPendingSeriesDelete(session);
+      return;
+    }
     if (!window.confirm("Να διαγραφεί αυτή η συνεδρία;")) {
       return;
     }
-    void deleteAttendanceMutation.mutateAsync(session.id);
+    void deleteAttendanceMutation.mutateAsync({ session, scope: "single" });
   };
 
-  const handleSaveSession = async (input: AttendanceInsert, existingId?: string) => {
-    await saveAttendanceMutation.mutateAsync({ input, existingId });
+  const handleSaveSession = async (input: AttendanceInsert, existingId?: string, options?: SessionSaveOptions) => {
+    await saveAttendanceMutation.mutateAsync({ input, existingId, options });
   };
 
   const handleQuickStatusChange = (session: Attendance, status: AttendanceStatus) => {
     if (session.status === status) {
       return;
     }
+    const settings = studioSettingsQuery.data;
+    if (status === "canceled" && settings && isPastLateCancelCutoff(session, settings)) {
+      const charge =
+        settings.late_cancel_policy === "fee" ? `χρέωση ${formatCurrencyEUR(settings.late_cancel_fee)}` : "ένα μάθημα";
+      if (!window.confirm(`Ακύρωση λιγότερο από ${settings.late_cancel_hours} ώρες πριν: θα χρεωθεί ${charge}. Συνέχεια;`)) {
+        return;
+      }
+    }
     void quickStatusMutation.mutateAsync({ session, status });
   };
 
+  const clearSessionMove = () => {
+    setMovingSession(null);
+    setIsDraggingSession(false);
+    setDropLaneKey(null);
+  };
+
+  useEffect(() => {
+    if (!movingSession) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        clearSessionMove();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [movingSession]);
+
+  const handleMoveSession = async (session: Attendance, target: SessionMoveTarget, isUndo = false) => {
+    clearSessionMove();
+    if (isSameMoveTarget(session, target)) {
+      return;
+    }
+
+    const clientName = clientsById[session.client_id]?.full_name ?? "Ο πελάτης";
+    const slotStart = getSlotStart(target.timeStart, slotMinutes);
+    const targetWindow = getDayWindow(scheduleConfig, parseIsoDate(target.sessionDate));
+    if (!isUndo && (slotStart == null || !isSlotOpen(targetWindow, slotStart))) {
+      toast.error("Η νέα ώρα είναι εκτός ωραρίου του studio.");
+      return;
+    }
+    const targetClosure = findClosureAt(closuresQuery.data ?? [], target.sessionDate, target.timeStart);
+    if (!isUndo && targetClosure) {
+      toast.error(`Το studio είναι κλειστό: ${formatClosureLabel(targetClosure)}.`);
+      return;
+    }
+    if (!isUndo && resourceLookup[target.bedType]?.is_active === false) {
+      toast.error(`Ο εξοπλισμός ${formatResourceLabel(target.bedType, resourceLookup)} είναι ανενεργός.`);
+      return;
+    }
+    if (findClientTimeConflict(attendanceQuery.data ?? [], session, target)) {
+      toast.error(
+        `${clientName} έχει ήδη συνεδρία ${formatMoveDate(target.sessionDate)} στις ${target.timeStart}. Η μετακίνηση ακυρώθηκε.`,
+      );
+      return;
+    }
+
+    let savedSession: Attendance;
+    try {
+      savedSession = await moveSessionMutation.mutateAsync({ session, target });
+    } catch {
+      return;
+    }
+
+    if (isUndo) {
+      toast.success("Η μετακίνηση αναιρέθηκε.");
+      return;
+    }
+    const origin = getSessionMoveOrigin(session);
+    toast.success(
+      `${clientName}: ${formatMoveDate(target.sessionDate)} ${target.timeStart} · ${formatResourceLabel(target.bedType, resourceLookup)}`,
+      {
+        action: {
+          label: "Αναίρεση",
+          onClick: () => void handleMoveSession(savedSession, origin, true),
+        },
+      },
+    );
+  };
+
   const handleChangeMonth = (nextMonth: Date) => {
     setSelectedMonth(startOfMonth(nextMonth));
     setFocusDate(startOfMonth(nextMonth));
@@ -552,54 +1008,61 @@ export function CalendarPage() {
   };
 
   const dialogDateIso = editingSession?.session_date ?? toIsoDate(drawerDate ?? focusDate);
-  const dialogBedLoadByHour = useMemo(() => {
-    const bedLoadByHour = buildEmptyBedLoadByHour();
+  const dialogBedLoadBySlot = useMemo(() => {
+    const bedLoadBySlot: BedLoadBySlot = {};
 
     (attendanceQuery.data ?? []).forEach((session) => {
-      if (session.session_date !== dialogDateIso) {
+      if (session.session_date !== dialogDateIso || session.status === "canceled") {
         return;
       }
-      const hour = getHourFromTime(session.time_start);
-      if (hour == null || hour < WEEK_HOUR_START || hour > WEEK_HOUR_END) {
+      const slotStart = getSlotStart(session.time_start, slotMinutes);
+      if (slotStart == null) {
         return;
       }
-      const hourLabel = formatHourLabel(hour);
-      bedLoadByHour[hourLabel][session.bed_type] += 1;
+      addToBedLoad(bedLoadBySlot, minutesToTime(slotStart), session.bed_type);
     });
 
-    return bedLoadByHour;
-  }, [attendanceQuery.data, dialogDateIso]);
-  const showSuggestedMove = (dateIso: string, hour: number, currentBedType: AttendanceBedType) => {
-    const dateLoads = bedLoadByDateHour.get(dateIso);
+    return bedLoadBySlot;
+  }, [attendanceQuery.data, dialogDateIso, slotMinutes]);
+  const showSuggestedMove = (dateIso: string, slot: number, currentBedType: AttendanceBedType) => {
+    const dateLoads = bedLoadByDateSlot.get(dateIso);
     if (!dateLoads) {
       toast.info("Δεν υπάρχουν διαθέσιμα δεδομένα για πρόταση μετακίνησης.");
       return;
     }
 
-    const otherBedType: AttendanceBedType = currentBedType === "reformer" ? "cadillac" : "reformer";
-    const sameHourLabel = formatHourLabel(hour);
-    const sameHourOtherBedLoad = dateLoads[sameHourLabel][otherBedType];
-    if (sameHourOtherBedLoad < BED_CAPACITY) {
+    const window = getDayWindow(scheduleConfig, parseIsoDate(dateIso));
+    const bookableBedTypes = scheduleBedTypes.filter((bedType) => resourceLookup[bedType]?.is_active);
+    const getLoad = (slotLabel: string, bedType: AttendanceBedType) => dateLoads[slotLabel]?.[bedType] ?? 0;
+    const sameSlotLabel = minutesToTime(slot);
+    const sameSlotAlternative = bookableBedTypes
+      .filter((bedType) => bedType !== currentBedType)
+      .find((bedType) => getLoad(sameSlotLabel, bedType) < getResourceCapacity(bedType, resourceLookup));
+    if (sameSlotAlternative) {
       toast.info(
-        `Προτεινόμενη μετακίνηση: ${sameHourLabel} · ${formatBedType(otherBedType)} (${sameHourOtherBedLoad}/${BED_CAPACITY}).`,
+        `Προτεινόμενη μετακίνηση: ${sameSlotLabel} · ${formatResourceLabel(sameSlotAlternative, resourceLookup)} (${getLoad(sameSlotLabel, sameSlotAlternative)}/${getResourceCapacity(sameSlotAlternative, resourceLookup)}).`,
       );
       return;
     }
 
-    let bestCandidate: { hour: number; bedType: AttendanceBedType; load: number } | null = null;
-    for (const candidateHour of WEEK_HOURS) {
-      for (const bedType of BED_TYPES) {
-        const candidateLoad = dateLoads[formatHourLabel(candidateHour)][bedType];
-        if (candidateLoad >= BED_CAPACITY) {
+    let bestCandidate: { slot: number; bedType: AttendanceBedType; load: number } | null = null;
+    const candidateSlots = buildSlotStarts([window], slotMinutes).filter(
+      (candidateSlot) =>
+        isSlotOpen(window, candidateSlot) && !findClosureForSlot(closuresByDate.get(dateIso), candidateSlot, slotMinutes),
+    );
+    for (const candidateSlot of candidateSlots) {
+      for (const bedType of bookableBedTypes) {
+        const candidateLoad = getLoad(minutesToTime(candidateSlot), bedType);
+        if (candidateLoad >= getResourceCapacity(bedType, resourceLookup)) {
           continue;
         }
         if (
           !bestCandidate ||
           candidateLoad < bestCandidate.load ||
-          (candidateLoad === bestCandidate.load && Math.abs(candidateHour - hour) < Math.abs(bestCandidate.hour - hour))
+          (candidateLoad === bestCandidate.load && Math.abs(candidateSlot - slot) < Math.abs(bestCandidate.slot - slot))
         ) {
           bestCandidate = {
-            hour: candidateHour,
+            slot: candidateSlot,
             bedType,
             load: candidateLoad,
           };
@@ -608,24 +1071,27 @@ export function CalendarPage() {
     }
 
     if (!bestCandidate) {
-      toast.warning("Δεν βρέθηκε διαθέσιμο slot κάτω από 4/4 την ίδια ημέρα.");
+      toast.warning("Δεν βρέθηκε διαθέσιμο slot με ελεύθερη θέση την ίδια ημέρα.");
       return;
     }
 
     toast.info(
-      `Προτεινόμενη μετακίνηση: ${formatHourLabel(bestCandidate.hour)} · ${formatBedType(bestCandidate.bedType)} (${bestCandidate.load}/${BED_CAPACITY}).`,
+      `Προτεινόμενη μετακίνηση: ${minutesToTime(bestCandidate.slot)} · ${formatResourceLabel(bestCandidate.bedType, resourceLookup)} (${bestCandidate.load}/${getResourceCapacity(bestCandidate.bedType, resourceLookup)}).`,
     );
   };
 
   const renderUtilizationStrip = (
-    rows: Array<{ hour: number; hourLabel: string; total: number; capacity: number; ratio: number; band: UtilizationBand }>,
+    rows: Array<{ slot: number; slotLabel: string; total: number; capacity: number; ratio: number; band: UtilizationBand }>,
     keyPrefix: string,
   ) => {
     return (
       <div className="utilization-strip">
         {rows.map((item) => (
-          <div key={`${keyPrefix}-${item.hour}`} className="utilization-item">
-            <span className="utilization-hour">{item.hourLabel}</span>
+          <div
+            key={`${keyPrefix}-${item.slot}`}
+            className={["utilization-item", item.capacity === 0 ? "utilization-item-closed" : ""].filter(Boolean).join(" ")}
+          >
+            <span className="utilization-hour">{item.slotLabel}</span>
             <div className="utilization-track">
               <span
                 className={`utilization-fill utilization-fill-${item.band}`}
@@ -641,57 +1107,142 @@ export function CalendarPage() {
     );
   };
 
+  const renderMoveBanner = () => {
+    if (!movingSession || isDraggingSession) {
+      return null;
+    }
+    const clientName = clientsById[movingSession.client_id]?.full_name ?? "Άγνωστος πελάτης";
+    return (
+      <div className="status-box row space-between align-center wrap gap-sm" role="status">
+        <span>
+          Μετακίνηση: {clientName} ({formatMoveDate(movingSession.session_date)} {formatTime(movingSession.time_start)} ·{" "}
+          {formatResourceLabel(movingSession.bed_type, resourceLookup)}). Επίλεξε κρεβάτι και ώρα ή πάτησε Esc.
+        </span>
+        <button type="button" className="button" onClick={clearSessionMove}>
+          Ακύρωση μετακίνησης
+        </button>
+      </div>
+    );
+  };
+
   const renderBedLane = ({
     bedType,
     bedSessions,
     dateIso,
-    hour,
+    slot,
     onOpenLane,
   }: {
     bedType: AttendanceBedType;
     bedSessions: Attendance[];
     dateIso: string;
-    hour: number;
+    slot: number;
     onOpenLane: () => void;
   }) => {
-    const bedCount = bedSessions.length;
-    const bedState = getBedLoadState(bedCount);
+    // Occupancy always reflects every active booking on the bed, even when an instructor filter hides some chips.
+    const bedCount = bedLoadByDateSlot.get(dateIso)?.[minutesToTime(slot)]?.[bedType] ?? 0;
+    const bedCapacity = getResourceCapacity(bedType, resourceLookup);
+    const bedLabel = formatResourceLabel(bedType, resourceLookup);
+    const bedState = getBedLoadState(bedCount, bedCapacity);
+    const waitlistEntries = waitlistBySlot.get(getWaitlistSlotKey(dateIso, minutesToTime(slot), bedType)) ?? [];
+    const laneKey = `${dateIso}|${slot}|${bedType}`;
+    const moveTarget = movingSession ? buildMoveTarget(movingSession, dateIso, slot, bedType, slotMinutes) : null;
+    const isMoveOrigin = Boolean(movingSession && moveTarget && isSameMoveTarget(movingSession, moveTarget));
+    // Live preview of the lane load if the picked-up session lands here; canceled sessions take no place.
+    const previewCount =
+      movingSession && !isMoveOrigin && movingSession.status !== "canceled" ? bedCount + 1 : bedCount;
+    const isMoveBlocked =
+      Boolean(movingSession) &&
+      (resourceLookup[bedType]?.is_active === false ||
+        (Boolean(resourceLookup[bedType]?.hard_cap) && previewCount > bedCapacity));
+    const isDropTarget = Boolean(movingSession) && dropLaneKey === laneKey;
+    const handleLaneActivate = () => {
+      if (movingSession && moveTarget) {
+        if (!isMoveBlocked) {
+          void handleMoveSession(movingSession, moveTarget);
+        } else {
+          toast.error(`Το ${bedLabel} δεν δέχεται άλλη κράτηση σε αυτό το slot.`);
+        }
+        return;
+      }
+      onOpenLane();
+    };
 
     return (
       <section
-        key={`${bedType}-${dateIso}-${hour}`}
-        className={`week-bed-lane week-bed-lane-${bedType} week-bed-lane-${bedState}`}
+        key={`${bedType}-${dateIso}-${slot}`}
+        className={[
+          "week-bed-lane",
+          `week-bed-lane-${bedType}`,
+          `week-bed-lane-${bedState}`,
+          movingSession ? "week-bed-lane-move-mode" : "",
+          isDropTarget ? (isMoveBlocked ? "week-bed-lane-drop-blocked" : "week-bed-lane-drop-target") : "",
+        ]
+          .filter(Boolean)
+          .join(" ")}
         role="button"
         tabIndex={0}
         onClick={(event) => {
           event.stopPropagation();
-          onOpenLane();
+          handleLaneActivate();
         }}
         onKeyDown={(event) => {
           if (event.key === "Enter" || event.key === " ") {
             event.preventDefault();
             event.stopPropagation();
-            onOpenLane();
+            handleLaneActivate();
           }
         }}
-        aria-label={`${formatBedType(bedType)} ${bedCount} από ${BED_CAPACITY}`}
+        onFocus={() => {
+          if (movingSession) {
+            setDropLaneKey(laneKey);
+          }
+        }}
+        onDragOver={(event) => {
+          if (!movingSession) {
+            return;
+          }
+          event.preventDefault();
+          event.stopPropagation();
+          event.dataTransfer.dropEffect = isMoveBlocked ? "none" : "move";
+          if (dropLaneKey !== laneKey) {
+            setDropLaneKey(laneKey);
+          }
+        }}
+        onDrop={(event) => {
+          event.preventDefault();
+          event.stopPropagation();
+          handleLaneActivate();
+        }}
+        aria-label={
+          movingSession
+            ? `Μετακίνηση εδώ: ${bedLabel}, ${formatMoveDate(dateIso)} ${minutesToTime(slot)}, ${previewCount} από ${bedCapacity}`
+            : `${bedLabel} ${bedCount} από ${bedCapacity}`
+        }
       >
         <header className="week-bed-lane-head">
-          <strong className="week-bed-label">{formatBedType(bedType)}</strong>
+          <strong className="week-bed-label">{bedLabel}</strong>
           <div className="row gap-sm align-center">
             <span
               className={`week-bed-badge week-bed-badge-${bedType} week-bed-badge-${bedState}`}
-              aria-label={`Πληρότητα ${formatBedType(bedType)} ${bedCount} από ${BED_CAPACITY}`}
+              aria-label={`Πληρότητα ${bedLabel} ${bedCount} από ${bedCapacity}`}
             >
-              {bedCount}/{BED_CAPACITY}
+              {bedCount}/{bedCapacity}
             </span>
-            {bedCount > BED_CAPACITY ? (
+            {isDropTarget && previewCount !== bedCount ? (
+              <span
+                className={`week-bed-badge week-bed-badge-${getBedLoadState(previewCount, bedCapacity)}`}
+                aria-live="polite"
+              >
+                → {previewCount}/{bedCapacity}
+              </span>
+            ) : null}
+            {bedCount > bedCapacity ? (
               <button
                 type="button"
                 className="week-overbook-link"
                 onClick={(event) => {
                   event.stopPropagation();
-                  showSuggestedMove(dateIso, hour, bedType);
+                  showSuggestedMove(dateIso, slot, bedType);
                 }}
               >
                 Προτεινόμενη μετακίνηση
@@ -704,27 +1255,69 @@ export function CalendarPage() {
           <div className="week-bed-chips">
             {bedSessions.map((session) => {
               const clientName = clientsById[session.client_id]?.full_name ?? "Άγνωστος πελάτης";
+              const healthWarnings = getClientHealthWarnings(clientsById[session.client_id]);
               return (
                 <article
                   key={session.id}
-                  className={`week-session-chip ${bedCount > BED_CAPACITY ? "week-session-chip-overbooked" : ""}`}
-                  aria-label={`${clientName}, ${formatTime(session.time_start)} · ${formatBedType(session.bed_type)} (${bedCount}/${BED_CAPACITY})`}
+                  className={[
+                    "week-session-chip",
+                    bedCount > bedCapacity ? "week-session-chip-overbooked" : "",
+                    session.series_id ? "week-session-chip-series" : "",
+                    movingSession?.id === session.id ? "week-session-chip-moving" : "",
+                  ]
+                    .filter(Boolean)
+                    .join(" ")}
+                  aria-label={`${clientName}, ${formatTime(session.time_start)} · ${bedLabel} (${bedCount}/${bedCapacity})`}
+                  draggable={!session.class_session_id}
+                  onDragStart={(event) => {
+                    event.stopPropagation();
+                    event.dataTransfer.effectAllowed = "move";
+                    event.dataTransfer.setData("text/plain", session.id);
+                    setMovingSession(session);
+                    setIsDraggingSession(true);
+                  }}
+                  onDragEnd={clearSessionMove}
                 >
                   <button
                     type="button"
                     className="week-session-main-action"
                     onClick={(event) => {
                       event.stopPropagation();
+                      if (movingSession) {
+                        handleLaneActivate();
+                        return;
+                      }
                       handleEditSession(session);
                     }}
                   >
-                    <span className="week-session-title">{clientName}</span>
+                    <span className="week-session-title">
+                      {session.series_id ? (
+                        <span className="series-marker" title="Επαναλαμβανόμενη συνεδρία" aria-label="Επαναλαμβανόμενη συνεδρία">
+                          ↻
+                        </span>
+                      ) : null}
+                      {healthWarnings.length ? (
+                        <span
+                          className="health-marker"
+                          title={formatHealthWarnings(healthWarnings)}
+                          aria-label={`Προσοχή υγείας: ${formatHealthWarnings(healthWarnings)}`}
+                        >
+                          ⚠
+                        </span>
+                      ) : null}
+                      {clientName}
+                    </span>
                     <span className="week-session-meta">
-                      {formatTime(session.time_start)} · {formatBedType(session.bed_type)}
+                      {formatTime(session.time_start)} · {bedLabel}
+                      {session.instructor_id && instructorsById[session.instructor_id]
+                        ? ` · ${instructorsById[session.instructor_id].full_name}`
+                        : ""}
+                      {isLateCancel(session) ? " · καθυστ. ακύρωση" : ""}
+                      {session.checked_in_at ? ` · check-in ${formatCheckInTime(session.checked_in_at)}` : ""}
                     </span>
                   </button>
                   <div className="week-session-actions" onClick={(event) => event.stopPropagation()}>
-                    {STATUS_OPTIONS.map((statusOption) => (
+                    {getStatusOptions(session).map((statusOption) => (
                       <button
                         key={`${session.id}-${statusOption}`}
                         type="button"
@@ -735,12 +1328,30 @@ export function CalendarPage() {
                         ]
                           .filter(Boolean)
                           .join(" ")}
-                        aria-label={`Κατάσταση: ${STATUS_LONG_LABEL[statusOption]}`}
+                        aria-label={`Κατάσταση: ${ATTENDANCE_STATUS_LABELS[statusOption]}`}
                         onClick={() => handleQuickStatusChange(session, statusOption)}
                       >
                         {STATUS_SHORT_LABEL[statusOption]}
                       </button>
                     ))}
+                    {/* Roster entries follow their class; the class is moved from the day view panel. */}
+                    {session.class_session_id ? null : (
+                      <button
+                        type="button"
+                        className={[
+                          "week-session-status-action",
+                          movingSession?.id === session.id ? "week-session-status-action-active" : "",
+                        ]
+                          .filter(Boolean)
+                          .join(" ")}
+                        aria-label={`Μετακίνηση συνεδρίας ${clientName}`}
+                        aria-pressed={movingSession?.id === session.id}
+                        title="Μετακίνηση σε άλλη ώρα, ημέρα ή κρεβάτι"
+                        onClick={() => (movingSession?.id === session.id ? clearSessionMove() : setMovingSession(session))}
+                      >
+                        ⇄
+                      </button>
+                    )}
                   </div>
                 </article>
               );
@@ -749,18 +1360,82 @@ export function CalendarPage() {
         ) : (
           <span className="week-bed-empty">-</span>
         )}
+
+        {waitlistEntries.length ? (
+          <div className="week-waitlist" onClick={(event) => event.stopPropagation()}>
+            <span className="week-waitlist-title">Αναμονή ({waitlistEntries.length})</span>
+            {waitlistEntries.map((entry, index) => {
+              const clientName = clientsById[entry.client_id]?.full_name ?? "Άγνωστος πελάτης";
+              const isOffered = entry.status === "offered";
+              return (
+                <div
+                  key={entry.id}
+                  className={["week-waitlist-item", isOffered ? "week-waitlist-item-offered" : ""].filter(Boolean).join(" ")}
+                >
+                  <span>
+                    {index + 1}. {clientName}
+                    {isOffered ? " · ελεύθερη θέση" : ""}
+                  </span>
+                  {isOffered ? (
+                    <button
+                      type="button"
+                      className="week-waitlist-action"
+                      disabled={acceptWaitlistOfferMutation.isPending}
+                      onClick={() => void acceptWaitlistOfferMutation.mutateAsync(entry)}
+                    >
+                      Κράτηση
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    className="week-waitlist-action"
+                    aria-label={`Αφαίρεση ${clientName} από τη λίστα αναμονής`}
+                    disabled={removeWaitlistMutation.isPending}
+                    onClick={() => void removeWaitlistMutation.mutateAsync(entry)}
+                  >
+                    Αφαίρεση
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : null}
       </section>
     );
   };
 
-  if (clientsQuery.isLoading || attendanceQuery.isLoading) {
+  if (
+    clientsQuery.isLoading ||
+    attendanceQuery.isLoading ||
+    resourcesQuery.isLoading ||
+    instructorsQuery.isLoading ||
+    studioSettingsQuery.isLoading ||
+    openingHoursQuery.isLoading ||
+    closuresQuery.isLoading ||
+    waitlistQuery.isLoading
+  ) {
     return <div className="status-box">Φόρτωση ημερολογίου...</div>;
   }
 
-  if (clientsQuery.isError || attendanceQuery.isError) {
+  if (
+    clientsQuery.isError ||
+    attendanceQuery.isError ||
+    resourcesQuery.isError ||
+    instructorsQuery.isError ||
+    studioSettingsQuery.isError ||
+    openingHoursQuery.isError ||
+    closuresQuery.isError ||
+    waitlistQuery.isError
+  ) {
     const message =
       (clientsQuery.error instanceof Error && clientsQuery.error.message) ||
       (attendanceQuery.error instanceof Error && attendanceQuery.error.message) ||
+      (resourcesQuery.error instanceof Error && resourcesQuery.error.message) ||
+      (instructorsQuery.error instanceof Error && instructorsQuery.error.message) ||
+      (studioSettingsQuery.error instanceof Error && studioSettingsQuery.error.message) ||
+      (openingHoursQuery.error instanceof Error && openingHoursQuery.error.message) ||
+      (closuresQuery.error instanceof Error && closuresQuery.error.message) ||
+      (waitlistQuery.error instanceof Error && waitlistQuery.error.message) ||
       "Δεν ήταν δυνατή η φόρτωση ημερολογίου.";
     return <div className="status-box status-error">{message}</div>;
   }
@@ -811,12 +1486,51 @@ export function CalendarPage() {
           <strong className="calendar-period-label">{periodLabel}</strong>
 
           <div className="calendar-legend">
+            <span className="status-pill status-booked">Κρατ. {totals.booked}</span>
             <span className="status-pill status-attended">Παρ. {totals.attended}</span>
             <span className="status-pill status-canceled">Ακύρ. {totals.canceled}</span>
             <span className="status-pill status-no-show">Απουσ. {totals.noShow}</span>
             <span className="status-pill">Σύνολο {totals.total}</span>
           </div>
         </div>
+
+        {viewMode !== "month" && (instructorsQuery.data ?? []).length ? (
+          <div className="filter-chips" role="group" aria-label="Φίλτρο εκπαιδευτή">
+            <button
+              type="button"
+              className={instructorFilter.length === 0 ? "filter-chip filter-chip-active" : "filter-chip"}
+              aria-pressed={instructorFilter.length === 0}
+              onClick={() => setInstructorFilter([])}
+            >
+              Όλοι
+            </button>
+            {[
+              ...(instructorsQuery.data ?? [])
+                .filter((instructor) => instructor.is_active || instructorFilter.includes(instructor.id))
+                .map((instructor) => ({ id: instructor.id, label: instructor.full_name })),
+              { id: UNASSIGNED_INSTRUCTOR, label: "Χωρίς εκπαιδευτή" },
+            ].map((option) => {
+              const isSelected = instructorFilter.includes(option.id);
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  className={isSelected ? "filter-chip filter-chip-active" : "filter-chip"}
+                  aria-pressed={isSelected}
+                  onClick={() =>
+                    setInstructorFilter((previous) =>
+                      previous.includes(option.id)
+                        ? previous.filter((value) => value !== option.id)
+                        : [...previous, option.id],
+                    )
+                  }
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+        ) : null}
       </div>
 
       {viewMode === "day" ? (
@@ -824,26 +1538,52 @@ export function CalendarPage() {
           <div className="row space-between align-center wrap gap-sm">
             <div>
               <h3>{dayStartDate.toLocaleDateString("el-GR", { weekday: "long", month: "long", day: "numeric" })}</h3>
-              <p className="muted-text">{sessionsForFocusDay.length} συνεδρίες</p>
+              <p className="muted-text">
+                {sessionsForFocusDay.length} συνεδρίες ·{" "}
+                {dayWindow.isClosed
+                  ? "Κλειστό"
+                  : `Ωράριο ${minutesToTime(dayWindow.openMinutes)}-${minutesToTime(dayWindow.closeMinutes)}`}
+              </p>
+              {dayClosures.length ? (
+                <p className="calendar-closure-label">Κλειστό: {dayClosures.map(formatClosureLabel).join(", ")}</p>
+              ) : null}
+            </div>
+            <div className="row gap-sm wrap">
+              <button
+                type="button"
+                className="button"
+                disabled={!sessionsForFocusDay.length}
+                onClick={() =>
+                  setRollCall({
+                    title: `Παρουσίες ${dayStartDate.toLocaleDateString("el-GR", { weekday: "long", day: "numeric", month: "long" })}`,
+                    sessions: sessionsForFocusDay,
+                  })
+                }
+              >
+                Παρουσίες ημέρας
+              </button>
+              <button type="button" className="button button-primary" onClick={() => openDialogForDay(dayStartDate)}>
+                Προσθήκη συνεδρίας
+              </button>
             </div>
-            <button type="button" className="button button-primary" onClick={() => openDialogForDay(dayStartDate)}>
-              Προσθήκη συνεδρίας
-            </button>
           </div>
 
           {dayUnscheduledSessions.length ? (
             <div className="status-box status-error">
-              Υπάρχουν συνεδρίες εκτός ωραρίου 08:00-22:00. Χρειάζεται επεξεργασία για να εμφανιστούν στο ωρολόγιο.
+              Υπάρχουν συνεδρίες χωρίς ώρα. Χρειάζεται επεξεργασία για να εμφανιστούν στο ωρολόγιο.
             </div>
           ) : null}
 
-          {renderUtilizationStrip(dayUtilizationByHour, "day")}
+          {renderMoveBanner()}
+          {renderUtilizationStrip(dayUtilizationBySlot, "day")}
           <div className="day-schedule">
-            {WEEK_HOURS.map((hour) => {
-              const hourLabel = formatHourLabel(hour);
-              const slotSessionsByBed = daySlotSessionsByBed.get(hour) ?? EMPTY_SLOT_BEDS;
-              const slotTotal = slotSessionsByBed.reformer.length + slotSessionsByBed.cadillac.length;
+            {daySlots.map((slot) => {
+              const slotLabel = minutesToTime(slot);
               const dateKey = toIsoDate(dayStartDate);
+              const slotClosure = findClosureForSlot(dayClosures, slot, slotMinutes);
+              const isOpen = isSlotOpen(dayWindow, slot) && !slotClosure;
+              const slotSessionsByBed = daySlotSessionsByBed.get(slot) ?? {};
+              const slotTotal = countSlotSessions(slotSessionsByBed);
               const slotDateLabel = dayStartDate.toLocaleDateString("el-GR", {
                 weekday: "long",
                 day: "2-digit",
@@ -851,34 +1591,52 @@ export function CalendarPage() {
               });
 
               return (
-                <div key={hour} className="day-row">
-                  <div className="day-hour-cell">{hourLabel}</div>
+                <div key={slot} className="day-row">
+                  <div className="day-hour-cell">
+                    {slotLabel}
+                    {slotTotal ? (
+                      <button
+                        type="button"
+                        className="week-session-status-action"
+                        aria-label={`Παρουσίες ${slotLabel}`}
+                        title="Παρουσίες της ώρας"
+                        onClick={() =>
+                          setRollCall({
+                            title: `Παρουσίες ${slotDateLabel} ${slotLabel}`,
+                            sessions: sortSessionsByTime(Object.values(slotSessionsByBed).flat()),
+                          })
+                        }
+                      >
+                        ✓
+                      </button>
+                    ) : null}
+                  </div>
                   <div
                     role="button"
                     tabIndex={0}
-                    className="week-slot day-slot"
+                    className={["week-slot", "day-slot", isOpen ? "" : "week-slot-closed"].filter(Boolean).join(" ")}
                     aria-label={
                       slotTotal
-                        ? `${slotDateLabel} ${hourLabel}. REFORMER ${slotSessionsByBed.reformer.length}/${BED_CAPACITY}, CADILLAC ${slotSessionsByBed.cadillac.length}/${BED_CAPACITY}`
-                        : `Προσθήκη νέας συνεδρίας ${slotDateLabel} ${hourLabel}`
+                        ? `${slotDateLabel} ${slotLabel}. ${describeSlotLoad(slotSessionsByBed, scheduleBedTypes, resourceLookup)}`
+                        : `Προσθήκη νέας συνεδρίας ${slotDateLabel} ${slotLabel}${describeClosedSlot(isOpen, slotClosure)}`
                     }
-                    onClick={() => openDialogForDay(dayStartDate, hourLabel)}
+                    onClick={() => openDialogForDay(dayStartDate, slotLabel)}
                     onKeyDown={(event) => {
                       if (event.key === "Enter" || event.key === " ") {
                         event.preventDefault();
-                        openDialogForDay(dayStartDate, hourLabel);
+                        openDialogForDay(dayStartDate, slotLabel);
                       }
                     }}
                   >
                     <div className="week-slot-content">
                       <div className="week-bed-lanes">
-                        {BED_TYPES.map((bedType) =>
+                        {scheduleBedTypes.map((bedType) =>
                           renderBedLane({
                             bedType,
-                            bedSessions: slotSessionsByBed[bedType],
+                            bedSessions: slotSessionsByBed[bedType] ?? [],
                             dateIso: dateKey,
-                            hour,
-                            onOpenLane: () => openDialogForDay(dayStartDate, hourLabel, bedType),
+                            slot,
+                            onOpenLane: () => openDialogForDay(dayStartDate, slotLabel, bedType),
                           }),
                         )}
                       </div>
@@ -895,6 +1653,22 @@ export function CalendarPage() {
               );
             })}
           </div>
+
+          {user ? (
+            <ClassSessionsPanel
+              userId={user.id}
+              date={dayStartDate}
+              sessions={sessionsByDate.get(toIsoDate(dayStartDate)) ?? []}
+              clients={clientsQuery.data ?? []}
+              clientsById={clientsById}
+              instructorsById={instructorsById}
+              resourceLookup={resourceLookup}
+              scheduleConfig={scheduleConfig}
+              dayClosures={dayClosures}
+              onStatusChange={handleQuickStatusChange}
+              onRemoveEntry={handleDeleteSession}
+            />
+          ) : null}
         </div>
       ) : viewMode === "week" ? (
         <div className="card stack-sm">
@@ -904,34 +1678,49 @@ export function CalendarPage() {
             </div>
           ) : null}
 
-          {renderUtilizationStrip(weekUtilizationByHour, "week")}
+          {renderMoveBanner()}
+          {renderUtilizationStrip(weekUtilizationBySlot, "week")}
 
           <div className="week-schedule">
             <div className="week-schedule-header">
               <div className="week-hour-cell week-hour-head">Ώρα</div>
-              {weekDays.map((date, dayIndex) => (
-                <button
-                  key={toIsoDate(date)}
-                  type="button"
-                  className={`week-day-head ${isSameDay(date, new Date()) ? "week-day-head-today" : ""}`}
-                  onClick={() => handleSelectDay(date)}
-                >
-                  <span>{WEEKDAY_LABELS[dayIndex]}</span>
-                  <strong>{date.toLocaleDateString("el-GR", { day: "2-digit", month: "2-digit" })}</strong>
-                </button>
-              ))}
+              {weekDays.map((date, dayIndex) => {
+                const dateClosures = closuresByDate.get(toIsoDate(date)) ?? [];
+                return (
+                  <button
+                    key={toIsoDate(date)}
+                    type="button"
+                    className={[
+                      "week-day-head",
+                      isSameDay(date, new Date()) ? "week-day-head-today" : "",
+                      dateClosures.some(isFullDayClosure) ? "week-day-head-closed" : "",
+                    ]
+                      .filter(Boolean)
+                      .join(" ")}
+                    onClick={() => handleSelectDay(date)}
+                  >
+                    <span>{WEEKDAY_LABELS[dayIndex]}</span>
+                    <strong>{date.toLocaleDateString("el-GR", { day: "2-digit", month: "2-digit" })}</strong>
+                    {dateClosures.length ? (
+                      <span className="calendar-closure-label">{dateClosures.map(formatClosureLabel).join(", ")}</span>
+                    ) : null}
+                  </button>
+                );
+              })}
             </div>
 
             <div className="week-schedule-body">
-              {WEEK_HOURS.map((hour) => {
-                const hourLabel = formatHourLabel(hour);
+              {weekSlots.map((slot) => {
+                const slotLabel = minutesToTime(slot);
                 return (
-                  <div key={hour} className="week-row">
-                    <div className="week-hour-cell">{hourLabel}</div>
+                  <div key={slot} className="week-row">
+                    <div className="week-hour-cell">{slotLabel}</div>
                     {weekDays.map((date) => {
                       const dateKey = toIsoDate(date);
-                      const slotSessionsByBed = weekSlotSessionsByBed.get(`${dateKey}-${hour}`) ?? EMPTY_SLOT_BEDS;
-                      const slotTotal = slotSessionsByBed.reformer.length + slotSessionsByBed.cadillac.length;
+                      const slotSessionsByBed = weekSlotSessionsByBed.get(`${dateKey}-${slot}`) ?? {};
+                      const slotClosure = findClosureForSlot(closuresByDate.get(dateKey), slot, slotMinutes);
+                      const isOpen = isSlotOpen(getDayWindow(scheduleConfig, date), slot) && !slotClosure;
+                      const slotTotal = countSlotSessions(slotSessionsByBed);
                       const slotDateLabel = date.toLocaleDateString("el-GR", {
                         weekday: "long",
                         day: "2-digit",
@@ -940,32 +1729,38 @@ export function CalendarPage() {
 
                       return (
                         <div
-                          key={`${dateKey}-${hour}`}
+                          key={`${dateKey}-${slot}`}
                           role="button"
                           tabIndex={0}
-                          className={["week-slot", isSameDay(date, new Date()) ? "week-slot-today" : ""].filter(Boolean).join(" ")}
+                          className={[
+                            "week-slot",
+                            isSameDay(date, new Date()) ? "week-slot-today" : "",
+                            isOpen ? "" : "week-slot-closed",
+                          ]
+                            .filter(Boolean)
+                            .join(" ")}
                           aria-label={
                             slotTotal
-                              ? `${slotDateLabel} ${hourLabel}. REFORMER ${slotSessionsByBed.reformer.length}/${BED_CAPACITY}, CADILLAC ${slotSessionsByBed.cadillac.length}/${BED_CAPACITY}`
-                              : `Προσθήκη νέας συνεδρίας ${slotDateLabel} ${hourLabel}`
+                              ? `${slotDateLabel} ${slotLabel}. ${describeSlotLoad(slotSessionsByBed, scheduleBedTypes, resourceLookup)}`
+                              : `Προσθήκη νέας συνεδρίας ${slotDateLabel} ${slotLabel}${describeClosedSlot(isOpen, slotClosure)}`
                           }
-                          onClick={() => openDialogForDay(date, hourLabel)}
+                          onClick={() => openDialogForDay(date, slotLabel)}
                           onKeyDown={(event) => {
                             if (event.key === "Enter" || event.key === " ") {
                               event.preventDefault();
-                              openDialogForDay(date, hourLabel);
+                              openDialogForDay(date, slotLabel);
                             }
                           }}
                         >
                           <div className="week-slot-content">
                             <div className="week-bed-lanes">
-                              {BED_TYPES.map((bedType) =>
+                              {scheduleBedTypes.map((bedType) =>
                                 renderBedLane({
                                   bedType,
-                                  bedSessions: slotSessionsByBed[bedType],
+                                  bedSessions: slotSessionsByBed[bedType] ?? [],
                                   dateIso: dateKey,
-                                  hour,
-                                  onOpenLane: () => openDialogForDay(date, hourLabel, bedType),
+                                  slot,
+                                  onOpenLane: () => openDialogForDay(date, slotLabel, bedType),
                                 }),
                               )}
                             </div>
@@ -1007,6 +1802,7 @@ export function CalendarPage() {
                     isToday={isSameDay(date, new Date())}
                     isSelected={drawerDate ? isSameDay(date, drawerDate) : false}
                     sessions={sessions}
+                    closures={closuresByDate.get(dateKey)}
                     onSelect={handleSelectDay}
                   />
                 );
@@ -1021,6 +1817,7 @@ export function CalendarPage() {
         date={drawerDate}
         sessions={sessionsForSelectedDay}
         clientsById={clientsById}
+        resourceLookup={resourceLookup}
         onClose={handleCloseDrawer}
         onAdd={handleAddSession}
         onEdit={handleEditSession}
@@ -1038,14 +1835,49 @@ export function CalendarPage() {
           }}
           onSave={handleSaveSession}
           userId={user.id}
-          clients={clientsQuery.data ?? []}
+          clients={(clientsQuery.data ?? []).filter(
+            (client) => client.is_active || client.id === editingSession?.client_id,
+          )}
+          resources={resourcesQuery.data ?? []}
+          instructors={instructorsQuery.data ?? []}
           initialDate={drawerDate ?? focusDate}
           initialTime={dialogInitialTime}
           initialBedType={dialogInitialBedType}
           initialSession={editingSession}
-          bedLoadByHour={dialogBedLoadByHour}
+          bedLoadBySlot={dialogBedLoadBySlot}
+          scheduleConfig={scheduleConfig}
+          onAddToWaitlist={async (input) => {
+            await addWaitlistMutation.mutateAsync(input);
+          }}
         />
       ) : null}
+
+      <RollCallPanel
+        isOpen={Boolean(rollCall)}
+        title={rollCall?.title ?? "Παρουσίες"}
+        sessions={rollCall?.sessions ?? []}
+        clientsById={clientsById}
+        resourceLookup={resourceLookup}
+        isSubmitting={rollCallMutation.isPending}
+        autoMarkEnabled={automationSettingsQuery.data?.auto_mark_attended_enabled}
+        isAutoMarkSaving={autoMarkMutation.isPending}
+        onAutoMarkChange={(enabled) => void autoMarkMutation.mutateAsync(enabled)}
+        onApply={(changes) => void rollCallMutation.mutateAsync(changes)}
+        onClose={() => setRollCall(null)}
+      />
+
+      <SeriesScopeDialog
+        isOpen={Boolean(pendingSeriesDelete)}
+        title="Διαγραφή επαναλαμβανόμενης συνεδρίας"
+        description="Η συνεδρία ανήκει σε σειρά. Επίλεξε ποιες εμφανίσεις θα διαγραφούν. Όσες έχουν ήδη ξεκινήσει μένουν στο ιστορικό."
+        isSubmitting={deleteAttendanceMutation.isPending}
+        onClose={() => setPendingSeriesDelete(null)}
+        onSelect={(scope) => {
+          if (pendingSeriesDelete) {
+            void deleteAttendanceMutation.mutateAsync({ session: pendingSeriesDelete, scope });
+          }
+        }}
+      />
     </section>
   );
 }
@@ -0,0 +1,307 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import { addClassType, fetchClassTypes, fetchInstructors, fetchResources, updateClassType } from "../lib/data";
+import { buildResourceLookup, formatResourceLabel } from "../lib/resources";
+import type { AttendanceBedType, ClassTypeUpdate } from "../types/database";
+
+type ClassTypeDraft = {
+  name: string;
+  bed_type: AttendanceBedType;
+  capacity: string;
+  default_duration_minutes: string;
+  instructor_id: string;
+  price: string;
+  is_active: boolean;
+};
+
+const EMPTY_CLASS_TYPE_DRAFT: ClassTypeDraft = {
+  name: "",
+  bed_type: "",
+  capacity: "6",
+  default_duration_minutes: "60",
+  instructor_id: "",
+  price: "",
+  is_active: true,
+};
+
+/** Validated update payload, or an error message for the toast. */
+function parseClassTypeDraft(draft: ClassTypeDraft): Required<Omit<ClassTypeUpdate, "updated_at">> | string {
+  const capacity = Number.parseInt(draft.capacity, 10);
+  const duration = Number.parseInt(draft.default_duration_minutes, 10);
+  const price = draft.price.trim() ? Number.parseFloat(draft.price.replace(",", ".")) : null;
+  if (!draft.name.trim()) {
+    return "Συμπλήρωσε όνομα μαθήματος.";
+  }
+  if (!draft.bed_type) {
+    return "Επίλεξε εξοπλισμό για το μάθημα.";
+  }
+  if (!Number.isFinite(capacity) || capacity < 1 || capacity > 100) {
+    return "Η χωρητικότητα πρέπει να είναι από 1 έως 100.";
+  }
+  if (!Number.isFinite(duration) || duration < 1) {
+    return "Η διάρκεια πρέπει να είναι θετικός αριθμός λεπτών.";
+  }
+  if (price != null && (!Number.isFinite(price) || price < 0)) {
+    return "Η τιμή πρέπει να είναι μηδέν ή θετική.";
+  }
+  return {
+    name: draft.name.trim(),
+    bed_type: draft.bed_type,
+    capacity,
+    default_duration_minutes: duration,
+    instructor_id: draft.instructor_id || null,
+    price,
+    is_active: draft.is_active,
+  };
+}
+
+export function ClassTypesPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, ClassTypeDraft>>({});
+  const [newDraft, setNewDraft] = useState<ClassTypeDraft>(EMPTY_CLASS_TYPE_DRAFT);
+
+  const classTypesQuery = useQuery({
+    queryKey: ["class-types", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClassTypes(user!.id),
+  });
+
+  const resourcesQuery = useQuery({
+    queryKey: ["resources", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchResources(user!.id),
+  });
+
+  const instructorsQuery = useQuery({
+    queryKey: ["instructors", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchInstructors(user!.id),
+  });
+
+  useEffect(() => {
+    setDrafts(
+      Object.fromEntries(
+        (classTypesQuery.data ?? []).map((classType) => [
+          classType.id,
+          {
+            name: classType.name,
+            bed_type: classType.bed_type,
+            capacity: String(classType.capacity),
+            default_duration_minutes: String(classType.default_duration_minutes),
+            instructor_id: classType.instructor_id ?? "",
+            price: classType.price == null ? "" : String(classType.price),
+            is_active: classType.is_active,
+          },
+        ]),
+      ),
+    );
+  }, [classTypesQuery.data]);
+
+  const addClassTypeMutation = useMutation({
+    mutationFn: (input: Required<Omit<ClassTypeUpdate, "updated_at">>) => addClassType({ ...input, user_id: user!.id }),
+    onSuccess: () => {
+      setNewDraft(EMPTY_CLASS_TYPE_DRAFT);
+      queryClient.invalidateQueries({ queryKey: ["class-types", user?.id] });
+      toast.success("Το μάθημα προστέθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία προσθήκης μαθήματος.";
+      toast.error(message);
+    },
+  });
+
+  const updateClassTypeMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ClassTypeUpdate }) => updateClassType(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["class-types", user?.id] });
+      toast.success("Το μάθημα ενημερώθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενημέρωσης μαθήματος.";
+      toast.error(message);
+    },
+  });
+
+  const updateDraft = (id: string, patch: Partial<ClassTypeDraft>) => {
+    setDrafts((previous) => ({ ...previous, [id]: { ...previous[id], ...patch } }));
+  };
+
+  const handleSave = (id: string) => {
+    const parsed = parseClassTypeDraft(drafts[id]);
+    if (typeof parsed === "string") {
+      toast.error(parsed);
+      return;
+    }
+    void updateClassTypeMutation.mutateAsync({ id, input: parsed });
+  };
+
+  const handleAdd = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsed = parseClassTypeDraft(newDraft);
+    if (typeof parsed === "string") {
+      toast.error(parsed);
+      return;
+    }
+    void addClassTypeMutation.mutateAsync(parsed);
+  };
+
+  if (classTypesQuery.isLoading || resourcesQuery.isLoading || instructorsQuery.isLoading) {
+    return <div className="status-box">Φόρτωση μαθημάτων...</div>;
+  }
+
+  if (classTypesQuery.isError || resourcesQuery.isError || instructorsQuery.isError) {
+    const message =
+      (classTypesQuery.error instanceof Error && classTypesQuery.error.message) ||
+      (resourcesQuery.error instanceof Error && resourcesQuery.error.message) ||
+      (instructorsQuery.error instanceof Error && instructorsQuery.error.message) ||
+      "Δεν ήταν δυνατή η φόρτωση μαθημάτων.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const classTypes = classTypesQuery.data ?? [];
+  const resources = resourcesQuery.data ?? [];
+  const resourceLookup = buildResourceLookup(resources);
+  const instructors = instructorsQuery.data ?? [];
+
+  const renderFields = (draft: ClassTypeDraft, onChange: (patch: Partial<ClassTypeDraft>) => void) => (
+    <>
+      <label className="field-label">
+        <span>Όνομα</span>
+        <input
+          className="input"
+          value={draft.name}
+          placeholder="π.χ. Mat group"
+          onChange={(event) => onChange({ name: event.target.value })}
+        />
+      </label>
+      <label className="field-label">
+        <span>Εξοπλισμός</span>
+        <select className="input" value={draft.bed_type} onChange={(event) => onChange({ bed_type: event.target.value })}>
+          <option value="">Επίλεξε</option>
+          {resources
+            .filter((resource) => resource.is_active || resource.key === draft.bed_type)
+            .map((resource) => (
+              <option key={resource.key} value={resource.key}>
+                {formatResourceLabel(resource.key, resourceLookup)}
+              </option>
+            ))}
+        </select>
+      </label>
+      <label className="field-label">
+        <span>Θέσεις</span>
+        <input
+          className="input"
+          type="number"
+          min={1}
+          max={100}
+          value={draft.capacity}
+          onChange={(event) => onChange({ capacity: event.target.value })}
+        />
+      </label>
+      <label className="field-label">
+        <span>Διάρκεια (λεπτά)</span>
+        <input
+          className="input"
+          type="number"
+          min={1}
+          value={draft.default_duration_minutes}
+          onChange={(event) => onChange({ default_duration_minutes: event.target.value })}
+        />
+      </label>
+      <label className="field-label">
+        <span>Εκπαιδευτής</span>
+        <select
+          className="input"
+          value={draft.instructor_id}
+          onChange={(event) => onChange({ instructor_id: event.target.value })}
+        >
+          <option value="">Χωρίς</option>
+          {instructors
+            .filter((instructor) => instructor.is_active || instructor.id === draft.instructor_id)
+            .map((instructor) => (
+              <option key={instructor.id} value={instructor.id}>
+                {instructor.full_name}
+              </option>
+            ))}
+        </select>
+      </label>
+      <label className="field-label">
+        <span>Τιμή (€)</span>
+        <input
+          className="input"
+          inputMode="decimal"
+          value={draft.price}
+          onChange={(event) => onChange({ price: event.target.value })}
+        />
+      </label>
+    </>
+  );
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-center wrap gap-sm">
+        <h2>Ομαδικά μαθήματα</h2>
+        <Link className="button" to="/settings">
+          Πίσω στις ρυθμίσεις
+        </Link>
+      </div>
+
+      <article className="card stack-sm">
+        <h3>Τύποι μαθημάτων</h3>
+        <p className="muted-text">
+          Κάθε μάθημα έχει δικές του θέσεις και τιμή. Προγραμματίζεται από την ημερήσια προβολή του ημερολογίου, όπου
+          διαχειρίζεσαι και τη λίστα συμμετεχόντων. Κάθε συμμετέχων καταγράφεται ως ξεχωριστή συνεδρία με δική του
+          κατάσταση.
+        </p>
+
+        {classTypes.length ? (
+          <div className="stack-sm">
+            {classTypes.map((classType) => {
+              const draft = drafts[classType.id];
+              if (!draft) {
+                return null;
+              }
+              return (
+                <div key={classType.id} className="row gap-sm wrap align-end">
+                  {renderFields(draft, (patch) => updateDraft(classType.id, patch))}
+                  <label className="field-label">
+                    <span>Ενεργό</span>
+                    <input
+                      type="checkbox"
+                      checked={draft.is_active}
+                      onChange={(event) => updateDraft(classType.id, { is_active: event.target.checked })}
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    className="button"
+                    onClick={() => handleSave(classType.id)}
+                    disabled={updateClassTypeMutation.isPending}
+                  >
+                    Αποθήκευση
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν ομαδικά μαθήματα.</div>
+        )}
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Νέο μάθημα</h3>
+        <form className="row gap-sm wrap align-end" onSubmit={handleAdd}>
+          {renderFields(newDraft, (patch) => setNewDraft((previous) => ({ ...previous, ...patch })))}
+          <button type="submit" className="button button-primary" disabled={addClassTypeMutation.isPending}>
+            {addClassTypeMutation.isPending ? "Προσθήκη..." : "Προσθήκη"}
+          </button>
+        </form>
+      </article>
+    </section>
+  );
+}
@@ -0,0 +1,207 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import { MergeClientsDialog } from "../components/MergeClientsDialog";
+import { findDuplicateClientGroups, type DuplicateGroup, type DuplicateReason } from "../lib/clientMatching";
+import { fetchClientMergeLog, fetchClients, mergeClients } from "../lib/data";
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  name: "Ίδιο όνομα",
+  phone: "Ίδιο τηλέφωνο",
+};
+
+const MERGE_COUNT_LABELS: Record<string, string> = {
+  attendance: "συνεδρίες",
+  packages: "πακέτα",
+  payment_transactions: "πληρωμές",
+  payments: "μηνιαίες πληρωμές",
+  client_notes: "σημειώσεις",
+  follow_up_tasks: "εργασίες",
+  notifications: "ειδοποιήσεις",
+  client_tags: "ετικέτες",
+  waitlist_entries: "θέσεις αναμονής",
+  makeup_credits: "αναπληρώσεις",
+  payments_combined: "μηνιαίες πληρωμές ενώθηκαν",
+  attendance_deduplicated: "διπλές συνεδρίες",
+  follow_up_tasks_dropped: "διπλές εργασίες",
+  notifications_dropped: "διπλές ειδοποιήσεις",
+};
+
+/** Query prefixes holding rows that a merge moves between clients. */
+const MERGE_AFFECTED_QUERY_KEYS = [
+  "clients",
+  "clients-all",
+  "client",
+  "attendance",
+  "client-attendance",
+  "packages",
+  "payment-transactions",
+  "receipts",
+  "client-notes",
+  "client-consents",
+  "client-tag-assignments",
+  "waitlist",
+  "makeup-credits",
+  "follow-up-tasks",
+  "notifications",
+  "notifications-unread-count",
+];
+
+function formatMergeCounts(counts: Record<string, number>): string {
+  const parts = Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([key, count]) => `${count} ${MERGE_COUNT_LABELS[key] ?? key}`);
+  return parts.length ? parts.join(", ") : "-";
+}
+
+export function ClientDuplicatesPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [mergingGroup, setMergingGroup] = useState<DuplicateGroup | null>(null);
+
+  const clientsQuery = useQuery({
+    queryKey: ["clients-all", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClients(user!.id),
+  });
+
+  const mergeLogQuery = useQuery({
+    queryKey: ["client-merge-log", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientMergeLog(user!.id),
+  });
+
+  const duplicateGroups = useMemo(() => findDuplicateClientGroups(clientsQuery.data ?? []), [clientsQuery.data]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ targetClientId, sourceClientIds }: { targetClientId: string; sourceClientIds: string[] }) => {
+      // One RPC per source keeps every merge its own transaction and audit row.
+      for (const sourceClientId of sourceClientIds) {
+        await mergeClients(sourceClientId, targetClientId);
+      }
+    },
+    onSettled: () => {
+      for (const key of MERGE_AFFECTED_QUERY_KEYS) {
+        queryClient.invalidateQueries({ queryKey: [key, user?.id] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["client-merge-log", user?.id] });
+    },
+  });
+
+  if (clientsQuery.isLoading || mergeLogQuery.isLoading) {
+    return <div className="status-box">Φόρτωση πελατών...</div>;
+  }
+
+  if (clientsQuery.isError || mergeLogQuery.isError) {
+    const message =
+      (clientsQuery.error instanceof Error && clientsQuery.error.message) ||
+      (mergeLogQuery.error instanceof Error && mergeLogQuery.error.message) ||
+      "Δεν ήταν δυνατή η φόρτωση πελατών.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const mergeLog = mergeLogQuery.data ?? [];
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-center wrap gap-sm">
+        <h2>Πιθανοί διπλοί πελάτες</h2>
+        <Link className="button" to="/clients">
+          Πίσω στους πελάτες
+        </Link>
+      </div>
+      <p className="muted-text">
+        Η σύγκριση αγνοεί τόνους, κεφαλαία, σειρά λέξεων και το πρόθεμα +30 στα τηλέφωνα.
+      </p>
+
+      {duplicateGroups.length ? (
+        <div className="table-wrap">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Πελάτες</th>
+                <th>Αιτία</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {duplicateGroups.map((group) => (
+                <tr key={group.key}>
+                  <td>
+                    <ul className="client-profile-list">
+                      {group.clients.map((client) => (
+                        <li key={client.id}>
+                          <Link to={`/clients/${client.id}`}>{client.full_name}</Link> · {client.phone ?? "-"}
+                          {client.is_active ? "" : " · Ανενεργός"}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td>{group.reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(", ")}</td>
+                  <td>
+                    <button type="button" className="button button-primary" onClick={() => setMergingGroup(group)}>
+                      Συγχώνευση
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="empty-state">Δεν βρέθηκαν πιθανοί διπλοί πελάτες.</p>
+      )}
+
+      <div className="card stack-sm">
+        <h3>Ιστορικό συγχωνεύσεων</h3>
+        {mergeLog.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Ημερομηνία</th>
+                  <th>Διαγράφηκε</th>
+                  <th>Παρέμεινε</th>
+                  <th>Μεταφέρθηκαν</th>
+                  <th>Συγκρούσεις</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mergeLog.map((entry) => (
+                  <tr key={entry.id}>
+                    <td>{new Date(entry.merged_at).toLocaleString("el-GR")}</td>
+                    <td>
+                      {entry.source_client_name} · {entry.source_snapshot.phone ?? "-"}
+                    </td>
+                    <td>
+                      <Link to={`/clients/${entry.target_client_id}`}>{entry.target_client_name}</Link>
+                    </td>
+                    <td>{formatMergeCounts(entry.moved_counts)}</td>
+                    <td>{formatMergeCounts(entry.resolved_conflicts)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="empty-state">Δεν έχουν γίνει συγχωνεύσεις.</p>
+        )}
+      </div>
+
+      <MergeClientsDialog
+        group={mergingGroup}
+        onClose={() => setMergingGroup(null)}
+        onMerge={async (targetClientId, sourceClientIds) => {
+          await mergeMutation.mutateAsync({ targetClientId, sourceClientIds });
+          toast.success(
+            sourceClientIds.length === 1
+              ? "Οι πελάτες συγχωνεύτηκαν."
+              : `${sourceClientIds.length} πελάτες συγχωνεύτηκαν.`,
+          );
+        }}
+      />
+    </section>
+  );
+}
@@ -1,27 +1,108 @@
-import { FormEvent, useMemo, useState } from "react";
+import { FormEvent, useEffect, useMemo, useState } from "react";
 import { Link, useParams } from "react-router-dom";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { useAuth } from "../auth/AuthProvider";
 import {
+  addClientConsent,
   addClientNote,
+  addMakeupCredit,
+  addPackage,
+  addPaymentTransaction,
+  assignClientTag,
+  deleteClientConsent,
   deleteClientNote,
+  deleteMakeupCredit,
+  deletePackage,
+  deletePaymentTransaction,
   fetchAttendanceForClientRange,
+  fetchAttendedSessionsForClient,
+  fetchAutomationSettings,
   fetchClientById,
   fetchClientNotes,
+  fetchClientTagAssignments,
+  fetchClientTags,
+  fetchConsentsForClient,
   fetchFollowUpTasks,
-  fetchPaymentsForClient,
+  fetchLateCancelsForClient,
+  fetchMakeupCreditsForClient,
+  fetchPackagesForClient,
+  fetchPaymentTransactionsForClient,
+  fetchReceiptsForClient,
+  fetchResources,
+  fetchStudioSettings,
+  issueReceipt,
+  unassignClientTag,
+  updateClient,
   updateFollowUpTask,
+  waiveLateCancel,
 } from "../lib/data";
-import { addDays, startOfMonth, toIsoDate } from "../lib/date";
+import { getClientHealthWarnings } from "../lib/clientHealth";
+import { getClientTags } from "../lib/clientTags";
+import {
+  CONSENT_STATE_LABELS,
+  CONSENT_TYPES,
+  CONSENT_TYPE_LABELS,
+  DEFAULT_CONSENT_EXPIRY_WARNING_DAYS,
+  getConsentStatus,
+  type ConsentState,
+} from "../lib/consents";
+import { addDays, parseIsoDate, toIsoDate } from "../lib/date";
+import { isForeignKeyViolation } from "../lib/dbErrors";
+import { exportDate, exportTable, type ExportFormat } from "../lib/export";
 import { formatCurrencyEUR } from "../lib/format";
-import type { AttendanceStatus, FollowUpTaskStatus } from "../types/database";
+import { formatKioskPinError, isValidKioskPin, KIOSK_PIN_LENGTH } from "../lib/kiosk";
+import { LATE_CANCEL_OUTCOME_LABELS, isLateCancel, sumLateCancelFees } from "../lib/lateCancel";
+import {
+  DEFAULT_MAKEUP_CREDIT_VALID_DAYS,
+  MAKEUP_CREDIT_REASON_LABELS,
+  MAKEUP_CREDIT_STATE_LABELS,
+  getMakeupCreditExpiry,
+  getMakeupCreditState,
+  type MakeupCreditState,
+} from "../lib/makeupCredits";
+import { allocateSessionsToPackages, getEarliestPurchaseDate, summarizeClientBalance } from "../lib/packages";
+import {
+  PAYMENT_METHOD_LABELS,
+  buildClientLedger,
+  getClientAmountDue,
+  getPackageOutstanding,
+  getUnpaidLateCancelFees,
+} from "../lib/payments";
+import { formatReceiptNumber, printReceipt } from "../lib/receipt";
+import { buildResourceLookup, formatResourceLabel } from "../lib/resources";
+import { AddPaymentDialog, type PaymentInput } from "../components/AddPaymentDialog";
+import { DeactivateClientDialog } from "../components/DeactivateClientDialog";
+import { EditClientDialog } from "../components/EditClientDialog";
+import { ExportButtons } from "../components/ExportButtons";
+import { SignConsentDialog, type ConsentInput } from "../components/SignConsentDialog";
+import { TagChip } from "../components/TagChip";
+import { TagFilter } from "../components/TagFilter";
+import type {
+  Attendance,
+  AttendanceStatus,
+  Client,
+  ClientPackage,
+  ClientUpdate,
+  ConsentType,
+  FollowUpTaskStatus,
+  MakeupCreditReason,
+} from "../types/database";
 
 function daysAgo(date: Date, amount: number): Date {
   return addDays(date, -amount);
 }
 
+const MAKEUP_CREDIT_STATE_PILLS: Record<MakeupCreditState, string> = {
+  available: "status-attended",
+  redeemed: "",
+  expired: "status-no-show",
+};
+
 function formatAttendanceStatusLabel(status: AttendanceStatus): string {
+  if (status === "booked") {
+    return "Κράτηση";
+  }
   if (status === "attended") {
     return "Παρουσία";
   }
@@ -31,6 +112,20 @@ function formatAttendanceStatusLabel(status: AttendanceStatus): string {
   return "Απουσία";
 }
 
+function formatPackagePaymentLabel(lessonPackage: ClientPackage): string {
+  if (lessonPackage.paid) {
+    return "Εξοφλημένο";
+  }
+  return lessonPackage.paid_amount > 0 ? "Μερικώς πληρωμένο" : "Απλήρωτο";
+}
+
+function getConsentStateClassName(state: ConsentState): string {
+  if (state === "valid") {
+    return "status-attended";
+  }
+  return state === "expiring" ? "status-canceled" : "status-no-show";
+}
+
 function formatTaskStatusLabel(status: FollowUpTaskStatus): string {
   if (status === "open") {
     return "Ανοιχτή";
@@ -54,8 +149,36 @@ function formatPriorityLabel(priority: "high" | "medium" | "low"): string {
   return "Χαμηλή";
 }
 
-function formatBedLabel(bedType: "reformer" | "cadillac"): string {
-  return bedType === "cadillac" ? "CADILLAC" : "REFORMER";
+type ClientDetailsDraft = {
+  email: string;
+  date_of_birth: string;
+  emergency_contact_name: string;
+  emergency_contact_phone: string;
+  injuries: string;
+  contraindications: string;
+  is_pregnant: boolean;
+  physio_cleared: boolean;
+  physio_cleared_on: string;
+  kiosk_pin: string;
+};
+
+function clientToDetailsDraft(client?: Client | null): ClientDetailsDraft {
+  return {
+    email: client?.email ?? "",
+    date_of_birth: client?.date_of_birth ?? "",
+    emergency_contact_name: client?.emergency_contact_name ?? "",
+    emergency_contact_phone: client?.emergency_contact_phone ?? "",
+    injuries: client?.injuries ?? "",
+    contraindications: client?.contraindications ?? "",
+    is_pregnant: client?.is_pregnant ?? false,
+    physio_cleared: client?.physio_cleared ?? false,
+    physio_cleared_on: client?.physio_cleared_on ?? "",
+    kiosk_pin: client?.kiosk_pin ?? "",
+  };
+}
+
+function toNullableText(value: string): string | null {
+  return value.trim() ? value.trim() : null;
 }
 
 type AttendanceFilter = "all" | AttendanceStatus;
@@ -72,12 +195,25 @@ export function ClientProfilePage() {
   const [paymentFilter, setPaymentFilter] = useState<PaymentFilter>("all");
   const [taskFilter, setTaskFilter] = useState<TaskFilter>("all");
   const [attendanceSearch, setAttendanceSearch] = useState("");
+  const [newPackagePurchaseDate, setNewPackagePurchaseDate] = useState(() => toIsoDate(new Date()));
+  const [newPackageLessons, setNewPackageLessons] = useState("");
+  const [newPackageExpiresOn, setNewPackageExpiresOn] = useState("");
+  const [newPackagePrice, setNewPackagePrice] = useState("");
+  const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
+  const [paymentPackageId, setPaymentPackageId] = useState<string | null | undefined>(undefined);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isDeactivateDialogOpen, setIsDeactivateDialogOpen] = useState(false);
+  const [consentDialogType, setConsentDialogType] = useState<ConsentType | null>(null);
+  const [newCreditReason, setNewCreditReason] = useState<MakeupCreditReason>("studio_cancel");
+  const [newCreditOrigin, setNewCreditOrigin] = useState<Attendance | null>(null);
+  const [newCreditExpiresOn, setNewCreditExpiresOn] = useState("");
+  const [newCreditNotes, setNewCreditNotes] = useState("");
+  const [detailsDraft, setDetailsDraft] = useState<ClientDetailsDraft>(() => clientToDetailsDraft());
 
   const now = new Date();
   const fromDate = toIsoDate(daysAgo(now, 90));
   const toDateExclusive = toIsoDate(addDays(now, 1));
-  const currentMonthStart = toIsoDate(startOfMonth(now));
-  const nextMonthStart = toIsoDate(startOfMonth(addDays(now, 32)));
+  const todayIso = toIsoDate(now);
 
   const clientQuery = useQuery({
     queryKey: ["client", user?.id, clientId],
@@ -91,10 +227,36 @@ export function ClientProfilePage() {
     queryFn: () => fetchAttendanceForClientRange(user!.id, clientId, fromDate, toDateExclusive),
   });
 
-  const paymentsQuery = useQuery({
-    queryKey: ["client-payments", user?.id, clientId],
+  const packagesQuery = useQuery({
+    queryKey: ["packages", user?.id, "client", clientId],
+    enabled: Boolean(user?.id && clientId),
+    queryFn: () => fetchPackagesForClient(user!.id, clientId),
+  });
+
+  const earliestPurchaseDate = getEarliestPurchaseDate(packagesQuery.data ?? []);
+
+  const packageUsageQuery = useQuery({
+    queryKey: ["attendance", user?.id, "client", clientId, "package-usage", earliestPurchaseDate],
+    enabled: Boolean(user?.id && clientId && earliestPurchaseDate),
+    queryFn: () => fetchAttendedSessionsForClient(user!.id, clientId, earliestPurchaseDate!),
+  });
+
+  const transactionsQuery = useQuery({
+    queryKey: ["payment-transactions", user?.id, clientId],
     enabled: Boolean(user?.id && clientId),
-    queryFn: () => fetchPaymentsForClient(user!.id, clientId),
+    queryFn: () => fetchPaymentTransactionsForClient(user!.id, clientId),
+  });
+
+  const receiptsQuery = useQuery({
+    queryKey: ["receipts", user?.id, clientId],
+    enabled: Boolean(user?.id && clientId),
+    queryFn: () => fetchReceiptsForClient(user!.id, clientId),
+  });
+
+  const studioSettingsQuery = useQuery({
+    queryKey: ["studio-settings", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchStudioSettings(user!.id),
   });
 
   const tasksQuery = useQuery({
@@ -103,12 +265,126 @@ export function ClientProfilePage() {
     queryFn: () => fetchFollowUpTasks(user!.id),
   });
 
+  const resourcesQuery = useQuery({
+    queryKey: ["resources", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchResources(user!.id),
+  });
+
+  const resourceLookup = useMemo(() => buildResourceLookup(resourcesQuery.data ?? []), [resourcesQuery.data]);
+
   const notesQuery = useQuery({
     queryKey: ["client-notes", user?.id, clientId],
     enabled: Boolean(user?.id && clientId),
     queryFn: () => fetchClientNotes(user!.id, clientId),
   });
 
+  const consentsQuery = useQuery({
+    queryKey: ["client-consents", user?.id, clientId],
+    enabled: Boolean(user?.id && clientId),
+    queryFn: () => fetchConsentsForClient(user!.id, clientId),
+  });
+
+  const lateCancelsQuery = useQuery({
+    queryKey: ["attendance", user?.id, "client", clientId, "late-cancels"],
+    enabled: Boolean(user?.id && clientId),
+    queryFn: () => fetchLateCancelsForClient(user!.id, clientId),
+  });
+
+  const makeupCreditsQuery = useQuery({
+    queryKey: ["makeup-credits", user?.id, "client", clientId],
+    enabled: Boolean(user?.id && clientId),
+    queryFn: () => fetchMakeupCreditsForClient(user!.id, clientId),
+  });
+
+  const automationSettingsQuery = useQuery({
+    queryKey: ["automation-settings", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchAutomationSettings(user!.id),
+  });
+
+  const tagsQuery = useQuery({
+    queryKey: ["client-tags", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTags(user!.id),
+  });
+
+  const tagAssignmentsQuery = useQuery({
+    queryKey: ["client-tag-assignments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTagAssignments(user!.id),
+  });
+
+  const clientTagIds = useMemo(
+    () =>
+      (tagAssignmentsQuery.data ?? [])
+        .filter((assignment) => assignment.client_id === clientId)
+        .map((assignment) => assignment.tag_id),
+    [clientId, tagAssignmentsQuery.data],
+  );
+
+  const updateClientMutation = useMutation({
+    mutationFn: (input: ClientUpdate) => updateClient(clientId, input),
+    onSuccess: (updatedClient) => {
+      queryClient.setQueryData(["client", user?.id, clientId], updatedClient);
+      queryClient.invalidateQueries({ queryKey: ["clients", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["clients-all", user?.id] });
+    },
+  });
+
+  useEffect(() => {
+    setDetailsDraft(clientToDetailsDraft(clientQuery.data));
+  }, [clientQuery.data]);
+
+  const updateDetailsDraft = (patch: Partial<ClientDetailsDraft>) => {
+    setDetailsDraft((previous) => ({ ...previous, ...patch }));
+  };
+
+  const handleSaveDetails = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const email = detailsDraft.email.trim();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      toast.error("Το email δεν είναι έγκυρο.");
+      return;
+    }
+    if (detailsDraft.date_of_birth && detailsDraft.date_of_birth > todayIso) {
+      toast.error("Η ημερομηνία γέννησης δεν μπορεί να είναι στο μέλλον.");
+      return;
+    }
+    if (detailsDraft.kiosk_pin && !isValidKioskPin(detailsDraft.kiosk_pin)) {
+      toast.error(`Το PIN kiosk πρέπει να έχει ${KIOSK_PIN_LENGTH} ψηφία.`);
+      return;
+    }
+
+    try {
+      await updateClientMutation.mutateAsync({
+        email: email || null,
+        date_of_birth: detailsDraft.date_of_birth || null,
+        emergency_contact_name: toNullableText(detailsDraft.emergency_contact_name),
+        emergency_contact_phone: toNullableText(detailsDraft.emergency_contact_phone),
+        injuries: toNullableText(detailsDraft.injuries),
+        contraindications: toNullableText(detailsDraft.contraindications),
+        is_pregnant: detailsDraft.is_pregnant,
+        physio_cleared: detailsDraft.physio_cleared,
+        physio_cleared_on: detailsDraft.physio_cleared ? detailsDraft.physio_cleared_on || todayIso : null,
+        kiosk_pin: detailsDraft.kiosk_pin || null,
+      });
+      toast.success("Τα στοιχεία επικοινωνίας και υγείας αποθηκεύτηκαν.");
+    } catch (error) {
+      toast.error(formatKioskPinError(error, "Αποτυχία αποθήκευσης στοιχείων."));
+    }
+  };
+
+  const handleReactivate = async () => {
+    try {
+      await updateClientMutation.mutateAsync({ is_active: true });
+      toast.success("Ο πελάτης ενεργοποιήθηκε ξανά.");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενεργοποίησης πελάτη.";
+      toast.error(message);
+    }
+  };
+
   const addNoteMutation = useMutation({
     mutationFn: () => addClientNote({ user_id: user!.id, client_id: clientId, note: noteText.trim() }),
     onSuccess: () => {
@@ -134,6 +410,174 @@ export function ClientProfilePage() {
     },
   });
 
+  const invalidatePackages = () => {
+    queryClient.invalidateQueries({ queryKey: ["packages", user?.id] });
+  };
+
+  const addPackageMutation = useMutation({
+    mutationFn: (input: { lessons: number; price: number | null }) =>
+      addPackage({
+        user_id: user!.id,
+        client_id: clientId,
+        purchase_date: newPackagePurchaseDate,
+        lessons: input.lessons,
+        expires_on: newPackageExpiresOn || null,
+        price: input.price,
+        notes: null,
+      }),
+    onSuccess: () => {
+      setNewPackageLessons("");
+      setNewPackageExpiresOn("");
+      setNewPackagePrice("");
+      invalidatePackages();
+      toast.success("Το πακέτο προστέθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία προσθήκης πακέτου.";
+      toast.error(message);
+    },
+  });
+
+  const invalidateTransactions = () => {
+    queryClient.invalidateQueries({ queryKey: ["payment-transactions", user?.id] });
+  };
+
+  const addTransactionMutation = useMutation({
+    mutationFn: (input: PaymentInput) => addPaymentTransaction({ ...input, user_id: user!.id, client_id: clientId }),
+    onSuccess: () => {
+      invalidatePackages();
+      invalidateTransactions();
+      toast.success("Η πληρωμή καταχωρήθηκε.");
+    },
+  });
+
+  const issueReceiptMutation = useMutation({
+    mutationFn: (transactionId: string) => issueReceipt(transactionId),
+    onSuccess: (receipt) => {
+      queryClient.invalidateQueries({ queryKey: ["receipts", user?.id] });
+      printReceipt(receipt, studioSettingsQuery.data ?? null);
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία έκδοσης απόδειξης.";
+      toast.error(message);
+    },
+  });
+
+  const deleteTransactionMutation = useMutation({
+    mutationFn: (id: string) => deletePaymentTransaction(id),
+    onSuccess: () => {
+      invalidatePackages();
+      invalidateTransactions();
+      toast.success("Η πληρωμή διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία διαγραφής πληρωμής.";
+      toast.error(message);
+    },
+  });
+
+  const addConsentMutation = useMutation({
+    mutationFn: (input: ConsentInput) => addClientConsent({ ...input, user_id: user!.id, client_id: clientId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-consents", user?.id] });
+      toast.success("Η υπογραφή καταχωρήθηκε.");
+    },
+  });
+
+  const setClientTagsMutation = useMutation({
+    mutationFn: async (nextTagIds: string[]) => {
+      const added = nextTagIds.filter((tagId) => !clientTagIds.includes(tagId));
+      const removed = clientTagIds.filter((tagId) => !nextTagIds.includes(tagId));
+      await Promise.all([
+        ...added.map((tagId) => assignClientTag(user!.id, clientId, tagId)),
+        ...removed.map((tagId) => unassignClientTag(clientId, tagId)),
+      ]);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-tag-assignments", user?.id] });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενημέρωσης ετικετών.";
+      toast.error(message);
+    },
+  });
+
+  const deleteConsentMutation = useMutation({
+    mutationFn: (id: string) => deleteClientConsent(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-consents", user?.id] });
+      toast.success("Η υπογραφή διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία διαγραφής υπογραφής.";
+      toast.error(message);
+    },
+  });
+
+  const waiveLateCancelMutation = useMutation({
+    mutationFn: (id: string) => waiveLateCancel(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["attendance", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["client-attendance", user?.id] });
+      toast.success("Η χρέωση της ακύρωσης χαρίστηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενημέρωσης ακύρωσης.";
+      toast.error(message);
+    },
+  });
+
+  const addMakeupCreditMutation = useMutation({
+    mutationFn: (expiresOn: string) =>
+      addMakeupCredit({
+        user_id: user!.id,
+        client_id: clientId,
+        reason: newCreditReason,
+        origin_attendance_id: newCreditOrigin?.id ?? null,
+        expires_on: expiresOn,
+        notes: newCreditNotes.trim() || null,
+      }),
+    onSuccess: () => {
+      setNewCreditOrigin(null);
+      setNewCreditExpiresOn("");
+      setNewCreditNotes("");
+      queryClient.invalidateQueries({ queryKey: ["makeup-credits", user?.id] });
+      toast.success("Η αναπλήρωση καταχωρίστηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία καταχώρισης αναπλήρωσης.";
+      toast.error(message);
+    },
+  });
+
+  const deleteMakeupCreditMutation = useMutation({
+    mutationFn: (id: string) => deleteMakeupCredit(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["makeup-credits", user?.id] });
+      toast.success("Η αναπλήρωση διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία διαγραφής αναπλήρωσης.";
+      toast.error(message);
+    },
+  });
+
+  const deletePackageMutation = useMutation({
+    mutationFn: (id: string) => deletePackage(id),
+    onSuccess: () => {
+      invalidatePackages();
+      toast.success("Το πακέτο διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = isForeignKeyViolation(error)
+        ? "Το πακέτο έχει καταγεγραμμένες πληρωμές. Διέγραψε πρώτα τις πληρωμές του."
+        : error instanceof Error
+          ? error.message
+          : "Αποτυχία διαγραφής πακέτου.";
+      toast.error(message);
+    },
+  });
+
   const updateTaskMutation = useMutation({
     mutationFn: ({ id, status }: { id: string; status: FollowUpTaskStatus }) =>
       updateFollowUpTask(id, {
@@ -151,8 +595,26 @@ export function ClientProfilePage() {
   });
 
   const attendanceEntries = attendanceQuery.data ?? [];
-  const paymentEntries = paymentsQuery.data ?? [];
+  const packageEntries = packagesQuery.data ?? [];
+  const transactionEntries = transactionsQuery.data ?? [];
+  const receiptByTransactionId = useMemo(
+    () =>
+      new Map(
+        (receiptsQuery.data ?? [])
+          .filter((receipt) => receipt.transaction_id)
+          .map((receipt) => [receipt.transaction_id!, receipt]),
+      ),
+    [receiptsQuery.data],
+  );
+  const packageUsageSessions = packageUsageQuery.data ?? [];
   const noteEntries = notesQuery.data ?? [];
+  const consentEntries = consentsQuery.data ?? [];
+  const consentWarningDays =
+    automationSettingsQuery.data?.consent_expiry_warning_days ?? DEFAULT_CONSENT_EXPIRY_WARNING_DAYS;
+  const consentStatuses = useMemo(
+    () => CONSENT_TYPES.map((type) => getConsentStatus(consentEntries, type, todayIso, consentWarningDays)),
+    [consentEntries, todayIso, consentWarningDays],
+  );
 
   const clientTasks = useMemo(() => {
     return (tasksQuery.data ?? [])
@@ -170,7 +632,9 @@ export function ClientProfilePage() {
     return attendanceEntries.reduce(
       (acc, entry) => {
         acc.total += 1;
-        if (entry.status === "attended") {
+        if (entry.status === "booked") {
+          acc.booked += 1;
+        } else if (entry.status === "attended") {
           acc.attended += 1;
         } else if (entry.status === "canceled") {
           acc.canceled += 1;
@@ -179,32 +643,39 @@ export function ClientProfilePage() {
         }
         return acc;
       },
-      { total: 0, attended: 0, canceled: 0, noShow: 0 },
+      { total: 0, booked: 0, attended: 0, canceled: 0, noShow: 0 },
     );
   }, [attendanceEntries]);
 
-  const attendanceRate = attendanceCounts.total > 0 ? Math.round((attendanceCounts.attended / attendanceCounts.total) * 100) : 0;
+  // Booked sessions have no outcome yet, so they stay out of the rate.
+  const resolvedSessions = attendanceCounts.total - attendanceCounts.booked;
+  const attendanceRate = resolvedSessions > 0 ? Math.round((attendanceCounts.attended / resolvedSessions) * 100) : 0;
 
-  const unpaidCount = useMemo(() => paymentEntries.filter((payment) => !payment.paid).length, [paymentEntries]);
+  const unpaidCount = useMemo(() => packageEntries.filter((lessonPackage) => !lessonPackage.paid).length, [packageEntries]);
   const openTasksCount = useMemo(
     () => clientTasks.filter((task) => task.status === "open" || task.status === "in_progress").length,
     [clientTasks],
   );
 
-  const currentMonthPayment = useMemo(
-    () => paymentEntries.find((payment) => payment.month_start === currentMonthStart),
-    [currentMonthStart, paymentEntries],
+  const packageAllocation = useMemo(
+    () => allocateSessionsToPackages(packageEntries, packageUsageSessions),
+    [packageEntries, packageUsageSessions],
+  );
+
+  const ledgerEntries = useMemo(
+    () => buildClientLedger(packageEntries, transactionEntries, lateCancelsQuery.data ?? []),
+    [packageEntries, transactionEntries, lateCancelsQuery.data],
   );
 
-  const attendedCurrentMonth = useMemo(() => {
-    return attendanceEntries.filter(
-      (entry) => entry.status === "attended" && entry.session_date >= currentMonthStart && entry.session_date < nextMonthStart,
-    ).length;
-  }, [attendanceEntries, currentMonthStart, nextMonthStart]);
+  const outstandingAmount = useMemo(
+    () => getClientAmountDue(packageEntries, transactionEntries, lateCancelsQuery.data ?? []),
+    [packageEntries, transactionEntries, lateCancelsQuery.data],
+  );
 
-  const plannedCurrentMonth = currentMonthPayment?.lessons ?? 0;
-  const pendingCurrentMonth = Math.max(0, plannedCurrentMonth - attendedCurrentMonth);
-  const overusedCurrentMonth = Math.max(0, attendedCurrentMonth - plannedCurrentMonth);
+  const packageBalance = useMemo(
+    () => summarizeClientBalance(packageEntries, packageUsageSessions, todayIso),
+    [packageEntries, packageUsageSessions, todayIso],
+  );
 
   const filteredAttendance = useMemo(() => {
     const normalized = attendanceSearch.trim().toLowerCase();
@@ -215,7 +686,7 @@ export function ClientProfilePage() {
           return true;
         }
         const notes = entry.notes?.toLowerCase() ?? "";
-        const bed = formatBedLabel(entry.bed_type).toLowerCase();
+        const bed = formatResourceLabel(entry.bed_type, resourceLookup).toLowerCase();
         const status = formatAttendanceStatusLabel(entry.status).toLowerCase();
         return notes.includes(normalized) || bed.includes(normalized) || status.includes(normalized) || entry.session_date.includes(normalized);
       })
@@ -226,15 +697,62 @@ export function ClientProfilePage() {
         }
         return (a.time_start ?? "").localeCompare(b.time_start ?? "");
       });
-  }, [attendanceEntries, attendanceFilter, attendanceSearch]);
+  }, [attendanceEntries, attendanceFilter, attendanceSearch, resourceLookup]);
 
-  const filteredPayments = useMemo(() => {
-    const base = [...paymentEntries].sort((a, b) => b.month_start.localeCompare(a.month_start));
+  const filteredPackages = useMemo(() => {
     if (paymentFilter === "all") {
-      return base;
+      return packageEntries;
+    }
+    return packageEntries.filter((entry) => (paymentFilter === "paid" ? entry.paid : !entry.paid));
+  }, [packageEntries, paymentFilter]);
+
+  const handleAddPackage = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const lessons = Number.parseInt(newPackageLessons, 10);
+    const price = newPackagePrice.trim() ? Number.parseFloat(newPackagePrice) : null;
+
+    if (!newPackagePurchaseDate) {
+      toast.error("Συμπλήρωσε ημερομηνία αγοράς.");
+      return;
+    }
+    if (!Number.isFinite(lessons) || lessons < 1) {
+      toast.error("Το πακέτο πρέπει να έχει τουλάχιστον 1 μάθημα.");
+      return;
+    }
+    if (newPackageExpiresOn && newPackageExpiresOn < newPackagePurchaseDate) {
+      toast.error("Η λήξη πρέπει να είναι μετά την ημερομηνία αγοράς.");
+      return;
+    }
+    if (price != null && (!Number.isFinite(price) || price < 0)) {
+      toast.error("Η τιμή πρέπει να είναι μηδέν ή θετική.");
+      return;
     }
-    return base.filter((entry) => (paymentFilter === "paid" ? entry.paid : !entry.paid));
-  }, [paymentEntries, paymentFilter]);
+
+    await addPackageMutation.mutateAsync({ lessons, price });
+  };
+
+  const makeupCreditValidDays = studioSettingsQuery.data?.makeup_credit_valid_days ?? DEFAULT_MAKEUP_CREDIT_VALID_DAYS;
+  const defaultCreditExpiry = getMakeupCreditExpiry(todayIso, makeupCreditValidDays);
+
+  const handleAddMakeupCredit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const expiresOn = newCreditExpiresOn || defaultCreditExpiry;
+    if (expiresOn < todayIso) {
+      toast.error("Η λήξη της αναπλήρωσης δεν μπορεί να είναι στο παρελθόν.");
+      return;
+    }
+    await addMakeupCreditMutation.mutateAsync(expiresOn);
+  };
+
+  const startCreditFromSession = (entry: Attendance) => {
+    setNewCreditOrigin(entry);
+    setNewCreditReason(isLateCancel(entry) ? "other" : "client_cancel");
+  };
+
+  const openPaymentDialog = (packageId?: string | null) => {
+    setPaymentPackageId(packageId);
+    setIsPaymentDialogOpen(true);
+  };
 
   const filteredTasks = useMemo(() => {
     if (taskFilter === "all") {
@@ -243,17 +761,47 @@ export function ClientProfilePage() {
     return clientTasks.filter((task) => task.status === taskFilter);
   }, [clientTasks, taskFilter]);
 
-  if (clientQuery.isLoading || attendanceQuery.isLoading || paymentsQuery.isLoading || tasksQuery.isLoading || notesQuery.isLoading) {
+  if (
+    clientQuery.isLoading ||
+    attendanceQuery.isLoading ||
+    packagesQuery.isLoading ||
+    packageUsageQuery.isLoading ||
+    transactionsQuery.isLoading ||
+    receiptsQuery.isLoading ||
+    consentsQuery.isLoading ||
+    tasksQuery.isLoading ||
+    notesQuery.isLoading ||
+    lateCancelsQuery.isLoading ||
+    makeupCreditsQuery.isLoading
+  ) {
     return <div className="status-box">Φόρτωση προφίλ πελάτη...</div>;
   }
 
-  if (clientQuery.isError || attendanceQuery.isError || paymentsQuery.isError || tasksQuery.isError || notesQuery.isError) {
+  if (
+    clientQuery.isError ||
+    attendanceQuery.isError ||
+    packagesQuery.isError ||
+    packageUsageQuery.isError ||
+    transactionsQuery.isError ||
+    receiptsQuery.isError ||
+    consentsQuery.isError ||
+    tasksQuery.isError ||
+    notesQuery.isError ||
+    lateCancelsQuery.isError ||
+    makeupCreditsQuery.isError
+  ) {
     const message =
       (clientQuery.error instanceof Error && clientQuery.error.message) ||
       (attendanceQuery.error instanceof Error && attendanceQuery.error.message) ||
-      (paymentsQuery.error instanceof Error && paymentsQuery.error.message) ||
+      (packagesQuery.error instanceof Error && packagesQuery.error.message) ||
+      (packageUsageQuery.error instanceof Error && packageUsageQuery.error.message) ||
+      (transactionsQuery.error instanceof Error && transactionsQuery.error.message) ||
+      (receiptsQuery.error instanceof Error && receiptsQuery.error.message) ||
+      (consentsQuery.error instanceof Error && consentsQuery.error.message) ||
       (tasksQuery.error instanceof Error && tasksQuery.error.message) ||
       (notesQuery.error instanceof Error && notesQuery.error.message) ||
+      (lateCancelsQuery.error instanceof Error && lateCancelsQuery.error.message) ||
+      (makeupCreditsQuery.error instanceof Error && makeupCreditsQuery.error.message) ||
       "Δεν ήταν δυνατή η φόρτωση προφίλ πελάτη.";
     return <div className="status-box status-error">{message}</div>;
   }
@@ -262,6 +810,40 @@ export function ClientProfilePage() {
     return <div className="status-box status-error">Ο πελάτης δεν βρέθηκε.</div>;
   }
 
+  const healthWarnings = getClientHealthWarnings(clientQuery.data);
+  const clientName = clientQuery.data.full_name;
+  const lateCancels = lateCancelsQuery.data ?? [];
+  const lateCancelFees = sumLateCancelFees(lateCancels);
+  const unpaidLateCancelFees = getUnpaidLateCancelFees(lateCancels, transactionEntries);
+  const makeupCredits = makeupCreditsQuery.data ?? [];
+  const availableCreditCount = makeupCredits.filter((credit) => getMakeupCreditState(credit, todayIso) === "available").length;
+  const creditOriginIds = new Set(makeupCredits.map((credit) => credit.origin_attendance_id));
+  const attendanceById = new Map(attendanceEntries.map((entry) => [entry.id, entry]));
+  const formatCreditSession = (attendanceId: string | null) => {
+    const entry = attendanceId ? attendanceById.get(attendanceId) : undefined;
+    return entry ? `${parseIsoDate(entry.session_date).toLocaleDateString("el-GR")} ${entry.time_start?.slice(0, 5) ?? ""}` : "-";
+  };
+
+  const handleExportAttendance = (format: ExportFormat) => {
+    exportTable(format, {
+      filename: `attendance-${clientName}`,
+      sheetName: "Παρουσίες",
+      rows: filteredAttendance,
+      columns: [
+        { header: "Ημερομηνία", value: (entry) => exportDate(entry.session_date) },
+        { header: "Ώρα", value: (entry) => entry.time_start?.slice(0, 5) ?? null },
+        { header: "Κρεβάτι", value: (entry) => formatResourceLabel(entry.bed_type, resourceLookup) },
+        { header: "Κατάσταση", value: (entry) => formatAttendanceStatusLabel(entry.status) },
+        { header: "Σημειώσεις", value: (entry) => entry.notes },
+      ],
+    });
+  };
+
+  const openConsentDialog = () => {
+    const pending = consentStatuses.find((status) => status.state !== "valid");
+    setConsentDialogType(pending?.type ?? "waiver");
+  };
+
   return (
     <section className="stack-md">
       <article className="card client-profile-header">
@@ -271,9 +853,34 @@ export function ClientProfilePage() {
           <div className="row gap-sm wrap">
             <span className="status-pill">Κατάσταση: {clientQuery.data.is_active ? "Ενεργός" : "Ανενεργός"}</span>
             <span className="status-pill">Παρουσία 90ημ: {attendanceRate}%</span>
+            {healthWarnings.map((warning) => (
+              <span key={warning.key} className="health-badge" title={warning.detail ?? undefined}>
+                {warning.label}
+              </span>
+            ))}
+            {getClientTags(new Set(clientTagIds), tagsQuery.data ?? []).map((tag) => (
+              <TagChip key={tag.id} tag={tag} />
+            ))}
           </div>
         </div>
         <div className="row gap-sm wrap client-profile-actions">
+          <button type="button" className="button" onClick={() => setIsEditDialogOpen(true)}>
+            Επεξεργασία
+          </button>
+          {clientQuery.data.is_active ? (
+            <button type="button" className="button" onClick={() => setIsDeactivateDialogOpen(true)}>
+              Απενεργοποίηση
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="button button-primary"
+              disabled={updateClientMutation.isPending}
+              onClick={() => void handleReactivate()}
+            >
+              Επανενεργοποίηση
+            </button>
+          )}
           <Link className="button" to="/calendar">
             Ημερολόγιο
           </Link>
@@ -300,7 +907,7 @@ export function ClientProfilePage() {
           <strong>{attendanceCounts.noShow}</strong>
         </article>
         <article className="card client-profile-kpi-card">
-          <span className="muted-text">Απλήρωτοι μήνες</span>
+          <span className="muted-text">Απλήρωτα πακέτα</span>
           <strong>{unpaidCount}</strong>
         </article>
         <article className="card client-profile-kpi-card">
@@ -310,16 +917,198 @@ export function ClientProfilePage() {
       </div>
 
       <article className="card stack-sm">
-        <h3>Έλεγχος τρέχοντος μήνα</h3>
+        <div className="client-profile-section-toolbar">
+          <h3>Ετικέτες</h3>
+          <Link className="button" to="/clients/tags">
+            Διαχείριση ετικετών
+          </Link>
+        </div>
+        {(tagsQuery.data ?? []).length ? (
+          <TagFilter
+            tags={tagsQuery.data ?? []}
+            label="Ετικέτες πελάτη"
+            selectedTagIds={clientTagIds}
+            disabled={setClientTagsMutation.isPending}
+            onChange={(tagIds) => setClientTagsMutation.mutate(tagIds)}
+          />
+        ) : (
+          <p className="empty-state">Δεν υπάρχουν ετικέτες ακόμη.</p>
+        )}
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Υπόλοιπο πακέτων</h3>
         <div className="row gap-sm wrap">
-          <span className="status-pill">Μαθήματα πακέτου: {plannedCurrentMonth}</span>
-          <span className="status-pill status-attended">Παρουσίες: {attendedCurrentMonth}</span>
-          <span className={`status-pill ${pendingCurrentMonth > 0 ? "status-no-show" : ""}`}>Εκκρεμή: {pendingCurrentMonth}</span>
-          <span className={`status-pill ${overusedCurrentMonth > 0 ? "status-canceled" : ""}`}>Υπέρβαση: +{overusedCurrentMonth}</span>
-          <span className={`status-pill ${currentMonthPayment && !currentMonthPayment.paid ? "status-canceled" : "status-attended"}`}>
-            Πληρωμή μήνα: {currentMonthPayment ? (currentMonthPayment.paid ? "Εξοφλημένο" : "Απλήρωτο") : "Χωρίς εγγραφή"}
+          <span className={`status-pill ${packageBalance.remaining > 0 ? "status-attended" : "status-no-show"}`}>
+            Υπόλοιπο: {packageBalance.remaining} μαθήματα
+          </span>
+          <span className="status-pill">Ενεργά πακέτα: {packageBalance.activePackageCount}</span>
+          <span className="status-pill">
+            Επόμενη λήξη: {packageBalance.nextExpiry ? new Date(packageBalance.nextExpiry).toLocaleDateString("el-GR") : "-"}
           </span>
+          <span className={`status-pill ${packageBalance.uncoveredCount > 0 ? "status-canceled" : ""}`}>
+            Παρουσίες χωρίς πακέτο: {packageBalance.uncoveredCount}
+          </span>
+        </div>
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Επικοινωνία και υγεία</h3>
+        <form className="stack-sm" onSubmit={handleSaveDetails}>
+          <div className="row gap-sm wrap">
+            <label className="field-label">
+              <span>Email</span>
+              <input
+                className="input"
+                type="email"
+                value={detailsDraft.email}
+                onChange={(event) => updateDetailsDraft({ email: event.target.value })}
+              />
+            </label>
+            <label className="field-label">
+              <span>Ημερομηνία γέννησης</span>
+              <input
+                className="input"
+                type="date"
+                value={detailsDraft.date_of_birth}
+                max={todayIso}
+                onChange={(event) => updateDetailsDraft({ date_of_birth: event.target.value })}
+              />
+            </label>
+            <label className="field-label">
+              <span>Επαφή έκτακτης ανάγκης</span>
+              <input
+                className="input"
+                value={detailsDraft.emergency_contact_name}
+                placeholder="Ονοματεπώνυμο"
+                onChange={(event) => updateDetailsDraft({ emergency_contact_name: event.target.value })}
+              />
+            </label>
+            <label className="field-label">
+              <span>Τηλέφωνο επαφής</span>
+              <input
+                className="input"
+                value={detailsDraft.emergency_contact_phone}
+                onChange={(event) => updateDetailsDraft({ emergency_contact_phone: event.target.value })}
+              />
+            </label>
+            <label className="field-label">
+              <span>PIN kiosk</span>
+              <input
+                className="input"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={KIOSK_PIN_LENGTH}
+                value={detailsDraft.kiosk_pin}
+                placeholder={`${KIOSK_PIN_LENGTH} ψηφία`}
+                onChange={(event) => updateDetailsDraft({ kiosk_pin: event.target.value.replace(/\D/g, "") })}
+              />
+            </label>
+          </div>
+          <label className="field-label">
+            <span>Τραυματισμοί</span>
+            <textarea
+              className="input"
+              rows={2}
+              value={detailsDraft.injuries}
+              onChange={(event) => updateDetailsDraft({ injuries: event.target.value })}
+            />
+          </label>
+          <label className="field-label">
+            <span>Αντενδείξεις</span>
+            <textarea
+              className="input"
+              rows={2}
+              value={detailsDraft.contraindications}
+              onChange={(event) => updateDetailsDraft({ contraindications: event.target.value })}
+            />
+          </label>
+          <div className="row gap-sm wrap align-end">
+            <label className="row gap-sm align-center">
+              <input
+                type="checkbox"
+                checked={detailsDraft.is_pregnant}
+                onChange={(event) => updateDetailsDraft({ is_pregnant: event.target.checked })}
+              />
+              <span>Εγκυμοσύνη</span>
+            </label>
+            <label className="row gap-sm align-center">
+              <input
+                type="checkbox"
+                checked={detailsDraft.physio_cleared}
+                onChange={(event) =>
+                  updateDetailsDraft({
+                    physio_cleared: event.target.checked,
+                    physio_cleared_on: event.target.checked ? detailsDraft.physio_cleared_on || todayIso : "",
+                  })
+                }
+              />
+              <span>Έγκριση φυσικοθεραπευτή</span>
+            </label>
+            {detailsDraft.physio_cleared ? (
+              <label className="field-label">
+                <span>Ημερομηνία έγκρισης</span>
+                <input
+                  className="input"
+                  type="date"
+                  value={detailsDraft.physio_cleared_on}
+                  onChange={(event) => updateDetailsDraft({ physio_cleared_on: event.target.value })}
+                />
+              </label>
+            ) : null}
+            <button type="submit" className="button button-primary" disabled={updateClientMutation.isPending}>
+              {updateClientMutation.isPending ? "Αποθήκευση..." : "Αποθήκευση στοιχείων"}
+            </button>
+          </div>
+        </form>
+      </article>
+
+      <article className="card stack-sm">
+        <div className="client-profile-section-toolbar">
+          <h3>Συναινέσεις</h3>
+          <button type="button" className="button button-primary" onClick={openConsentDialog}>
+            Νέα υπογραφή
+          </button>
+        </div>
+        <div className="row gap-sm wrap">
+          {consentStatuses.map((status) => (
+            <span key={status.type} className={`status-pill ${getConsentStateClassName(status.state)}`}>
+              {CONSENT_TYPE_LABELS[status.type]}: {CONSENT_STATE_LABELS[status.state]}
+              {status.consent?.expires_on
+                ? ` (έως ${new Date(status.consent.expires_on).toLocaleDateString("el-GR")})`
+                : ""}
+            </span>
+          ))}
         </div>
+        {consentEntries.length ? (
+          <div className="client-profile-list">
+            {consentEntries.map((consent) => (
+              <article key={consent.id} className="task-item">
+                <div className="row space-between align-center wrap gap-sm">
+                  <span>
+                    {CONSENT_TYPE_LABELS[consent.consent_type]} · έκδ. {consent.version} ·{" "}
+                    {new Date(consent.signed_on).toLocaleDateString("el-GR")}
+                    {consent.expires_on ? ` - ${new Date(consent.expires_on).toLocaleDateString("el-GR")}` : ""} ·{" "}
+                    {consent.signer_name}
+                  </span>
+                  <button
+                    type="button"
+                    className="button"
+                    disabled={deleteConsentMutation.isPending}
+                    onClick={() => void deleteConsentMutation.mutateAsync(consent.id)}
+                  >
+                    Διαγραφή
+                  </button>
+                </div>
+                {consent.signature_data ? (
+                  <img className="signature-preview" src={consent.signature_data} alt={`Υπογραφή ${consent.signer_name}`} />
+                ) : null}
+              </article>
+            ))}
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν υπογεγραμμένες συναινέσεις.</div>
+        )}
       </article>
 
       <div className="client-profile-grid">
@@ -426,6 +1215,7 @@ export function ClientProfilePage() {
                 <span>Κατάσταση</span>
                 <select className="input" value={attendanceFilter} onChange={(event) => setAttendanceFilter(event.target.value as AttendanceFilter)}>
                   <option value="all">Όλες</option>
+                  <option value="booked">Κράτηση</option>
                   <option value="attended">Παρουσία</option>
                   <option value="canceled">Ακύρωση</option>
                   <option value="no_show">Απουσία</option>
@@ -440,6 +1230,7 @@ export function ClientProfilePage() {
                   placeholder="Σημείωση/κρεβάτι/κατάσταση"
                 />
               </label>
+              <ExportButtons disabled={!filteredAttendance.length} onExport={handleExportAttendance} />
             </div>
           </div>
 
@@ -453,6 +1244,7 @@ export function ClientProfilePage() {
                     <th>Κρεβάτι</th>
                     <th>Κατάσταση</th>
                     <th>Σημειώσεις</th>
+                    <th />
                   </tr>
                 </thead>
                 <tbody>
@@ -460,13 +1252,21 @@ export function ClientProfilePage() {
                     <tr key={entry.id}>
                       <td>{new Date(entry.session_date).toLocaleDateString("el-GR")}</td>
                       <td>{entry.time_start?.slice(0, 5) ?? "-"}</td>
-                      <td>{formatBedLabel(entry.bed_type)}</td>
+                      <td>{formatResourceLabel(entry.bed_type, resourceLookup)}</td>
                       <td>
                         <span className={`status-pill status-${entry.status.replace("_", "-")}`}>
                           {formatAttendanceStatusLabel(entry.status)}
+                          {isLateCancel(entry) ? " · καθυστερημένη" : ""}
                         </span>
                       </td>
                       <td>{entry.notes ?? "-"}</td>
+                      <td>
+                        {entry.status === "canceled" && !creditOriginIds.has(entry.id) ? (
+                          <button type="button" className="button" onClick={() => startCreditFromSession(entry)}>
+                            Αναπλήρωση
+                          </button>
+                        ) : null}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -479,49 +1279,419 @@ export function ClientProfilePage() {
 
         <article className="card stack-sm">
           <div className="client-profile-section-toolbar">
-            <h3>Πληρωμές</h3>
+            <h3>Αναπληρώσεις</h3>
+            <span className={`status-pill ${availableCreditCount > 0 ? "status-attended" : ""}`}>Διαθέσιμες: {availableCreditCount}</span>
+          </div>
+          {makeupCredits.length ? (
+            <div className="table-wrap">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Αιτία</th>
+                    <th>Από συνεδρία</th>
+                    <th>Λήξη</th>
+                    <th>Κατάσταση</th>
+                    <th>Σημειώσεις</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {makeupCredits.map((credit) => {
+                    const state = getMakeupCreditState(credit, todayIso);
+                    return (
+                      <tr key={credit.id}>
+                        <td>{MAKEUP_CREDIT_REASON_LABELS[credit.reason]}</td>
+                        <td>{formatCreditSession(credit.origin_attendance_id)}</td>
+                        <td>{credit.expires_on ? parseIsoDate(credit.expires_on).toLocaleDateString("el-GR") : "-"}</td>
+                        <td>
+                          <span className={`status-pill ${MAKEUP_CREDIT_STATE_PILLS[state]}`}>
+                            {MAKEUP_CREDIT_STATE_LABELS[state]}
+                            {state === "redeemed" ? ` · ${formatCreditSession(credit.redeemed_attendance_id)}` : ""}
+                          </span>
+                        </td>
+                        <td>{credit.notes ?? "-"}</td>
+                        <td>
+                          <button
+                            type="button"
+                            className="button"
+                            disabled={deleteMakeupCreditMutation.isPending}
+                            onClick={() => {
+                              if (window.confirm("Να διαγραφεί αυτή η αναπλήρωση;")) {
+                                void deleteMakeupCreditMutation.mutateAsync(credit.id);
+                              }
+                            }}
+                          >
+                            Διαγραφή
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="empty-state">Δεν υπάρχουν αναπληρώσεις.</div>
+          )}
+
+          <form className="row gap-sm wrap align-end" onSubmit={handleAddMakeupCredit}>
+            <label className="field-label">
+              <span>Αιτία</span>
+              <select
+                className="input"
+                value={newCreditReason}
+                onChange={(event) => setNewCreditReason(event.target.value as MakeupCreditReason)}
+              >
+                {Object.entries(MAKEUP_CREDIT_REASON_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {newCreditOrigin ? (
+              <>
+                <span className="status-pill">
+                  Από συνεδρία {parseIsoDate(newCreditOrigin.session_date).toLocaleDateString("el-GR")}{" "}
+                  {newCreditOrigin.time_start?.slice(0, 5) ?? ""}
+                </span>
+                <button type="button" className="button" onClick={() => setNewCreditOrigin(null)}>
+                  Χωρίς συνεδρία
+                </button>
+              </>
+            ) : null}
+            <label className="field-label">
+              <span>Λήξη</span>
+              <input
+                className="input"
+                type="date"
+                value={newCreditExpiresOn || defaultCreditExpiry}
+                min={todayIso}
+                onChange={(event) => setNewCreditExpiresOn(event.target.value)}
+              />
+            </label>
+            <label className="field-label">
+              <span>Σημειώσεις</span>
+              <input className="input" value={newCreditNotes} onChange={(event) => setNewCreditNotes(event.target.value)} />
+            </label>
+            <button type="submit" className="button button-primary" disabled={addMakeupCreditMutation.isPending}>
+              {addMakeupCreditMutation.isPending ? "Προσθήκη..." : "Νέα αναπλήρωση"}
+            </button>
+          </form>
+        </article>
+
+        <article className="card stack-sm">
+          <div className="client-profile-section-toolbar">
+            <h3>Καθυστερημένες ακυρώσεις</h3>
+            {lateCancelFees > 0 ? (
+              <div className="row gap-sm align-center wrap">
+                <span className={`status-pill ${unpaidLateCancelFees > 0 ? "status-canceled" : "status-attended"}`}>
+                  Χρεώσεις {formatCurrencyEUR(lateCancelFees)} · απλήρωτες {formatCurrencyEUR(unpaidLateCancelFees)}
+                </span>
+                {unpaidLateCancelFees > 0 ? (
+                  <button type="button" className="button" onClick={() => openPaymentDialog(null)}>
+                    Πληρωμή χρεώσεων
+                  </button>
+                ) : null}
+              </div>
+            ) : null}
+          </div>
+          {lateCancels.length ? (
+            <div className="table-wrap">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Συνεδρία</th>
+                    <th>Ακυρώθηκε</th>
+                    <th>Χρέωση</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {lateCancels.map((entry) => (
+                    <tr key={entry.id}>
+                      <td>
+                        {new Date(entry.session_date).toLocaleDateString("el-GR")} {entry.time_start?.slice(0, 5) ?? ""} ·{" "}
+                        {formatResourceLabel(entry.bed_type, resourceLookup)}
+                      </td>
+                      <td>{entry.canceled_at ? new Date(entry.canceled_at).toLocaleString("el-GR") : "-"}</td>
+                      <td>
+                        {entry.late_cancel_outcome ? LATE_CANCEL_OUTCOME_LABELS[entry.late_cancel_outcome] : "-"}
+                        {entry.late_cancel_outcome === "fee" ? ` ${formatCurrencyEUR(entry.late_cancel_fee ?? 0)}` : ""}
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="button"
+                          disabled={waiveLateCancelMutation.isPending}
+                          onClick={() => {
+                            if (window.confirm("Να χαριστεί η χρέωση αυτής της ακύρωσης;")) {
+                              void waiveLateCancelMutation.mutateAsync(entry.id);
+                            }
+                          }}
+                        >
+                          Χάρισμα
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="empty-state">Δεν υπάρχουν καθυστερημένες ακυρώσεις.</div>
+          )}
+        </article>
+
+        <article className="card stack-sm">
+          <div className="client-profile-section-toolbar">
+            <h3>Πακέτα μαθημάτων</h3>
             <label className="field-label client-profile-inline-field">
               <span>Κατάσταση</span>
               <select className="input" value={paymentFilter} onChange={(event) => setPaymentFilter(event.target.value as PaymentFilter)}>
-                <option value="all">Όλες</option>
-                <option value="unpaid">Απλήρωτες</option>
-                <option value="paid">Εξοφλημένες</option>
+                <option value="all">Όλα</option>
+                <option value="unpaid">Απλήρωτα</option>
+                <option value="paid">Εξοφλημένα</option>
               </select>
             </label>
           </div>
 
-          {filteredPayments.length ? (
+          {filteredPackages.length ? (
             <div className="table-wrap">
               <table className="table">
                 <thead>
                   <tr>
-                    <th>Μήνας</th>
+                    <th>Αγορά</th>
+                    <th>Λήξη</th>
                     <th>Μαθήματα</th>
+                    <th>Υπόλοιπο</th>
                     <th>Τιμή</th>
-                    <th>Κατάσταση</th>
+                    <th>Πληρώθηκαν</th>
+                    <th>Πληρωμή</th>
+                    <th />
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredPayments.map((payment) => (
-                    <tr key={payment.id}>
-                      <td>{new Date(payment.month_start).toLocaleDateString("el-GR", { month: "long", year: "numeric" })}</td>
-                      <td>{payment.lessons ?? 0}</td>
-                      <td>{formatCurrencyEUR(payment.price ?? 0)}</td>
-                      <td>
-                        <span className={`status-pill ${payment.paid ? "status-attended" : "status-canceled"}`}>
-                          {payment.paid ? "Εξοφλημένη" : "Απλήρωτη"}
-                        </span>
-                      </td>
+                  {filteredPackages.map((lessonPackage) => {
+                    const usage = packageAllocation.usageByPackageId.get(lessonPackage.id);
+                    const isExpired = Boolean(lessonPackage.expires_on && lessonPackage.expires_on < todayIso);
+                    return (
+                      <tr key={lessonPackage.id}>
+                        <td>{new Date(lessonPackage.purchase_date).toLocaleDateString("el-GR")}</td>
+                        <td>
+                          {lessonPackage.expires_on ? new Date(lessonPackage.expires_on).toLocaleDateString("el-GR") : "Χωρίς λήξη"}
+                        </td>
+                        <td>
+                          {usage?.used ?? 0} / {lessonPackage.lessons}
+                        </td>
+                        <td>
+                          {usage?.remaining ?? lessonPackage.lessons}
+                          {isExpired ? <span className="status-pill status-canceled">Έληξε</span> : null}
+                        </td>
+                        <td>{formatCurrencyEUR(lessonPackage.price ?? 0)}</td>
+                        <td>{formatCurrencyEUR(lessonPackage.paid_amount)}</td>
+                        <td>
+                          <span className={`status-pill ${lessonPackage.paid ? "status-attended" : "status-canceled"}`}>
+                            {formatPackagePaymentLabel(lessonPackage)}
+                          </span>
+                        </td>
+                        <td>
+                          <div className="row gap-sm">
+                            {getPackageOutstanding(lessonPackage) > 0 ? (
+                              <button type="button" className="button" onClick={() => openPaymentDialog(lessonPackage.id)}>
+                                Πληρωμή
+                              </button>
+                            ) : null}
+                            <button
+                              type="button"
+                              className="button"
+                              disabled={deletePackageMutation.isPending}
+                              onClick={() => void deletePackageMutation.mutateAsync(lessonPackage.id)}
+                            >
+                              Διαγραφή
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="empty-state">Δεν υπάρχουν πακέτα για τα επιλεγμένα φίλτρα.</div>
+          )}
+
+          <form className="row gap-sm wrap align-end" onSubmit={handleAddPackage}>
+            <label className="field-label">
+              <span>Αγορά</span>
+              <input
+                className="input"
+                type="date"
+                value={newPackagePurchaseDate}
+                onChange={(event) => setNewPackagePurchaseDate(event.target.value)}
+              />
+            </label>
+            <label className="field-label">
+              <span>Μαθήματα</span>
+              <input
+                className="input"
+                type="number"
+                min={1}
+                value={newPackageLessons}
+                onChange={(event) => setNewPackageLessons(event.target.value)}
+              />
+            </label>
+            <label className="field-label">
+              <span>Λήξη</span>
+              <input
+                className="input"
+                type="date"
+                value={newPackageExpiresOn}
+                min={newPackagePurchaseDate}
+                onChange={(event) => setNewPackageExpiresOn(event.target.value)}
+              />
+            </label>
+            <label className="field-label">
+              <span>Τιμή (€)</span>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                step="0.01"
+                value={newPackagePrice}
+                onChange={(event) => setNewPackagePrice(event.target.value)}
+              />
+            </label>
+            <button type="submit" className="button button-primary" disabled={addPackageMutation.isPending}>
+              {addPackageMutation.isPending ? "Προσθήκη..." : "Νέο πακέτο"}
+            </button>
+          </form>
+        </article>
+
+        <article className="card stack-sm">
+          <div className="client-profile-section-toolbar">
+            <h3>Καρτέλα πληρωμών</h3>
+            <div className="row gap-sm align-center wrap">
+              <span className={`status-pill ${outstandingAmount > 0 ? "status-canceled" : "status-attended"}`}>
+                Οφειλή: {formatCurrencyEUR(outstandingAmount)}
+              </span>
+              <button type="button" className="button button-primary" onClick={() => openPaymentDialog()}>
+                Νέα πληρωμή
+              </button>
+            </div>
+          </div>
+
+          {ledgerEntries.length ? (
+            <div className="table-wrap">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Ημερομηνία</th>
+                    <th>Περιγραφή</th>
+                    <th>Χρέωση</th>
+                    <th>Πληρωμή</th>
+                    <th>Υπόλοιπο</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledgerEntries.map((entry) => (
+                    <tr key={entry.key}>
+                      <td>{new Date(entry.date).toLocaleDateString("el-GR")}</td>
+                      <td>{entry.description}</td>
+                      <td>{entry.charge ? formatCurrencyEUR(entry.charge) : "-"}</td>
+                      <td>{entry.payment ? formatCurrencyEUR(entry.payment) : "-"}</td>
+                      <td>{formatCurrencyEUR(entry.balance)}</td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
           ) : (
-            <div className="empty-state">Δεν υπάρχουν πληρωμές για τα επιλεγμένα φίλτρα.</div>
+            <div className="empty-state">Δεν υπάρχουν χρεώσεις ή πληρωμές για αυτόν τον πελάτη.</div>
           )}
+
+          {transactionEntries.length ? (
+            <div className="client-profile-list">
+              {transactionEntries.map((transaction) => (
+                <article key={transaction.id} className="task-item">
+                  <div className="row space-between align-center wrap gap-sm">
+                    <span>
+                      {new Date(transaction.paid_on).toLocaleDateString("el-GR")} · {formatCurrencyEUR(transaction.amount)} ·{" "}
+                      {PAYMENT_METHOD_LABELS[transaction.method]}
+                      {receiptByTransactionId.has(transaction.id)
+                        ? ` · Απόδειξη ${formatReceiptNumber(receiptByTransactionId.get(transaction.id)!.receipt_number)}`
+                        : ""}
+                    </span>
+                    <div className="row gap-sm">
+                      <button
+                        type="button"
+                        className="button"
+                        disabled={issueReceiptMutation.isPending}
+                        onClick={() => issueReceiptMutation.mutate(transaction.id)}
+                      >
+                        {receiptByTransactionId.has(transaction.id) ? "Εκτύπωση απόδειξης" : "Έκδοση απόδειξης"}
+                      </button>
+                      <button
+                        type="button"
+                        className="button"
+                        disabled={deleteTransactionMutation.isPending}
+                        onClick={() => void deleteTransactionMutation.mutateAsync(transaction.id)}
+                      >
+                        Διαγραφή
+                      </button>
+                    </div>
+                  </div>
+                  {transaction.notes ? <span className="muted-text">{transaction.notes}</span> : null}
+                </article>
+              ))}
+            </div>
+          ) : null}
         </article>
       </div>
+
+      <EditClientDialog
+        client={isEditDialogOpen ? clientQuery.data : null}
+        onClose={() => setIsEditDialogOpen(false)}
+        onSave={async (input) => {
+          await updateClientMutation.mutateAsync({ full_name: input.fullName, phone: input.phone });
+          toast.success("Τα στοιχεία του πελάτη αποθηκεύτηκαν.");
+        }}
+      />
+
+      <DeactivateClientDialog
+        client={isDeactivateDialogOpen ? clientQuery.data : null}
+        onClose={() => setIsDeactivateDialogOpen(false)}
+        onConfirm={async () => {
+          await updateClientMutation.mutateAsync({ is_active: false });
+          toast.success("Ο πελάτης απενεργοποιήθηκε.");
+        }}
+      />
+
+      <SignConsentDialog
+        isOpen={Boolean(consentDialogType)}
+        clientName={clientQuery.data.full_name}
+        initialType={consentDialogType ?? undefined}
+        onClose={() => setConsentDialogType(null)}
+        onSave={async (input) => {
+          await addConsentMutation.mutateAsync(input);
+        }}
+      />
+
+      <AddPaymentDialog
+        isOpen={isPaymentDialogOpen}
+        clientName={clientQuery.data.full_name}
+        packages={packageEntries}
+        initialPackageId={paymentPackageId}
+        initialAmount={paymentPackageId === null ? unpaidLateCancelFees : undefined}
+        onClose={() => setIsPaymentDialogOpen(false)}
+        onSave={async (input, options) => {
+          const transaction = await addTransactionMutation.mutateAsync(input);
+          if (options.issueReceipt) {
+            issueReceiptMutation.mutate(transaction.id);
+          }
+        }}
+      />
     </section>
   );
 }
@@ -0,0 +1,400 @@
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import {
+  addClientSegment,
+  addClientTag,
+  deleteClientSegment,
+  deleteClientTag,
+  fetchClientSegments,
+  fetchClientTagAssignments,
+  fetchClientTags,
+  updateClientTag,
+} from "../lib/data";
+import {
+  CLIENT_TAG_COLORS,
+  DEFAULT_SEGMENT_FILTERS,
+  SEGMENT_CLIENT_STATUS_LABELS,
+  SEGMENT_PAYMENT_STATUS_LABELS,
+  describeSegment,
+} from "../lib/clientTags";
+import { TagFilter } from "../components/TagFilter";
+import type {
+  ClientSegmentFilters,
+  ClientTagUpdate,
+  SegmentClientStatus,
+  SegmentPaymentStatus,
+} from "../types/database";
+
+type TagDraft = { name: string; color: string };
+
+export function ClientTagsPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [tagDrafts, setTagDrafts] = useState<Record<string, TagDraft>>({});
+  const [newTagName, setNewTagName] = useState("");
+  const [newTagColor, setNewTagColor] = useState(CLIENT_TAG_COLORS[0]);
+  const [newSegmentName, setNewSegmentName] = useState("");
+  const [newSegmentFilters, setNewSegmentFilters] = useState<ClientSegmentFilters>(DEFAULT_SEGMENT_FILTERS);
+
+  const tagsQuery = useQuery({
+    queryKey: ["client-tags", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTags(user!.id),
+  });
+
+  const tagAssignmentsQuery = useQuery({
+    queryKey: ["client-tag-assignments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTagAssignments(user!.id),
+  });
+
+  const segmentsQuery = useQuery({
+    queryKey: ["client-segments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientSegments(user!.id),
+  });
+
+  useEffect(() => {
+    setTagDrafts(
+      Object.fromEntries((tagsQuery.data ?? []).map((tag) => [tag.id, { name: tag.name, color: tag.color }])),
+    );
+  }, [tagsQuery.data]);
+
+  const clientCountByTagId = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const assignment of tagAssignmentsQuery.data ?? []) {
+      counts.set(assignment.tag_id, (counts.get(assignment.tag_id) ?? 0) + 1);
+    }
+    return counts;
+  }, [tagAssignmentsQuery.data]);
+
+  const addTagMutation = useMutation({
+    mutationFn: () => addClientTag({ user_id: user!.id, name: newTagName.trim(), color: newTagColor }),
+    onSuccess: () => {
+      setNewTagName("");
+      queryClient.invalidateQueries({ queryKey: ["client-tags", user?.id] });
+      toast.success("Η ετικέτα προστέθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία προσθήκης ετικέτας.";
+      toast.error(message);
+    },
+  });
+
+  const updateTagMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ClientTagUpdate }) => updateClientTag(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-tags", user?.id] });
+      toast.success("Η ετικέτα ενημερώθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενημέρωσης ετικέτας.";
+      toast.error(message);
+    },
+  });
+
+  const deleteTagMutation = useMutation({
+    mutationFn: deleteClientTag,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-tags", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["client-tag-assignments", user?.id] });
+      toast.success("Η ετικέτα διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία διαγραφής ετικέτας.";
+      toast.error(message);
+    },
+  });
+
+  const addSegmentMutation = useMutation({
+    mutationFn: () => addClientSegment({ user_id: user!.id, name: newSegmentName.trim(), filters: newSegmentFilters }),
+    onSuccess: () => {
+      setNewSegmentName("");
+      setNewSegmentFilters(DEFAULT_SEGMENT_FILTERS);
+      queryClient.invalidateQueries({ queryKey: ["client-segments", user?.id] });
+      toast.success("Το τμήμα αποθηκεύτηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία αποθήκευσης τμήματος.";
+      toast.error(message);
+    },
+  });
+
+  const deleteSegmentMutation = useMutation({
+    mutationFn: deleteClientSegment,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-segments", user?.id] });
+      toast.success("Το τμήμα διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία διαγραφής τμήματος.";
+      toast.error(message);
+    },
+  });
+
+  const handleAddTag = (event: FormEvent) => {
+    event.preventDefault();
+    if (!newTagName.trim()) {
+      toast.error("Συμπλήρωσε όνομα ετικέτας.");
+      return;
+    }
+    void addTagMutation.mutateAsync();
+  };
+
+  const handleSaveTag = (tagId: string) => {
+    const draft = tagDrafts[tagId];
+    if (!draft?.name.trim()) {
+      toast.error("Το όνομα ετικέτας δεν μπορεί να είναι κενό.");
+      return;
+    }
+    void updateTagMutation.mutateAsync({ id: tagId, input: { name: draft.name.trim(), color: draft.color } });
+  };
+
+  const handleDeleteTag = (tagId: string, tagName: string) => {
+    const clientCount = clientCountByTagId.get(tagId) ?? 0;
+    if (!window.confirm(`Διαγραφή της ετικέτας «${tagName}» από ${clientCount} πελάτες;`)) {
+      return;
+    }
+    void deleteTagMutation.mutateAsync(tagId);
+  };
+
+  const handleAddSegment = (event: FormEvent) => {
+    event.preventDefault();
+    if (!newSegmentName.trim()) {
+      toast.error("Συμπλήρωσε όνομα τμήματος.");
+      return;
+    }
+    void addSegmentMutation.mutateAsync();
+  };
+
+  if (tagsQuery.isLoading || tagAssignmentsQuery.isLoading || segmentsQuery.isLoading) {
+    return <div className="status-box">Φόρτωση ετικετών...</div>;
+  }
+
+  if (tagsQuery.isError || tagAssignmentsQuery.isError || segmentsQuery.isError) {
+    const message =
+      (tagsQuery.error instanceof Error && tagsQuery.error.message) ||
+      (tagAssignmentsQuery.error instanceof Error && tagAssignmentsQuery.error.message) ||
+      (segmentsQuery.error instanceof Error && segmentsQuery.error.message) ||
+      "Δεν ήταν δυνατή η φόρτωση ετικετών.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const tags = tagsQuery.data ?? [];
+  const segments = segmentsQuery.data ?? [];
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-center wrap gap-sm">
+        <h2>Ετικέτες και τμήματα</h2>
+        <Link className="button" to="/clients">
+          Πίσω στους πελάτες
+        </Link>
+      </div>
+
+      <article className="card stack-sm">
+        <h3>Ετικέτες</h3>
+        <p className="muted-text">
+          Οι ετικέτες μπαίνουν από το προφίλ πελάτη και φιλτράρουν πληρωμές, έλεγχο μήνα, εργασίες και επιλογή πελάτη
+          στις συνεδρίες.
+        </p>
+
+        {tags.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Όνομα</th>
+                  <th>Χρώμα</th>
+                  <th>Πελάτες</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {tags.map((tag) => {
+                  const draft = tagDrafts[tag.id];
+                  if (!draft) {
+                    return null;
+                  }
+                  return (
+                    <tr key={tag.id}>
+                      <td>
+                        <input
+                          className="input table-input"
+                          value={draft.name}
+                          aria-label="Όνομα ετικέτας"
+                          onChange={(event) =>
+                            setTagDrafts((previous) => ({ ...previous, [tag.id]: { ...draft, name: event.target.value } }))
+                          }
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="color"
+                          value={draft.color}
+                          aria-label="Χρώμα ετικέτας"
+                          onChange={(event) =>
+                            setTagDrafts((previous) => ({ ...previous, [tag.id]: { ...draft, color: event.target.value } }))
+                          }
+                        />
+                      </td>
+                      <td>{clientCountByTagId.get(tag.id) ?? 0}</td>
+                      <td>
+                        <div className="row gap-sm wrap">
+                          <button
+                            type="button"
+                            className="button"
+                            onClick={() => handleSaveTag(tag.id)}
+                            disabled={updateTagMutation.isPending}
+                          >
+                            Αποθήκευση
+                          </button>
+                          <button
+                            type="button"
+                            className="button"
+                            onClick={() => handleDeleteTag(tag.id, tag.name)}
+                            disabled={deleteTagMutation.isPending}
+                          >
+                            Διαγραφή
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν ετικέτες.</div>
+        )}
+
+        <form className="row gap-sm wrap align-end" onSubmit={handleAddTag}>
+          <label className="field-label">
+            <span>Νέα ετικέτα</span>
+            <input
+              className="input"
+              value={newTagName}
+              placeholder="π.χ. rehab"
+              onChange={(event) => setNewTagName(event.target.value)}
+            />
+          </label>
+          <div className="filter-chips" role="group" aria-label="Χρώμα νέας ετικέτας">
+            {CLIENT_TAG_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                className={newTagColor === color ? "filter-chip filter-chip-active" : "filter-chip"}
+                aria-pressed={newTagColor === color}
+                aria-label={color}
+                onClick={() => setNewTagColor(color)}
+              >
+                <span className="tag-chip-dot" style={{ backgroundColor: color }} aria-hidden="true" />
+              </button>
+            ))}
+          </div>
+          <button type="submit" className="button button-primary" disabled={addTagMutation.isPending}>
+            {addTagMutation.isPending ? "Προσθήκη..." : "Προσθήκη"}
+          </button>
+        </form>
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Αποθηκευμένα τμήματα</h3>
+        <p className="muted-text">
+          Ένα τμήμα συνδυάζει κατάσταση πελάτη, πληρωμή του μήνα και ετικέτες. Επιλέγεται στις Πληρωμές και στον έλεγχο
+          μήνα της Σύνοψης.
+        </p>
+
+        {segments.length ? (
+          <ul className="client-profile-list">
+            {segments.map((segment) => (
+              <li key={segment.id} className="row space-between align-center wrap gap-sm">
+                <span>
+                  <strong>{segment.name}</strong> · {describeSegment(segment.filters, tags)}
+                </span>
+                <button
+                  type="button"
+                  className="button"
+                  onClick={() => void deleteSegmentMutation.mutateAsync(segment.id)}
+                  disabled={deleteSegmentMutation.isPending}
+                >
+                  Διαγραφή
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν αποθηκευμένα τμήματα.</div>
+        )}
+
+        <form className="stack-sm" onSubmit={handleAddSegment}>
+          <div className="row gap-sm wrap align-end">
+            <label className="field-label">
+              <span>Όνομα τμήματος</span>
+              <input
+                className="input"
+                value={newSegmentName}
+                placeholder="π.χ. Rehab απλήρωτοι"
+                onChange={(event) => setNewSegmentName(event.target.value)}
+              />
+            </label>
+            <label className="field-label">
+              <span>Κατάσταση πελάτη</span>
+              <select
+                className="input"
+                value={newSegmentFilters.client_status}
+                onChange={(event) =>
+                  setNewSegmentFilters((previous) => ({
+                    ...previous,
+                    client_status: event.target.value as SegmentClientStatus,
+                  }))
+                }
+              >
+                {(Object.keys(SEGMENT_CLIENT_STATUS_LABELS) as SegmentClientStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {SEGMENT_CLIENT_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field-label">
+              <span>Πληρωμή μήνα</span>
+              <select
+                className="input"
+                value={newSegmentFilters.payment_status}
+                onChange={(event) =>
+                  setNewSegmentFilters((previous) => ({
+                    ...previous,
+                    payment_status: event.target.value as SegmentPaymentStatus,
+                  }))
+                }
+              >
+                {(Object.keys(SEGMENT_PAYMENT_STATUS_LABELS) as SegmentPaymentStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {SEGMENT_PAYMENT_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <TagFilter
+            tags={tags}
+            label="Ετικέτες τμήματος"
+            selectedTagIds={newSegmentFilters.tag_ids}
+            onChange={(tagIds) => setNewSegmentFilters((previous) => ({ ...previous, tag_ids: tagIds }))}
+          />
+          <p className="muted-text">Σύνοψη: {describeSegment(newSegmentFilters, tags)}</p>
+          <div className="row gap-sm">
+            <button type="submit" className="button button-primary" disabled={addSegmentMutation.isPending}>
+              {addSegmentMutation.isPending ? "Αποθήκευση..." : "Αποθήκευση τμήματος"}
+            </button>
+          </div>
+        </form>
+      </article>
+    </section>
+  );
+}
@@ -0,0 +1,272 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import { addClient, fetchClientTagAssignments, fetchClientTags, fetchClients, updateClient } from "../lib/data";
+import { buildTagIdsByClientId, getClientTags, hasAllTags } from "../lib/clientTags";
+import { AddClientDialog } from "../components/AddClientDialog";
+import { DeactivateClientDialog } from "../components/DeactivateClientDialog";
+import { EditClientDialog } from "../components/EditClientDialog";
+import { TagChip } from "../components/TagChip";
+import { TagFilter } from "../components/TagFilter";
+import type { Client, ClientUpdate } from "../types/database";
+
+type ClientStatusFilter = "active" | "inactive" | "all";
+
+export function ClientsPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<ClientStatusFilter>("active");
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const [deactivatingClient, setDeactivatingClient] = useState<Client | null>(null);
+
+  const clientsQuery = useQuery({
+    queryKey: ["clients-all", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClients(user!.id),
+  });
+
+  const tagsQuery = useQuery({
+    queryKey: ["client-tags", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTags(user!.id),
+  });
+
+  const tagAssignmentsQuery = useQuery({
+    queryKey: ["client-tag-assignments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTagAssignments(user!.id),
+  });
+
+  const tagIdsByClientId = useMemo(
+    () => buildTagIdsByClientId(tagAssignmentsQuery.data ?? []),
+    [tagAssignmentsQuery.data],
+  );
+
+  const invalidateClients = (clientId: string) => {
+    queryClient.invalidateQueries({ queryKey: ["clients", user?.id] });
+    queryClient.invalidateQueries({ queryKey: ["clients-all", user?.id] });
+    queryClient.invalidateQueries({ queryKey: ["client", user?.id, clientId] });
+  };
+
+  const addClientMutation = useMutation({
+    mutationFn: (input: { fullName: string; phone: string | null }) =>
+      addClient({
+        full_name: input.fullName,
+        phone: input.phone,
+        user_id: user!.id,
+      }),
+    onSuccess: (createdClient) => {
+      invalidateClients(createdClient.id);
+      toast.success("Ο πελάτης προστέθηκε.");
+    },
+  });
+
+  const updateClientMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ClientUpdate }) => updateClient(id, input),
+    onSuccess: (updatedClient) => {
+      invalidateClients(updatedClient.id);
+    },
+  });
+
+  const handleReactivate = async (client: Client) => {
+    try {
+      await updateClientMutation.mutateAsync({ id: client.id, input: { is_active: true } });
+      toast.success(`Ο πελάτης ${client.full_name} ενεργοποιήθηκε ξανά.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενεργοποίησης πελάτη.";
+      toast.error(message);
+    }
+  };
+
+  const clients = clientsQuery.data ?? [];
+  const activeCount = clients.filter((client) => client.is_active).length;
+  const inactiveCount = clients.length - activeCount;
+
+  const filteredClients = useMemo(() => {
+    const normalized = search.trim().toLowerCase();
+    return (clientsQuery.data ?? [])
+      .filter((client) => {
+        if (statusFilter === "active") {
+          return client.is_active;
+        }
+        if (statusFilter === "inactive") {
+          return !client.is_active;
+        }
+        return true;
+      })
+      .filter((client) => hasAllTags(tagIdsByClientId.get(client.id), tagFilter))
+      .filter((client) => {
+        if (!normalized) {
+          return true;
+        }
+        return (
+          client.full_name.toLowerCase().includes(normalized) || (client.phone?.toLowerCase() ?? "").includes(normalized)
+        );
+      });
+  }, [clientsQuery.data, search, statusFilter, tagFilter, tagIdsByClientId]);
+
+  if (clientsQuery.isLoading) {
+    return <div className="status-box">Φόρτωση πελατών...</div>;
+  }
+
+  if (clientsQuery.isError) {
+    const message =
+      (clientsQuery.error instanceof Error && clientsQuery.error.message) || "Δεν ήταν δυνατή η φόρτωση πελατών.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-center wrap gap-sm">
+        <h2>Πελάτες</h2>
+        <div className="row gap-sm align-center">
+          <Link className="button" to="/clients/tags">
+            Ετικέτες
+          </Link>
+          <Link className="button" to="/clients/duplicates">
+            Διπλοί πελάτες
+          </Link>
+          <Link className="button" to="/import">
+            Εισαγωγή CSV
+          </Link>
+          <AddClientDialog
+            onAddClient={async (input) => {
+              await addClientMutation.mutateAsync(input);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="payments-filter-toolbar">
+        <label className="field-label payments-search-field">
+          <span>Αναζήτηση</span>
+          <input
+            className="input"
+            value={search}
+            placeholder="Όνομα ή τηλέφωνο"
+            onChange={(event) => setSearch(event.target.value)}
+          />
+        </label>
+        <div className="payments-filter-buttons">
+          <button
+            type="button"
+            className={statusFilter === "active" ? "button button-primary" : "button"}
+            onClick={() => setStatusFilter("active")}
+          >
+            Ενεργοί ({activeCount})
+          </button>
+          <button
+            type="button"
+            className={statusFilter === "inactive" ? "button button-primary" : "button"}
+            onClick={() => setStatusFilter("inactive")}
+          >
+            Ανενεργοί ({inactiveCount})
+          </button>
+          <button
+            type="button"
+            className={statusFilter === "all" ? "button button-primary" : "button"}
+            onClick={() => setStatusFilter("all")}
+          >
+            Όλοι ({clients.length})
+          </button>
+        </div>
+      </div>
+
+      <TagFilter
+        tags={tagsQuery.data ?? []}
+        selectedTagIds={tagFilter}
+        onChange={setTagFilter}
+        allLabel="Όλες οι ετικέτες"
+      />
+
+      {filteredClients.length ? (
+        <div className="table-wrap">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Πελάτης</th>
+                <th>Τηλέφωνο</th>
+                <th>Κατάσταση</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {filteredClients.map((client) => (
+                <tr key={client.id}>
+                  <td>
+                    <div className="row gap-sm align-center wrap">
+                      <Link to={`/clients/${client.id}`}>{client.full_name}</Link>
+                      {getClientTags(tagIdsByClientId.get(client.id), tagsQuery.data ?? []).map((tag) => (
+                        <TagChip key={tag.id} tag={tag} />
+                      ))}
+                    </div>
+                  </td>
+                  <td>{client.phone ?? "-"}</td>
+                  <td>
+                    <span className={`status-pill ${client.is_active ? "status-attended" : "status-no-show"}`}>
+                      {client.is_active ? "Ενεργός" : "Ανενεργός"}
+                    </span>
+                  </td>
+                  <td>
+                    <div className="row gap-sm wrap">
+                      <button type="button" className="button" onClick={() => setEditingClient(client)}>
+                        Επεξεργασία
+                      </button>
+                      {client.is_active ? (
+                        <button type="button" className="button" onClick={() => setDeactivatingClient(client)}>
+                          Απενεργοποίηση
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          className="button button-primary"
+                          disabled={updateClientMutation.isPending}
+                          onClick={() => void handleReactivate(client)}
+                        >
+                          Επανενεργοποίηση
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="empty-state">Δεν βρέθηκαν πελάτες για τα τρέχοντα φίλτρα.</p>
+      )}
+
+      <EditClientDialog
+        client={editingClient}
+        onClose={() => setEditingClient(null)}
+        onSave={async (input) => {
+          if (!editingClient) {
+            return;
+          }
+          await updateClientMutation.mutateAsync({
+            id: editingClient.id,
+            input: { full_name: input.fullName, phone: input.phone },
+          });
+          toast.success("Τα στοιχεία του πελάτη αποθηκεύτηκαν.");
+        }}
+      />
+
+      <DeactivateClientDialog
+        client={deactivatingClient}
+        onClose={() => setDeactivatingClient(null)}
+        onConfirm={async () => {
+          if (!deactivatingClient) {
+            return;
+          }
+          await updateClientMutation.mutateAsync({ id: deactivatingClient.id, input: { is_active: false } });
+          toast.success(`Ο πελάτης ${deactivatingClient.full_name} απενεργοποιήθηκε.`);
+        }}
+      />
+    </section>
+  );
+}
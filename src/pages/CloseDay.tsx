@@ -0,0 +1,299 @@
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import {
+  fetchClients,
+  fetchPaymentTransactionsForDate,
+  fetchRecentCashReconciliations,
+  upsertCashReconciliation,
+} from "../lib/data";
+import { toIsoDate } from "../lib/date";
+import { formatCurrencyEUR } from "../lib/format";
+import { PAYMENT_METHOD_LABELS, summarizeTransactionsByMethod } from "../lib/payments";
+import type { CashReconciliation } from "../types/database";
+
+function parseAmount(value: string): number | null {
+  if (!value.trim()) {
+    return null;
+  }
+  const parsed = Number.parseFloat(value.replace(",", "."));
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * 100) / 100 : null;
+}
+
+function formatDifference(value: number): string {
+  return value > 0 ? `+${formatCurrencyEUR(value)}` : formatCurrencyEUR(value);
+}
+
+function getDifferenceClassName(value: number): string {
+  return value === 0 ? "status-pill status-attended" : "status-pill status-canceled";
+}
+
+export function CloseDayPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [businessDate, setBusinessDate] = useState(() => toIsoDate(new Date()));
+  const [countedCash, setCountedCash] = useState("");
+  const [countedCard, setCountedCard] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const transactionsQuery = useQuery({
+    queryKey: ["payment-transactions", user?.id, "date", businessDate],
+    enabled: Boolean(user?.id && businessDate),
+    queryFn: () => fetchPaymentTransactionsForDate(user!.id, businessDate),
+  });
+
+  const clientsQuery = useQuery({
+    queryKey: ["clients-all", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClients(user!.id),
+  });
+
+  const reconciliationsQuery = useQuery({
+    queryKey: ["cash-reconciliations", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchRecentCashReconciliations(user!.id),
+  });
+
+  const existingReconciliation = useMemo(
+    () => (reconciliationsQuery.data ?? []).find((reconciliation) => reconciliation.business_date === businessDate) ?? null,
+    [businessDate, reconciliationsQuery.data],
+  );
+
+  useEffect(() => {
+    setCountedCash(existingReconciliation ? String(existingReconciliation.counted_cash) : "");
+    setCountedCard(existingReconciliation ? String(existingReconciliation.counted_card) : "");
+    setNotes(existingReconciliation?.notes ?? "");
+  }, [existingReconciliation]);
+
+  const transactions = transactionsQuery.data ?? [];
+  const methodTotals = useMemo(() => summarizeTransactionsByMethod(transactions), [transactions]);
+  const clientNameById = useMemo(
+    () => new Map((clientsQuery.data ?? []).map((client) => [client.id, client.full_name])),
+    [clientsQuery.data],
+  );
+
+  const expectedCash = methodTotals.find((row) => row.method === "cash")?.total ?? 0;
+  const expectedCard = methodTotals.find((row) => row.method === "card")?.total ?? 0;
+  const dayTotal = methodTotals.reduce((sum, row) => sum + row.total, 0);
+  const parsedCountedCash = parseAmount(countedCash);
+  const parsedCountedCard = parseAmount(countedCard);
+
+  const saveMutation = useMutation({
+    mutationFn: (input: { countedCash: number; countedCard: number }) =>
+      upsertCashReconciliation({
+        user_id: user!.id,
+        business_date: businessDate,
+        expected_cash: expectedCash,
+        counted_cash: input.countedCash,
+        expected_card: expectedCard,
+        counted_card: input.countedCard,
+        notes: notes.trim() ? notes.trim() : null,
+      }),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<CashReconciliation[]>(["cash-reconciliations", user?.id], (current = []) =>
+        [saved, ...current.filter((reconciliation) => reconciliation.id !== saved.id)].sort((a, b) =>
+          b.business_date.localeCompare(a.business_date),
+        ),
+      );
+      toast.success(
+        saved.cash_difference === 0 && saved.card_difference === 0
+          ? "Το κλείσιμο ημέρας αποθηκεύτηκε χωρίς διαφορές."
+          : "Το κλείσιμο ημέρας αποθηκεύτηκε με διαφορές.",
+      );
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η αποθήκευση του κλεισίματος.";
+      toast.error(message);
+    },
+  });
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (parsedCountedCash == null || parsedCountedCard == null) {
+      toast.error("Συμπλήρωσε τα καταμετρημένα ποσά μετρητών και κάρτας.");
+      return;
+    }
+    await saveMutation.mutateAsync({ countedCash: parsedCountedCash, countedCard: parsedCountedCard });
+  };
+
+  if (transactionsQuery.isLoading || clientsQuery.isLoading || reconciliationsQuery.isLoading) {
+    return <div className="status-box">Φόρτωση κλεισίματος ημέρας...</div>;
+  }
+
+  if (transactionsQuery.isError || clientsQuery.isError || reconciliationsQuery.isError) {
+    const message =
+      (transactionsQuery.error instanceof Error && transactionsQuery.error.message) ||
+      (clientsQuery.error instanceof Error && clientsQuery.error.message) ||
+      (reconciliationsQuery.error instanceof Error && reconciliationsQuery.error.message) ||
+      "Δεν ήταν δυνατή η φόρτωση του κλεισίματος ημέρας.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const isExpectedChanged = Boolean(
+    existingReconciliation &&
+      (existingReconciliation.expected_cash !== expectedCash || existingReconciliation.expected_card !== expectedCard),
+  );
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-end wrap gap-sm">
+        <h2>Κλείσιμο ημέρας</h2>
+        <label className="field-label">
+          <span>Ημερομηνία</span>
+          <input className="input" type="date" value={businessDate} onChange={(event) => setBusinessDate(event.target.value)} />
+        </label>
+      </div>
+
+      <div className="payments-kpi-grid">
+        {methodTotals.map((row) => (
+          <article key={row.method} className="card payments-kpi-card">
+            <span className="muted-text">
+              {PAYMENT_METHOD_LABELS[row.method]} ({row.count})
+            </span>
+            <strong>{formatCurrencyEUR(row.total)}</strong>
+          </article>
+        ))}
+        <article className="card payments-kpi-card">
+          <span className="muted-text">Σύνολο ημέρας</span>
+          <strong>{formatCurrencyEUR(dayTotal)}</strong>
+        </article>
+      </div>
+
+      <article className="card stack-sm">
+        <h3>Εισπράξεις ημέρας</h3>
+        {transactions.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Πελάτης</th>
+                  <th>Τρόπος</th>
+                  <th>Ποσό</th>
+                  <th>Σημείωση</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transactions.map((transaction) => (
+                  <tr key={transaction.id}>
+                    <td>{clientNameById.get(transaction.client_id) ?? "-"}</td>
+                    <td>{PAYMENT_METHOD_LABELS[transaction.method]}</td>
+                    <td>{formatCurrencyEUR(transaction.amount)}</td>
+                    <td>{transaction.notes ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν εισπράξεις για αυτή την ημέρα.</div>
+        )}
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Καταμέτρηση</h3>
+        <p className="muted-text">
+          Οι τραπεζικές μεταφορές και οι λοιπές εισπράξεις εμφανίζονται στα σύνολα αλλά δεν καταμετρώνται στο ταμείο.
+        </p>
+        {isExpectedChanged ? (
+          <p className="text-error">
+            Οι εισπράξεις άλλαξαν μετά το κλείσιμο. Αποθήκευσε ξανά για να ενημερωθούν τα αναμενόμενα ποσά.
+          </p>
+        ) : null}
+        <form className="row gap-sm wrap align-end" onSubmit={handleSubmit}>
+          <label className="field-label">
+            <span>Μετρητά στο ταμείο (αναμενόμενα {formatCurrencyEUR(expectedCash)})</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step="0.01"
+              value={countedCash}
+              onChange={(event) => setCountedCash(event.target.value)}
+            />
+          </label>
+          <label className="field-label">
+            <span>Σύνολο POS κάρτας (αναμενόμενο {formatCurrencyEUR(expectedCard)})</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step="0.01"
+              value={countedCard}
+              onChange={(event) => setCountedCard(event.target.value)}
+            />
+          </label>
+          <label className="field-label">
+            <span>Σημείωση</span>
+            <input className="input" type="text" value={notes} onChange={(event) => setNotes(event.target.value)} />
+          </label>
+          <button type="submit" className="button button-primary" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Αποθήκευση..." : existingReconciliation ? "Ενημέρωση κλεισίματος" : "Κλείσιμο ημέρας"}
+          </button>
+        </form>
+        <div className="row gap-sm wrap">
+          {parsedCountedCash != null ? (
+            <span className={getDifferenceClassName(parsedCountedCash - expectedCash)}>
+              Διαφορά μετρητών: {formatDifference(Math.round((parsedCountedCash - expectedCash) * 100) / 100)}
+            </span>
+          ) : null}
+          {parsedCountedCard != null ? (
+            <span className={getDifferenceClassName(parsedCountedCard - expectedCard)}>
+              Διαφορά κάρτας: {formatDifference(Math.round((parsedCountedCard - expectedCard) * 100) / 100)}
+            </span>
+          ) : null}
+        </div>
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Πρόσφατα κλεισίματα</h3>
+        {reconciliationsQuery.data?.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Ημερομηνία</th>
+                  <th>Μετρητά (αναμ. / καταμ.)</th>
+                  <th>Διαφορά μετρητών</th>
+                  <th>Κάρτα (αναμ. / καταμ.)</th>
+                  <th>Διαφορά κάρτας</th>
+                  <th>Σημείωση</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reconciliationsQuery.data.map((reconciliation) => (
+                  <tr key={reconciliation.id}>
+                    <td>
+                      <button type="button" className="button" onClick={() => setBusinessDate(reconciliation.business_date)}>
+                        {new Date(reconciliation.business_date).toLocaleDateString("el-GR")}
+                      </button>
+                    </td>
+                    <td>
+                      {formatCurrencyEUR(reconciliation.expected_cash)} / {formatCurrencyEUR(reconciliation.counted_cash)}
+                    </td>
+                    <td>
+                      <span className={getDifferenceClassName(reconciliation.cash_difference)}>
+                        {formatDifference(reconciliation.cash_difference)}
+                      </span>
+                    </td>
+                    <td>
+                      {formatCurrencyEUR(reconciliation.expected_card)} / {formatCurrencyEUR(reconciliation.counted_card)}
+                    </td>
+                    <td>
+                      <span className={getDifferenceClassName(reconciliation.card_difference)}>
+                        {formatDifference(reconciliation.card_difference)}
+                      </span>
+                    </td>
+                    <td>{reconciliation.notes ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-state">Δεν έχει καταγραφεί κλείσιμο ημέρας ακόμη.</div>
+        )}
+      </article>
+    </section>
+  );
+}
@@ -2,16 +2,33 @@ import { useMemo } from "react";
 import { Link } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "../auth/AuthProvider";
-import { fetchAttendanceForMonth, fetchClients } from "../lib/data";
+import {
+  fetchAttendanceForMonth,
+  fetchClients,
+  fetchInstructors,
+  fetchOpeningHours,
+  fetchResources,
+  fetchStudioSettings,
+} from "../lib/data";
 import { addDays, toIsoDate } from "../lib/date";
-
-const WEEK_HOUR_START = 8;
-const WEEK_HOUR_END = 22;
-const BED_CAPACITY_PER_TYPE = 4;
-const BEDS_PER_HOUR_CAPACITY = BED_CAPACITY_PER_TYPE * 2;
-const HOUR_ROWS = Array.from({ length: WEEK_HOUR_END - WEEK_HOUR_START + 1 }, (_, index) => WEEK_HOUR_START + index);
+import {
+  buildResourceLookup,
+  formatResourceLabel,
+  getResourceCapacity,
+  getScheduleResourceKeys,
+} from "../lib/resources";
+import {
+  buildScheduleConfig,
+  buildSlotStarts,
+  getDayWindow,
+  getSlotStart,
+  isSlotOpen,
+  minutesToTime,
+} from "../lib/schedule";
+import type { AttendanceBedType } from "../types/database";
 
 const STATUS_LABELS = {
+  booked: "Κρατ.",
   attended: "Παρ.",
   canceled: "Ακυρ.",
   no_show: "Απουσ.",
@@ -32,23 +49,15 @@ function parseMinutes(value: string | null): number | null {
   return hour * 60 + minute;
 }
 
-function formatHourLabel(hour: number): string {
-  return `${String(hour).padStart(2, "0")}:00`;
-}
-
 function formatTime(value: string | null): string {
   return value ? value.slice(0, 5) : "Χωρίς ώρα";
 }
 
-function formatBedType(value: "reformer" | "cadillac"): string {
-  return value === "cadillac" ? "CADILLAC" : "REFORMER";
-}
-
-function getBedLoadState(count: number): BedLoadState {
-  if (count > BED_CAPACITY_PER_TYPE) {
+function getBedLoadState(count: number, capacity: number): BedLoadState {
+  if (count > capacity) {
     return "overbooked";
   }
-  if (count === BED_CAPACITY_PER_TYPE) {
+  if (count === capacity) {
     return "full";
   }
   return "normal";
@@ -72,6 +81,32 @@ export function DashboardPage() {
     queryFn: () => fetchAttendanceForMonth(user!.id, todayIso, tomorrowIso),
   });
 
+  const resourcesQuery = useQuery({
+    queryKey: ["resources", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchResources(user!.id),
+  });
+
+  const instructorsQuery = useQuery({
+    queryKey: ["instructors", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchInstructors(user!.id),
+  });
+
+  const studioSettingsQuery = useQuery({
+    queryKey: ["studio-settings", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchStudioSettings(user!.id),
+  });
+
+  const openingHoursQuery = useQuery({
+    queryKey: ["opening-hours", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchOpeningHours(user!.id),
+  });
+
+  const resourceLookup = useMemo(() => buildResourceLookup(resourcesQuery.data ?? []), [resourcesQuery.data]);
+
   const clientsById = useMemo(() => {
     return (clientsQuery.data ?? []).reduce<Record<string, { full_name: string }>>((acc, client) => {
       acc[client.id] = { full_name: client.full_name };
@@ -87,7 +122,9 @@ export function DashboardPage() {
     return todaySessions.reduce(
       (acc, session) => {
         acc.total += 1;
-        if (session.status === "attended") {
+        if (session.status === "booked") {
+          acc.booked += 1;
+        } else if (session.status === "attended") {
           acc.attended += 1;
         } else if (session.status === "canceled") {
           acc.canceled += 1;
@@ -96,10 +133,54 @@ export function DashboardPage() {
         }
         return acc;
       },
-      { total: 0, attended: 0, canceled: 0, noShow: 0 },
+      { total: 0, booked: 0, attended: 0, canceled: 0, noShow: 0 },
     );
   }, [todaySessions]);
 
+  const todayCountsByInstructor = useMemo(() => {
+    const instructorNames = new Map((instructorsQuery.data ?? []).map((instructor) => [instructor.id, instructor.full_name]));
+    const byInstructor = new Map<string, {
+      label: string;
+      total: number;
+      booked: number;
+      attended: number;
+      canceled: number;
+      noShow: number;
+    }>();
+
+    todaySessions.forEach((session) => {
+      const key = session.instructor_id ?? "";
+      const current = byInstructor.get(key) ?? {
+        label: session.instructor_id ? instructorNames.get(session.instructor_id) ?? "Άγνωστος" : "Χωρίς εκπαιδευτή",
+        total: 0,
+        booked: 0,
+        attended: 0,
+        canceled: 0,
+        noShow: 0,
+      };
+      current.total += 1;
+      if (session.status === "booked") {
+        current.booked += 1;
+      } else if (session.status === "attended") {
+        current.attended += 1;
+      } else if (session.status === "canceled") {
+        current.canceled += 1;
+      } else if (session.status === "no_show") {
+        current.noShow += 1;
+      }
+      byInstructor.set(key, current);
+    });
+
+    return [...byInstructor.entries()]
+      .map(([id, counts]) => ({ id, ...counts }))
+      .sort((a, b) => {
+        if (!a.id || !b.id) {
+          return a.id ? -1 : 1;
+        }
+        return a.label.localeCompare(b.label);
+      });
+  }, [instructorsQuery.data, todaySessions]);
+
   const upcomingSessions = useMemo(() => {
     const nowMinutes = now.getHours() * 60 + now.getMinutes();
     const upperBound = nowMinutes + 180;
@@ -113,60 +194,91 @@ export function DashboardPage() {
     });
   }, [now, todaySessions]);
 
-  const todayOccupancyByHourAndBed = useMemo(() => {
-    const byHour = new Map<number, { reformerCount: number; cadillacCount: number }>();
-    HOUR_ROWS.forEach((hour) => {
-      byHour.set(hour, { reformerCount: 0, cadillacCount: 0 });
+  const todayOccupancyBySlotAndBed = useMemo(() => {
+    const bedTypes = getScheduleResourceKeys(
+      resourcesQuery.data ?? [],
+      todaySessions.map((session) => session.bed_type),
+    );
+    const totalCapacity = bedTypes.reduce((sum, bedType) => sum + getResourceCapacity(bedType, resourceLookup), 0);
+    const scheduleConfig = buildScheduleConfig(studioSettingsQuery.data, openingHoursQuery.data ?? []);
+    const todayWindow = getDayWindow(scheduleConfig, now);
+    const slots = buildSlotStarts(
+      [todayWindow],
+      scheduleConfig.slotMinutes,
+      todaySessions.map((session) => session.time_start),
+    );
+    const bySlot = new Map<number, Record<AttendanceBedType, number>>();
+    slots.forEach((slot) => {
+      bySlot.set(slot, {});
     });
 
     todaySessions.forEach((session) => {
-      const minutes = parseMinutes(session.time_start);
-      if (minutes == null) {
-        return;
-      }
-      const hour = Math.floor(minutes / 60);
-      if (hour < WEEK_HOUR_START || hour > WEEK_HOUR_END) {
+      const slot = getSlotStart(session.time_start, scheduleConfig.slotMinutes);
+      if (slot == null) {
         return;
       }
 
-      const current = byHour.get(hour);
+      const current = bySlot.get(slot);
       if (!current) {
         return;
       }
 
-      if (session.bed_type === "cadillac") {
-        current.cadillacCount += 1;
-      } else {
-        current.reformerCount += 1;
-      }
+      current[session.bed_type] = (current[session.bed_type] ?? 0) + 1;
     });
 
-    return HOUR_ROWS.map((hour) => {
-      const bedCounts = byHour.get(hour) ?? { reformerCount: 0, cadillacCount: 0 };
-      const total = bedCounts.reformerCount + bedCounts.cadillacCount;
-      const ratio = BEDS_PER_HOUR_CAPACITY > 0 ? total / BEDS_PER_HOUR_CAPACITY : 0;
+    return slots.map((slot) => {
+      const bedCounts = bySlot.get(slot) ?? {};
+      const slotCapacity = isSlotOpen(todayWindow, slot) ? totalCapacity : 0;
+      const beds = bedTypes.map((bedType) => {
+        const count = bedCounts[bedType] ?? 0;
+        const capacity = getResourceCapacity(bedType, resourceLookup);
+        return {
+          bedType,
+          label: formatResourceLabel(bedType, resourceLookup),
+          count,
+          capacity,
+          state: getBedLoadState(count, capacity),
+        };
+      });
+      const total = beds.reduce((sum, bed) => sum + bed.count, 0);
+      const ratio = slotCapacity > 0 ? total / slotCapacity : 0;
       return {
-        hour,
-        hourLabel: formatHourLabel(hour),
-        reformerCount: bedCounts.reformerCount,
-        cadillacCount: bedCounts.cadillacCount,
-        reformerState: getBedLoadState(bedCounts.reformerCount),
-        cadillacState: getBedLoadState(bedCounts.cadillacCount),
+        slot,
+        slotLabel: minutesToTime(slot),
+        beds,
         total,
-        totalCapacity: BEDS_PER_HOUR_CAPACITY,
+        totalCapacity: slotCapacity,
         ratio,
       };
     });
-  }, [todaySessions]);
+  }, [now, openingHoursQuery.data, resourceLookup, resourcesQuery.data, studioSettingsQuery.data, todaySessions]);
 
-  if (clientsQuery.isLoading || attendanceTodayQuery.isLoading) {
+  if (
+    clientsQuery.isLoading ||
+    attendanceTodayQuery.isLoading ||
+    resourcesQuery.isLoading ||
+    instructorsQuery.isLoading ||
+    studioSettingsQuery.isLoading ||
+    openingHoursQuery.isLoading
+  ) {
     return <div className="status-box">Φόρτωση dashboard...</div>;
   }
 
-  if (clientsQuery.isError || attendanceTodayQuery.isError) {
+  if (
+    clientsQuery.isError ||
+    attendanceTodayQuery.isError ||
+    resourcesQuery.isError ||
+    instructorsQuery.isError ||
+    studioSettingsQuery.isError ||
+    openingHoursQuery.isError
+  ) {
     const message =
       (clientsQuery.error instanceof Error && clientsQuery.error.message) ||
       (attendanceTodayQuery.error instanceof Error && attendanceTodayQuery.error.message) ||
+      (resourcesQuery.error instanceof Error && resourcesQuery.error.message) ||
+      (instructorsQuery.error instanceof Error && instructorsQuery.error.message) ||
+      (studioSettingsQuery.error instanceof Error && studioSettingsQuery.error.message) ||
+      (openingHoursQuery.error instanceof Error && openingHoursQuery.error.message) ||
       "Δεν ήταν δυνατή η φόρτωση dashboard.";
     return <div className="status-box status-error">{message}</div>;
   }
@@ -178,8 +290,34 @@ export function DashboardPage() {
           <h3>Συνεδρίες σήμερα</h3>
           <strong>{todayCounts.total}</strong>
           <p className="muted-text">
-            {STATUS_LABELS.attended}: {todayCounts.attended} | {STATUS_LABELS.canceled}: {todayCounts.canceled} | {STATUS_LABELS.no_show}: {todayCounts.noShow}
+            {STATUS_LABELS.booked}: {todayCounts.booked} | {STATUS_LABELS.attended}: {todayCounts.attended} | {STATUS_LABELS.canceled}: {todayCounts.canceled} | {STATUS_LABELS.no_show}: {todayCounts.noShow}
           </p>
+          {todayCountsByInstructor.length ? (
+            <table className="table instructor-breakdown">
+              <thead>
+                <tr>
+                  <th>Εκπαιδευτής</th>
+                  <th>Συν.</th>
+                  <th>{STATUS_LABELS.booked}</th>
+                  <th>{STATUS_LABELS.attended}</th>
+                  <th>{STATUS_LABELS.canceled}</th>
+                  <th>{STATUS_LABELS.no_show}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {todayCountsByInstructor.map((row) => (
+                  <tr key={row.id || "unassigned"}>
+                    <td>{row.label}</td>
+                    <td>{row.total}</td>
+                    <td>{row.booked}</td>
+                    <td>{row.attended}</td>
+                    <td>{row.canceled}</td>
+                    <td>{row.noShow}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : null}
         </article>
 
         <article className="card day-hub-card">
@@ -191,7 +329,7 @@ export function DashboardPage() {
                   <div>
                     <strong>{clientsById[session.client_id]?.full_name ?? "Άγνωστος πελάτης"}</strong>
                     <p className="muted-text">
-                      {formatTime(session.time_start)} · {formatBedType(session.bed_type)}
+                      {formatTime(session.time_start)} · {formatResourceLabel(session.bed_type, resourceLookup)}
                     </p>
                   </div>
                   <span className={`status-pill status-${session.status.replace("_", "-")}`}>{STATUS_LABELS[session.status]}</span>
@@ -206,17 +344,16 @@ export function DashboardPage() {
         <article className="card day-hub-card">
           <h3>Πληρότητα σήμερα</h3>
           <div className="occupancy-list occupancy-list-bed">
-            {todayOccupancyByHourAndBed.map((row) => (
-              <div key={row.hour} className="occupancy-row-bed">
+            {todayOccupancyBySlotAndBed.map((row) => (
+              <div key={row.slot} className="occupancy-row-bed">
                 <div className="occupancy-row-head">
-                  <span className="occupancy-hour">{row.hourLabel}</span>
+                  <span className="occupancy-hour">{row.slotLabel}</span>
                   <div className="occupancy-bed-group">
-                    <span className={`occupancy-bed-badge occupancy-bed-badge-${row.reformerState}`}>
-                      REFORMER {row.reformerCount}/{BED_CAPACITY_PER_TYPE}
-                    </span>
-                    <span className={`occupancy-bed-badge occupancy-bed-badge-${row.cadillacState}`}>
-                      CADILLAC {row.cadillacCount}/{BED_CAPACITY_PER_TYPE}
-                    </span>
+                    {row.beds.map((bed) => (
+                      <span key={bed.bedType} className={`occupancy-bed-badge occupancy-bed-badge-${bed.state}`}>
+                        {bed.label} {bed.count}/{bed.capacity}
+                      </span>
+                    ))}
                   </div>
                   <span className="occupancy-value">
                     {row.total}/{row.totalCapacity}
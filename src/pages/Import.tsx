@@ -0,0 +1,497 @@
+import { ChangeEvent, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import { parseCsv, parseCsvMonth, readCsvCell, type CsvTable } from "../lib/csv";
+import {
+  CLIENT_IMPORT_FIELDS,
+  PAYMENT_IMPORT_FIELDS,
+  buildClientImportRows,
+  buildPaymentImportRows,
+  getMonthEnd,
+  guessImportMapping,
+  runInBatches,
+  type ClientImportField,
+  type ImportField,
+  type ImportKind,
+  type ImportRowStatus,
+  type PaymentImportField,
+} from "../lib/csvImport";
+import { addClient, addPackageWithPayment, fetchClients, fetchPackagesForMonth } from "../lib/data";
+import { addMonths, parseIsoDate, toIsoDate } from "../lib/date";
+import { isUniqueViolation } from "../lib/dbErrors";
+import { downloadCsv } from "../lib/download";
+import { formatCurrencyEUR } from "../lib/format";
+
+const IMPORT_BATCH_SIZE = 20;
+
+type ImportOutcome = "imported" | "failed" | "skipped";
+
+type ImportResult = {
+  line: number;
+  label: string;
+  outcome: ImportOutcome;
+  message: string | null;
+};
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  ready: "Προς εισαγωγή",
+  duplicate: "Διπλότυπο",
+  invalid: "Σφάλμα",
+};
+
+const OUTCOME_LABELS: Record<ImportOutcome, string> = {
+  imported: "Εισήχθη",
+  failed: "Απέτυχε",
+  skipped: "Παραλείφθηκε",
+};
+
+function getStatusClassName(status: ImportRowStatus | ImportOutcome): string {
+  if (status === "ready" || status === "imported") {
+    return "status-pill status-attended";
+  }
+  return status === "duplicate" || status === "skipped" ? "status-pill status-canceled" : "status-pill status-no-show";
+}
+
+function formatImportError(error: unknown): string {
+  if (isUniqueViolation(error)) {
+    return "Υπάρχει ήδη εγγραφή με τα ίδια στοιχεία.";
+  }
+  return error instanceof Error ? error.message : "Άγνωστο σφάλμα.";
+}
+
+export function ImportPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<ImportKind>("clients");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [clientMapping, setClientMapping] = useState<Record<ClientImportField, number> | null>(null);
+  const [paymentMapping, setPaymentMapping] = useState<Record<PaymentImportField, number> | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  const clientsQuery = useQuery({
+    queryKey: ["clients-all", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClients(user!.id),
+  });
+
+  // Month range covered by the file, so existing packages can be flagged as duplicates.
+  const paymentMonthRange = useMemo(() => {
+    if (kind !== "payments" || !table || !paymentMapping) {
+      return null;
+    }
+    const months = table.records
+      .map((record) => parseCsvMonth(readCsvCell(record, paymentMapping.month)))
+      .filter((month): month is string => Boolean(month))
+      .sort();
+    return months.length ? { from: months[0], to: toIsoDate(addMonths(parseIsoDate(months[months.length - 1]), 1)) } : null;
+  }, [kind, paymentMapping, table]);
+
+  const existingPackagesQuery = useQuery({
+    queryKey: ["packages", user?.id, "import", paymentMonthRange?.from, paymentMonthRange?.to],
+    enabled: Boolean(user?.id && paymentMonthRange),
+    queryFn: () => fetchPackagesForMonth(user!.id, paymentMonthRange!.from, paymentMonthRange!.to),
+  });
+
+  const clientRows = useMemo(() => {
+    if (kind !== "clients" || !table || !clientMapping) {
+      return [];
+    }
+    return buildClientImportRows(table, clientMapping, clientsQuery.data ?? []);
+  }, [clientMapping, clientsQuery.data, kind, table]);
+
+  const paymentRows = useMemo(() => {
+    if (kind !== "payments" || !table || !paymentMapping) {
+      return [];
+    }
+    return buildPaymentImportRows(
+      table,
+      paymentMapping,
+      clientsQuery.data ?? [],
+      existingPackagesQuery.data ?? [],
+    );
+  }, [clientsQuery.data, existingPackagesQuery.data, kind, paymentMapping, table]);
+
+  const previewRows = kind === "clients" ? clientRows : paymentRows;
+  const statusCounts = useMemo(() => {
+    const counts: Record<ImportRowStatus, number> = { ready: 0, duplicate: 0, invalid: 0 };
+    for (const row of previewRows) {
+      counts[row.status] += 1;
+    }
+    return counts;
+  }, [previewRows]);
+
+  const fields: ImportField<string>[] = kind === "clients" ? CLIENT_IMPORT_FIELDS : PAYMENT_IMPORT_FIELDS;
+  const mapping: Record<string, number> | null = kind === "clients" ? clientMapping : paymentMapping;
+  const missingRequiredFields = mapping
+    ? fields.filter((field) => field.required && mapping[field.key] < 0).map((field) => field.label)
+    : [];
+
+  const resetFile = () => {
+    setFileName(null);
+    setTable(null);
+    setClientMapping(null);
+    setPaymentMapping(null);
+    setProgress(null);
+    setResults(null);
+  };
+
+  const handleKindChange = (nextKind: ImportKind) => {
+    setKind(nextKind);
+    resetFile();
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    resetFile();
+    try {
+      const parsed = parseCsv(await file.text());
+      if (!parsed.headers.length || !parsed.records.length) {
+        toast.error("Το αρχείο δεν περιέχει γραμμή επικεφαλίδων και δεδομένα.");
+        return;
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      if (kind === "clients") {
+        setClientMapping(guessImportMapping(parsed.headers, CLIENT_IMPORT_FIELDS));
+      } else {
+        setPaymentMapping(guessImportMapping(parsed.headers, PAYMENT_IMPORT_FIELDS));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η ανάγνωση του αρχείου.";
+      toast.error(message);
+    }
+  };
+
+  const handleMappingChange = (field: string, columnIndex: number) => {
+    setResults(null);
+    if (kind === "clients") {
+      setClientMapping((previous) => (previous ? { ...previous, [field]: columnIndex } : previous));
+    } else {
+      setPaymentMapping((previous) => (previous ? { ...previous, [field]: columnIndex } : previous));
+    }
+  };
+
+  const runImport = async <Row extends { line: number; status: ImportRowStatus; message: string | null }>(
+    rows: Row[],
+    getLabel: (row: Row) => string,
+    task: (row: Row) => Promise<unknown>,
+  ): Promise<ImportResult[]> => {
+    const readyRows = rows.filter((row) => row.status === "ready");
+    setProgress({ completed: 0, total: readyRows.length });
+    const settled = await runInBatches(readyRows, IMPORT_BATCH_SIZE, task, (completed) =>
+      setProgress({ completed, total: readyRows.length }),
+    );
+    const outcomeByLine = new Map(
+      readyRows.map((row, index) => {
+        const result = settled[index];
+        return [
+          row.line,
+          result.status === "fulfilled"
+            ? { outcome: "imported" as const, message: row.message }
+            : { outcome: "failed" as const, message: formatImportError(result.reason) },
+        ];
+      }),
+    );
+    return rows.map((row) => ({
+      line: row.line,
+      label: getLabel(row),
+      ...(outcomeByLine.get(row.line) ?? { outcome: "skipped" as const, message: row.message }),
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!user?.id || !statusCounts.ready) {
+      return;
+    }
+
+    setIsImporting(true);
+    setResults(null);
+    try {
+      const nextResults =
+        kind === "clients"
+          ? await runImport(
+              clientRows,
+              (row) => row.fullName,
+              (row) => addClient({ ...row.input!, user_id: user.id }),
+            )
+          : await runImport(
+              paymentRows,
+              (row) => `${row.clientName} · ${row.monthStart ? row.monthStart.slice(0, 7) : "-"}`,
+              (row) =>
+                addPackageWithPayment(
+                  {
+                    user_id: user.id,
+                    client_id: row.input!.client_id,
+                    purchase_date: row.input!.month_start,
+                    expires_on: getMonthEnd(row.input!.month_start),
+                    lessons: row.input!.lessons,
+                    price: row.input!.price,
+                    notes: null,
+                  },
+                  row.input!.paid
+                    ? { paid_on: row.input!.month_start, method: "other", notes: "Εισαγωγή από CSV" }
+                    : null,
+                ),
+            );
+
+      setResults(nextResults);
+      const importedCount = nextResults.filter((result) => result.outcome === "imported").length;
+      const failedCount = nextResults.filter((result) => result.outcome === "failed").length;
+      if (failedCount) {
+        toast.error(`Εισήχθησαν ${importedCount} γραμμές, ${failedCount} απέτυχαν.`);
+      } else {
+        toast.success(`Εισήχθησαν ${importedCount} γραμμές.`);
+      }
+    } finally {
+      setIsImporting(false);
+      queryClient.invalidateQueries({ queryKey: ["clients", user.id] });
+      queryClient.invalidateQueries({ queryKey: ["clients-all", user.id] });
+      queryClient.invalidateQueries({ queryKey: ["packages", user.id] });
+      queryClient.invalidateQueries({ queryKey: ["payment-transactions", user.id] });
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!results) {
+      return;
+    }
+    downloadCsv(`anafora-eisagogis-${kind}.csv`, [
+      ["Γραμμή", "Εγγραφή", "Αποτέλεσμα", "Μήνυμα"],
+      ...results
+        .filter((result) => result.outcome !== "imported")
+        .map((result) => [result.line, result.label, OUTCOME_LABELS[result.outcome], result.message]),
+    ]);
+  };
+
+  if (clientsQuery.isLoading) {
+    return <div className="status-box">Φόρτωση πελατών...</div>;
+  }
+
+  if (clientsQuery.isError) {
+    const message =
+      (clientsQuery.error instanceof Error && clientsQuery.error.message) || "Δεν ήταν δυνατή η φόρτωση πελατών.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const failedResults = results?.filter((result) => result.outcome !== "imported") ?? [];
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-center wrap gap-sm">
+        <h2>Εισαγωγή από CSV</h2>
+        <Link className="button" to="/clients">
+          Πελάτες
+        </Link>
+      </div>
+
+      <article className="card stack-sm">
+        <h3>1. Τύπος και αρχείο</h3>
+        <div className="payments-filter-buttons">
+          <button
+            type="button"
+            className={kind === "clients" ? "button button-primary" : "button"}
+            onClick={() => handleKindChange("clients")}
+            disabled={isImporting}
+          >
+            Πελάτες
+          </button>
+          <button
+            type="button"
+            className={kind === "payments" ? "button button-primary" : "button"}
+            onClick={() => handleKindChange("payments")}
+            disabled={isImporting}
+          >
+            Ιστορικό πληρωμών
+          </button>
+        </div>
+        <p className="muted-text">
+          {kind === "clients"
+            ? "Στήλες: ονοματεπώνυμο, τηλέφωνο, ενεργός (ναι/όχι)."
+            : "Στήλες: πελάτης, μήνας (π.χ. 2024-03 ή 03/2024), μαθήματα, τιμή, πληρωμένο (ναι/όχι). Εισήγαγε πρώτα τους πελάτες."}
+        </p>
+        <label className="field-label">
+          <span>Αρχείο CSV (διαχωριστικό ; ή ,)</span>
+          <input
+            className="input"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(event) => void handleFileChange(event)}
+            disabled={isImporting}
+          />
+        </label>
+        {fileName && table ? (
+          <p className="muted-text">
+            {fileName}: {table.records.length} γραμμές δεδομένων, {table.headers.length} στήλες.
+          </p>
+        ) : null}
+      </article>
+
+      {table && mapping ? (
+        <article className="card stack-sm">
+          <h3>2. Αντιστοίχιση στηλών</h3>
+          <div className="row gap-sm wrap">
+            {fields.map((field) => (
+              <label key={field.key} className="field-label">
+                <span>
+                  {field.label}
+                  {field.required ? " *" : ""}
+                </span>
+                <select
+                  className="input"
+                  value={mapping[field.key]}
+                  onChange={(event) => handleMappingChange(field.key, Number(event.target.value))}
+                  disabled={isImporting}
+                >
+                  <option value={-1}>— Καμία στήλη —</option>
+                  {table.headers.map((header, index) => (
+                    <option key={`${header}-${index}`} value={index}>
+                      {header || `Στήλη ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {missingRequiredFields.length ? (
+            <p className="text-error">Αντιστοίχισε τις υποχρεωτικές στήλες: {missingRequiredFields.join(", ")}.</p>
+          ) : null}
+        </article>
+      ) : null}
+
+      {table && mapping && !missingRequiredFields.length ? (
+        <article className="card stack-sm">
+          <div className="client-profile-section-toolbar">
+            <h3>3. Προεπισκόπηση</h3>
+            <div className="row gap-sm align-center wrap">
+              <span className={getStatusClassName("ready")}>Προς εισαγωγή: {statusCounts.ready}</span>
+              <span className={getStatusClassName("duplicate")}>Διπλότυπα: {statusCounts.duplicate}</span>
+              <span className={getStatusClassName("invalid")}>Σφάλματα: {statusCounts.invalid}</span>
+              <button
+                type="button"
+                className="button button-primary"
+                onClick={() => void handleImport()}
+                disabled={isImporting || !statusCounts.ready || existingPackagesQuery.isLoading}
+              >
+                {isImporting && progress
+                  ? `Εισαγωγή ${progress.completed}/${progress.total}...`
+                  : `Εισαγωγή ${statusCounts.ready} γραμμών`}
+              </button>
+            </div>
+          </div>
+          {existingPackagesQuery.isError ? (
+            <p className="text-error">
+              {(existingPackagesQuery.error instanceof Error && existingPackagesQuery.error.message) ||
+                "Δεν ήταν δυνατός ο έλεγχος για υπάρχοντα πακέτα."}
+            </p>
+          ) : null}
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                {kind === "clients" ? (
+                  <tr>
+                    <th>Γραμμή</th>
+                    <th>Ονοματεπώνυμο</th>
+                    <th>Τηλέφωνο</th>
+                    <th>Ενεργός</th>
+                    <th>Κατάσταση</th>
+                  </tr>
+                ) : (
+                  <tr>
+                    <th>Γραμμή</th>
+                    <th>Πελάτης</th>
+                    <th>Μήνας</th>
+                    <th>Μαθήματα</th>
+                    <th>Τιμή</th>
+                    <th>Πληρωμένο</th>
+                    <th>Κατάσταση</th>
+                  </tr>
+                )}
+              </thead>
+              <tbody>
+                {kind === "clients"
+                  ? clientRows.map((row) => (
+                      <tr key={row.line}>
+                        <td>{row.line}</td>
+                        <td>{row.fullName || "-"}</td>
+                        <td>{row.input?.phone ?? "-"}</td>
+                        <td>{row.input ? (row.input.is_active ? "Ναι" : "Όχι") : "-"}</td>
+                        <td>
+                          <span className={getStatusClassName(row.status)}>{STATUS_LABELS[row.status]}</span>
+                          {row.message ? <span className="muted-text"> {row.message}</span> : null}
+                        </td>
+                      </tr>
+                    ))
+                  : paymentRows.map((row) => (
+                      <tr key={row.line}>
+                        <td>{row.line}</td>
+                        <td>{row.clientName || "-"}</td>
+                        <td>{row.monthStart ? row.monthStart.slice(0, 7) : "-"}</td>
+                        <td>{row.input?.lessons ?? "-"}</td>
+                        <td>{row.input?.price != null ? formatCurrencyEUR(row.input.price) : "-"}</td>
+                        <td>{row.input ? (row.input.paid ? "Ναι" : "Όχι") : "-"}</td>
+                        <td>
+                          <span className={getStatusClassName(row.status)}>{STATUS_LABELS[row.status]}</span>
+                          {row.message ? <span className="muted-text"> {row.message}</span> : null}
+                        </td>
+                      </tr>
+                    ))}
+              </tbody>
+            </table>
+          </div>
+        </article>
+      ) : null}
+
+      {results ? (
+        <article className="card stack-sm">
+          <div className="client-profile-section-toolbar">
+            <h3>4. Αναφορά εισαγωγής</h3>
+            {failedResults.length ? (
+              <button type="button" className="button" onClick={handleDownloadReport}>
+                Λήψη αναφοράς (CSV)
+              </button>
+            ) : null}
+          </div>
+          <p>
+            Εισήχθησαν {results.length - failedResults.length} από {results.length} γραμμές.
+          </p>
+          {failedResults.length ? (
+            <div className="table-wrap">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Γραμμή</th>
+                    <th>Εγγραφή</th>
+                    <th>Αποτέλεσμα</th>
+                    <th>Μήνυμα</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {failedResults.map((result) => (
+                    <tr key={result.line}>
+                      <td>{result.line}</td>
+                      <td>{result.label}</td>
+                      <td>
+                        <span className={getStatusClassName(result.outcome)}>{OUTCOME_LABELS[result.outcome]}</span>
+                      </td>
+                      <td>{result.message ?? "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </article>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,281 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import { fetchKioskBookings, fetchKioskDevice, kioskCheckIn } from "../lib/data";
+import { formatCheckInTime, formatKioskError, isValidKioskPin, KIOSK_PIN_LENGTH } from "../lib/kiosk";
+import { lockBodyScroll, unlockBodyScroll } from "../lib/overlay";
+import type { KioskBooking } from "../types/database";
+
+const KIOSK_REFRESH_MS = 30_000;
+
+function formatTime(value: string): string {
+  return value.slice(0, 5);
+}
+
+export function KioskPage() {
+  const { user, exitKioskMode, signOut } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [selectedBooking, setSelectedBooking] = useState<KioskBooking | null>(null);
+  const [pin, setPin] = useState("");
+  const [isExitOpen, setIsExitOpen] = useState(false);
+  const [exitPassword, setExitPassword] = useState("");
+  const [isExiting, setIsExiting] = useState(false);
+
+  const deviceQuery = useQuery({
+    queryKey: ["kiosk-device", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: fetchKioskDevice,
+  });
+
+  const bookingsQuery = useQuery({
+    queryKey: ["kiosk-bookings", user?.id],
+    enabled: Boolean(user?.id && deviceQuery.data),
+    queryFn: fetchKioskBookings,
+    refetchInterval: KIOSK_REFRESH_MS,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: kioskCheckIn,
+    onSuccess: (checkIn) => {
+      setSelectedBooking(null);
+      setPin("");
+      queryClient.invalidateQueries({ queryKey: ["kiosk-bookings", user?.id] });
+      toast.success(
+        checkIn
+          ? `Καλώς ήρθες, ${checkIn.display_name}! Check-in για τις ${formatTime(checkIn.time_start)}.`
+          : "Το check-in ολοκληρώθηκε.",
+      );
+    },
+    onError: (error) => {
+      setSelectedBooking(null);
+      toast.error(formatKioskError(error, "Αποτυχία check-in."));
+    },
+  });
+
+  useEffect(() => {
+    if (!isExitOpen) {
+      return;
+    }
+
+    lockBodyScroll();
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isExiting) {
+        setIsExitOpen(false);
+      }
+    };
+
+    window.addEventListener("keydown", handleEscape);
+    return () => {
+      window.removeEventListener("keydown", handleEscape);
+      unlockBodyScroll();
+    };
+  }, [isExitOpen, isExiting]);
+
+  const handlePinSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!isValidKioskPin(pin)) {
+      toast.error(`Το PIN έχει ${KIOSK_PIN_LENGTH} ψηφία.`);
+      return;
+    }
+    void checkInMutation.mutateAsync({ pin }).catch(() => undefined);
+  };
+
+  const handleExit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsExiting(true);
+    try {
+      await exitKioskMode(exitPassword);
+      queryClient.removeQueries({ queryKey: ["kiosk-bookings"] });
+      queryClient.removeQueries({ queryKey: ["kiosk-device"] });
+      navigate("/calendar", { replace: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η έξοδος από το kiosk.";
+      toast.error(message);
+      setExitPassword("");
+      setIsExiting(false);
+    }
+  };
+
+  const closeExit = () => {
+    setIsExitOpen(false);
+    setExitPassword("");
+  };
+
+  // An unpaired anonymous session (revoked or never claimed) can only leave through the login page.
+  const handleLeaveUnpaired = async () => {
+    try {
+      await signOut();
+      navigate("/login", { replace: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η αποσύνδεση.";
+      toast.error(message);
+    }
+  };
+
+  const bookings = bookingsQuery.data ?? [];
+
+  if (deviceQuery.isLoading) {
+    return <div className="status-box">Φόρτωση kiosk...</div>;
+  }
+
+  if (!deviceQuery.data) {
+    return (
+      <div className="kiosk-page">
+        <section className="card stack-sm">
+          <div className="status-box status-error">
+            {deviceQuery.isError
+              ? "Δεν ήταν δυνατός ο έλεγχος του kiosk."
+              : "Η συσκευή δεν είναι πλέον συνδεδεμένη ως kiosk."}
+          </div>
+          <button type="button" className="button" onClick={() => void handleLeaveUnpaired()}>
+            Σύνδεση ιδιοκτήτη
+          </button>
+        </section>
+      </div>
+    );
+  }
+
+  return (
+    <div className="kiosk-page">
+      <header className="kiosk-header">
+        <h2>Check-in</h2>
+        <p className="muted-text">Πάτησε το όνομά σου ή πληκτρολόγησε το PIN σου.</p>
+      </header>
+
+      <section className="card stack-sm">
+        <h3>Επόμενη ώρα</h3>
+        {bookingsQuery.isLoading ? (
+          <div className="status-box">Φόρτωση κρατήσεων...</div>
+        ) : bookingsQuery.isError ? (
+          <div className="status-box status-error">Δεν ήταν δυνατή η φόρτωση κρατήσεων.</div>
+        ) : bookings.length ? (
+          <div className="kiosk-grid">
+            {bookings.map((booking) => {
+              const isCheckedIn = booking.status === "attended";
+              return (
+                <button
+                  key={booking.attendance_id}
+                  type="button"
+                  className={["kiosk-name-button", isCheckedIn ? "kiosk-name-button-done" : ""].filter(Boolean).join(" ")}
+                  disabled={isCheckedIn || checkInMutation.isPending}
+                  onClick={() => setSelectedBooking(booking)}
+                >
+                  <strong>{booking.display_name}</strong>
+                  <span>
+                    {formatTime(booking.time_start)} · {booking.resource_label}
+                  </span>
+                  {isCheckedIn ? (
+                    <span>
+                      ✓ Check-in{booking.checked_in_at ? ` ${formatCheckInTime(booking.checked_in_at)}` : ""}
+                    </span>
+                  ) : null}
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν κρατήσεις την επόμενη ώρα.</div>
+        )}
+
+        {selectedBooking ? (
+          <div className="kiosk-confirm row space-between align-center wrap gap-sm">
+            <strong>
+              Check-in για {selectedBooking.display_name} στις {formatTime(selectedBooking.time_start)};
+            </strong>
+            <div className="row gap-sm">
+              <button
+                type="button"
+                className="button button-primary"
+                disabled={checkInMutation.isPending}
+                onClick={() =>
+                  void checkInMutation.mutateAsync({ attendanceId: selectedBooking.attendance_id }).catch(() => undefined)
+                }
+              >
+                {checkInMutation.isPending ? "Check-in..." : "Ναι, check-in"}
+              </button>
+              <button
+                type="button"
+                className="button"
+                disabled={checkInMutation.isPending}
+                onClick={() => setSelectedBooking(null)}
+              >
+                Άκυρο
+              </button>
+            </div>
+          </div>
+        ) : null}
+      </section>
+
+      <section className="card stack-sm">
+        <h3>Check-in με PIN</h3>
+        <form className="row gap-sm wrap align-end" onSubmit={handlePinSubmit}>
+          <label className="field-label">
+            <span>PIN</span>
+            <input
+              className="input kiosk-pin-input"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={KIOSK_PIN_LENGTH}
+              value={pin}
+              onChange={(event) => setPin(event.target.value.replace(/\D/g, ""))}
+            />
+          </label>
+          <button
+            type="submit"
+            className="button button-primary"
+            disabled={pin.length !== KIOSK_PIN_LENGTH || checkInMutation.isPending}
+          >
+            Check-in
+          </button>
+        </form>
+      </section>
+
+      <footer className="kiosk-footer">
+        <button type="button" className="button" onClick={() => setIsExitOpen(true)}>
+          Έξοδος
+        </button>
+      </footer>
+
+      {isExitOpen ? (
+        <div className="modal-backdrop" role="presentation" onClick={() => !isExiting && closeExit()}>
+          <div
+            className="modal"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Έξοδος από το kiosk"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <h3>Έξοδος από το kiosk</h3>
+            <form className="stack-sm" onSubmit={handleExit}>
+              <label className="field-label">
+                <span>Κωδικός λογαριασμού</span>
+                <input
+                  className="input"
+                  type="password"
+                  autoComplete="current-password"
+                  value={exitPassword}
+                  onChange={(event) => setExitPassword(event.target.value)}
+                  autoFocus
+                  required
+                />
+              </label>
+              <div className="row gap-sm align-end">
+                <button type="submit" className="button button-primary" disabled={!exitPassword || isExiting}>
+                  {isExiting ? "Έλεγχος..." : "Έξοδος"}
+                </button>
+                <button type="button" className="button" onClick={closeExit} disabled={isExiting}>
+                  Άκυρο
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -7,12 +7,16 @@ import {
   addFollowUpTask,
   fetchActiveClients,
   fetchAutomationSettings,
+  fetchClientTagAssignments,
+  fetchClientTags,
   fetchFollowUpTasks,
   refreshManagementSignals,
   updateAutomationSettings,
   updateFollowUpTask,
 } from "../lib/data";
+import { buildTagIdsByClientId, hasAllTags } from "../lib/clientTags";
 import { toIsoDate } from "../lib/date";
+import { TagFilter } from "../components/TagFilter";
 import type { AutomationSettingsUpdate, FollowUpTaskPriority, FollowUpTaskStatus } from "../types/database";
 
 const STATUS_LABELS: Record<FollowUpTaskStatus, string> = {
@@ -47,6 +51,7 @@ export function OperationsPage() {
   const [newTaskDueDate, setNewTaskDueDate] = useState(todayIso);
   const [newTaskPriority, setNewTaskPriority] = useState<FollowUpTaskPriority>("medium");
   const [settingsDraft, setSettingsDraft] = useState<AutomationSettingsUpdate | null>(null);
+  const [taskTagFilter, setTaskTagFilter] = useState<string[]>([]);
 
   const clientsQuery = useQuery({
     queryKey: ["clients", user?.id],
@@ -66,15 +71,30 @@ export function OperationsPage() {
     queryFn: () => fetchAutomationSettings(user!.id),
   });
 
+  const tagsQuery = useQuery({
+    queryKey: ["client-tags", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTags(user!.id),
+  });
+
+  const tagAssignmentsQuery = useQuery({
+    queryKey: ["client-tag-assignments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTagAssignments(user!.id),
+  });
+
   useEffect(() => {
     if (settingsQuery.data) {
       setSettingsDraft({
         no_show_risk_enabled: settingsQuery.data.no_show_risk_enabled,
         attendance_drop_enabled: settingsQuery.data.attendance_drop_enabled,
         pending_unpaid_risk_enabled: settingsQuery.data.pending_unpaid_risk_enabled,
+        consent_missing_enabled: settingsQuery.data.consent_missing_enabled,
         no_show_threshold: settingsQuery.data.no_show_threshold,
         pending_lessons_threshold: settingsQuery.data.pending_lessons_threshold,
         attendance_drop_ratio: settingsQuery.data.attendance_drop_ratio,
+        consent_expiry_warning_days: settingsQuery.data.consent_expiry_warning_days,
+        auto_mark_attended_enabled: settingsQuery.data.auto_mark_attended_enabled,
       });
     }
   }, [settingsQuery.data]);
@@ -86,6 +106,7 @@ export function OperationsPage() {
       queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] });
       queryClient.invalidateQueries({ queryKey: ["notifications-unread-count", user?.id] });
       queryClient.invalidateQueries({ queryKey: ["automation-settings", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["attendance", user?.id] });
       toast.success(`Ανανέωση σημάτων: ${result.generated_tasks} εργασίες, ${result.generated_notifications} ειδοποιήσεις.`);
     },
     onError: (error) => {
@@ -104,6 +125,7 @@ export function OperationsPage() {
         queryClient.invalidateQueries({ queryKey: ["notifications", user.id] });
         queryClient.invalidateQueries({ queryKey: ["notifications-unread-count", user.id] });
         queryClient.invalidateQueries({ queryKey: ["automation-settings", user.id] });
+        queryClient.invalidateQueries({ queryKey: ["attendance", user.id] });
       })
       .catch(() => {
         // Keep page usable even if background refresh fails.
@@ -170,12 +192,15 @@ export function OperationsPage() {
       today: [],
       upcoming: [],
     };
-    (tasksQuery.data ?? []).forEach((task) => {
-      const bucket = getDueBucket(task.due_date, todayIso);
-      groups[bucket] = [...(groups[bucket] ?? []), task];
-    });
+    const tagIdsByClientId = buildTagIdsByClientId(tagAssignmentsQuery.data ?? []);
+    (tasksQuery.data ?? [])
+      .filter((task) => hasAllTags(tagIdsByClientId.get(task.client_id), taskTagFilter))
+      .forEach((task) => {
+        const bucket = getDueBucket(task.due_date, todayIso);
+        groups[bucket] = [...(groups[bucket] ?? []), task];
+      });
     return groups;
-  }, [tasksQuery.data, todayIso]);
+  }, [tagAssignmentsQuery.data, taskTagFilter, tasksQuery.data, todayIso]);
 
   if (clientsQuery.isLoading || tasksQuery.isLoading || settingsQuery.isLoading) {
     return <div className="status-box">Φόρτωση αυτοματισμών...</div>;
@@ -248,6 +273,36 @@ export function OperationsPage() {
                 Κανόνας απλήρωτων εκκρεμοτήτων
               </span>
             </label>
+            <label className="field-label">
+              <span>
+                <input
+                  type="checkbox"
+                  checked={Boolean(settingsDraft.consent_missing_enabled)}
+                  onChange={(event) =>
+                    setSettingsDraft((previous) => ({
+                      ...(previous ?? {}),
+                      consent_missing_enabled: event.target.checked,
+                    }))
+                  }
+                />{" "}
+                Κανόνας εκκρεμών συναινέσεων
+              </span>
+            </label>
+            <label className="field-label">
+              <span>
+                <input
+                  type="checkbox"
+                  checked={Boolean(settingsDraft.auto_mark_attended_enabled)}
+                  onChange={(event) =>
+                    setSettingsDraft((previous) => ({
+                      ...(previous ?? {}),
+                      auto_mark_attended_enabled: event.target.checked,
+                    }))
+                  }
+                />{" "}
+                Αυτόματη παρουσία σε κρατήσεις προηγούμενων ημερών
+              </span>
+            </label>
             <label className="field-label">
               <span>Όριο μη προσέλευσης</span>
               <input
@@ -295,6 +350,21 @@ export function OperationsPage() {
                 }
               />
             </label>
+            <label className="field-label">
+              <span>Προειδοποίηση λήξης συναίνεσης (ημέρες)</span>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                value={settingsDraft.consent_expiry_warning_days ?? 30}
+                onChange={(event) =>
+                  setSettingsDraft((previous) => ({
+                    ...(previous ?? {}),
+                    consent_expiry_warning_days: Math.max(0, Number.parseInt(event.target.value, 10) || 0),
+                  }))
+                }
+              />
+            </label>
             <button
               type="button"
               className="button button-primary"
@@ -309,6 +379,12 @@ export function OperationsPage() {
 
       <article className="card stack-sm">
         <h3>Εργασίες παρακολούθησης</h3>
+        <TagFilter
+          tags={tagsQuery.data ?? []}
+          selectedTagIds={taskTagFilter}
+          onChange={setTaskTagFilter}
+          allLabel="Όλες οι ετικέτες"
+        />
         {(["overdue", "today", "upcoming"] as const).map((bucket) => {
           const title = bucket === "overdue" ? "Ληξιπρόθεσμα" : bucket === "today" ? "Σήμερα" : "Επόμενα";
           const items = groupedTasks[bucket] ?? [];
@@ -1,13 +1,40 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "../auth/AuthProvider";
-import { addClient, fetchActiveClients, fetchPaymentsForMonth, upsertPayment } from "../lib/data";
-import { addMonths, startOfMonth, toIsoDate } from "../lib/date";
+import {
+  addClient,
+  addPackage,
+  addPaymentTransaction,
+  fetchActiveClients,
+  fetchClientSegments,
+  fetchClientTagAssignments,
+  fetchClientTags,
+  fetchPackagesForMonth,
+  fetchStudioSettings,
+  issueReceipt,
+  updatePackage,
+} from "../lib/data";
+import { buildTagIdsByClientId, hasAllTags, matchesClientSegment } from "../lib/clientTags";
+import { addDays, addMonths, startOfMonth, toIsoDate } from "../lib/date";
+import { exportMoney, exportTable, type ExportFormat } from "../lib/export";
 import { formatCurrencyEUR } from "../lib/format";
+import { summarizePackagesByClient, type MonthlyPackageSummary } from "../lib/packages";
+import { printReceipt } from "../lib/receipt";
 import { MonthPicker } from "../components/MonthPicker";
 import { AddClientDialog } from "../components/AddClientDialog";
-import { PaymentDraft, PaymentsGrid, SaveStatus } from "../components/PaymentsGrid";
-import type { Client, Payment } from "../types/database";
+import { AddPaymentDialog, type PaymentInput } from "../components/AddPaymentDialog";
+import { ExportButtons } from "../components/ExportButtons";
+import { SegmentPicker } from "../components/SegmentPicker";
+import { TagFilter } from "../components/TagFilter";
+import {
+  PaymentDraft,
+  PaymentGridRow,
+  PaymentsGrid,
+  SaveStatus,
+  getPaymentStatus,
+  getPaymentStatusLabel,
+} from "../components/PaymentsGrid";
+import type { Client, ClientPackage, ClientPackageUpdate } from "../types/database";
 import { toast } from "sonner";
 
 type PaymentsFilter = "all" | "unpaid" | "paid" | "no_record";
@@ -28,11 +55,11 @@ function parsePrice(value: string): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
-function getPaymentPriority(payment?: Payment): number {
-  if (!payment) {
+function getPaymentPriority(summary?: MonthlyPackageSummary): number {
+  if (!summary) {
     return 1;
   }
-  if (!payment.paid) {
+  if (!summary.paid) {
     return 0;
   }
   return 2;
@@ -44,13 +71,18 @@ export function PaymentsPage() {
   const [selectedMonth, setSelectedMonth] = useState(() => startOfMonth(new Date()));
   const [clientSearch, setClientSearch] = useState("");
   const [activeFilter, setActiveFilter] = useState<PaymentsFilter>("all");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [segmentId, setSegmentId] = useState("");
   const [isCopyPanelOpen, setIsCopyPanelOpen] = useState(false);
   const [isCopyingPreviousMonth, setIsCopyingPreviousMonth] = useState(false);
   const [savingCountByClientId, setSavingCountByClientId] = useState<Record<string, number>>({});
   const [saveErrorByClientId, setSaveErrorByClientId] = useState<Record<string, boolean>>({});
+  const [paymentRow, setPaymentRow] = useState<PaymentGridRow | null>(null);
   const saveQueueByClientIdRef = useRef<Record<string, Promise<void>>>({});
 
   const monthStart = toIsoDate(startOfMonth(selectedMonth));
+  const nextMonthStart = toIsoDate(addMonths(startOfMonth(selectedMonth), 1));
+  const monthEnd = toIsoDate(addDays(addMonths(startOfMonth(selectedMonth), 1), -1));
   const previousMonthDate = addMonths(selectedMonth, -1);
   const previousMonthStart = toIsoDate(startOfMonth(previousMonthDate));
   const previousMonthLabel = new Intl.DateTimeFormat("el-GR", {
@@ -65,15 +97,39 @@ export function PaymentsPage() {
   });
 
   const paymentsQuery = useQuery({
-    queryKey: ["payments", user?.id, monthStart],
+    queryKey: ["packages", user?.id, monthStart],
     enabled: Boolean(user?.id),
-    queryFn: () => fetchPaymentsForMonth(user!.id, monthStart),
+    queryFn: () => fetchPackagesForMonth(user!.id, monthStart, nextMonthStart),
   });
 
   const previousPaymentsQuery = useQuery({
-    queryKey: ["payments", user?.id, previousMonthStart],
+    queryKey: ["packages", user?.id, previousMonthStart],
     enabled: Boolean(user?.id),
-    queryFn: () => fetchPaymentsForMonth(user!.id, previousMonthStart),
+    queryFn: () => fetchPackagesForMonth(user!.id, previousMonthStart, monthStart),
+  });
+
+  const studioSettingsQuery = useQuery({
+    queryKey: ["studio-settings", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchStudioSettings(user!.id),
+  });
+
+  const tagsQuery = useQuery({
+    queryKey: ["client-tags", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTags(user!.id),
+  });
+
+  const tagAssignmentsQuery = useQuery({
+    queryKey: ["client-tag-assignments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTagAssignments(user!.id),
+  });
+
+  const segmentsQuery = useQuery({
+    queryKey: ["client-segments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientSegments(user!.id),
   });
 
   const addClientMutation = useMutation({
@@ -87,6 +143,7 @@ export function PaymentsPage() {
       queryClient.setQueryData<Client[]>(["clients", user?.id], (current = []) => {
         return [...current, createdClient].sort((a, b) => a.full_name.localeCompare(b.full_name));
       });
+      queryClient.invalidateQueries({ queryKey: ["clients-all", user?.id] });
       toast.success("Ο πελάτης προστέθηκε.");
     },
     onError: (error) => {
@@ -95,27 +152,61 @@ export function PaymentsPage() {
     },
   });
 
+  // A month row edits that month's only package, or creates one covering the month as before.
   const paymentMutation = useMutation({
-    mutationFn: upsertPayment,
+    mutationFn: ({ clientId, existingId, input }: { clientId: string; existingId?: string; input: ClientPackageUpdate }) =>
+      existingId
+        ? updatePackage(existingId, input)
+        : addPackage({
+            user_id: user!.id,
+            client_id: clientId,
+            purchase_date: monthStart,
+            expires_on: monthEnd,
+            lessons: input.lessons ?? 0,
+            price: input.price ?? null,
+            notes: input.notes ?? null,
+          }),
     onError: (error) => {
       const message = error instanceof Error ? error.message : "Δεν ήταν δυνατή η αποθήκευση πληρωμής.";
       toast.error(message);
     },
   });
 
+  const recordPaymentMutation = useMutation({
+    mutationFn: ({ clientId, input }: { clientId: string; input: PaymentInput }) =>
+      addPaymentTransaction({ ...input, user_id: user!.id, client_id: clientId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["packages", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["payment-transactions", user?.id] });
+      toast.success("Η πληρωμή καταχωρήθηκε.");
+    },
+  });
+
+  const issueReceiptMutation = useMutation({
+    mutationFn: (transactionId: string) => issueReceipt(transactionId),
+    onSuccess: (receipt) => {
+      queryClient.invalidateQueries({ queryKey: ["receipts", user?.id] });
+      printReceipt(receipt, studioSettingsQuery.data ?? null);
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Η πληρωμή καταχωρήθηκε, αλλά η απόδειξη δεν εκδόθηκε.";
+      toast.error(message);
+    },
+  });
+
   const rows = useMemo(() => {
     const clients = clientsQuery.data ?? [];
-    const paymentByClientId = new Map((paymentsQuery.data ?? []).map((payment) => [payment.client_id, payment]));
+    const summaryByClientId = summarizePackagesByClient(paymentsQuery.data ?? []);
     return clients.map((client) => ({
       client,
-      payment: paymentByClientId.get(client.id),
+      summary: summaryByClientId.get(client.id),
     }));
   }, [clientsQuery.data, paymentsQuery.data]);
 
   const sortedRows = useMemo(() => {
     return [...rows].sort((a, b) => {
-      const priorityA = getPaymentPriority(a.payment);
-      const priorityB = getPaymentPriority(b.payment);
+      const priorityA = getPaymentPriority(a.summary);
+      const priorityB = getPaymentPriority(b.summary);
       if (priorityA !== priorityB) {
         return priorityA - priorityB;
       }
@@ -123,17 +214,45 @@ export function PaymentsPage() {
     });
   }, [rows]);
 
+  const tagIdsByClientId = useMemo(
+    () => buildTagIdsByClientId(tagAssignmentsQuery.data ?? []),
+    [tagAssignmentsQuery.data],
+  );
+
+  const selectedSegment = useMemo(
+    () => (segmentsQuery.data ?? []).find((segment) => segment.id === segmentId) ?? null,
+    [segmentId, segmentsQuery.data],
+  );
+
   const filteredRows = useMemo(() => {
     const normalized = clientSearch.trim().toLowerCase();
 
     return sortedRows.filter((row) => {
-      if (activeFilter === "unpaid" && (!row.payment || row.payment.paid)) {
+      const clientTagIds = tagIdsByClientId.get(row.client.id);
+      if (!hasAllTags(clientTagIds, tagFilter)) {
         return false;
       }
-      if (activeFilter === "paid" && (!row.payment || !row.payment.paid)) {
+      if (
+        selectedSegment &&
+        !matchesClientSegment(
+          {
+            isActive: row.client.is_active,
+            paymentStatus: !row.summary ? "no_record" : row.summary.paid ? "paid" : "unpaid",
+            tagIds: clientTagIds,
+          },
+          selectedSegment.filters,
+        )
+      ) {
         return false;
       }
-      if (activeFilter === "no_record" && row.payment) {
+
+      if (activeFilter === "unpaid" && (!row.summary || row.summary.paid)) {
+        return false;
+      }
+      if (activeFilter === "paid" && (!row.summary || !row.summary.paid)) {
+        return false;
+      }
+      if (activeFilter === "no_record" && row.summary) {
         return false;
       }
 
@@ -145,16 +264,34 @@ export function PaymentsPage() {
       const phone = row.client.phone?.toLowerCase() ?? "";
       return name.includes(normalized) || phone.includes(normalized);
     });
-  }, [activeFilter, clientSearch, sortedRows]);
+  }, [activeFilter, clientSearch, selectedSegment, sortedRows, tagFilter, tagIdsByClientId]);
+
+  const handleExport = (format: ExportFormat) => {
+    exportTable(format, {
+      filename: `payments-${monthStart.slice(0, 7)}`,
+      sheetName: `Πληρωμές ${monthStart.slice(0, 7)}`,
+      rows: filteredRows,
+      columns: [
+        { header: "Πελάτης", value: (row) => row.client.full_name },
+        { header: "Τηλέφωνο", value: (row) => row.client.phone },
+        { header: "Μαθήματα", value: (row) => row.summary?.lessons ?? null },
+        { header: "Τιμή", value: (row) => exportMoney(row.summary?.price) },
+        { header: "Πληρώθηκαν", value: (row) => exportMoney(row.summary?.paidAmount) },
+        { header: "Υπόλοιπο", value: (row) => exportMoney(row.summary?.outstanding) },
+        { header: "Κατάσταση", value: (row) => getPaymentStatusLabel(getPaymentStatus(row.summary)) },
+        { header: "Σημειώσεις", value: (row) => row.summary?.notes ?? null },
+      ],
+    });
+  };
 
   const paymentsOverview = useMemo(() => {
     const totalClients = rows.length;
-    const unpaidRows = rows.filter((row) => row.payment && !row.payment.paid);
-    const paidRows = rows.filter((row) => row.payment?.paid);
-    const noRecordRows = rows.filter((row) => !row.payment);
+    const unpaidRows = rows.filter((row) => row.summary && !row.summary.paid);
+    const paidRows = rows.filter((row) => row.summary?.paid);
+    const noRecordRows = rows.filter((row) => !row.summary);
 
-    const totalAmount = rows.reduce((sum, row) => sum + (row.payment?.price ?? 0), 0);
-    const unpaidAmount = unpaidRows.reduce((sum, row) => sum + (row.payment?.price ?? 0), 0);
+    const totalAmount = rows.reduce((sum, row) => sum + (row.summary?.price ?? 0), 0);
+    const unpaidAmount = unpaidRows.reduce((sum, row) => sum + (row.summary?.outstanding ?? 0), 0);
 
     return {
       totalClients,
@@ -167,21 +304,21 @@ export function PaymentsPage() {
   }, [rows]);
 
   const previousPaymentByClientId = useMemo(() => {
-    return new Map((previousPaymentsQuery.data ?? []).map((payment) => [payment.client_id, payment]));
+    return summarizePackagesByClient(previousPaymentsQuery.data ?? []);
   }, [previousPaymentsQuery.data]);
 
   const copyCandidates = useMemo(() => {
     return rows
       .map((row) => {
         const previousPayment = previousPaymentByClientId.get(row.client.id);
-        if (!previousPayment) {
+        if (!previousPayment || (row.summary?.packages.length ?? 0) > 1) {
           return null;
         }
 
-        const nextLessons = previousPayment.lessons != null ? String(previousPayment.lessons) : "";
+        const nextLessons = String(previousPayment.lessons);
         const nextPrice = previousPayment.price != null ? String(previousPayment.price) : "";
-        const currentLessons = row.payment?.lessons != null ? String(row.payment.lessons) : "";
-        const currentPrice = row.payment?.price != null ? String(row.payment.price) : "";
+        const currentLessons = row.summary ? String(row.summary.lessons) : "";
+        const currentPrice = row.summary?.price != null ? String(row.summary.price) : "";
 
         if (nextLessons === currentLessons && nextPrice === currentPrice) {
           return null;
@@ -192,8 +329,7 @@ export function PaymentsPage() {
           draft: {
             lessons: nextLessons,
             price: nextPrice,
-            paid: row.payment?.paid ?? false,
-            notes: row.payment?.notes ?? "",
+            notes: row.summary?.notes ?? "",
           } satisfies PaymentDraft,
         };
       })
@@ -248,18 +384,19 @@ export function PaymentsPage() {
 
     updateSavingCount(clientId, 1);
     try {
+      const existingPackages = (paymentsQuery.data ?? []).filter((lessonPackage) => lessonPackage.client_id === clientId);
       const savedPayment = await paymentMutation.mutateAsync({
-        user_id: user.id,
-        client_id: clientId,
-        month_start: monthStart,
-        lessons: parseLessons(draft.lessons),
-        price: parsePrice(draft.price),
-        paid: draft.paid,
-        notes: draft.notes.trim() ? draft.notes.trim() : null,
+        clientId,
+        existingId: existingPackages[0]?.id,
+        input: {
+          lessons: parseLessons(draft.lessons) ?? 0,
+          price: parsePrice(draft.price),
+          notes: draft.notes.trim() ? draft.notes.trim() : null,
+        },
       });
 
-      queryClient.setQueryData<Payment[]>(["payments", user.id, monthStart], (current = []) => {
-        const existingIndex = current.findIndex((payment) => payment.client_id === savedPayment.client_id);
+      queryClient.setQueryData<ClientPackage[]>(["packages", user.id, monthStart], (current = []) => {
+        const existingIndex = current.findIndex((lessonPackage) => lessonPackage.id === savedPayment.id);
         if (existingIndex >= 0) {
           const next = [...current];
           next[existingIndex] = savedPayment;
@@ -267,6 +404,7 @@ export function PaymentsPage() {
         }
         return [...current, savedPayment];
       });
+      queryClient.invalidateQueries({ queryKey: ["packages", user.id, "client", clientId] });
 
       markSaveError(clientId, false);
     } catch {
@@ -348,7 +486,7 @@ export function PaymentsPage() {
   }, [rows, saveErrorByClientId, savingCountByClientId]);
 
   const emptyMessage =
-    clientSearch.trim() || activeFilter !== "all"
+    clientSearch.trim() || activeFilter !== "all" || tagFilter.length || selectedSegment
       ? "Δεν βρέθηκαν πελάτες για τα τρέχοντα φίλτρα/αναζήτηση."
       : "Δεν υπάρχουν πελάτες για εμφάνιση.";
 
@@ -487,14 +625,47 @@ export function PaymentsPage() {
             Χωρίς εγγραφή πληρωμής ({paymentsOverview.noRecordCount})
           </button>
         </div>
+
+        <SegmentPicker
+          segments={segmentsQuery.data ?? []}
+          tags={tagsQuery.data ?? []}
+          value={segmentId}
+          onChange={setSegmentId}
+        />
+
+        <ExportButtons disabled={!filteredRows.length} onExport={handleExport} />
       </div>
 
+      <TagFilter
+        tags={tagsQuery.data ?? []}
+        selectedTagIds={tagFilter}
+        onChange={setTagFilter}
+        allLabel="Όλες οι ετικέτες"
+      />
+
       <PaymentsGrid
         rows={filteredRows}
         saveStatusByClientId={saveStatusByClientId}
         onSave={handleSavePayment}
+        onRecordPayment={setPaymentRow}
         emptyMessage={emptyMessage}
       />
+
+      <AddPaymentDialog
+        isOpen={Boolean(paymentRow)}
+        clientName={paymentRow?.client.full_name ?? ""}
+        packages={paymentRow?.summary?.packages ?? []}
+        onClose={() => setPaymentRow(null)}
+        onSave={async (input, options) => {
+          if (!paymentRow) {
+            return;
+          }
+          const transaction = await recordPaymentMutation.mutateAsync({ clientId: paymentRow.client.id, input });
+          if (options.issueReceipt) {
+            issueReceiptMutation.mutate(transaction.id);
+          }
+        }}
+      />
     </section>
   );
 }
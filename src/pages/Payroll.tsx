@@ -0,0 +1,543 @@
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import {
+  addInstructorPayRate,
+  deleteInstructorPayRate,
+  fetchAttendanceForMonth,
+  fetchInstructorPayRates,
+  fetchInstructors,
+  fetchResources,
+  fetchStudioSettings,
+  updateInstructorPayRate,
+} from "../lib/data";
+import { addDays, addMonths, parseIsoDate, startOfMonth, toIsoDate } from "../lib/date";
+import { downloadCsv, type CsvCell } from "../lib/download";
+import { formatCurrencyEUR } from "../lib/format";
+import { PAY_RATE_TYPE_LABELS, buildPayrollRows, type PayrollRow } from "../lib/payroll";
+import { buildResourceLookup, formatResourceLabel, sortResources } from "../lib/resources";
+import { DEFAULT_SLOT_MINUTES } from "../lib/schedule";
+import { MonthPicker } from "../components/MonthPicker";
+import type { InstructorPayRate, InstructorPayRateUpdate, PayRateType } from "../types/database";
+
+type RangeMode = "month" | "custom";
+type PayRateDraft = Required<Pick<InstructorPayRateUpdate, "bed_type" | "rate_type" | "amount">>;
+
+const PAY_RATE_TYPES: PayRateType[] = ["per_session", "per_hour"];
+
+function formatCsvAmount(value: number): string {
+  return value.toFixed(2).replace(".", ",");
+}
+
+function formatHours(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(".", ",");
+}
+
+export function PayrollPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [rangeMode, setRangeMode] = useState<RangeMode>("month");
+  const [selectedMonth, setSelectedMonth] = useState(() => startOfMonth(new Date()));
+  const [customFrom, setCustomFrom] = useState(() => toIsoDate(startOfMonth(new Date())));
+  const [customTo, setCustomTo] = useState(() => toIsoDate(new Date()));
+  const [rateDrafts, setRateDrafts] = useState<Record<string, PayRateDraft>>({});
+  const [newRateInstructorId, setNewRateInstructorId] = useState("");
+  const [newRateBedType, setNewRateBedType] = useState("");
+  const [newRateType, setNewRateType] = useState<PayRateType>("per_session");
+  const [newRateAmount, setNewRateAmount] = useState("");
+
+  const isCustomRangeValid = Boolean(customFrom && customTo && customFrom <= customTo);
+  const rangeStart = rangeMode === "month" ? toIsoDate(selectedMonth) : customFrom;
+  const rangeEndExclusive =
+    rangeMode === "month"
+      ? toIsoDate(addMonths(selectedMonth, 1))
+      : isCustomRangeValid
+        ? toIsoDate(addDays(parseIsoDate(customTo), 1))
+        : customFrom;
+  const rangeEnd = toIsoDate(addDays(parseIsoDate(rangeEndExclusive), -1));
+
+  const attendanceQuery = useQuery({
+    queryKey: ["attendance", user?.id, rangeStart, rangeEndExclusive, "payroll"],
+    enabled: Boolean(user?.id) && (rangeMode === "month" || isCustomRangeValid),
+    queryFn: () => fetchAttendanceForMonth(user!.id, rangeStart, rangeEndExclusive),
+  });
+
+  const instructorsQuery = useQuery({
+    queryKey: ["instructors", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchInstructors(user!.id),
+  });
+
+  const payRatesQuery = useQuery({
+    queryKey: ["instructor-pay-rates", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchInstructorPayRates(user!.id),
+  });
+
+  const resourcesQuery = useQuery({
+    queryKey: ["resources", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchResources(user!.id),
+  });
+
+  const studioSettingsQuery = useQuery({
+    queryKey: ["studio-settings", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchStudioSettings(user!.id),
+  });
+
+  useEffect(() => {
+    const nextDrafts: Record<string, PayRateDraft> = {};
+    (payRatesQuery.data ?? []).forEach((rate) => {
+      nextDrafts[rate.id] = {
+        bed_type: rate.bed_type,
+        rate_type: rate.rate_type,
+        amount: rate.amount,
+      };
+    });
+    setRateDrafts(nextDrafts);
+  }, [payRatesQuery.data]);
+
+  const resourceLookup = useMemo(() => buildResourceLookup(resourcesQuery.data ?? []), [resourcesQuery.data]);
+  const sortedResources = useMemo(() => sortResources(resourcesQuery.data ?? []), [resourcesQuery.data]);
+
+  const instructorsById = useMemo(
+    () => new Map((instructorsQuery.data ?? []).map((instructor) => [instructor.id, instructor])),
+    [instructorsQuery.data],
+  );
+
+  const payrollRows = useMemo(
+    () =>
+      buildPayrollRows(
+        attendanceQuery.data ?? [],
+        instructorsQuery.data ?? [],
+        payRatesQuery.data ?? [],
+        studioSettingsQuery.data?.slot_minutes ?? DEFAULT_SLOT_MINUTES,
+      ),
+    [attendanceQuery.data, instructorsQuery.data, payRatesQuery.data, studioSettingsQuery.data],
+  );
+
+  const unassignedCount = useMemo(
+    () => (attendanceQuery.data ?? []).filter((session) => !session.instructor_id).length,
+    [attendanceQuery.data],
+  );
+
+  const totalAmount = payrollRows.reduce((sum, row) => sum + row.amount, 0);
+
+  const invalidateRates = () => queryClient.invalidateQueries({ queryKey: ["instructor-pay-rates", user?.id] });
+
+  const addRateMutation = useMutation({
+    mutationFn: (amount: number) =>
+      addInstructorPayRate({
+        user_id: user!.id,
+        instructor_id: newRateInstructorId,
+        bed_type: newRateBedType || null,
+        rate_type: newRateType,
+        amount,
+      }),
+    onSuccess: () => {
+      setNewRateAmount("");
+      invalidateRates();
+      toast.success("Η τιμή αμοιβής προστέθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία προσθήκης τιμής αμοιβής.";
+      toast.error(message);
+    },
+  });
+
+  const updateRateMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: InstructorPayRateUpdate }) => updateInstructorPayRate(id, input),
+    onSuccess: () => {
+      invalidateRates();
+      toast.success("Η τιμή αμοιβής ενημερώθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενημέρωσης τιμής αμοιβής.";
+      toast.error(message);
+    },
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: (id: string) => deleteInstructorPayRate(id),
+    onSuccess: () => {
+      invalidateRates();
+      toast.success("Η τιμή αμοιβής διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία διαγραφής τιμής αμοιβής.";
+      toast.error(message);
+    },
+  });
+
+  const updateRateDraft = (id: string, patch: Partial<PayRateDraft>) => {
+    setRateDrafts((previous) => ({
+      ...previous,
+      [id]: { ...previous[id], ...patch },
+    }));
+  };
+
+  const handleAddRate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const amount = Number.parseFloat(newRateAmount.replace(",", "."));
+
+    if (!newRateInstructorId) {
+      toast.error("Επίλεξε εκπαιδευτή.");
+      return;
+    }
+    if (!Number.isFinite(amount) || amount < 0) {
+      toast.error("Το ποσό πρέπει να είναι μηδέν ή θετικό.");
+      return;
+    }
+
+    await addRateMutation.mutateAsync(amount);
+  };
+
+  const handleSaveRate = async (rate: InstructorPayRate) => {
+    const draft = rateDrafts[rate.id];
+    if (!draft) {
+      return;
+    }
+    if (!Number.isFinite(draft.amount) || draft.amount < 0) {
+      toast.error("Το ποσό πρέπει να είναι μηδέν ή θετικό.");
+      return;
+    }
+
+    await updateRateMutation.mutateAsync({ id: rate.id, input: draft });
+  };
+
+  const handleExportStatement = (row: PayrollRow) => {
+    const rows: CsvCell[][] = [
+      ["Κατάσταση αμοιβής", row.fullName],
+      ["Περίοδος", `${rangeStart} - ${rangeEnd}`],
+      [],
+      ["Ημερομηνία", "Ώρα", "Εξοπλισμός", "Παρ.", "Απουσ.", "Ακυρ.", "Κρατ.", "Διάρκεια (λεπτά)", "Τιμή", "Ποσό"],
+      ...row.classes.map((payrollClass) => [
+        payrollClass.sessionDate,
+        payrollClass.timeStart ?? "",
+        formatResourceLabel(payrollClass.bedType, resourceLookup),
+        payrollClass.attended,
+        payrollClass.noShow,
+        payrollClass.canceled,
+        payrollClass.booked,
+        payrollClass.durationMinutes,
+        payrollClass.rate
+          ? `${formatCsvAmount(payrollClass.rate.amount)} ${PAY_RATE_TYPE_LABELS[payrollClass.rate.rate_type]}`
+          : "Χωρίς τιμή",
+        formatCsvAmount(payrollClass.amount),
+      ]),
+      [],
+      ["Σύνολο", "", "", row.attended, row.noShow, row.canceled, row.booked, "", "", formatCsvAmount(row.amount)],
+      ["Ώρες με αμοιβή", formatHours(row.paidHours)],
+    ];
+
+    downloadCsv(`payroll-${rangeStart}-${rangeEnd}-${row.fullName}.csv`, rows);
+  };
+
+  if (
+    instructorsQuery.isLoading ||
+    payRatesQuery.isLoading ||
+    resourcesQuery.isLoading ||
+    studioSettingsQuery.isLoading ||
+    attendanceQuery.isLoading
+  ) {
+    return <div className="status-box">Φόρτωση μισθοδοσίας...</div>;
+  }
+
+  if (
+    instructorsQuery.isError ||
+    payRatesQuery.isError ||
+    resourcesQuery.isError ||
+    studioSettingsQuery.isError ||
+    attendanceQuery.isError
+  ) {
+    const message =
+      (instructorsQuery.error instanceof Error && instructorsQuery.error.message) ||
+      (payRatesQuery.error instanceof Error && payRatesQuery.error.message) ||
+      (resourcesQuery.error instanceof Error && resourcesQuery.error.message) ||
+      (studioSettingsQuery.error instanceof Error && studioSettingsQuery.error.message) ||
+      (attendanceQuery.error instanceof Error && attendanceQuery.error.message) ||
+      "Δεν ήταν δυνατή η φόρτωση της μισθοδοσίας.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const instructors = instructorsQuery.data ?? [];
+  const activeInstructors = instructors.filter((instructor) => instructor.is_active);
+  const payRates = payRatesQuery.data ?? [];
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-end wrap gap-sm">
+        <h2>Μισθοδοσία εκπαιδευτών</h2>
+        <div className="row gap-sm align-end wrap">
+          <label className="field-label">
+            <span>Περίοδος</span>
+            <select
+              className="input"
+              value={rangeMode}
+              onChange={(event) => setRangeMode(event.target.value as RangeMode)}
+            >
+              <option value="month">Μήνας</option>
+              <option value="custom">Προσαρμοσμένο διάστημα</option>
+            </select>
+          </label>
+          {rangeMode === "month" ? (
+            <MonthPicker label="Μήνας αναφοράς" value={selectedMonth} onChange={setSelectedMonth} />
+          ) : (
+            <>
+              <label className="field-label">
+                <span>Από</span>
+                <input
+                  className="input"
+                  type="date"
+                  value={customFrom}
+                  onChange={(event) => setCustomFrom(event.target.value)}
+                />
+              </label>
+              <label className="field-label">
+                <span>Έως</span>
+                <input
+                  className="input"
+                  type="date"
+                  value={customTo}
+                  onChange={(event) => setCustomTo(event.target.value)}
+                />
+              </label>
+            </>
+          )}
+        </div>
+      </div>
+
+      <article className="card stack-sm">
+        <h3>Αμοιβές περιόδου</h3>
+        <p className="muted-text">
+          Αμείβονται οι παρουσίες και οι απουσίες (η θέση κρατήθηκε), όχι οι ακυρώσεις. Η τιμή ανά ώρα χρεώνεται μία φορά
+          ανά τμήμα (ίδια ημέρα, ώρα και εξοπλισμός), ανεξάρτητα από τον αριθμό πελατών.
+        </p>
+        {rangeMode === "custom" && !isCustomRangeValid ? (
+          <div className="status-box status-error">Η ημερομηνία έναρξης πρέπει να είναι πριν ή ίδια με τη λήξη.</div>
+        ) : payrollRows.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Εκπαιδευτής</th>
+                  <th>Παρ.</th>
+                  <th>Απουσ.</th>
+                  <th>Ακυρ.</th>
+                  <th>Κρατ.</th>
+                  <th>Ώρες</th>
+                  <th>Ποσό</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {payrollRows.map((row) => (
+                  <tr key={row.instructorId}>
+                    <td>
+                      <div className="row gap-sm align-center wrap">
+                        <span>{row.fullName}</span>
+                        {!row.isActive ? <span className="client-control-badge client-control-badge-muted">Ανενεργός</span> : null}
+                        {row.missingRate ? (
+                          <span className="client-control-badge client-control-badge-unpaid">Χωρίς τιμή αμοιβής</span>
+                        ) : null}
+                      </div>
+                    </td>
+                    <td>{row.attended}</td>
+                    <td>{row.noShow}</td>
+                    <td>{row.canceled}</td>
+                    <td>{row.booked}</td>
+                    <td>{formatHours(row.paidHours)}</td>
+                    <td>{formatCurrencyEUR(row.amount)}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="button"
+                        disabled={!row.classes.length}
+                        onClick={() => handleExportStatement(row)}
+                      >
+                        Εξαγωγή CSV
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <th colSpan={6}>Σύνολο</th>
+                  <th>{formatCurrencyEUR(totalAmount)}</th>
+                  <th />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν εκπαιδευτές. Πρόσθεσέ τους από τις Ρυθμίσεις.</div>
+        )}
+        {unassignedCount > 0 ? (
+          <p className="muted-text">
+            {unassignedCount} συνεδρίες της περιόδου δεν έχουν εκπαιδευτή και δεν περιλαμβάνονται στη μισθοδοσία.
+          </p>
+        ) : null}
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Τιμές αμοιβής</h3>
+        <p className="muted-text">
+          Η τιμή χωρίς εξοπλισμό ισχύει για όλο τον εξοπλισμό που δεν έχει δική του τιμή για τον ίδιο εκπαιδευτή.
+        </p>
+
+        {payRates.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Εκπαιδευτής</th>
+                  <th>Εξοπλισμός</th>
+                  <th>Τύπος</th>
+                  <th>Ποσό</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {payRates.map((rate) => {
+                  const draft = rateDrafts[rate.id];
+                  if (!draft) {
+                    return null;
+                  }
+                  return (
+                    <tr key={rate.id}>
+                      <td>{instructorsById.get(rate.instructor_id)?.full_name ?? "Άγνωστος εκπαιδευτής"}</td>
+                      <td>
+                        <select
+                          className="input table-input"
+                          value={draft.bed_type ?? ""}
+                          aria-label="Εξοπλισμός"
+                          onChange={(event) => updateRateDraft(rate.id, { bed_type: event.target.value || null })}
+                        >
+                          <option value="">Όλος ο εξοπλισμός</option>
+                          {sortedResources.map((resource) => (
+                            <option key={resource.key} value={resource.key}>
+                              {resource.label}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <select
+                          className="input table-input"
+                          value={draft.rate_type}
+                          aria-label="Τύπος τιμής"
+                          onChange={(event) => updateRateDraft(rate.id, { rate_type: event.target.value as PayRateType })}
+                        >
+                          {PAY_RATE_TYPES.map((rateType) => (
+                            <option key={rateType} value={rateType}>
+                              {PAY_RATE_TYPE_LABELS[rateType]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <input
+                          className="input table-input"
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={draft.amount}
+                          aria-label="Ποσό"
+                          onChange={(event) =>
+                            updateRateDraft(rate.id, { amount: Number.parseFloat(event.target.value) || 0 })
+                          }
+                        />
+                      </td>
+                      <td>
+                        <div className="row gap-sm">
+                          <button
+                            type="button"
+                            className="button"
+                            onClick={() => void handleSaveRate(rate)}
+                            disabled={updateRateMutation.isPending}
+                          >
+                            Αποθήκευση
+                          </button>
+                          <button
+                            type="button"
+                            className="button"
+                            onClick={() => deleteRateMutation.mutate(rate.id)}
+                            disabled={deleteRateMutation.isPending}
+                          >
+                            Διαγραφή
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-state">Δεν έχουν οριστεί τιμές αμοιβής.</div>
+        )}
+
+        <form className="row gap-sm wrap align-end" onSubmit={handleAddRate}>
+          <label className="field-label">
+            <span>Εκπαιδευτής</span>
+            <select
+              className="input"
+              value={newRateInstructorId}
+              onChange={(event) => setNewRateInstructorId(event.target.value)}
+            >
+              <option value="">Επιλογή...</option>
+              {activeInstructors.map((instructor) => (
+                <option key={instructor.id} value={instructor.id}>
+                  {instructor.full_name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            <span>Εξοπλισμός</span>
+            <select className="input" value={newRateBedType} onChange={(event) => setNewRateBedType(event.target.value)}>
+              <option value="">Όλος ο εξοπλισμός</option>
+              {sortedResources.map((resource) => (
+                <option key={resource.key} value={resource.key}>
+                  {resource.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            <span>Τύπος</span>
+            <select
+              className="input"
+              value={newRateType}
+              onChange={(event) => setNewRateType(event.target.value as PayRateType)}
+            >
+              {PAY_RATE_TYPES.map((rateType) => (
+                <option key={rateType} value={rateType}>
+                  {PAY_RATE_TYPE_LABELS[rateType]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            <span>Ποσό (€)</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step="0.01"
+              value={newRateAmount}
+              onChange={(event) => setNewRateAmount(event.target.value)}
+            />
+          </label>
+          <button type="submit" className="button button-primary" disabled={addRateMutation.isPending}>
+            {addRateMutation.isPending ? "Προσθήκη..." : "Προσθήκη"}
+          </button>
+        </form>
+      </article>
+    </section>
+  );
+}
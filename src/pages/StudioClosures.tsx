@@ -0,0 +1,285 @@
+import { FormEvent, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import { addClosures, deleteClosure, fetchClosuresForRange } from "../lib/data";
+import { isFullDayClosure } from "../lib/closures";
+import { parseIsoDate } from "../lib/date";
+import { getGreekPublicHolidays } from "../lib/holidays";
+import { timeToMinutes } from "../lib/schedule";
+import type { StudioClosureInsert } from "../types/database";
+
+type ClosureDraft = {
+  starts_on: string;
+  ends_on: string;
+  start_time: string;
+  end_time: string;
+  reason: string;
+};
+
+const EMPTY_CLOSURE_DRAFT: ClosureDraft = {
+  starts_on: "",
+  ends_on: "",
+  start_time: "",
+  end_time: "",
+  reason: "",
+};
+
+function formatClosureDates(startsOn: string, endsOn: string): string {
+  const start = parseIsoDate(startsOn).toLocaleDateString("el-GR", { weekday: "short", day: "numeric", month: "short" });
+  if (startsOn === endsOn) {
+    return start;
+  }
+  const end = parseIsoDate(endsOn).toLocaleDateString("el-GR", { weekday: "short", day: "numeric", month: "short" });
+  return `${start} - ${end}`;
+}
+
+export function StudioClosuresPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [draft, setDraft] = useState<ClosureDraft>(EMPTY_CLOSURE_DRAFT);
+
+  const yearStart = `${year}-01-01`;
+  const nextYearStart = `${year + 1}-01-01`;
+
+  const closuresQuery = useQuery({
+    queryKey: ["studio-closures", user?.id, yearStart, nextYearStart],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClosuresForRange(user!.id, yearStart, nextYearStart),
+  });
+
+  const missingHolidays = useMemo(() => {
+    const holidayDates = new Set(
+      (closuresQuery.data ?? []).filter((closure) => closure.source === "holiday").map((closure) => closure.starts_on),
+    );
+    return getGreekPublicHolidays(year).filter((holiday) => !holidayDates.has(holiday.date));
+  }, [closuresQuery.data, year]);
+
+  const invalidateClosures = () => {
+    queryClient.invalidateQueries({ queryKey: ["studio-closures", user?.id] });
+  };
+
+  const addClosuresMutation = useMutation({
+    mutationFn: (rows: StudioClosureInsert[]) => addClosures(rows),
+    onSuccess: (saved) => {
+      invalidateClosures();
+      toast.success(saved.length > 1 ? `Προστέθηκαν ${saved.length} κλεισίματα.` : "Το κλείσιμο προστέθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία προσθήκης κλεισίματος.";
+      toast.error(message);
+    },
+  });
+
+  const deleteClosureMutation = useMutation({
+    mutationFn: deleteClosure,
+    onSuccess: () => {
+      invalidateClosures();
+      toast.success("Το κλείσιμο διαγράφηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία διαγραφής κλεισίματος.";
+      toast.error(message);
+    },
+  });
+
+  const handleAddClosure = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const endsOn = draft.ends_on || draft.starts_on;
+    if (!draft.starts_on) {
+      toast.error("Συμπλήρωσε ημερομηνία έναρξης.");
+      return;
+    }
+    if (endsOn < draft.starts_on) {
+      toast.error("Η λήξη πρέπει να είναι μετά την έναρξη.");
+      return;
+    }
+    if (!draft.reason.trim()) {
+      toast.error("Συμπλήρωσε αιτία κλεισίματος.");
+      return;
+    }
+    const isPartial = Boolean(draft.start_time || draft.end_time);
+    if (isPartial) {
+      const from = timeToMinutes(draft.start_time);
+      const until = timeToMinutes(draft.end_time);
+      if (from == null || until == null || until <= from) {
+        toast.error("Για μερικό κλείσιμο συμπλήρωσε ώρα έναρξης και λήξης, με τη λήξη μετά την έναρξη.");
+        return;
+      }
+    }
+
+    await addClosuresMutation.mutateAsync([
+      {
+        user_id: user!.id,
+        starts_on: draft.starts_on,
+        ends_on: endsOn,
+        start_time: isPartial ? draft.start_time : null,
+        end_time: isPartial ? draft.end_time : null,
+        reason: draft.reason.trim(),
+      },
+    ]);
+    setDraft(EMPTY_CLOSURE_DRAFT);
+  };
+
+  const handleAddHolidays = () => {
+    void addClosuresMutation.mutateAsync(
+      missingHolidays.map((holiday) => ({
+        user_id: user!.id,
+        starts_on: holiday.date,
+        ends_on: holiday.date,
+        reason: holiday.name,
+        source: "holiday",
+      })),
+    );
+  };
+
+  if (closuresQuery.isLoading) {
+    return <div className="status-box">Φόρτωση κλεισιμάτων...</div>;
+  }
+
+  if (closuresQuery.isError) {
+    const message =
+      (closuresQuery.error instanceof Error && closuresQuery.error.message) || "Δεν ήταν δυνατή η φόρτωση κλεισιμάτων.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const closures = closuresQuery.data ?? [];
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-center wrap gap-sm">
+        <h2>Κλεισίματα και αργίες</h2>
+        <Link className="button" to="/settings">
+          Πίσω στις ρυθμίσεις
+        </Link>
+      </div>
+
+      <article className="card stack-sm">
+        <div className="row space-between align-center wrap gap-sm">
+          <div className="row gap-sm align-center">
+            <button type="button" className="button" onClick={() => setYear((previous) => previous - 1)}>
+              ←
+            </button>
+            <h3>{year}</h3>
+            <button type="button" className="button" onClick={() => setYear((previous) => previous + 1)}>
+              →
+            </button>
+          </div>
+          <button
+            type="button"
+            className="button"
+            disabled={!missingHolidays.length || addClosuresMutation.isPending}
+            onClick={handleAddHolidays}
+          >
+            {missingHolidays.length ? `Προσθήκη ${missingHolidays.length} αργιών ${year}` : `Οι αργίες ${year} έχουν προστεθεί`}
+          </button>
+        </div>
+        <p className="muted-text">
+          Στις ημέρες κλεισίματος το ημερολόγιο εμφανίζεται σε γκρι και δεν δέχεται νέες κρατήσεις. Οι επαναλαμβανόμενες
+          σειρές τις παραλείπουν και οι κανόνες πτώσης προσέλευσης και no-show δεν τις μετρούν. Οι κινητές αργίες
+          υπολογίζονται από το ορθόδοξο Πάσχα.
+        </p>
+
+        {closures.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Ημερομηνίες</th>
+                  <th>Ώρες</th>
+                  <th>Αιτία</th>
+                  <th>Τύπος</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {closures.map((closure) => (
+                  <tr key={closure.id}>
+                    <td>{formatClosureDates(closure.starts_on, closure.ends_on)}</td>
+                    <td>
+                      {isFullDayClosure(closure)
+                        ? "Όλη την ημέρα"
+                        : `${closure.start_time?.slice(0, 5)}-${closure.end_time?.slice(0, 5)}`}
+                    </td>
+                    <td>{closure.reason}</td>
+                    <td>{closure.source === "holiday" ? "Αργία" : "Κλείσιμο"}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="button"
+                        disabled={deleteClosureMutation.isPending}
+                        onClick={() => void deleteClosureMutation.mutateAsync(closure.id)}
+                      >
+                        Διαγραφή
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν κλεισίματα για το {year}.</div>
+        )}
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Νέο κλείσιμο</h3>
+        <p className="muted-text">Χωρίς ώρες κλείνει ολόκληρη η ημέρα. Με ώρες κλείνει μόνο αυτό το διάστημα κάθε ημέρας.</p>
+        <form className="row gap-sm wrap align-end" onSubmit={handleAddClosure}>
+          <label className="field-label">
+            <span>Από</span>
+            <input
+              className="input"
+              type="date"
+              value={draft.starts_on}
+              onChange={(event) => setDraft((previous) => ({ ...previous, starts_on: event.target.value }))}
+            />
+          </label>
+          <label className="field-label">
+            <span>Έως (προαιρετικό)</span>
+            <input
+              className="input"
+              type="date"
+              value={draft.ends_on}
+              min={draft.starts_on}
+              onChange={(event) => setDraft((previous) => ({ ...previous, ends_on: event.target.value }))}
+            />
+          </label>
+          <label className="field-label">
+            <span>Ώρα από</span>
+            <input
+              className="input"
+              type="time"
+              value={draft.start_time}
+              onChange={(event) => setDraft((previous) => ({ ...previous, start_time: event.target.value }))}
+            />
+          </label>
+          <label className="field-label">
+            <span>Ώρα έως</span>
+            <input
+              className="input"
+              type="time"
+              value={draft.end_time}
+              onChange={(event) => setDraft((previous) => ({ ...previous, end_time: event.target.value }))}
+            />
+          </label>
+          <label className="field-label">
+            <span>Αιτία</span>
+            <input
+              className="input"
+              value={draft.reason}
+              placeholder="π.χ. Καλοκαιρινές διακοπές"
+              onChange={(event) => setDraft((previous) => ({ ...previous, reason: event.target.value }))}
+            />
+          </label>
+          <button type="submit" className="button button-primary" disabled={addClosuresMutation.isPending}>
+            {addClosuresMutation.isPending ? "Προσθήκη..." : "Προσθήκη"}
+          </button>
+        </form>
+      </article>
+    </section>
+  );
+}
@@ -0,0 +1,859 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "../auth/AuthProvider";
+import {
+  addInstructor,
+  addResource,
+  fetchInstructors,
+  fetchOpeningHours,
+  fetchResources,
+  fetchStudioSettings,
+  updateInstructor,
+  updateResource,
+  updateStudioSettings,
+  upsertOpeningHours,
+} from "../lib/data";
+import { LATE_CANCEL_POLICY_LABELS } from "../lib/lateCancel";
+import { DEFAULT_MAKEUP_CREDIT_VALID_DAYS } from "../lib/makeupCredits";
+import { buildResourceKey, DEFAULT_RESOURCE_CAPACITY } from "../lib/resources";
+import {
+  ISO_WEEKDAY_LABELS,
+  SLOT_MINUTE_OPTIONS,
+  buildDefaultOpeningHours,
+  timeToMinutes,
+  type OpeningHoursDraft,
+} from "../lib/schedule";
+import type { InstructorUpdate, LateCancelPolicy, SlotMinutes, StudioResourceUpdate } from "../types/database";
+
+type ResourceDraft = Required<Pick<StudioResourceUpdate, "label" | "capacity" | "sort_order" | "is_active" | "hard_cap">>;
+type InstructorDraft = Required<Pick<InstructorUpdate, "full_name" | "is_active">>;
+type BusinessDetailsDraft = {
+  business_name: string;
+  business_address: string;
+  business_phone: string;
+  business_vat_number: string;
+};
+
+type LateCancelDraft = {
+  late_cancel_policy: LateCancelPolicy;
+  late_cancel_hours: string;
+  late_cancel_fee: string;
+  makeup_credit_valid_days: string;
+};
+
+const DEFAULT_LATE_CANCEL_DRAFT: LateCancelDraft = {
+  late_cancel_policy: "none",
+  late_cancel_hours: "12",
+  late_cancel_fee: "0",
+  makeup_credit_valid_days: String(DEFAULT_MAKEUP_CREDIT_VALID_DAYS),
+};
+
+const EMPTY_BUSINESS_DETAILS: BusinessDetailsDraft = {
+  business_name: "",
+  business_address: "",
+  business_phone: "",
+  business_vat_number: "",
+};
+
+export function StudioSettingsPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [resourceDrafts, setResourceDrafts] = useState<Record<string, ResourceDraft>>({});
+  const [newResourceLabel, setNewResourceLabel] = useState("");
+  const [newResourceCapacity, setNewResourceCapacity] = useState(String(DEFAULT_RESOURCE_CAPACITY));
+  const [slotMinutesDraft, setSlotMinutesDraft] = useState<SlotMinutes | null>(null);
+  const [openingHoursDraft, setOpeningHoursDraft] = useState<OpeningHoursDraft[]>(buildDefaultOpeningHours());
+  const [instructorDrafts, setInstructorDrafts] = useState<Record<string, InstructorDraft>>({});
+  const [newInstructorName, setNewInstructorName] = useState("");
+  const [businessDetailsDraft, setBusinessDetailsDraft] = useState<BusinessDetailsDraft>(EMPTY_BUSINESS_DETAILS);
+  const [lateCancelDraft, setLateCancelDraft] = useState<LateCancelDraft>(DEFAULT_LATE_CANCEL_DRAFT);
+
+  const resourcesQuery = useQuery({
+    queryKey: ["resources", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchResources(user!.id),
+  });
+
+  const studioSettingsQuery = useQuery({
+    queryKey: ["studio-settings", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchStudioSettings(user!.id),
+  });
+
+  const openingHoursQuery = useQuery({
+    queryKey: ["opening-hours", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchOpeningHours(user!.id),
+  });
+
+  const instructorsQuery = useQuery({
+    queryKey: ["instructors", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchInstructors(user!.id),
+  });
+
+  useEffect(() => {
+    if (studioSettingsQuery.data) {
+      setSlotMinutesDraft(studioSettingsQuery.data.slot_minutes);
+      setBusinessDetailsDraft({
+        business_name: studioSettingsQuery.data.business_name ?? "",
+        business_address: studioSettingsQuery.data.business_address ?? "",
+        business_phone: studioSettingsQuery.data.business_phone ?? "",
+        business_vat_number: studioSettingsQuery.data.business_vat_number ?? "",
+      });
+      setLateCancelDraft({
+        late_cancel_policy: studioSettingsQuery.data.late_cancel_policy,
+        late_cancel_hours: String(studioSettingsQuery.data.late_cancel_hours),
+        late_cancel_fee: String(studioSettingsQuery.data.late_cancel_fee),
+        makeup_credit_valid_days: String(studioSettingsQuery.data.makeup_credit_valid_days),
+      });
+    }
+  }, [studioSettingsQuery.data]);
+
+  useEffect(() => {
+    if (!openingHoursQuery.data) {
+      return;
+    }
+    const byWeekday = new Map(openingHoursQuery.data.map((row) => [row.weekday, row]));
+    setOpeningHoursDraft(
+      buildDefaultOpeningHours().map((fallback) => {
+        const row = byWeekday.get(fallback.weekday);
+        return row
+          ? {
+              weekday: row.weekday,
+              is_closed: row.is_closed,
+              open_time: row.open_time.slice(0, 5),
+              close_time: row.close_time.slice(0, 5),
+            }
+          : fallback;
+      }),
+    );
+  }, [openingHoursQuery.data]);
+
+  useEffect(() => {
+    const nextDrafts: Record<string, ResourceDraft> = {};
+    (resourcesQuery.data ?? []).forEach((resource) => {
+      nextDrafts[resource.id] = {
+        label: resource.label,
+        capacity: resource.capacity,
+        sort_order: resource.sort_order,
+        is_active: resource.is_active,
+        hard_cap: resource.hard_cap,
+      };
+    });
+    setResourceDrafts(nextDrafts);
+  }, [resourcesQuery.data]);
+
+  useEffect(() => {
+    const nextDrafts: Record<string, InstructorDraft> = {};
+    (instructorsQuery.data ?? []).forEach((instructor) => {
+      nextDrafts[instructor.id] = {
+        full_name: instructor.full_name,
+        is_active: instructor.is_active,
+      };
+    });
+    setInstructorDrafts(nextDrafts);
+  }, [instructorsQuery.data]);
+
+  const addResourceMutation = useMutation({
+    mutationFn: (input: { label: string; capacity: number }) => {
+      const resources = resourcesQuery.data ?? [];
+      return addResource({
+        user_id: user!.id,
+        key: buildResourceKey(
+          input.label,
+          resources.map((resource) => resource.key),
+        ),
+        label: input.label,
+        capacity: input.capacity,
+        sort_order: resources.reduce((max, resource) => Math.max(max, resource.sort_order + 1), 0),
+        is_active: true,
+      });
+    },
+    onSuccess: () => {
+      setNewResourceLabel("");
+      setNewResourceCapacity(String(DEFAULT_RESOURCE_CAPACITY));
+      queryClient.invalidateQueries({ queryKey: ["resources", user?.id] });
+      toast.success("Ο εξοπλισμός προστέθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία προσθήκης εξοπλισμού.";
+      toast.error(message);
+    },
+  });
+
+  const updateResourceMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: StudioResourceUpdate }) => updateResource(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resources", user?.id] });
+      toast.success("Ο εξοπλισμός ενημερώθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενημέρωσης εξοπλισμού.";
+      toast.error(message);
+    },
+  });
+
+  const addInstructorMutation = useMutation({
+    mutationFn: (fullName: string) => addInstructor({ user_id: user!.id, full_name: fullName, is_active: true }),
+    onSuccess: () => {
+      setNewInstructorName("");
+      queryClient.invalidateQueries({ queryKey: ["instructors", user?.id] });
+      toast.success("Ο εκπαιδευτής προστέθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία προσθήκης εκπαιδευτή.";
+      toast.error(message);
+    },
+  });
+
+  const updateInstructorMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: InstructorUpdate }) => updateInstructor(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["instructors", user?.id] });
+      toast.success("Ο εκπαιδευτής ενημερώθηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία ενημέρωσης εκπαιδευτή.";
+      toast.error(message);
+    },
+  });
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async () => {
+      await updateStudioSettings(user!.id, { slot_minutes: slotMinutesDraft ?? undefined });
+      await upsertOpeningHours(openingHoursDraft.map((row) => ({ ...row, user_id: user!.id })));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["studio-settings", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["opening-hours", user?.id] });
+      toast.success("Το ωράριο αποθηκεύτηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία αποθήκευσης ωραρίου.";
+      toast.error(message);
+    },
+  });
+
+  const saveWaitlistModeMutation = useMutation({
+    mutationFn: (autoPromote: boolean) => updateStudioSettings(user!.id, { waitlist_auto_promote: autoPromote }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["studio-settings", user?.id] });
+      toast.success("Η ρύθμιση λίστας αναμονής αποθηκεύτηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία αποθήκευσης ρύθμισης.";
+      toast.error(message);
+    },
+  });
+
+  const saveLateCancelPolicyMutation = useMutation({
+    mutationFn: (input: {
+      late_cancel_policy: LateCancelPolicy;
+      late_cancel_hours: number;
+      late_cancel_fee: number;
+      makeup_credit_valid_days: number;
+    }) => updateStudioSettings(user!.id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["studio-settings", user?.id] });
+      toast.success("Η πολιτική ακυρώσεων αποθηκεύτηκε.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία αποθήκευσης πολιτικής ακυρώσεων.";
+      toast.error(message);
+    },
+  });
+
+  const saveBusinessDetailsMutation = useMutation({
+    mutationFn: () =>
+      updateStudioSettings(user!.id, {
+        business_name: businessDetailsDraft.business_name.trim() || null,
+        business_address: businessDetailsDraft.business_address.trim() || null,
+        business_phone: businessDetailsDraft.business_phone.trim() || null,
+        business_vat_number: businessDetailsDraft.business_vat_number.trim() || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["studio-settings", user?.id] });
+      toast.success("Τα στοιχεία αποδείξεων αποθηκεύτηκαν.");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Αποτυχία αποθήκευσης στοιχείων.";
+      toast.error(message);
+    },
+  });
+
+  const updateOpeningHoursDraft = (weekday: number, patch: Partial<OpeningHoursDraft>) => {
+    setOpeningHoursDraft((previous) => previous.map((row) => (row.weekday === weekday ? { ...row, ...patch } : row)));
+  };
+
+  const handleSaveSchedule = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const invalidDay = openingHoursDraft.find((row) => {
+      if (row.is_closed) {
+        return false;
+      }
+      const openMinutes = timeToMinutes(row.open_time);
+      const closeMinutes = timeToMinutes(row.close_time);
+      return openMinutes == null || closeMinutes == null || closeMinutes <= openMinutes;
+    });
+    if (invalidDay) {
+      toast.error(`${ISO_WEEKDAY_LABELS[invalidDay.weekday]}: η ώρα κλεισίματος πρέπει να είναι μετά την ώρα ανοίγματος.`);
+      return;
+    }
+
+    await saveScheduleMutation.mutateAsync();
+  };
+
+  const handleSaveLateCancelPolicy = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const hours = Number.parseInt(lateCancelDraft.late_cancel_hours, 10);
+    const fee = Number.parseFloat(lateCancelDraft.late_cancel_fee.replace(",", "."));
+    if (!Number.isFinite(hours) || hours < 0 || hours > 168) {
+      toast.error("Οι ώρες πρέπει να είναι από 0 έως 168.");
+      return;
+    }
+    if (lateCancelDraft.late_cancel_policy === "fee" && (!Number.isFinite(fee) || fee <= 0)) {
+      toast.error("Συμπλήρωσε ποσό χρέωσης μεγαλύτερο από 0.");
+      return;
+    }
+    const makeupValidDays = Number.parseInt(lateCancelDraft.makeup_credit_valid_days, 10);
+    if (!Number.isFinite(makeupValidDays) || makeupValidDays < 1 || makeupValidDays > 365) {
+      toast.error("Η ισχύς αναπλήρωσης πρέπει να είναι από 1 έως 365 ημέρες.");
+      return;
+    }
+
+    await saveLateCancelPolicyMutation.mutateAsync({
+      late_cancel_policy: lateCancelDraft.late_cancel_policy,
+      late_cancel_hours: hours,
+      late_cancel_fee: Number.isFinite(fee) && fee > 0 ? fee : 0,
+      makeup_credit_valid_days: makeupValidDays,
+    });
+  };
+
+  const updateDraft = (id: string, patch: Partial<ResourceDraft>) => {
+    setResourceDrafts((previous) => ({
+      ...previous,
+      [id]: { ...previous[id], ...patch },
+    }));
+  };
+
+  const updateInstructorDraft = (id: string, patch: Partial<InstructorDraft>) => {
+    setInstructorDrafts((previous) => ({
+      ...previous,
+      [id]: { ...previous[id], ...patch },
+    }));
+  };
+
+  const handleAddResource = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const label = newResourceLabel.trim();
+    const capacity = Number.parseInt(newResourceCapacity, 10);
+
+    if (!label) {
+      toast.error("Συμπλήρωσε όνομα εξοπλισμού.");
+      return;
+    }
+    if (!Number.isFinite(capacity) || capacity < 1) {
+      toast.error("Η χωρητικότητα πρέπει να είναι τουλάχιστον 1.");
+      return;
+    }
+
+    await addResourceMutation.mutateAsync({ label, capacity });
+  };
+
+  const handleSaveResource = async (id: string) => {
+    const draft = resourceDrafts[id];
+    if (!draft) {
+      return;
+    }
+    if (!draft.label.trim()) {
+      toast.error("Συμπλήρωσε όνομα εξοπλισμού.");
+      return;
+    }
+    if (!Number.isFinite(draft.capacity) || draft.capacity < 1) {
+      toast.error("Η χωρητικότητα πρέπει να είναι τουλάχιστον 1.");
+      return;
+    }
+
+    await updateResourceMutation.mutateAsync({
+      id,
+      input: { ...draft, label: draft.label.trim() },
+    });
+  };
+
+  const handleAddInstructor = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const fullName = newInstructorName.trim();
+    if (!fullName) {
+      toast.error("Συμπλήρωσε όνομα εκπαιδευτή.");
+      return;
+    }
+
+    await addInstructorMutation.mutateAsync(fullName);
+  };
+
+  const handleSaveInstructor = async (id: string) => {
+    const draft = instructorDrafts[id];
+    if (!draft) {
+      return;
+    }
+    if (!draft.full_name.trim()) {
+      toast.error("Συμπλήρωσε όνομα εκπαιδευτή.");
+      return;
+    }
+
+    await updateInstructorMutation.mutateAsync({
+      id,
+      input: { ...draft, full_name: draft.full_name.trim() },
+    });
+  };
+
+  if (
+    resourcesQuery.isLoading ||
+    studioSettingsQuery.isLoading ||
+    openingHoursQuery.isLoading ||
+    instructorsQuery.isLoading
+  ) {
+    return <div className="status-box">Φόρτωση ρυθμίσεων...</div>;
+  }
+
+  if (resourcesQuery.isError || studioSettingsQuery.isError || openingHoursQuery.isError || instructorsQuery.isError) {
+    const message =
+      (resourcesQuery.error instanceof Error && resourcesQuery.error.message) ||
+      (studioSettingsQuery.error instanceof Error && studioSettingsQuery.error.message) ||
+      (openingHoursQuery.error instanceof Error && openingHoursQuery.error.message) ||
+      (instructorsQuery.error instanceof Error && instructorsQuery.error.message) ||
+      "Δεν ήταν δυνατή η φόρτωση ρυθμίσεων.";
+    return <div className="status-box status-error">{message}</div>;
+  }
+
+  const resources = resourcesQuery.data ?? [];
+  const instructors = instructorsQuery.data ?? [];
+
+  return (
+    <section className="stack-md">
+      <div className="row space-between align-center wrap gap-sm">
+        <h2>Ρυθμίσεις studio</h2>
+        <div className="row gap-sm wrap">
+          <Link className="button" to="/settings/classes">
+            Ομαδικά μαθήματα
+          </Link>
+          <Link className="button" to="/settings/closures">
+            Κλεισίματα και αργίες
+          </Link>
+        </div>
+      </div>
+
+      <article className="card stack-sm">
+        <h3>Ωράριο λειτουργίας</h3>
+        <p className="muted-text">
+          Το ημερολόγιο εμφανίζει slots μέσα στο ωράριο κάθε ημέρας. Συνεδρίες εκτός ωραρίου παραμένουν ορατές σε γκρι
+          φόντο.
+        </p>
+        <form className="stack-sm" onSubmit={handleSaveSchedule}>
+          <label className="field-label">
+            <span>Διάρκεια slot</span>
+            <select
+              className="input"
+              value={slotMinutesDraft ?? ""}
+              onChange={(event) => setSlotMinutesDraft(Number.parseInt(event.target.value, 10) as SlotMinutes)}
+            >
+              {SLOT_MINUTE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option} λεπτά
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Ημέρα</th>
+                  <th>Κλειστό</th>
+                  <th>Άνοιγμα</th>
+                  <th>Κλείσιμο</th>
+                </tr>
+              </thead>
+              <tbody>
+                {openingHoursDraft.map((row) => (
+                  <tr key={row.weekday}>
+                    <td>{ISO_WEEKDAY_LABELS[row.weekday]}</td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={row.is_closed}
+                        aria-label={`${ISO_WEEKDAY_LABELS[row.weekday]} κλειστό`}
+                        onChange={(event) => updateOpeningHoursDraft(row.weekday, { is_closed: event.target.checked })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        className="input table-input"
+                        type="time"
+                        value={row.open_time}
+                        disabled={row.is_closed}
+                        aria-label={`${ISO_WEEKDAY_LABELS[row.weekday]} άνοιγμα`}
+                        onChange={(event) => updateOpeningHoursDraft(row.weekday, { open_time: event.target.value })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        className="input table-input"
+                        type="time"
+                        value={row.close_time}
+                        disabled={row.is_closed}
+                        aria-label={`${ISO_WEEKDAY_LABELS[row.weekday]} κλείσιμο`}
+                        onChange={(event) => updateOpeningHoursDraft(row.weekday, { close_time: event.target.value })}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="row gap-sm align-end">
+            <button type="submit" className="button button-primary" disabled={saveScheduleMutation.isPending}>
+              {saveScheduleMutation.isPending ? "Αποθήκευση..." : "Αποθήκευση ωραρίου"}
+            </button>
+          </div>
+        </form>
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Εξοπλισμός</h3>
+        <p className="muted-text">
+          Κάθε εξοπλισμός εμφανίζεται ως ξεχωριστή στήλη στο ημερολόγιο. Η χωρητικότητα ορίζει πόσες θέσεις υπάρχουν ανά
+          ώρα. Οι ανενεργοί δεν προσφέρονται σε νέες κρατήσεις, αλλά οι υπάρχουσες συνεδρίες τους παραμένουν ορατές. Με
+          αυστηρό όριο οι κρατήσεις πέρα από τη χωρητικότητα απορρίπτονται και ο πελάτης μπαίνει σε λίστα αναμονής.
+        </p>
+
+        {resources.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Όνομα</th>
+                  <th>Χωρητικότητα</th>
+                  <th>Σειρά</th>
+                  <th>Ενεργός</th>
+                  <th>Αυστηρό όριο</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {resources.map((resource) => {
+                  const draft = resourceDrafts[resource.id];
+                  if (!draft) {
+                    return null;
+                  }
+                  return (
+                    <tr key={resource.id}>
+                      <td>
+                        <input
+                          className="input table-input"
+                          value={draft.label}
+                          aria-label="Όνομα εξοπλισμού"
+                          onChange={(event) => updateDraft(resource.id, { label: event.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="input table-input"
+                          type="number"
+                          min={1}
+                          value={draft.capacity}
+                          aria-label="Χωρητικότητα"
+                          onChange={(event) =>
+                            updateDraft(resource.id, { capacity: Number.parseInt(event.target.value, 10) || 0 })
+                          }
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="input table-input"
+                          type="number"
+                          value={draft.sort_order}
+                          aria-label="Σειρά εμφάνισης"
+                          onChange={(event) =>
+                            updateDraft(resource.id, { sort_order: Number.parseInt(event.target.value, 10) || 0 })
+                          }
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={draft.is_active}
+                          aria-label="Ενεργός εξοπλισμός"
+                          onChange={(event) => updateDraft(resource.id, { is_active: event.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={draft.hard_cap}
+                          aria-label="Αυστηρό όριο θέσεων"
+                          onChange={(event) => updateDraft(resource.id, { hard_cap: event.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="button"
+                          onClick={() => void handleSaveResource(resource.id)}
+                          disabled={updateResourceMutation.isPending}
+                        >
+                          Αποθήκευση
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχει καταχωρημένος εξοπλισμός.</div>
+        )}
+
+        <form className="row gap-sm wrap align-end" onSubmit={handleAddResource}>
+          <label className="field-label">
+            <span>Νέος εξοπλισμός</span>
+            <input
+              className="input"
+              value={newResourceLabel}
+              placeholder="π.χ. CHAIR"
+              onChange={(event) => setNewResourceLabel(event.target.value)}
+            />
+          </label>
+          <label className="field-label">
+            <span>Χωρητικότητα</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              value={newResourceCapacity}
+              onChange={(event) => setNewResourceCapacity(event.target.value)}
+            />
+          </label>
+          <button type="submit" className="button button-primary" disabled={addResourceMutation.isPending}>
+            {addResourceMutation.isPending ? "Προσθήκη..." : "Προσθήκη"}
+          </button>
+        </form>
+
+        <label className="field-label">
+          <span>
+            <input
+              type="checkbox"
+              checked={studioSettingsQuery.data?.waitlist_auto_promote ?? true}
+              disabled={saveWaitlistModeMutation.isPending}
+              onChange={(event) => void saveWaitlistModeMutation.mutateAsync(event.target.checked)}
+            />{" "}
+            Αυτόματη κράτηση από τη λίστα αναμονής όταν ελευθερώνεται θέση
+          </span>
+          <span className="muted-text">
+            Αν είναι απενεργοποιημένο, ο πρώτος στη σειρά λαμβάνει προσφορά θέσης και η κράτηση γίνεται από το ημερολόγιο.
+          </span>
+        </label>
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Εκπαιδευτές</h3>
+        <p className="muted-text">
+          Οι εκπαιδευτές ανατίθενται σε συνεδρίες από το ημερολόγιο. Οι ανενεργοί δεν προσφέρονται σε νέες συνεδρίες.
+        </p>
+
+        {instructors.length ? (
+          <div className="table-wrap">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Ονοματεπώνυμο</th>
+                  <th>Ενεργός</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {instructors.map((instructor) => {
+                  const draft = instructorDrafts[instructor.id];
+                  if (!draft) {
+                    return null;
+                  }
+                  return (
+                    <tr key={instructor.id}>
+                      <td>
+                        <input
+                          className="input table-input"
+                          value={draft.full_name}
+                          aria-label="Ονοματεπώνυμο εκπαιδευτή"
+                          onChange={(event) => updateInstructorDraft(instructor.id, { full_name: event.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={draft.is_active}
+                          aria-label="Ενεργός εκπαιδευτής"
+                          onChange={(event) => updateInstructorDraft(instructor.id, { is_active: event.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="button"
+                          onClick={() => void handleSaveInstructor(instructor.id)}
+                          disabled={updateInstructorMutation.isPending}
+                        >
+                          Αποθήκευση
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-state">Δεν υπάρχουν καταχωρημένοι εκπαιδευτές.</div>
+        )}
+
+        <form className="row gap-sm wrap align-end" onSubmit={handleAddInstructor}>
+          <label className="field-label">
+            <span>Νέος εκπαιδευτής</span>
+            <input
+              className="input"
+              value={newInstructorName}
+              placeholder="Ονοματεπώνυμο"
+              onChange={(event) => setNewInstructorName(event.target.value)}
+            />
+          </label>
+          <button type="submit" className="button button-primary" disabled={addInstructorMutation.isPending}>
+            {addInstructorMutation.isPending ? "Προσθήκη..." : "Προσθήκη"}
+          </button>
+        </form>
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Πολιτική ακυρώσεων</h3>
+        <p className="muted-text">
+          Μια κράτηση που ακυρώνεται λιγότερο από τις ορισμένες ώρες πριν την έναρξη καταγράφεται ως καθυστερημένη
+          ακύρωση. Η χρέωση κρατιέται στη συνεδρία όπως ίσχυε τη στιγμή της ακύρωσης και μπορεί να χαριστεί από το προφίλ
+          πελάτη. Οι νέες αναπληρώσεις λήγουν μετά τις ημέρες ισχύος, εκτός αν οριστεί άλλη λήξη.
+        </p>
+        <form className="row gap-sm wrap align-end" onSubmit={handleSaveLateCancelPolicy}>
+          <label className="field-label">
+            <span>Καθυστερημένη ακύρωση</span>
+            <select
+              className="input"
+              value={lateCancelDraft.late_cancel_policy}
+              onChange={(event) =>
+                setLateCancelDraft((previous) => ({ ...previous, late_cancel_policy: event.target.value as LateCancelPolicy }))
+              }
+            >
+              {(Object.keys(LATE_CANCEL_POLICY_LABELS) as LateCancelPolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {LATE_CANCEL_POLICY_LABELS[policy]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field-label">
+            <span>Ώρες πριν την έναρξη</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              max={168}
+              value={lateCancelDraft.late_cancel_hours}
+              disabled={lateCancelDraft.late_cancel_policy === "none"}
+              onChange={(event) => setLateCancelDraft((previous) => ({ ...previous, late_cancel_hours: event.target.value }))}
+            />
+          </label>
+          {lateCancelDraft.late_cancel_policy === "fee" ? (
+            <label className="field-label">
+              <span>Ποσό (€)</span>
+              <input
+                className="input"
+                inputMode="decimal"
+                value={lateCancelDraft.late_cancel_fee}
+                onChange={(event) => setLateCancelDraft((previous) => ({ ...previous, late_cancel_fee: event.target.value }))}
+              />
+            </label>
+          ) : null}
+          <label className="field-label">
+            <span>Ισχύς αναπλήρωσης (ημέρες)</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              max={365}
+              value={lateCancelDraft.makeup_credit_valid_days}
+              onChange={(event) =>
+                setLateCancelDraft((previous) => ({ ...previous, makeup_credit_valid_days: event.target.value }))
+              }
+            />
+          </label>
+          <button type="submit" className="button button-primary" disabled={saveLateCancelPolicyMutation.isPending}>
+            {saveLateCancelPolicyMutation.isPending ? "Αποθήκευση..." : "Αποθήκευση πολιτικής"}
+          </button>
+        </form>
+      </article>
+
+      <article className="card stack-sm">
+        <h3>Στοιχεία αποδείξεων</h3>
+        <p className="muted-text">Εμφανίζονται στην κεφαλίδα κάθε απόδειξης είσπραξης.</p>
+        <form
+          className="row gap-sm wrap align-end"
+          onSubmit={(event: FormEvent<HTMLFormElement>) => {
+            event.preventDefault();
+            void saveBusinessDetailsMutation.mutateAsync();
+          }}
+        >
+          <label className="field-label">
+            <span>Επωνυμία</span>
+            <input
+              className="input"
+              value={businessDetailsDraft.business_name}
+              onChange={(event) => setBusinessDetailsDraft((previous) => ({ ...previous, business_name: event.target.value }))}
+            />
+          </label>
+          <label className="field-label">
+            <span>Διεύθυνση</span>
+            <input
+              className="input"
+              value={businessDetailsDraft.business_address}
+              onChange={(event) =>
+                setBusinessDetailsDraft((previous) => ({ ...previous, business_address: event.target.value }))
+              }
+            />
+          </label>
+          <label className="field-label">
+            <span>Τηλέφωνο</span>
+            <input
+              className="input"
+              value={businessDetailsDraft.business_phone}
+              onChange={(event) => setBusinessDetailsDraft((previous) => ({ ...previous, business_phone: event.target.value }))}
+            />
+          </label>
+          <label className="field-label">
+            <span>ΑΦΜ</span>
+            <input
+              className="input"
+              value={businessDetailsDraft.business_vat_number}
+              onChange={(event) =>
+                setBusinessDetailsDraft((previous) => ({ ...previous, business_vat_number: event.target.value }))
+              }
+            />
+          </label>
+          <button type="submit" className="button button-primary" disabled={saveBusinessDetailsMutation.isPending}>
+            {saveBusinessDetailsMutation.isPending ? "Αποθήκευση..." : "Αποθήκευση στοιχείων"}
+          </button>
+        </form>
+      </article>
+    </section>
+  );
+}
@@ -4,14 +4,27 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "../auth/AuthProvider";
 import {
   fetchAttendanceForMonth,
+  fetchClientSegments,
+  fetchClientTagAssignments,
+  fetchClientTags,
   fetchClients,
   fetchFollowUpTasks,
-  fetchPaymentsForMonth,
+  fetchUnredeemedMakeupCredits,
+  fetchPackagesForMonth,
   refreshManagementSignals,
 } from "../lib/data";
+import { buildTagIdsByClientId, hasAllTags, matchesClientSegment } from "../lib/clientTags";
 import { addDays, addMonths, startOfMonth, toIsoDate } from "../lib/date";
+import { exportMoney, exportTable, type ExportFormat } from "../lib/export";
 import { formatCurrencyEUR } from "../lib/format";
+import { consumesLesson, isLateCancel } from "../lib/lateCancel";
+import { countUsableCreditsByClient } from "../lib/makeupCredits";
+import { summarizePackagesByClient } from "../lib/packages";
+import { getPackageOutstanding } from "../lib/payments";
+import { ExportButtons } from "../components/ExportButtons";
 import { MonthPicker } from "../components/MonthPicker";
+import { SegmentPicker } from "../components/SegmentPicker";
+import { TagFilter } from "../components/TagFilter";
 
 type ClientControlFilter = "all" | "overused" | "pending" | "unpaid" | "no_package";
 
@@ -33,6 +46,12 @@ type ClientMonthControlRow = {
   isActive: boolean;
   plannedLessons: number;
   attendedLessons: number;
+  /** Late cancels charged as a lesson; they count against the package like attended sessions. */
+  lateCancelLessons: number;
+  /** Booked sessions still to come; they use up a lesson only once attended. */
+  bookedLessons: number;
+  /** Make-up credits the client can still redeem today. */
+  makeupCredits: number;
   delta: number;
   pending: number;
   isOverused: boolean;
@@ -110,6 +129,8 @@ export function SummaryPage() {
   const [showAdvancedMetrics, setShowAdvancedMetrics] = useState(false);
   const [clientControlFilter, setClientControlFilter] = useState<ClientControlFilter>("all");
   const [clientSearch, setClientSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [segmentId, setSegmentId] = useState("");
 
   const now = new Date();
   const todayIso = toIsoDate(now);
@@ -125,6 +146,24 @@ export function SummaryPage() {
     queryFn: () => fetchClients(user!.id),
   });
 
+  const tagsQuery = useQuery({
+    queryKey: ["client-tags", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTags(user!.id),
+  });
+
+  const tagAssignmentsQuery = useQuery({
+    queryKey: ["client-tag-assignments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientTagAssignments(user!.id),
+  });
+
+  const segmentsQuery = useQuery({
+    queryKey: ["client-segments", user?.id],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchClientSegments(user!.id),
+  });
+
   const attendanceMonthQuery = useQuery({
     queryKey: ["attendance", user?.id, monthStart, nextMonthStart, "month-hub"],
     enabled: Boolean(user?.id),
@@ -138,9 +177,15 @@ export function SummaryPage() {
   });
 
   const paymentsQuery = useQuery({
-    queryKey: ["payments", user?.id, monthStart],
+    queryKey: ["packages", user?.id, monthStart],
+    enabled: Boolean(user?.id),
+    queryFn: () => fetchPackagesForMonth(user!.id, monthStart, nextMonthStart),
+  });
+
+  const makeupCreditsQuery = useQuery({
+    queryKey: ["makeup-credits", user?.id, "unredeemed"],
     enabled: Boolean(user?.id),
-    queryFn: () => fetchPaymentsForMonth(user!.id, monthStart),
+    queryFn: () => fetchUnredeemedMakeupCredits(user!.id),
   });
 
   const tasksQuery = useQuery({
@@ -159,6 +204,7 @@ export function SummaryPage() {
         queryClient.invalidateQueries({ queryKey: ["follow-up-tasks", user.id] });
         queryClient.invalidateQueries({ queryKey: ["notifications", user.id] });
         queryClient.invalidateQueries({ queryKey: ["notifications-unread-count", user.id] });
+        queryClient.invalidateQueries({ queryKey: ["attendance", user.id] });
       })
       .catch(() => {
         // Keep summary usable even if background refresh fails.
@@ -167,22 +213,35 @@ export function SummaryPage() {
 
   const clientMonthControlRows = useMemo<ClientMonthControlRow[]>(() => {
     const attendedByClient = new Map<string, number>();
+    const lateCancelLessonsByClient = new Map<string, number>();
+    const bookedByClient = new Map<string, number>();
     (attendanceMonthQuery.data ?? []).forEach((session) => {
+      if (session.status === "booked") {
+        bookedByClient.set(session.client_id, (bookedByClient.get(session.client_id) ?? 0) + 1);
+        return;
+      }
+      if (isLateCancel(session) && session.late_cancel_outcome === "lesson") {
+        lateCancelLessonsByClient.set(session.client_id, (lateCancelLessonsByClient.get(session.client_id) ?? 0) + 1);
+        return;
+      }
       if (session.status !== "attended") {
         return;
       }
       attendedByClient.set(session.client_id, (attendedByClient.get(session.client_id) ?? 0) + 1);
     });
 
-    const paymentByClient = new Map((paymentsQuery.data ?? []).map((payment) => [payment.client_id, payment]));
+    const paymentByClient = summarizePackagesByClient(paymentsQuery.data ?? []);
+    const makeupCreditsByClient = countUsableCreditsByClient(makeupCreditsQuery.data ?? [], todayIso);
 
     return (clientsQuery.data ?? [])
       .map((client) => {
         const payment = paymentByClient.get(client.id);
         const plannedLessons = Math.max(0, payment?.lessons ?? 0);
         const attendedLessons = attendedByClient.get(client.id) ?? 0;
-        const pending = Math.max(0, plannedLessons - attendedLessons);
-        const delta = attendedLessons - plannedLessons;
+        const lateCancelLessons = lateCancelLessonsByClient.get(client.id) ?? 0;
+        const usedLessons = attendedLessons + lateCancelLessons;
+        const pending = Math.max(0, plannedLessons - usedLessons);
+        const delta = usedLessons - plannedLessons;
         return {
           clientId: client.id,
           fullName: client.full_name,
@@ -190,6 +249,9 @@ export function SummaryPage() {
           isActive: client.is_active,
           plannedLessons,
           attendedLessons,
+          lateCancelLessons,
+          bookedLessons: bookedByClient.get(client.id) ?? 0,
+          makeupCredits: makeupCreditsByClient.get(client.id) ?? 0,
           delta,
           pending,
           isOverused: delta > 0,
@@ -204,7 +266,7 @@ export function SummaryPage() {
         }
         return a.fullName.localeCompare(b.fullName);
       });
-  }, [attendanceMonthQuery.data, clientsQuery.data, paymentsQuery.data]);
+  }, [attendanceMonthQuery.data, clientsQuery.data, makeupCreditsQuery.data, paymentsQuery.data, todayIso]);
 
   const clientControlCounts = useMemo(() => {
     return {
@@ -216,35 +278,84 @@ export function SummaryPage() {
     };
   }, [clientMonthControlRows]);
 
+  const tagIdsByClientId = useMemo(
+    () => buildTagIdsByClientId(tagAssignmentsQuery.data ?? []),
+    [tagAssignmentsQuery.data],
+  );
+
+  const selectedSegment = useMemo(
+    () => (segmentsQuery.data ?? []).find((segment) => segment.id === segmentId) ?? null,
+    [segmentId, segmentsQuery.data],
+  );
+
   const filteredClientControlRows = useMemo(() => {
     const normalizedSearch = clientSearch.trim().toLowerCase();
     return clientMonthControlRows.filter((row) => {
       if (!matchesClientControlFilter(row, clientControlFilter)) {
         return false;
       }
+      const clientTagIds = tagIdsByClientId.get(row.clientId);
+      if (!hasAllTags(clientTagIds, tagFilter)) {
+        return false;
+      }
+      if (
+        selectedSegment &&
+        !matchesClientSegment(
+          {
+            isActive: row.isActive,
+            paymentStatus: !row.hasPaymentRow ? "no_record" : row.paid ? "paid" : "unpaid",
+            tagIds: clientTagIds,
+          },
+          selectedSegment.filters,
+        )
+      ) {
+        return false;
+      }
       if (!normalizedSearch) {
         return true;
       }
       const haystack = `${row.fullName} ${row.phone ?? ""}`.toLowerCase();
       return haystack.includes(normalizedSearch);
     });
-  }, [clientControlFilter, clientMonthControlRows, clientSearch]);
+  }, [clientControlFilter, clientMonthControlRows, clientSearch, selectedSegment, tagFilter, tagIdsByClientId]);
+
+  const handleExportClientControl = (format: ExportFormat) => {
+    exportTable(format, {
+      filename: `month-control-${monthStart.slice(0, 7)}`,
+      sheetName: `Έλεγχος ${monthStart.slice(0, 7)}`,
+      rows: filteredClientControlRows,
+      columns: [
+        { header: "Πελάτης", value: (row) => row.fullName },
+        { header: "Τηλέφωνο", value: (row) => row.phone },
+        { header: "Ενεργός", value: (row) => row.isActive },
+        { header: "Μαθήματα πακέτου", value: (row) => row.plannedLessons },
+        { header: "Παρακολουθήσεις", value: (row) => row.attendedLessons },
+        { header: "Καθυστερημένες ακυρώσεις", value: (row) => row.lateCancelLessons },
+        { header: "Κρατήσεις", value: (row) => row.bookedLessons },
+        { header: "Διαφορά", value: (row) => row.delta },
+        { header: "Εκκρεμή", value: (row) => row.pending },
+        { header: "Αναπληρώσεις", value: (row) => row.makeupCredits },
+        { header: "Πληρωμένο", value: (row) => row.paid },
+        { header: "Τιμή", value: (row) => exportMoney(row.price) },
+      ],
+    });
+  };
 
   const advancedSignals = useMemo<AdvancedSignalRow[]>(() => {
     const clients = (clientsQuery.data ?? []).filter((client) => client.is_active);
-    const paymentsByClient = new Map((paymentsQuery.data ?? []).map((payment) => [payment.client_id, payment]));
+    const paymentsByClient = summarizePackagesByClient(paymentsQuery.data ?? []);
 
     const openTasksByClient = new Map<string, number>();
     (tasksQuery.data ?? []).forEach((task) => {
       openTasksByClient.set(task.client_id, (openTasksByClient.get(task.client_id) ?? 0) + 1);
     });
 
-    const attendedMonthByClient = new Map<string, number>();
+    const usedMonthByClient = new Map<string, number>();
     (attendanceMonthQuery.data ?? []).forEach((session) => {
-      if (session.status !== "attended") {
+      if (!consumesLesson(session)) {
         return;
       }
-      attendedMonthByClient.set(session.client_id, (attendedMonthByClient.get(session.client_id) ?? 0) + 1);
+      usedMonthByClient.set(session.client_id, (usedMonthByClient.get(session.client_id) ?? 0) + 1);
     });
 
     const noShow28ByClient = new Map<string, number>();
@@ -268,8 +379,8 @@ export function SummaryPage() {
       .map((client) => {
         const payment = paymentsByClient.get(client.id);
         const plannedLessons = payment?.lessons ?? 0;
-        const attendedLessons = attendedMonthByClient.get(client.id) ?? 0;
-        const pendingLessons = Math.max(0, plannedLessons - attendedLessons);
+        const usedLessons = usedMonthByClient.get(client.id) ?? 0;
+        const pendingLessons = Math.max(0, plannedLessons - usedLessons);
         const noShow28 = noShow28ByClient.get(client.id) ?? 0;
         const attendedRecent28 = attendedRecent28ByClient.get(client.id) ?? 0;
         const attendedPrevious28 = attendedPrevious28ByClient.get(client.id) ?? 0;
@@ -316,16 +427,19 @@ export function SummaryPage() {
   ]);
 
   const advancedOverview = useMemo(() => {
-    const rollingRecent = (attendanceRollingQuery.data ?? []).filter((session) => session.session_date >= recent28Start);
+    // Booked sessions have no outcome yet, so they do not dilute the no-show ratio.
+    const rollingRecent = (attendanceRollingQuery.data ?? []).filter(
+      (session) => session.session_date >= recent28Start && session.status !== "booked",
+    );
     const noShowCount = rollingRecent.filter((session) => session.status === "no_show").length;
     const noShowRatio = rollingRecent.length ? noShowCount / rollingRecent.length : 0;
 
     const overdueTasks = (tasksQuery.data ?? []).filter((task) => task.due_date < todayIso).length;
     const openTasks = (tasksQuery.data ?? []).length;
 
-    const unpaidPayments = (paymentsQuery.data ?? []).filter((payment) => !payment.paid);
-    const unpaidClients = unpaidPayments.length;
-    const unpaidAmount = unpaidPayments.reduce((sum, payment) => sum + (payment.price ?? 0), 0);
+    const unpaidPackages = (paymentsQuery.data ?? []).filter((lessonPackage) => !lessonPackage.paid);
+    const unpaidClients = new Set(unpaidPackages.map((lessonPackage) => lessonPackage.client_id)).size;
+    const unpaidAmount = unpaidPackages.reduce((sum, lessonPackage) => sum + getPackageOutstanding(lessonPackage), 0);
 
     const streakBreaks = advancedSignals.filter((row) => row.streakBreak).length;
     const highRiskClients = advancedSignals.filter((row) => row.riskScore >= 70).length;
@@ -346,6 +460,7 @@ export function SummaryPage() {
     attendanceMonthQuery.isLoading ||
     attendanceRollingQuery.isLoading ||
     paymentsQuery.isLoading ||
+    makeupCreditsQuery.isLoading ||
     tasksQuery.isLoading
   ) {
     return <div className="status-box">Φόρτωση σύνοψης...</div>;
@@ -356,6 +471,7 @@ export function SummaryPage() {
     attendanceMonthQuery.isError ||
     attendanceRollingQuery.isError ||
     paymentsQuery.isError ||
+    makeupCreditsQuery.isError ||
     tasksQuery.isError
   ) {
     const message =
@@ -363,6 +479,7 @@ export function SummaryPage() {
       (attendanceMonthQuery.error instanceof Error && attendanceMonthQuery.error.message) ||
       (attendanceRollingQuery.error instanceof Error && attendanceRollingQuery.error.message) ||
       (paymentsQuery.error instanceof Error && paymentsQuery.error.message) ||
+      (makeupCreditsQuery.error instanceof Error && makeupCreditsQuery.error.message) ||
       (tasksQuery.error instanceof Error && tasksQuery.error.message) ||
       "Δεν ήταν δυνατή η φόρτωση της σύνοψης.";
     return <div className="status-box status-error">{message}</div>;
@@ -375,7 +492,10 @@ export function SummaryPage() {
       </div>
 
       <article className="card stack-sm">
-        <h3>Έλεγχος πελατών μήνα</h3>
+        <div className="client-profile-section-toolbar">
+          <h3>Έλεγχος πελατών μήνα</h3>
+          <ExportButtons disabled={!filteredClientControlRows.length} onExport={handleExportClientControl} />
+        </div>
         <div className="client-control-toolbar">
           <label className="field-label client-control-search">
             <span>Αναζήτηση πελάτη</span>
@@ -425,7 +545,20 @@ export function SummaryPage() {
               Χωρίς πακέτο ({clientControlCounts.no_package})
             </button>
           </div>
+
+          <SegmentPicker
+            segments={segmentsQuery.data ?? []}
+            tags={tagsQuery.data ?? []}
+            value={segmentId}
+            onChange={setSegmentId}
+          />
         </div>
+        <TagFilter
+          tags={tagsQuery.data ?? []}
+          selectedTagIds={tagFilter}
+          onChange={setTagFilter}
+          allLabel="Όλες οι ετικέτες"
+        />
 
         {filteredClientControlRows.length ? (
           <div className="table-wrap">
@@ -437,6 +570,7 @@ export function SummaryPage() {
                   <th>Παρακολουθήσεις</th>
                   <th>Διαφορά</th>
                   <th>Εκκρεμή</th>
+                  <th>Αναπληρώσεις</th>
                   <th>Πληρωμή</th>
                   <th>Ενέργεια</th>
                 </tr>
@@ -464,11 +598,18 @@ export function SummaryPage() {
                       {row.phone ? <div className="muted-text">{row.phone}</div> : null}
                     </td>
                     <td>{row.plannedLessons}</td>
-                    <td>{row.attendedLessons}</td>
+                    <td>
+                      {row.attendedLessons}
+                      {row.lateCancelLessons ? (
+                        <div className="muted-text">+{row.lateCancelLessons} καθυστ. ακυρώσεις</div>
+                      ) : null}
+                      {row.bookedLessons ? <div className="muted-text">{row.bookedLessons} κρατήσεις</div> : null}
+                    </td>
                     <td className={row.delta > 0 ? "client-control-delta-over" : undefined}>
                       {row.delta > 0 ? `+${row.delta}` : row.delta}
                     </td>
                     <td>{row.pending}</td>
+                    <td>{row.makeupCredits}</td>
                     <td>
                       {!row.hasPaymentRow ? (
                         <span className="client-control-badge client-control-badge-muted">Χωρίς πακέτο</span>
@@ -2,7 +2,7 @@ import { Navigate, Outlet, useLocation } from "react-router-dom";
 import { useAuth } from "../auth/AuthProvider";
 
 export function ProtectedRoute() {
-  const { user, isLoading } = useAuth();
+  const { user, role, isLoading } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
@@ -13,6 +13,15 @@ export function ProtectedRoute() {
     return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
+  // The kiosk's anonymous session has nothing to show elsewhere; RLS already hides the owner's rows.
+  const isKioskPath = location.pathname === "/kiosk";
+  if (role === "kiosk" && !isKioskPath) {
+    return <Navigate to="/kiosk" replace />;
+  }
+  if (role === "owner" && isKioskPath) {
+    return <Navigate to="/calendar" replace />;
+  }
+
   return <Outlet />;
 }
 
@@ -2,28 +2,148 @@ export type Client = {
   id: string;
   full_name: string;
   phone: string | null;
+  email: string | null;
+  date_of_birth: string | null;
+  emergency_contact_name: string | null;
+  emergency_contact_phone: string | null;
+  injuries: string | null;
+  contraindications: string | null;
+  is_pregnant: boolean;
+  physio_cleared: boolean;
+  physio_cleared_on: string | null;
+  /** Four digits the client enters at the reception kiosk. */
+  kiosk_pin: string | null;
   is_active: boolean;
   created_at: string;
   user_id: string;
 };
 
-export type Payment = {
+export type ClientPackage = {
   id: string;
+  user_id: string;
   client_id: string;
-  month_start: string;
-  lessons: number | null;
+  purchase_date: string;
+  lessons: number;
+  expires_on: string | null;
   price: number | null;
+  paid_amount: number;
+  /** Derived in the database: true once `paid_amount` covers `price`. */
   paid: boolean;
   notes: string | null;
+  legacy_payment_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PaymentMethod = "cash" | "card" | "bank_transfer" | "other";
+
+export type PaymentTransaction = {
+  id: string;
+  user_id: string;
+  client_id: string;
+  package_id: string | null;
+  amount: number;
+  paid_on: string;
+  method: PaymentMethod;
+  notes: string | null;
+  created_at: string;
+};
+
+export type PaymentTransactionInsert = {
+  user_id: string;
+  client_id: string;
+  package_id: string | null;
+  amount: number;
+  paid_on: string;
+  method: PaymentMethod;
+  notes: string | null;
+};
+
+export type ConsentType = "waiver" | "gdpr";
+
+export type ClientConsent = {
+  id: string;
   user_id: string;
+  client_id: string;
+  consent_type: ConsentType;
+  version: string;
+  signed_on: string;
+  expires_on: string | null;
+  signer_name: string;
+  /** PNG data URL of the drawn signature, or null when only the name was typed. */
+  signature_data: string | null;
   created_at: string;
 };
 
-export type AttendanceStatus = "attended" | "canceled" | "no_show";
-export type AttendanceBedType = "reformer" | "cadillac";
+export type ClientConsentInsert = {
+  user_id: string;
+  client_id: string;
+  consent_type: ConsentType;
+  version: string;
+  signed_on: string;
+  expires_on: string | null;
+  signer_name: string;
+  signature_data: string | null;
+};
+
+/** Issued by the `issue_receipt` RPC; client and payment details are copied at issue time. */
+export type Receipt = {
+  id: string;
+  user_id: string;
+  receipt_number: number;
+  transaction_id: string | null;
+  client_id: string;
+  client_name: string;
+  amount: number;
+  method: PaymentMethod;
+  paid_on: string;
+  period_start: string | null;
+  period_end: string | null;
+  lessons: number | null;
+  issued_at: string;
+};
+
+/** End-of-day count; expected totals are the day's transactions at the time of closing. */
+export type CashReconciliation = {
+  id: string;
+  user_id: string;
+  business_date: string;
+  expected_cash: number;
+  counted_cash: number;
+  cash_difference: number;
+  expected_card: number;
+  counted_card: number;
+  card_difference: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CashReconciliationUpsert = {
+  user_id: string;
+  business_date: string;
+  expected_cash: number;
+  counted_cash: number;
+  expected_card: number;
+  counted_card: number;
+  notes: string | null;
+};
+
+export type AttendanceStatus = "booked" | "attended" | "canceled" | "no_show";
+export type AttendanceBedType = string;
+/** What a late cancel cost the client, fixed when the session was canceled. */
+export type LateCancelOutcome = "lesson" | "fee";
+export type LateCancelPolicy = "none" | "count_lesson" | "fee";
 export type FollowUpTaskPriority = "high" | "medium" | "low";
 export type FollowUpTaskStatus = "open" | "in_progress" | "done" | "dismissed";
-export type NotificationType = "no_show_risk" | "attendance_drop" | "pending_unpaid_risk" | "manual";
+export type NotificationType =
+  | "no_show_risk"
+  | "attendance_drop"
+  | "pending_unpaid_risk"
+  | "consent_missing"
+  | "waitlist_promoted"
+  | "waitlist_offered"
+  | "manual";
 
 export type Attendance = {
   id: string;
@@ -35,7 +155,288 @@ export type Attendance = {
   bed_type: AttendanceBedType;
   status: AttendanceStatus;
   notes: string | null;
+  series_id: string | null;
+  instructor_id: string | null;
+  canceled_at: string | null;
+  late_cancel_outcome: LateCancelOutcome | null;
+  late_cancel_fee: number | null;
+  /** Set on roster entries of a group class. */
+  class_session_id: string | null;
+  /** Set when the client checked in at the reception kiosk. */
+  checked_in_at: string | null;
+  created_at: string;
+};
+
+/** A booking as the reception kiosk sees it: first name and last initial only. */
+export type KioskBooking = {
+  attendance_id: string;
+  display_name: string;
+  time_start: string;
+  resource_label: string;
+  status: Extract<AttendanceStatus, "booked" | "attended">;
+  checked_in_at: string | null;
+};
+
+export type KioskCheckIn = {
+  display_name: string;
+  time_start: string;
+};
+
+/** The owner a reception tablet's anonymous session is paired with. */
+export type KioskDevice = {
+  owner_email: string;
+  paired_at: string;
+};
+
+export type SessionSeries = {
+  id: string;
+  user_id: string;
+  client_id: string;
+  start_date: string;
+  end_date: string | null;
+  occurrence_count: number | null;
+  interval_weeks: number;
+  time_start: string;
+  duration_minutes: number | null;
+  bed_type: AttendanceBedType;
+  instructor_id: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SessionSeriesInsert = {
+  user_id: string;
+  client_id: string;
+  start_date: string;
+  end_date: string | null;
+  occurrence_count: number | null;
+  interval_weeks: number;
+  time_start: string;
+  duration_minutes: number | null;
+  bed_type: AttendanceBedType;
+  instructor_id?: string | null;
+  notes: string | null;
+};
+
+export type StudioResource = {
+  id: string;
+  user_id: string;
+  key: AttendanceBedType;
+  label: string;
+  capacity: number;
+  sort_order: number;
+  is_active: boolean;
+  /** When set, the database refuses bookings beyond `capacity` in a slot. */
+  hard_cap: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type StudioResourceInsert = {
+  user_id: string;
+  key: AttendanceBedType;
+  label: string;
+  capacity: number;
+  sort_order: number;
+  is_active?: boolean;
+  hard_cap?: boolean;
+};
+
+export type StudioResourceUpdate = {
+  label?: string;
+  capacity?: number;
+  sort_order?: number;
+  is_active?: boolean;
+  hard_cap?: boolean;
+  updated_at?: string;
+};
+
+export type Instructor = {
+  id: string;
+  user_id: string;
+  full_name: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type InstructorInsert = {
+  user_id: string;
+  full_name: string;
+  is_active?: boolean;
+};
+
+export type InstructorUpdate = {
+  full_name?: string;
+  is_active?: boolean;
+  updated_at?: string;
+};
+
+export type ClassType = {
+  id: string;
+  user_id: string;
+  name: string;
+  bed_type: AttendanceBedType;
+  capacity: number;
+  default_duration_minutes: number;
+  instructor_id: string | null;
+  price: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ClassTypeInsert = {
+  user_id: string;
+  name: string;
+  bed_type: AttendanceBedType;
+  capacity: number;
+  default_duration_minutes: number;
+  instructor_id?: string | null;
+  price?: number | null;
+};
+
+export type ClassTypeUpdate = {
+  name?: string;
+  bed_type?: AttendanceBedType;
+  capacity?: number;
+  default_duration_minutes?: number;
+  instructor_id?: string | null;
+  price?: number | null;
+  is_active?: boolean;
+  updated_at?: string;
+};
+
+/** One scheduled instance of a class type; its roster is the attendance rows pointing at it. */
+export type ClassSession = {
+  id: string;
+  user_id: string;
+  class_type_id: string;
+  session_date: string;
+  time_start: string;
+  duration_minutes: number | null;
+  capacity: number;
+  instructor_id: string | null;
+  notes: string | null;
+  created_at: string;
+};
+
+export type ClassSessionInsert = {
+  user_id: string;
+  class_type_id: string;
+  session_date: string;
+  time_start: string;
+  duration_minutes: number | null;
+  capacity: number;
+  instructor_id?: string | null;
+  notes?: string | null;
+};
+
+export type PayRateType = "per_session" | "per_hour";
+
+export type InstructorPayRate = {
+  id: string;
+  user_id: string;
+  instructor_id: string;
+  bed_type: AttendanceBedType | null;
+  rate_type: PayRateType;
+  amount: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type InstructorPayRateInsert = {
+  user_id: string;
+  instructor_id: string;
+  bed_type: AttendanceBedType | null;
+  rate_type: PayRateType;
+  amount: number;
+};
+
+export type InstructorPayRateUpdate = {
+  bed_type?: AttendanceBedType | null;
+  rate_type?: PayRateType;
+  amount?: number;
+  updated_at?: string;
+};
+
+export type SlotMinutes = 15 | 30 | 60;
+
+export type StudioSettings = {
+  user_id: string;
+  slot_minutes: SlotMinutes;
+  business_name: string | null;
+  business_address: string | null;
+  business_phone: string | null;
+  business_vat_number: string | null;
+  waitlist_auto_promote: boolean;
+  late_cancel_policy: LateCancelPolicy;
+  /** Cancellations less than this many hours before the start are late. */
+  late_cancel_hours: number;
+  late_cancel_fee: number;
+  makeup_credit_valid_days: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type StudioSettingsUpdate = {
+  slot_minutes?: SlotMinutes;
+  business_name?: string | null;
+  business_address?: string | null;
+  business_phone?: string | null;
+  business_vat_number?: string | null;
+  waitlist_auto_promote?: boolean;
+  late_cancel_policy?: LateCancelPolicy;
+  late_cancel_hours?: number;
+  late_cancel_fee?: number;
+  makeup_credit_valid_days?: number;
+  updated_at?: string;
+};
+
+export type StudioOpeningHours = {
+  id: string;
+  user_id: string;
+  weekday: number;
+  is_closed: boolean;
+  open_time: string;
+  close_time: string;
   created_at: string;
+  updated_at: string;
+};
+
+export type StudioOpeningHoursUpsert = {
+  user_id: string;
+  weekday: number;
+  is_closed: boolean;
+  open_time: string;
+  close_time: string;
+  updated_at?: string;
+};
+
+export type StudioClosureSource = "manual" | "holiday";
+
+/** Closed day range; with `start_time`/`end_time` only that part of each day is closed. */
+export type StudioClosure = {
+  id: string;
+  user_id: string;
+  starts_on: string;
+  ends_on: string;
+  start_time: string | null;
+  end_time: string | null;
+  reason: string;
+  source: StudioClosureSource;
+  created_at: string;
+};
+
+export type StudioClosureInsert = {
+  user_id: string;
+  starts_on: string;
+  ends_on: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  reason: string;
+  source?: StudioClosureSource;
 };
 
 export type FollowUpTask = {
@@ -92,9 +493,13 @@ export type AutomationSettings = {
   no_show_risk_enabled: boolean;
   attendance_drop_enabled: boolean;
   pending_unpaid_risk_enabled: boolean;
+  consent_missing_enabled: boolean;
   no_show_threshold: number;
   pending_lessons_threshold: number;
   attendance_drop_ratio: number;
+  consent_expiry_warning_days: number;
+  /** Daily refresh marks past sessions still booked as attended. */
+  auto_mark_attended_enabled: boolean;
   last_refreshed_at: string | null;
   created_at: string;
   updated_at: string;
@@ -104,9 +509,12 @@ export type AutomationSettingsUpdate = {
   no_show_risk_enabled?: boolean;
   attendance_drop_enabled?: boolean;
   pending_unpaid_risk_enabled?: boolean;
+  consent_missing_enabled?: boolean;
   no_show_threshold?: number;
   pending_lessons_threshold?: number;
   attendance_drop_ratio?: number;
+  consent_expiry_warning_days?: number;
+  auto_mark_attended_enabled?: boolean;
   updated_at?: string;
 };
 
@@ -131,20 +539,163 @@ export type ManagementSignalsRefresh = {
   refreshed_at: string;
 };
 
+export type ClientTag = {
+  id: string;
+  user_id: string;
+  name: string;
+  /** `#rrggbb` */
+  color: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ClientTagInsert = {
+  user_id: string;
+  name: string;
+  color: string;
+};
+
+export type ClientTagUpdate = {
+  name?: string;
+  color?: string;
+  updated_at?: string;
+};
+
+export type ClientTagAssignment = {
+  client_id: string;
+  tag_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+export type SegmentClientStatus = "all" | "active" | "inactive";
+export type SegmentPaymentStatus = "all" | "unpaid" | "paid" | "no_record";
+
+/** Payment status refers to the month shown on the page applying the segment. */
+export type ClientSegmentFilters = {
+  client_status: SegmentClientStatus;
+  payment_status: SegmentPaymentStatus;
+  tag_ids: string[];
+};
+
+export type ClientSegment = {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: ClientSegmentFilters;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ClientSegmentInsert = {
+  user_id: string;
+  name: string;
+  filters: ClientSegmentFilters;
+};
+
+export type WaitlistStatus = "waiting" | "offered" | "promoted" | "removed";
+
+export type WaitlistEntry = {
+  id: string;
+  user_id: string;
+  client_id: string;
+  session_date: string;
+  time_start: string;
+  bed_type: AttendanceBedType;
+  status: WaitlistStatus;
+  notes: string | null;
+  attendance_id: string | null;
+  created_at: string;
+  resolved_at: string | null;
+};
+
+export type WaitlistEntryInsert = {
+  user_id: string;
+  client_id: string;
+  session_date: string;
+  time_start: string;
+  bed_type: AttendanceBedType;
+  notes?: string | null;
+};
+
+export type MakeupCreditReason = "studio_cancel" | "client_cancel" | "other";
+
+/** A lesson owed to a client; redeemed while `redeemed_attendance_id` points at a booked session. */
+export type MakeupCredit = {
+  id: string;
+  user_id: string;
+  client_id: string;
+  reason: MakeupCreditReason;
+  origin_attendance_id: string | null;
+  expires_on: string | null;
+  redeemed_attendance_id: string | null;
+  notes: string | null;
+  created_at: string;
+};
+
+export type MakeupCreditInsert = {
+  user_id: string;
+  client_id: string;
+  reason: MakeupCreditReason;
+  origin_attendance_id?: string | null;
+  expires_on: string | null;
+  notes?: string | null;
+};
+
+/** Written by the `merge_clients` RPC; the source client no longer exists. */
+export type ClientMergeLog = {
+  id: string;
+  user_id: string;
+  source_client_id: string;
+  source_client_name: string;
+  source_snapshot: Client;
+  target_client_id: string;
+  target_client_name: string;
+  moved_counts: Record<string, number>;
+  resolved_conflicts: Record<string, number>;
+  merged_at: string;
+};
+
 export type ClientInsert = {
   full_name: string;
   phone: string | null;
   user_id: string;
+  is_active?: boolean;
 };
 
-export type PaymentUpsertInput = {
+export type ClientUpdate = {
+  full_name?: string;
+  phone?: string | null;
+  email?: string | null;
+  date_of_birth?: string | null;
+  emergency_contact_name?: string | null;
+  emergency_contact_phone?: string | null;
+  injuries?: string | null;
+  contraindications?: string | null;
+  is_pregnant?: boolean;
+  physio_cleared?: boolean;
+  physio_cleared_on?: string | null;
+  kiosk_pin?: string | null;
+  is_active?: boolean;
+};
+
+export type ClientPackageInsert = {
+  user_id: string;
   client_id: string;
-  month_start: string;
-  lessons: number | null;
+  purchase_date: string;
+  lessons: number;
+  expires_on: string | null;
   price: number | null;
-  paid: boolean;
   notes: string | null;
-  user_id: string;
+};
+
+export type ClientPackageUpdate = {
+  purchase_date?: string;
+  lessons?: number;
+  expires_on?: string | null;
+  price?: number | null;
+  notes?: string | null;
+  updated_at?: string;
 };
 
 export type AttendanceInsert = {
@@ -156,6 +707,9 @@ export type AttendanceInsert = {
   bed_type: AttendanceBedType;
   status: AttendanceStatus;
   notes: string | null;
+  series_id?: string | null;
+  instructor_id?: string | null;
+  class_session_id?: string | null;
 };
 
 export type AttendanceUpdate = {
@@ -164,7 +718,17 @@ export type AttendanceUpdate = {
   time_start: string;
   duration_minutes: number | null;
   bed_type: AttendanceBedType;
+  instructor_id: string | null;
   status: AttendanceStatus;
   notes: string | null;
 };
 
+export type AttendanceSeriesUpdate = {
+  client_id: string;
+  time_start: string;
+  duration_minutes: number | null;
+  bed_type: AttendanceBedType;
+  instructor_id: string | null;
+  status: AttendanceStatus;
+  notes: string | null;
+};